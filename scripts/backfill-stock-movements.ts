@@ -0,0 +1,198 @@
+/**
+ * Backfill script for the stockMovements ledger
+ *
+ * Before the ledger existed, inventory history was reconstructed in the UI by
+ * pattern-matching free-text activity log details. This script performs that
+ * parsing one last time and writes the results as structured stockMovements:
+ * - Store items added from a batch        -> batch_output (+)
+ * - Raw materials consumed by a batch     -> batch_consumption (-)
+ * - Final stock batch entries             -> batch_output (+)
+ * - Orders                                -> order_fulfilment (-)
+ *
+ * The script refuses to run if the ledger already has entries.
+ *
+ * Run this script once to migrate existing data:
+ * npx tsx scripts/backfill-stock-movements.ts [--dry-run]
+ */
+
+import { initializeApp, cert, getApps } from "firebase-admin/app";
+import { getFirestore } from "firebase-admin/firestore";
+import * as path from "path";
+import * as fs from "fs";
+
+type LegacyMovement = {
+  itemId: string;
+  itemKind: "RawMaterial" | "StoreItem" | "FinalStock";
+  itemName: string;
+  quantity: number;
+  unit: string;
+  reason: "batch_consumption" | "batch_output" | "order_fulfilment";
+  batchId?: string;
+  orderId?: string;
+  user: string;
+  timestamp: string;
+};
+
+// Initialize Firebase Admin
+function initAdmin() {
+  if (getApps().length > 0) {
+    return getFirestore();
+  }
+
+  const serviceAccountPath = path.join(process.cwd(), "serviceAccountKey.json");
+
+  if (!fs.existsSync(serviceAccountPath)) {
+    throw new Error(
+      "serviceAccountKey.json not found. Please add your Firebase service account key."
+    );
+  }
+
+  const serviceAccount = JSON.parse(
+    fs.readFileSync(serviceAccountPath, "utf8")
+  );
+
+  initializeApp({
+    credential: cert(serviceAccount),
+  });
+
+  return getFirestore();
+}
+
+async function main() {
+  const dryRun = process.argv.includes("--dry-run");
+  const db = initAdmin();
+
+  const existing = await db.collection("stockMovements").limit(1).get();
+  if (!existing.empty) {
+    console.log("stockMovements already contains entries; nothing to backfill.");
+    return;
+  }
+
+  const [materialsSnap, finalStockSnap, ordersSnap, logsSnap] = await Promise.all([
+    db.collection("rawMaterials").get(),
+    db.collection("finalStock").get(),
+    db.collection("orders").get(),
+    db.collection("activityLog").get(),
+  ]);
+
+  const materials = new Map(materialsSnap.docs.map((d) => [d.id, d.data()]));
+  const movements: LegacyMovement[] = [];
+
+  for (const logSnap of logsSnap.docs) {
+    const log = logSnap.data();
+    const material = materials.get(log.recordId);
+    if (!material) continue;
+
+    const details: string = log.details || "";
+    const isStoreItem = Boolean(material.isMoulded || material.isFinished || material.isAssembled);
+    const base = {
+      itemId: log.recordId as string,
+      itemKind: isStoreItem ? ("StoreItem" as const) : ("RawMaterial" as const),
+      itemName: (material.name as string) || log.recordId,
+      unit: (material.unit as string) || "pcs",
+      user: (log.user as string) || "System",
+      timestamp: log.timestamp as string,
+    };
+
+    // "X moulded items from batch BATCH-ID added to Store"
+    if (details.includes("added to Store")) {
+      const batchMatch = details.match(/batch\s+([A-Z0-9-]+)/i);
+      const quantityMatch = details.match(/(\d+)\s+(?:moulded|machined|assembled)\s+items/i);
+      if (batchMatch && quantityMatch) {
+        movements.push({
+          ...base,
+          quantity: parseInt(quantityMatch[1], 10),
+          reason: "batch_output",
+          batchId: batchMatch[1],
+        });
+      }
+      continue;
+    }
+
+    // "Batch BATCH-ID (Stage) consumed X pcs"
+    if (log.action === "Stock Adjustment (Batch)" && details.includes("consumed")) {
+      const batchMatch = details.match(/Batch\s+([A-Z0-9-]+)\s*\(/i);
+      const quantityMatch = details.match(/consumed\s+(\d+)/i);
+      if (batchMatch && quantityMatch) {
+        movements.push({
+          ...base,
+          quantity: -parseInt(quantityMatch[1], 10),
+          reason: "batch_consumption",
+          batchId: batchMatch[1],
+        });
+      }
+    }
+  }
+
+  for (const docSnap of finalStockSnap.docs) {
+    const product = docSnap.data();
+    for (const entry of product.batches || []) {
+      const batchId = entry.batchId || entry.sourceBatchId;
+      if (!batchId) continue;
+      movements.push({
+        itemId: docSnap.id,
+        itemKind: "FinalStock",
+        itemName: product.name || docSnap.id,
+        quantity: Number(entry.quantity || 0),
+        unit: "pcs",
+        reason: "batch_output",
+        batchId,
+        user: "System",
+        timestamp: entry.createdAt || product.createdAt || new Date().toISOString(),
+      });
+    }
+  }
+
+  for (const docSnap of ordersSnap.docs) {
+    const order = docSnap.data();
+    // Multi-line orders keep products in lines[]; legacy orders have one product each
+    const lines = Array.isArray(order.lines)
+      ? order.lines
+      : order.productId
+        ? [{ productId: order.productId, productName: order.productName, quantity: order.quantity }]
+        : [];
+    for (const line of lines) {
+      movements.push({
+        itemId: line.productId,
+        itemKind: "FinalStock",
+        itemName: line.productName || line.productId,
+        quantity: -Number(line.quantity || 0),
+        unit: "pcs",
+        reason: "order_fulfilment",
+        orderId: order.orderId || docSnap.id,
+        user: "System",
+        timestamp: order.createdAt || new Date().toISOString(),
+      });
+    }
+  }
+
+  movements.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+
+  console.log(`Prepared ${movements.length} stock movements from legacy data...`);
+
+  if (dryRun) {
+    movements.slice(0, 20).forEach((m) => {
+      console.log(`[DRY RUN] ${m.timestamp} ${m.itemKind} ${m.itemName}: ${m.quantity} (${m.reason})`);
+    });
+    return;
+  }
+
+  // Firestore batches are limited to 500 writes
+  for (let start = 0; start < movements.length; start += 500) {
+    const batch = db.batch();
+    movements.slice(start, start + 500).forEach((movement, i) => {
+      const seq = String(start + i + 1).padStart(3, "0");
+      const data = Object.fromEntries(Object.entries(movement).filter(([, v]) => v !== undefined));
+      batch.set(db.collection("stockMovements").doc(`movement_${seq}`), data);
+    });
+    await batch.commit();
+  }
+
+  console.log(`\nBackfill complete:`);
+  console.log(`  - Written: ${movements.length}`);
+}
+
+main().catch((err) => {
+  console.error("Backfill failed:", err);
+  process.exit(1);
+});
@@ -0,0 +1,169 @@
+/**
+ * Repair script for sequential IDs
+ *
+ * Before counter documents were introduced, readable IDs (batch_007) and batch
+ * codes (BATCH-MLD-007) were allocated by scanning the collection and taking
+ * max+1, so concurrent creates could receive the same number. This script:
+ * - Reports batches sharing the same batchId or batchCode
+ * - Reports documents whose stored `id` field differs from their document ID
+ *   (a sign that one write overwrote another)
+ * - With --seed-counters, writes each counter document to the highest sequence
+ *   currently in use so new allocations can never collide with existing data
+ *
+ * Duplicates are reported only; batchId is immutable and referenced from Final
+ * Stock and orders, so renaming is left to a deliberate manual fix.
+ *
+ * Run this script:
+ * npx tsx scripts/find-duplicate-ids.ts [--seed-counters]
+ */
+
+import { initializeApp, cert, getApps } from "firebase-admin/app";
+import { getFirestore } from "firebase-admin/firestore";
+import * as path from "path";
+import * as fs from "fs";
+import { COLLECTIONS, PO_NUMBER_PREFIX, READABLE_ID_PREFIXES } from "../src/lib/collections";
+import { getBatchCodePrefixes } from "../src/lib/stages";
+import type { ProcessDefinition } from "../src/lib/types";
+
+// Readable ID prefix per collection name, as the app allocates them
+const READABLE_ID_PREFIXES_BY_COLLECTION = Object.entries(READABLE_ID_PREFIXES).map(
+  ([key, prefix]) => [COLLECTIONS[key as keyof typeof READABLE_ID_PREFIXES], prefix] as const,
+);
+
+// Initialize Firebase Admin
+function initAdmin() {
+  if (getApps().length > 0) {
+    return getFirestore();
+  }
+
+  const serviceAccountPath = path.join(process.cwd(), "serviceAccountKey.json");
+
+  if (!fs.existsSync(serviceAccountPath)) {
+    throw new Error(
+      "serviceAccountKey.json not found. Please add your Firebase service account key."
+    );
+  }
+
+  const serviceAccount = JSON.parse(
+    fs.readFileSync(serviceAccountPath, "utf8")
+  );
+
+  initializeApp({
+    credential: cert(serviceAccount),
+  });
+
+  return getFirestore();
+}
+
+function maxSequence(values: Array<string | undefined>, prefix: string): number {
+  let maxSeq = 0;
+  for (const value of values) {
+    if (value && value.startsWith(prefix)) {
+      const num = parseInt(value.substring(prefix.length), 10);
+      if (!Number.isNaN(num) && num > maxSeq) {
+        maxSeq = num;
+      }
+    }
+  }
+  return maxSeq;
+}
+
+function findDuplicates(entries: Array<[docId: string, value: string | undefined]>) {
+  const byValue = new Map<string, string[]>();
+  for (const [docId, value] of entries) {
+    if (!value) continue;
+    byValue.set(value, [...(byValue.get(value) || []), docId]);
+  }
+  return [...byValue.entries()].filter(([, docIds]) => docIds.length > 1);
+}
+
+async function seedCounter(
+  db: FirebaseFirestore.Firestore,
+  counterId: string,
+  collectionName: string,
+  prefix: string,
+  maxSeq: number,
+) {
+  // Never move a counter backwards: numbers above maxSeq may already be reserved
+  const counterRef = db.collection("counters").doc(counterId);
+  const value = await db.runTransaction(async (transaction) => {
+    const current = await transaction.get(counterRef);
+    const next = Math.max(Number(current.data()?.value ?? 0), maxSeq);
+    transaction.set(counterRef, {
+      collection: collectionName,
+      prefix,
+      value: next,
+      updatedAt: new Date().toISOString(),
+    });
+    return next;
+  });
+  console.log(`[COUNTER] ${counterId} -> ${value}`);
+}
+
+async function main() {
+  const seedCounters = process.argv.includes("--seed-counters");
+  const db = initAdmin();
+
+  let problems = 0;
+
+  const batchesSnap = await db.collection(COLLECTIONS.BATCHES).get();
+  console.log(`Checking ${batchesSnap.size} batches...`);
+
+  for (const field of ["batchId", "batchCode"] as const) {
+    const duplicates = findDuplicates(
+      batchesSnap.docs.map((d) => [d.id, d.data()[field] as string | undefined]),
+    );
+    for (const [value, docIds] of duplicates) {
+      console.log(`[DUPLICATE] ${field} ${value} is used by: ${docIds.join(", ")}`);
+      problems++;
+    }
+  }
+
+  for (const [collectionName, prefix] of READABLE_ID_PREFIXES_BY_COLLECTION) {
+    const snapshot = collectionName === COLLECTIONS.BATCHES ? batchesSnap : await db.collection(collectionName).get();
+
+    for (const docSnap of snapshot.docs) {
+      const storedId = docSnap.data().id;
+      if (typeof storedId === "string" && storedId !== docSnap.id) {
+        console.log(`[MISMATCH] ${collectionName}/${docSnap.id} stores id "${storedId}"`);
+        problems++;
+      }
+    }
+
+    if (seedCounters) {
+      const maxSeq = maxSequence(snapshot.docs.map((d) => d.id), `${prefix}_`);
+      await seedCounter(db, `${collectionName}_${prefix}`, collectionName, prefix, maxSeq);
+    }
+  }
+
+  if (seedCounters) {
+    // Stage codes come from the built-in stages and those configured in Setup
+    const definitions = (await db.collection(COLLECTIONS.PROCESS_DEFINITIONS).get()).docs.map(
+      (d) => d.data() as ProcessDefinition,
+    );
+    const codes = batchesSnap.docs.map((d) => d.data().batchCode as string | undefined);
+    for (const prefix of getBatchCodePrefixes(definitions)) {
+      const maxSeq = maxSequence(codes, prefix);
+      await seedCounter(db, `${COLLECTIONS.BATCHES}_${prefix.replace(/-$/, "")}`, COLLECTIONS.BATCHES, prefix, maxSeq);
+    }
+
+    const poNumbers = (await db.collection(COLLECTIONS.PURCHASE_ORDERS).get()).docs.map(
+      (d) => d.data().poNumber as string | undefined,
+    );
+    await seedCounter(
+      db,
+      `${COLLECTIONS.PURCHASE_ORDERS}_PO`,
+      COLLECTIONS.PURCHASE_ORDERS,
+      PO_NUMBER_PREFIX,
+      maxSequence(poNumbers, PO_NUMBER_PREFIX),
+    );
+  }
+
+  console.log(`\nCheck complete:`);
+  console.log(`  - Problems found: ${problems}`);
+}
+
+main().catch((err) => {
+  console.error("Duplicate check failed:", err);
+  process.exit(1);
+});
@@ -0,0 +1,174 @@
+/**
+ * Migration script to fold per-line order documents into multi-line orders
+ *
+ * Orders used to be stored as one document per product, all sharing the same
+ * orderId. This script groups those documents by orderId and writes a single
+ * order with a lines[] array, priced from the product's current Final Stock
+ * price and GST rate, plus computed subtotal/taxTotal/total.
+ * - The grouped order keeps the document ID of the earliest line
+ * - The remaining line documents are deleted
+ * - Documents that already have lines[] are skipped
+ *
+ * Dry run (default):
+ * npx tsx scripts/migrate-multi-line-orders.ts
+ *
+ * Apply changes:
+ * npx tsx scripts/migrate-multi-line-orders.ts --apply
+ */
+
+import { initializeApp, cert, getApps } from "firebase-admin/app";
+import { getFirestore } from "firebase-admin/firestore";
+import * as path from "path";
+import * as fs from "fs";
+
+type LegacyOrderDoc = {
+  docId: string;
+  orderId: string;
+  name?: string;
+  orderType: string;
+  productId: string;
+  productName: string;
+  quantity: number;
+  createdAt: string;
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// Initialize Firebase Admin
+function initAdmin() {
+  if (getApps().length > 0) {
+    return getFirestore();
+  }
+
+  const serviceAccountPath = path.join(process.cwd(), "serviceAccountKey.json");
+
+  if (!fs.existsSync(serviceAccountPath)) {
+    throw new Error(
+      "serviceAccountKey.json not found. Please add your Firebase service account key."
+    );
+  }
+
+  const serviceAccount = JSON.parse(
+    fs.readFileSync(serviceAccountPath, "utf8")
+  );
+
+  initializeApp({
+    credential: cert(serviceAccount),
+  });
+
+  return getFirestore();
+}
+
+async function main() {
+  const apply = process.argv.includes("--apply");
+  const db = initAdmin();
+
+  const [ordersSnap, finalStockSnap] = await Promise.all([
+    db.collection("orders").get(),
+    db.collection("finalStock").get(),
+  ]);
+  const products = new Map(finalStockSnap.docs.map((d) => [d.id, d.data()]));
+
+  const groups = new Map<string, LegacyOrderDoc[]>();
+  let skipped = 0;
+
+  for (const docSnap of ordersSnap.docs) {
+    const data = docSnap.data();
+    if (Array.isArray(data.lines)) {
+      skipped++;
+      continue;
+    }
+    const key = data.orderId || docSnap.id;
+    groups.set(key, [
+      ...(groups.get(key) || []),
+      {
+        docId: docSnap.id,
+        orderId: key,
+        name: data.name,
+        orderType: data.orderType || "",
+        productId: data.productId,
+        productName: data.productName,
+        quantity: Number(data.quantity || 0),
+        createdAt: data.createdAt || new Date().toISOString(),
+      },
+    ]);
+  }
+
+  console.log(`Found ${groups.size} legacy orders to migrate (${skipped} already migrated)...`);
+
+  let migrated = 0;
+  let deleted = 0;
+
+  for (const [orderId, docs] of groups.entries()) {
+    docs.sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+    const first = docs[0];
+
+    // Merge repeated products within the same order into one line
+    const linesByProduct = new Map<string, { productId: string; productName: string; sku?: string; quantity: number; unitPrice: number; gstRate: number }>();
+    for (const d of docs) {
+      const existing = linesByProduct.get(d.productId);
+      if (existing) {
+        existing.quantity += d.quantity;
+        continue;
+      }
+      const product = products.get(d.productId);
+      linesByProduct.set(d.productId, {
+        productId: d.productId,
+        productName: d.productName || product?.name || d.productId,
+        sku: product?.sku,
+        quantity: d.quantity,
+        unitPrice: Number(product?.price ?? 0),
+        gstRate: Number(product?.gstRate ?? 0),
+      });
+    }
+    const lines = [...linesByProduct.values()].map((line) =>
+      Object.fromEntries(Object.entries(line).filter(([, v]) => v !== undefined)),
+    ) as Array<{ quantity: number; unitPrice: number; gstRate: number }>;
+
+    let subtotal = 0;
+    let taxTotal = 0;
+    for (const line of lines) {
+      const lineSubtotal = round2(line.quantity * line.unitPrice);
+      subtotal += lineSubtotal;
+      taxTotal += round2((lineSubtotal * line.gstRate) / 100);
+    }
+
+    const order = Object.fromEntries(
+      Object.entries({
+        orderId,
+        name: docs.find((d) => d.name)?.name,
+        orderType: first.orderType,
+        lines,
+        subtotal: round2(subtotal),
+        taxTotal: round2(taxTotal),
+        total: round2(subtotal + taxTotal),
+        createdAt: first.createdAt,
+      }).filter(([, v]) => v !== undefined),
+    );
+
+    console.log(
+      `[${apply ? "MIGRATE" : "DRY RUN"}] ${orderId}: ${docs.length} docs -> ${lines.length} lines, total ${order.total}`,
+    );
+
+    if (apply) {
+      const batch = db.batch();
+      batch.set(db.collection("orders").doc(first.docId), order);
+      for (const d of docs.slice(1)) {
+        batch.delete(db.collection("orders").doc(d.docId));
+        deleted++;
+      }
+      await batch.commit();
+    }
+    migrated++;
+  }
+
+  console.log(`\nMigration ${apply ? "complete" : "dry run complete"}:`);
+  console.log(`  - Orders: ${migrated}`);
+  console.log(`  - Line documents removed: ${deleted}`);
+  console.log(`  - Skipped (already multi-line): ${skipped}`);
+}
+
+main().catch((err) => {
+  console.error("Migration failed:", err);
+  process.exit(1);
+});
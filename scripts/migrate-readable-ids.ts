@@ -141,7 +141,16 @@ async function main() {
       }
 
       if (name === "orders") {
-        transformed.productId = remapId(transformed.productId, maps.finalStock);
+        if (transformed.productId) {
+          transformed.productId = remapId(transformed.productId, maps.finalStock);
+        }
+        // lines[].productId references finalStock ids
+        if (Array.isArray(transformed.lines)) {
+          transformed.lines = transformed.lines.map((line: { productId: string }) => ({
+            ...line,
+            productId: remapId(line.productId, maps.finalStock),
+          }));
+        }
       }
 
       if (name === "restocks") {
@@ -22,6 +22,7 @@ import { useToast } from "@/hooks/use-toast"
 import { useActivityLog } from "@/hooks/use-activity-log"
 import { usePermissions } from "@/hooks/use-permissions"
 import { subscribeToAllBatches, deleteBatch } from "@/lib/firebase"
+import { changeBatchStatus } from "@/lib/firebase/batch-allocation"
 import {
   DropdownMenu,
   DropdownMenuTrigger,
@@ -47,6 +48,7 @@ import { SortControls, sortArray, type SortDirection } from "@/components/sort-c
 
 const statusColors: Record<BatchStatus, string> = {
   Completed: "bg-green-500",
+  Merged: "bg-purple-500",
   "In Progress": "bg-blue-500",
   "On Hold": "bg-yellow-500",
   Planned: "bg-gray-500",
@@ -89,21 +91,23 @@ export default function BatchesOverviewPage() {
     })
   }
 
-  const handleBatchUpdated = (updatedBatch: Batch) => {
+  const handleBatchUpdated = async (updatedBatch: Batch) => {
     const oldBatch = batches.find((b) => b.id === updatedBatch.id)
     if (!oldBatch) return
 
-    if (oldBatch.status !== updatedBatch.status) {
-      createActivityLog({
-        recordId: updatedBatch.id,
-        recordType: "Batch",
-        action: "Updated",
-        details: `Status changed from "${oldBatch.status}" to "${updatedBatch.status}".`,
-        timestamp: new Date().toISOString(),
-        user: "System",
+    try {
+      // Persists the status and commits / releases the batch's material allocation (logged there)
+      if (oldBatch.status !== updatedBatch.status) {
+        await changeBatchStatus(updatedBatch.id, updatedBatch.status)
+      }
+      toast({ title: "Batch Updated", description: `Batch ${updatedBatch.id} has been updated.` })
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update batch. Please try again.",
+        variant: "destructive",
       })
     }
-    toast({ title: "Batch Updated", description: `Batch ${updatedBatch.id} has been updated.` })
   }
 
   const handleBatchDeleted = async (batchId: string) => {
@@ -133,6 +137,7 @@ export default function BatchesOverviewPage() {
   }
 
   const getStatus = (batch: Batch): BatchStatus => {
+    if (batch.status === "Merged") return "Merged"
     const selectedProcesses = batch.selectedProcesses || []
     const lastProcess = selectedProcesses[selectedProcesses.length - 1]
 
@@ -147,6 +152,7 @@ export default function BatchesOverviewPage() {
   }
 
   const getStatusLabel = (batch: Batch) => {
+    if (batch.status === "Merged") return "Merged"
     const selectedProcesses = batch.selectedProcesses || []
     const lastProcess = selectedProcesses[selectedProcesses.length - 1]
 
@@ -0,0 +1,251 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import PageHeader from "@/components/page-header"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Input } from "@/components/ui/input"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Badge } from "@/components/ui/badge"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { AlertTriangle, PlusCircle } from "lucide-react"
+import { CreateBatchForm } from "@/components/create-batch-form"
+import { useToast } from "@/hooks/use-toast"
+import { usePermissions } from "@/hooks/use-permissions"
+import { useRawMaterials } from "@/hooks/use-raw-materials"
+import { useFinalStock } from "@/hooks/use-final-stock"
+import { useBatches } from "@/hooks/use-batches"
+import { useProcessDefinitions } from "@/hooks/use-process-definitions"
+import { getOpenBatchDemand } from "@/lib/batch-demand"
+import { explodeBom, type MrpPlannedRun } from "@/lib/mrp"
+import { getStageLabel } from "@/lib/stages"
+
+const formatQty = (value: number) => Number(value.toFixed(4))
+
+const KIND_LABELS = {
+  RawMaterial: "Raw Material",
+  StoreItem: "Store",
+  FinalStock: "Final Stock",
+} as const
+
+export default function MaterialPlanningPage() {
+  const { rawMaterials } = useRawMaterials()
+  const { finalStock } = useFinalStock()
+  const { batches } = useBatches()
+  const { processDefinitions } = useProcessDefinitions()
+  const { toast } = useToast()
+  const { canEdit } = usePermissions()
+  const canEditBatches = canEdit("Batches")
+
+  const [isClient, setIsClient] = useState(false)
+  const [productId, setProductId] = useState("")
+  const [quantity, setQuantity] = useState<string>("1")
+  const [useExistingStock, setUseExistingStock] = useState(true)
+  const [excludeCommitted, setExcludeCommitted] = useState(true)
+  const [runToCreate, setRunToCreate] = useState<MrpPlannedRun | null>(null)
+
+  useEffect(() => setIsClient(true), [])
+
+  const result = useMemo(() => {
+    const requested = Number(quantity)
+    if (!productId || !Number.isFinite(requested) || requested <= 0) return null
+    return explodeBom({
+      productId,
+      quantity: requested,
+      rawMaterials,
+      finalStock,
+      committed: excludeCommitted ? getOpenBatchDemand(batches) : undefined,
+      netRequestedProduct: useExistingStock,
+      processDefinitions,
+    })
+  }, [productId, quantity, rawMaterials, finalStock, batches, useExistingStock, excludeCommitted, processDefinitions])
+
+  if (!isClient) return null
+
+  return (
+    <>
+      <PageHeader
+        title="Material Planning"
+        description="Explode a product's multi-level BOM, net it against stock and see what to build and buy."
+      />
+
+      <Card className="mb-6">
+        <CardContent className="pt-6">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+            <div className="space-y-1 md:col-span-2">
+              <p className="text-sm font-medium">Product</p>
+              <Select value={productId} onValueChange={setProductId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select product" />
+                </SelectTrigger>
+                <SelectContent>
+                  {finalStock.map((p) => (
+                    <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <p className="text-sm font-medium">Quantity Required</p>
+              <Input type="number" min="1" step="1" value={quantity} onChange={(e) => setQuantity(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <label className="flex items-center gap-2 text-sm">
+                <Checkbox checked={useExistingStock} onCheckedChange={(checked) => setUseExistingStock(!!checked)} />
+                Use existing Final Stock
+              </label>
+              <label className="flex items-center gap-2 text-sm">
+                <Checkbox checked={excludeCommitted} onCheckedChange={(checked) => setExcludeCommitted(!!checked)} />
+                Exclude open batch demand
+              </label>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {result && result.warnings.length > 0 && (
+        <Alert variant="destructive" className="mb-6">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Incomplete plan</AlertTitle>
+          <AlertDescription>
+            <ul className="list-disc pl-4">
+              {result.warnings.map((w, i) => (
+                <li key={i}>{w}</li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {result && (
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Batches to Create</CardTitle>
+              <CardDescription>
+                Stage runs needed to cover the shortfall, deepest sub-assemblies first.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Level</TableHead>
+                    <TableHead>Product</TableHead>
+                    <TableHead>Stage</TableHead>
+                    <TableHead className="text-right">Quantity</TableHead>
+                    {canEditBatches && <TableHead className="text-right w-[140px]">Action</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {result.plannedRuns.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={canEditBatches ? 5 : 4} className="h-16 text-center text-muted-foreground">
+                        Existing stock covers the requirement; nothing needs to be built.
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    result.plannedRuns.map((run) => (
+                      <TableRow key={`${run.productId}-${run.stage}`}>
+                        <TableCell>{run.level}</TableCell>
+                        <TableCell>{run.productName}</TableCell>
+                        <TableCell>{getStageLabel(processDefinitions, run.stage)}</TableCell>
+                        <TableCell className="text-right">{formatQty(run.quantity)}</TableCell>
+                        {canEditBatches && (
+                          <TableCell className="text-right">
+                            <Button size="sm" variant="outline" onClick={() => setRunToCreate(run)}>
+                              <PlusCircle className="mr-2 h-4 w-4" /> Create Batch
+                            </Button>
+                          </TableCell>
+                        )}
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Requirements</CardTitle>
+              <CardDescription>Gross requirement per item across all BOM levels, netted against free stock.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Level</TableHead>
+                    <TableHead>Item</TableHead>
+                    <TableHead>Source</TableHead>
+                    <TableHead className="text-right">Required</TableHead>
+                    <TableHead className="text-right">From Stock</TableHead>
+                    <TableHead className="text-right">Shortage</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {result.requirements.map((r) => (
+                    <TableRow key={r.itemId}>
+                      <TableCell>{r.level}</TableCell>
+                      <TableCell>{r.itemName}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{KIND_LABELS[r.kind]}</Badge>
+                      </TableCell>
+                      <TableCell className="text-right">{formatQty(r.gross)} {r.unit}</TableCell>
+                      <TableCell className="text-right">{formatQty(r.netted)}</TableCell>
+                      <TableCell className="text-right">
+                        {r.shortage > 0 ? (
+                          <span className={r.kind === "RawMaterial" ? "font-semibold text-destructive" : "font-semibold"}>
+                            {formatQty(r.shortage)}
+                          </span>
+                        ) : (
+                          "—"
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              {result.purchaseShortages.length > 0 && (
+                <p className="mt-4 text-sm text-muted-foreground">
+                  {result.purchaseShortages.length} raw material
+                  {result.purchaseShortages.length === 1 ? "" : "s"} must be purchased before the plan can run. Store and
+                  Final Stock shortages are covered by the batches above.
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      <Dialog open={!!runToCreate} onOpenChange={(open) => !open && setRunToCreate(null)}>
+        <DialogContent className="sm:max-w-[1000px] w-[95vw] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Create New Batch</DialogTitle>
+            <DialogDescription>
+              {runToCreate && `${runToCreate.productName} · ${runToCreate.stage} · ${formatQty(runToCreate.quantity)} units`}
+            </DialogDescription>
+          </DialogHeader>
+          {runToCreate && (
+            <CreateBatchForm
+              key={`${runToCreate.productId}-${runToCreate.stage}`}
+              onBatchCreated={(newBatch) => {
+                setRunToCreate(null)
+                toast({
+                  title: "Batch Created",
+                  description: `Batch ${newBatch.batchId || newBatch.id} has been planned.`,
+                })
+              }}
+              initialProductId={runToCreate.productId}
+              initialStage={runToCreate.stage}
+              initialQuantity={runToCreate.quantity}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
@@ -0,0 +1,385 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { format } from "date-fns"
+import PageHeader from "@/components/page-header"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { ChevronLeft, ChevronRight, X } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import { usePermissions } from "@/hooks/use-permissions"
+import { useBatches } from "@/hooks/use-batches"
+import { useProcessDefinitions } from "@/hooks/use-process-definitions"
+import { useWorkstations } from "@/hooks/use-workstations"
+import { useShiftCalendar } from "@/hooks/use-shift-calendar"
+import { useScheduleSlots } from "@/hooks/use-schedule-slots"
+import type { ProcessingStageName, ScheduleSlot, Workstation } from "@/lib/types"
+import { getShiftWindows, getWorkingOverlap } from "@/lib/shifts"
+import { getStageWorkstations } from "@/lib/workstations"
+import { checkSlot, getScheduleQuantity, getUnscheduledBatches, getWorkstationLoad } from "@/lib/scheduling"
+
+const HOUR_MS = 60 * 60 * 1000
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour)
+// Drops snap to the quarter hour
+const SNAP_MINUTES = 15
+
+// What is being dragged: an unscheduled batch or a slot already on the board
+type DragItem = { kind: "batch" | "slot"; id: string }
+
+function formatYMD(d: Date): string {
+  const y = d.getFullYear()
+  const m = String(d.getMonth() + 1).padStart(2, "0")
+  const day = String(d.getDate()).padStart(2, "0")
+  return `${y}-${m}-${day}`
+}
+
+function parseYMD(ymd: string): Date {
+  const [y, m, d] = ymd.split("-").map(Number)
+  return new Date(y, m - 1, d)
+}
+
+const formatHours = (ms: number) => `${Number((ms / HOUR_MS).toFixed(1))} h`
+
+function readDragItem(event: React.DragEvent): DragItem | null {
+  try {
+    const item = JSON.parse(event.dataTransfer.getData("text/plain"))
+    return item && (item.kind === "batch" || item.kind === "slot") && typeof item.id === "string" ? item : null
+  } catch {
+    return null
+  }
+}
+
+export default function SchedulingBoardPage() {
+  const { batches, loading: batchesLoading } = useBatches()
+  const { processDefinitions } = useProcessDefinitions()
+  const { workstations } = useWorkstations()
+  const { calendar } = useShiftCalendar()
+  const { scheduleSlots, scheduleBatch, unscheduleSlot } = useScheduleSlots()
+  const { canEdit, employee } = usePermissions()
+  const canEditBatches = canEdit("Batches")
+  const { toast } = useToast()
+
+  const [stage, setStage] = useState<ProcessingStageName>("Molding")
+  const [day, setDay] = useState(() => formatYMD(new Date()))
+  const [dropTarget, setDropTarget] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const dayDate = parseYMD(day)
+  const from = dayDate.getTime()
+  const to = new Date(dayDate.getFullYear(), dayDate.getMonth(), dayDate.getDate() + 1).getTime()
+
+  const stageWorkstations = getStageWorkstations(workstations, stage)
+  const unscheduled = useMemo(
+    () => getUnscheduledBatches(batches, stage, scheduleSlots),
+    [batches, stage, scheduleSlots],
+  )
+  const daySlots = scheduleSlots.filter(
+    (s) => s.stage === stage && Date.parse(s.start) < to && Date.parse(s.end) > from,
+  )
+
+  // Working time in each hour of the day; hours outside every shift are shaded
+  const workingByHour = useMemo(() => {
+    const windows = getShiftWindows(from, to, calendar)
+    return HOURS.map((hour) =>
+      windows.reduce(
+        (sum, w) => sum + getWorkingOverlap(w, from + hour * HOUR_MS, from + (hour + 1) * HOUR_MS),
+        0,
+      ),
+    )
+  }, [from, to, calendar])
+
+  const moveDay = (days: number) => {
+    const d = parseYMD(day)
+    d.setDate(d.getDate() + days)
+    setDay(formatYMD(d))
+  }
+
+  const getSlotStyle = (slot: ScheduleSlot) => {
+    const start = Math.max(Date.parse(slot.start), from)
+    const end = Math.min(Date.parse(slot.end), to)
+    return {
+      left: `${((start - from) / (to - from)) * 100}%`,
+      width: `${((end - start) / (to - from)) * 100}%`,
+    }
+  }
+
+  const handleDrop = async (event: React.DragEvent<HTMLDivElement>, workstation: Workstation) => {
+    event.preventDefault()
+    setDropTarget(null)
+    const item = readDragItem(event)
+    if (!item || !canEditBatches || isSaving) return
+
+    // The start is where the batch was dropped on the row
+    const rect = event.currentTarget.getBoundingClientRect()
+    const fraction = Math.min(Math.max((event.clientX - rect.left) / rect.width, 0), 1)
+    const minutes = Math.floor((fraction * (to - from)) / 60000 / SNAP_MINUTES) * SNAP_MINUTES
+    const start = from + minutes * 60000
+    const slot = item.kind === "slot" ? scheduleSlots.find((s) => s.id === item.id) : undefined
+    const batch = batches.find((b) => b.id === (slot ? slot.batchId : item.id))
+    if (!batch) {
+      toast({ variant: "destructive", title: "Cannot Schedule", description: "The batch no longer exists." })
+      return
+    }
+
+    // Checked here for a quick answer, and again against the stored schedule when saved
+    const check = checkSlot({ batch, stage, workstation, start, slots: scheduleSlots, calendar, slotId: slot?.id })
+    if (!check.isValid) {
+      toast({ variant: "destructive", title: "Cannot Schedule", description: check.reason })
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      const booked = await scheduleBatch({
+        batchId: batch.id,
+        stage,
+        workstationId: workstation.id,
+        start,
+        calendar,
+        slot,
+        user: employee?.name,
+      })
+      toast({
+        title: "Batch Scheduled",
+        description: `${batch.batchId} on ${workstation.code}, ${format(booked.start, "dd/MM HH:mm")}–${format(booked.end, "dd/MM HH:mm")}.`,
+      })
+    } catch (e) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: e instanceof Error ? e.message : "Failed to schedule batch.",
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleUnschedule = async (slot: ScheduleSlot) => {
+    if (!canEditBatches) return
+    try {
+      await unscheduleSlot(slot.id)
+      toast({ title: "Batch Unscheduled", description: `${slot.displayBatchId} was taken off ${slot.workstationName}.` })
+    } catch (e) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: e instanceof Error ? e.message : "Failed to unschedule batch.",
+      })
+    }
+  }
+
+  // Dropping a slot back on the list takes it off the board
+  const handleDropOnList = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault()
+    setDropTarget(null)
+    const item = readDragItem(event)
+    const slot = item?.kind === "slot" ? scheduleSlots.find((s) => s.id === item.id) : undefined
+    if (slot) handleUnschedule(slot)
+  }
+
+  const startDrag = (event: React.DragEvent, item: DragItem) => {
+    event.dataTransfer.setData("text/plain", JSON.stringify(item))
+    event.dataTransfer.effectAllowed = "move"
+  }
+
+  const allowDrop = (event: React.DragEvent, target: string) => {
+    if (!canEditBatches) return
+    event.preventDefault()
+    event.dataTransfer.dropEffect = "move"
+    if (dropTarget !== target) setDropTarget(target)
+  }
+
+  return (
+    <>
+      <PageHeader
+        title="Scheduling Board"
+        description="Drag batches onto a stage's workstations. Each slot lasts the units reaching the stage at the workstation's rated capacity, in working time."
+      />
+
+      <Card className="mb-6">
+        <CardContent className="pt-6">
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="space-y-1">
+              <p className="text-sm font-medium">Stage</p>
+              <Select value={stage} onValueChange={(value) => setStage(value as ProcessingStageName)}>
+                <SelectTrigger className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {processDefinitions.map((d) => (
+                    <SelectItem key={d.id} value={d.name}>
+                      {d.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <p className="text-sm font-medium">Day</p>
+              <div className="flex items-center gap-2">
+                <Button type="button" variant="outline" size="icon" onClick={() => moveDay(-1)} aria-label="Previous day">
+                  <ChevronLeft className="h-4 w-4" />
+                </Button>
+                <Input
+                  type="date"
+                  value={day}
+                  onChange={(e) => e.target.value && setDay(e.target.value)}
+                  className="w-44"
+                />
+                <Button type="button" variant="outline" size="icon" onClick={() => moveDay(1)} aria-label="Next day">
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+                <Button type="button" variant="outline" onClick={() => setDay(formatYMD(new Date()))}>
+                  Today
+                </Button>
+              </div>
+            </div>
+          </div>
+          {!canEditBatches && (
+            <p className="mt-4 text-sm text-muted-foreground">
+              You can view the schedule but need Batches edit permission to change it.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-6 lg:grid-cols-[260px_1fr]">
+        <Card
+          className={dropTarget === "list" ? "ring-2 ring-primary" : undefined}
+          onDragOver={(e) => allowDrop(e, "list")}
+          onDragLeave={() => setDropTarget(null)}
+          onDrop={handleDropOnList}
+        >
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base">Unscheduled</CardTitle>
+            <CardDescription>Open batches that still have to run this stage.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {batchesLoading ? (
+              <p className="text-sm text-muted-foreground">Loading...</p>
+            ) : unscheduled.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Every open batch is scheduled.</p>
+            ) : (
+              unscheduled.map((batch) => (
+                <div
+                  key={batch.id}
+                  draggable={canEditBatches}
+                  onDragStart={(e) => startDrag(e, { kind: "batch", id: batch.id })}
+                  className={`rounded border px-3 py-2 text-sm ${canEditBatches ? "cursor-grab" : ""}`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-mono text-xs">{batch.batchId}</span>
+                    <Badge variant={batch.status === "Planned" ? "outline" : "secondary"}>{batch.status}</Badge>
+                  </div>
+                  <div className="mt-1 truncate">{batch.productName}</div>
+                  <div className="text-xs text-muted-foreground">{getScheduleQuantity(batch, stage).toLocaleString()} units</div>
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base">{format(dayDate, "EEEE dd/MM/yyyy")}</CardTitle>
+            <CardDescription>
+              Shaded hours are outside the shift calendar. A batch dropped there starts at the next shift, and slots
+              cannot overlap on a workstation.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {stageWorkstations.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                This stage has no active workstations. Add them in Setup to schedule batches on them.
+              </p>
+            ) : (
+              <div className="overflow-x-auto">
+                <div className="min-w-[960px]">
+                  <div className="grid grid-cols-[200px_1fr] border-b text-xs text-muted-foreground">
+                    <div className="py-1">Workstation</div>
+                    <div className="flex">
+                      {HOURS.map((hour) => (
+                        <div key={hour} className="flex-1 border-l py-1 pl-1">
+                          {String(hour).padStart(2, "0")}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                  {stageWorkstations.map((workstation) => {
+                    const load = getWorkstationLoad(workstation.id, scheduleSlots, from, to, calendar)
+                    return (
+                      <div key={workstation.id} className="grid grid-cols-[200px_1fr] border-b">
+                        <div className="py-2 pr-2 text-sm">
+                          <div className="font-medium">{workstation.code}</div>
+                          <div className="truncate text-xs text-muted-foreground">{workstation.name}</div>
+                          {workstation.capacityPerHour > 0 ? (
+                            <div className="text-xs text-muted-foreground">
+                              {formatHours(load.bookedMs)} of {formatHours(load.availableMs)} booked
+                            </div>
+                          ) : (
+                            <div className="text-xs text-amber-600">No rated capacity</div>
+                          )}
+                        </div>
+                        <div
+                          className={`relative flex h-16 ${dropTarget === workstation.id ? "bg-primary/10" : ""}`}
+                          onDragOver={(e) => allowDrop(e, workstation.id)}
+                          onDragLeave={() => setDropTarget(null)}
+                          onDrop={(e) => handleDrop(e, workstation)}
+                        >
+                          {HOURS.map((hour) => (
+                            <div
+                              key={hour}
+                              className={`flex-1 border-l ${
+                                workingByHour[hour] === 0
+                                  ? "bg-muted"
+                                  : workingByHour[hour] < HOUR_MS
+                                    ? "bg-muted/40"
+                                    : ""
+                              }`}
+                            />
+                          ))}
+                          {daySlots
+                            .filter((s) => s.workstationId === workstation.id)
+                            .map((slot) => (
+                              <div
+                                key={slot.id}
+                                draggable={canEditBatches}
+                                onDragStart={(e) => startDrag(e, { kind: "slot", id: slot.id })}
+                                className={`absolute top-1 bottom-1 flex items-start gap-1 overflow-hidden rounded bg-primary px-1 text-xs text-primary-foreground ${
+                                  canEditBatches ? "cursor-grab" : ""
+                                }`}
+                                style={getSlotStyle(slot)}
+                                title={`${slot.displayBatchId} · ${slot.productName} · ${slot.quantity} units, ${format(new Date(slot.start), "dd/MM HH:mm")}–${format(new Date(slot.end), "dd/MM HH:mm")}`}
+                              >
+                                <div className="min-w-0 flex-1">
+                                  <div className="truncate font-mono">{slot.displayBatchId}</div>
+                                  <div className="truncate">{slot.productName}</div>
+                                </div>
+                                {canEditBatches && (
+                                  <button
+                                    type="button"
+                                    className="mt-0.5 shrink-0 opacity-70 hover:opacity-100"
+                                    onClick={() => handleUnschedule(slot)}
+                                    aria-label={`Unschedule ${slot.displayBatchId}`}
+                                  >
+                                    <X className="h-3 w-3" />
+                                  </button>
+                                )}
+                              </div>
+                            ))}
+                        </div>
+                      </div>
+                    )
+                  })}
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </>
+  )
+}
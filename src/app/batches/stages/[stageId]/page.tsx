@@ -0,0 +1,195 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { useParams } from "next/navigation"
+import PageHeader from "@/components/page-header"
+import { BatchStageProcessor } from "@/components/batch-stage-processor"
+import { CreateBatchForm } from "@/components/create-batch-form"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { AlertTriangle, XCircle, Search } from "lucide-react"
+import { useRawMaterials } from "@/hooks/use-raw-materials"
+import { useFinalStock } from "@/hooks/use-final-stock"
+import { useProcessDefinitions } from "@/hooks/use-process-definitions"
+import { usePermissions } from "@/hooks/use-permissions"
+import { useToast } from "@/hooks/use-toast"
+import { getStageStoreItem } from "@/lib/mrp"
+import type { FinalStock, RawMaterial } from "@/lib/types"
+
+interface StageItem {
+  product: FinalStock
+  output: RawMaterial | undefined // Store intermediate, when this stage produces one
+  quantity: number
+  unit: string
+  threshold: number
+}
+
+/**
+ * Shared page for stages configured in Setup. Built-in stages keep their own pages.
+ */
+export default function ConfiguredStagePage() {
+  const params = useParams<{ stageId: string }>()
+  const { processDefinitions, loading } = useProcessDefinitions()
+  const { rawMaterials } = useRawMaterials()
+  const { finalStock } = useFinalStock()
+  const { canEditStage } = usePermissions()
+  const { toast } = useToast()
+  const [searchQuery, setSearchQuery] = useState("")
+  const [productToBuild, setProductToBuild] = useState<FinalStock | null>(null)
+
+  const definition = processDefinitions.find((d) => d.id === params.stageId && !d.builtIn)
+
+  const items = useMemo<StageItem[]>(() => {
+    if (!definition) return []
+    return finalStock
+      .filter((p) => (p.manufacturingStages || []).includes(definition.name))
+      .map((product) => {
+        const stages = product.manufacturingStages || []
+        const isLast = stages[stages.length - 1] === definition.name
+        const output = isLast ? undefined : getStageStoreItem(product, definition.name, rawMaterials, processDefinitions)
+        const quantity = output
+          ? Number(output.quantity || 0)
+          : isLast
+            ? (product.batches || []).reduce((s, b) => s + Number(b.quantity || 0), 0) || Number(product.quantity || 0)
+            : 0
+        const threshold = Number((output ? output.threshold : product.threshold) || 0)
+        return { product, output, quantity, unit: output?.unit || "pcs", threshold }
+      })
+      .sort((a, b) => a.quantity - a.threshold - (b.quantity - b.threshold))
+  }, [definition, finalStock, rawMaterials, processDefinitions])
+
+  const filteredItems = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase()
+    if (!query) return items
+    return items.filter(({ product, output }) =>
+      [product.id, product.productId, product.name, product.sku, output?.id, output?.name, output?.sku]
+        .some((value) => (value || "").toLowerCase().includes(query)),
+    )
+  }, [items, searchQuery])
+
+  const renderStatus = (qty: number, threshold: number) => {
+    if (qty <= 0) {
+      return (
+        <Badge variant="destructive" className="flex items-center gap-1 w-fit">
+          <XCircle className="h-3 w-3" /> Out of Stock
+        </Badge>
+      )
+    }
+    if (threshold > 0 && qty < threshold) {
+      return (
+        <Badge variant="destructive" className="flex items-center gap-1 w-fit">
+          <AlertTriangle className="h-3 w-3" /> Low Stock
+        </Badge>
+      )
+    }
+    return <Badge variant="secondary">In Stock</Badge>
+  }
+
+  if (loading) return null
+
+  if (!definition) {
+    return (
+      <>
+        <PageHeader title="Stage Not Found" description="This stage does not exist or has been removed in Setup." />
+      </>
+    )
+  }
+
+  const canCreate = canEditStage(definition.name)
+
+  return (
+    <>
+      <PageHeader
+        title={`${definition.label} Stage`}
+        description={definition.description || `Process batches in the ${definition.label.toLowerCase()} stage.`}
+      />
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-4">
+          <CardTitle>Items List</CardTitle>
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              placeholder="Search by ID, Product ID, SKU, or Name..."
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              className="pl-10 w-64"
+            />
+          </div>
+        </CardHeader>
+        <CardContent className="pt-6">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Product ID</TableHead>
+                <TableHead>Product</TableHead>
+                <TableHead>Output</TableHead>
+                <TableHead>Quantity</TableHead>
+                <TableHead>Min Threshold</TableHead>
+                <TableHead>Status</TableHead>
+                {canCreate && <TableHead>Create Batch</TableHead>}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {filteredItems.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={canCreate ? 7 : 6} className="h-16 text-center text-muted-foreground">
+                    No products use this stage.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                filteredItems.map(({ product, output, quantity, unit, threshold }) => (
+                  <TableRow key={product.id}>
+                    <TableCell className="font-mono text-xs">{product.productId || product.id}</TableCell>
+                    <TableCell className="font-medium">{product.name}</TableCell>
+                    <TableCell>{output ? output.name : definition.producesStoreItem ? "—" : "Final Stock"}</TableCell>
+                    <TableCell>
+                      <Badge variant="secondary">{quantity.toLocaleString()} {unit}</Badge>
+                    </TableCell>
+                    <TableCell>{threshold}</TableCell>
+                    <TableCell>{renderStatus(quantity, threshold)}</TableCell>
+                    {canCreate && (
+                      <TableCell>
+                        <Button size="sm" onClick={() => setProductToBuild(product)}>Create Batch</Button>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <BatchStageProcessor stage={definition.name} previousStage={null} definition={definition} />
+
+      <Dialog open={!!productToBuild} onOpenChange={(open) => !open && setProductToBuild(null)}>
+        <DialogContent className="sm:max-w-[1000px] w-[95vw] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Create New Batch</DialogTitle>
+            <DialogDescription>
+              {productToBuild && `${productToBuild.name} · ${definition.label}`}
+            </DialogDescription>
+          </DialogHeader>
+          {productToBuild && (
+            <CreateBatchForm
+              key={productToBuild.id}
+              onBatchCreated={(newBatch) => {
+                setProductToBuild(null)
+                toast({
+                  title: "Batch Created",
+                  description: `Batch ${newBatch.batchId || newBatch.id} has been planned.`,
+                })
+              }}
+              initialProductId={productToBuild.id}
+              initialStage={definition.name}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
@@ -18,9 +18,11 @@ function LayoutContent({ children }: { children: React.ReactNode }) {
         children
       ) : (
         <>
-          <AppTopbar />
+          <div className="print:hidden">
+            <AppTopbar />
+          </div>
           <div className="min-h-screen bg-background">
-            <main className="pt-20 md:pt-20 lg:pt-24 px-4 lg:px-8 pb-4 overflow-y-auto">
+            <main className="pt-20 md:pt-20 lg:pt-24 print:pt-0 px-4 lg:px-8 pb-4 overflow-y-auto">
               {children}
             </main>
           </div>
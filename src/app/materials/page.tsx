@@ -2,7 +2,7 @@
 import { useState, useEffect, useMemo } from "react"
 import PageHeader from "@/components/page-header"
 import { Button } from "@/components/ui/button"
-import { Card, CardContent } from "@/components/ui/card"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import type { RawMaterial, FinalStock } from "@/lib/types"
 import { PlusCircle, AlertTriangle, MoreHorizontal, FileDown, XCircle, Upload, Search } from "lucide-react"
@@ -11,6 +11,7 @@ import { Badge } from "@/components/ui/badge"
 import { useRawMaterials } from "@/hooks/use-raw-materials"
 import { useFinalStock } from "@/hooks/use-final-stock"
 import { useActivityLog } from "@/hooks/use-activity-log"
+import { useStockMovements } from "@/hooks/use-stock-movements"
 import { usePermissions } from "@/hooks/use-permissions"
 import { useBatches } from "@/hooks/use-batches"
 import {
@@ -27,20 +28,26 @@ import { useToast } from "@/hooks/use-toast"
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu"
 import { ItemDetailsDialog } from "@/components/item-details-dialog"
 import { RestockDialog } from "@/components/restock-dialog"
+import { MaterialLotsDialog } from "@/components/material-lots-dialog"
 import * as XLSX from "xlsx"
 import { CSVImportDialog } from "@/components/csv-import-dialog"
 import { LogAction } from "@/lib/types"
 import { SortControls, sortArray, type SortDirection } from "@/components/sort-controls"
+import { getMaterialBreakdown } from "@/lib/stock-availability"
+import { EXPIRY_WARNING_DAYS, getExpiringLots } from "@/lib/material-lots"
+import { createMaterial, restockMaterial, updateMaterial } from "@/lib/firebase/stock-operations"
 
 export default function MaterialsPage() {
-  const { regularMaterials, createRawMaterial, updateRawMaterial, deleteRawMaterial } = useRawMaterials()
+  const { regularMaterials, createRawMaterial, deleteRawMaterial } = useRawMaterials()
   const { finalStock, updateFinalStock } = useFinalStock()
   const { activityLog, createActivityLog } = useActivityLog()
-  const { canEdit } = usePermissions()
+  const { stockMovements } = useStockMovements()
+  const { canEdit, employee } = usePermissions()
   const { batches } = useBatches()
   const [isCreateFormOpen, setIsCreateFormOpen] = useState(false)
   const [selectedItem, setSelectedItem] = useState<RawMaterial | null>(null)
   const [restockItem, setRestockItem] = useState<RawMaterial | null>(null)
+  const [lotsItem, setLotsItem] = useState<RawMaterial | null>(null)
   const [isDetailsOpen, setIsDetailsOpen] = useState(false)
   const [isClient, setIsClient] = useState(false)
   const [searchQuery, setSearchQuery] = useState("")
@@ -74,6 +81,8 @@ export default function MaterialsPage() {
     return <Badge variant="secondary">In Stock</Badge>
   }
 
+  const expiringLots = useMemo(() => getExpiringLots(regularMaterials), [regularMaterials])
+
   const createActivityLogEntry = (logData: {
     recordId: string
     recordType: "RawMaterial"
@@ -83,27 +92,23 @@ export default function MaterialsPage() {
     return createActivityLog({
       ...logData,
       timestamp: new Date().toISOString(),
-      user: "System" // You can replace this with actual user data from your auth system
+      user: employee?.name || "System",
     })
   }
 
   const handleMaterialCreated = async (newMaterial: RawMaterial) => {
     try {
-      const materialId = await createRawMaterial({
-        name: newMaterial.name,
-        sku: newMaterial.sku,
-        quantity: newMaterial.quantity,
-        unit: newMaterial.unit,
-        threshold: newMaterial.threshold,
-      })
-      
-      await createActivityLogEntry({
-        recordId: materialId,
-        recordType: "RawMaterial",
-        action: "Created",
-        details: `Material "${newMaterial.name}" was created.`,
+      await createMaterial({
+        material: {
+          name: newMaterial.name,
+          sku: newMaterial.sku,
+          quantity: newMaterial.quantity,
+          unit: newMaterial.unit,
+          threshold: newMaterial.threshold,
+        },
+        user: employee?.name,
       })
-      
+
       setIsCreateFormOpen(false)
       toast({
         title: "Material Created",
@@ -123,29 +128,13 @@ export default function MaterialsPage() {
       const oldMaterial = regularMaterials.find((m) => m.id === updatedMaterial.id)
       if (!oldMaterial) return
 
-      let details = `Material "${updatedMaterial.name}" was updated.`
-      const changes = Object.keys(updatedMaterial)
-        .filter((key) => key !== "id")
-        .map((key) => {
-          const typedKey = key as keyof Omit<RawMaterial, "id">
-          if (oldMaterial[typedKey] !== updatedMaterial[typedKey]) {
-            return `${key} changed from "${oldMaterial[typedKey]}" to "${updatedMaterial[typedKey]}"`
-          }
-          return null
-        })
-        .filter(Boolean)
-
-      if (changes.length > 0) {
-        details += ` ${changes.join(", ")}.`
-      }
-
-      // Update material (allow quantity 0 for moulded/finished units)
-      await updateRawMaterial(updatedMaterial.id, updatedMaterial)
-      await createActivityLogEntry({ 
-        recordId: updatedMaterial.id, 
-        recordType: "RawMaterial", 
-        action: "Updated", 
-        details 
+      // An unchanged quantity is left out, so stock booked since the form opened is kept
+      const { quantity, ...fields } = updatedMaterial
+      await updateMaterial({
+        materialId: updatedMaterial.id,
+        itemKind: "RawMaterial",
+        updates: Number(quantity) !== Number(oldMaterial.quantity) ? { ...fields, quantity } : fields,
+        user: employee?.name,
       })
       toast({ title: "Material Updated", description: `${updatedMaterial.name} has been updated.` })
     } catch (error) {
@@ -159,34 +148,19 @@ export default function MaterialsPage() {
 
   const handleRestock = async (
     material: RawMaterial,
-    data: { quantity: number; companyName: string; restockDate: string },
+    data: { quantity: number; companyName: string; restockDate: string; lotNumber?: string; expiryDate?: string },
   ) => {
     try {
       const quantity = Number(data.quantity) || 0
-      const oldQuantity = Number(material.quantity) || 0
-      const newQuantity = oldQuantity + quantity
-      const updatedMaterial = { ...material, quantity: newQuantity }
-
-      await updateRawMaterial(material.id, updatedMaterial)
-
-      // Record in central Restocks collection for reporting (same as Final Stock)
-      const { addRestockRecord } = await import("@/lib/firebase/firestore-operations")
-      await addRestockRecord({
-        productId: material.id,
-        productName: material.name,
-        quantityAdded: quantity,
+      await restockMaterial({
+        materialId: material.id,
+        itemKind: "RawMaterial",
+        quantity,
         companyName: data.companyName,
         restockDate: new Date(data.restockDate + "T00:00:00").toISOString(),
-        previousStock: oldQuantity,
-        updatedStock: newQuantity,
-        createdAt: new Date().toISOString(),
-      })
-
-      await createActivityLogEntry({
-        recordId: material.id,
-        recordType: "RawMaterial",
-        action: "Stock Adjustment (Manual)",
-        details: `Restocked ${quantity} ${material.unit} from ${data.companyName}. Old quantity: ${oldQuantity}, New quantity: ${newQuantity}.`,
+        lotNumber: data.lotNumber,
+        expiryDate: data.expiryDate ? new Date(data.expiryDate + "T00:00:00").toISOString() : undefined,
+        user: employee?.name,
       })
       toast({
         title: "Material Restocked",
@@ -428,6 +402,27 @@ export default function MaterialsPage() {
           </Dialog>
         )}
       </PageHeader>
+      {expiringLots.length > 0 && (
+        <Card className="mb-4 border-amber-200 bg-amber-50">
+          <CardHeader className="pb-2">
+            <CardTitle className="flex items-center gap-2 text-sm font-medium text-amber-800">
+              <AlertTriangle className="h-4 w-4" /> Lots expired or expiring within {EXPIRY_WARNING_DAYS} days
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-1 text-sm text-amber-700">
+            {expiringLots.map(({ material, lot, status }) => (
+              <div key={`${material.id}-${lot.lotNumber}-${lot.restockId || lot.receivedAt}`}>
+                <button type="button" className="font-medium hover:underline" onClick={() => setLotsItem(material)}>
+                  {material.name}
+                </button>{" "}
+                lot <span className="font-mono">{lot.lotNumber}</span>: {Number(lot.quantity).toLocaleString()}{" "}
+                {material.unit} {status === "expired" ? "expired" : "expires"}{" "}
+                {new Date(lot.expiresAt!).toLocaleDateString()}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
       <div className="mb-4 flex gap-4 items-center">
         <div className="relative flex-1">
           <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
@@ -453,6 +448,8 @@ export default function MaterialsPage() {
                 <TableHead>Name</TableHead>
                 <TableHead>SKU</TableHead>
                 <TableHead>Quantity</TableHead>
+                <TableHead>Committed</TableHead>
+                <TableHead>Free</TableHead>
                 <TableHead>Low Stock Threshold</TableHead>
                 <TableHead>Status</TableHead>
                 <TableHead className="text-right w-[60px]">Actions</TableHead>
@@ -461,7 +458,7 @@ export default function MaterialsPage() {
             <TableBody>
               {filteredAndSortedMaterials.length === 0 ? (
                 <TableRow>
-                  <TableCell colSpan={7} className="h-24 text-center text-muted-foreground">
+                  <TableCell colSpan={9} className="h-24 text-center text-muted-foreground">
                     No materials found matching your search.
                   </TableCell>
                 </TableRow>
@@ -474,10 +471,27 @@ export default function MaterialsPage() {
                     <TableCell>
                       {material.quantity.toLocaleString()} {material.unit}
                     </TableCell>
+                    <TableCell className="text-muted-foreground">
+                      {getMaterialBreakdown(material).committed.toLocaleString()} {material.unit}
+                    </TableCell>
+                    <TableCell>
+                      {getMaterialBreakdown(material).free.toLocaleString()} {material.unit}
+                    </TableCell>
                     <TableCell>
                       {material.threshold.toLocaleString()} {material.unit}
                     </TableCell>
-                    <TableCell>{getStatus(material)}</TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {getStatus(material)}
+                        {expiringLots.some((e) => e.material.id === material.id) && (
+                          <Badge variant="outline" className="w-fit border-amber-500 text-amber-700">
+                            {expiringLots.some((e) => e.material.id === material.id && e.status === "expired")
+                              ? "Expired Lot"
+                              : "Lot Expiring"}
+                          </Badge>
+                        )}
+                      </div>
+                    </TableCell>
                     <TableCell className="text-right">
                       <DropdownMenu>
                         <DropdownMenuTrigger asChild>
@@ -487,6 +501,7 @@ export default function MaterialsPage() {
                         </DropdownMenuTrigger>
                         <DropdownMenuContent>
                           <DropdownMenuItem onClick={() => handleViewDetails(material)}>View Details</DropdownMenuItem>
+                          <DropdownMenuItem onClick={() => setLotsItem(material)}>Lots</DropdownMenuItem>
                           {canEditMaterials && (
                             <DropdownMenuItem onClick={() => handleOpenRestock(material)}>Restock</DropdownMenuItem>
                           )}
@@ -507,6 +522,7 @@ export default function MaterialsPage() {
           item={selectedItem}
           itemType="RawMaterial"
           activityLog={activityLog.filter((log) => log.recordId === selectedItem.id)}
+          stockMovements={stockMovements.filter((m) => m.itemId === selectedItem.id)}
           onItemUpdate={handleMaterialUpdated}
           onItemDelete={handleMaterialDeleted}
           disableDelete={false}
@@ -559,9 +575,17 @@ export default function MaterialsPage() {
           isOpen={!!restockItem}
           onOpenChange={(isOpen) => !isOpen && setRestockItem(null)}
           material={restockItem}
+          trackLots
           onRestock={handleRestock}
         />
       )}
+      {lotsItem && (
+        <MaterialLotsDialog
+          isOpen={!!lotsItem}
+          onOpenChange={(isOpen) => !isOpen && setLotsItem(null)}
+          material={regularMaterials.find((m) => m.id === lotsItem.id) || lotsItem}
+        />
+      )}
     </>
   )
 }
\ No newline at end of file
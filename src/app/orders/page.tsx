@@ -5,14 +5,14 @@ import PageHeader from "@/components/page-header"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent } from "@/components/ui/card"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
-import { PlusCircle, MoreHorizontal, Search, Trash2 } from "lucide-react"
+import { PlusCircle, MoreHorizontal, Search, Trash2, Eye, ArrowRight, XCircle } from "lucide-react"
 import { Input } from "@/components/ui/input"
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu"
 import { useToast } from "@/hooks/use-toast"
 import { usePermissions } from "@/hooks/use-permissions"
 import { useLocalStorage } from "@/hooks/use-local-storage"
-import type { Order, ProductGroup } from "@/lib/types"
+import type { Order, OrderStatus, ProductGroup } from "@/lib/types"
 import { useOrders } from "@/hooks/use-orders"
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
 import { useForm } from "react-hook-form"
@@ -22,6 +22,19 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { useFinalStock } from "@/hooks/use-final-stock"
 import { useProductGroups } from "@/hooks/use-product-groups"
 import { SortControls, sortArray, type SortDirection } from "@/components/sort-controls"
+import { OrderDetailsDialog } from "@/components/order-details-dialog"
+import {
+  ORDER_STATUS_TRANSITIONS,
+  buildOrderLine,
+  computeOrderTotals,
+  formatCurrency,
+  getOrderQuantity,
+  getOrderStatus,
+  orderHoldsStock,
+} from "@/lib/orders"
+import { getStockBreakdown } from "@/lib/stock-availability"
+import { transitionOrderStatus } from "@/lib/firebase/order-operations"
+import { Badge } from "@/components/ui/badge"
 
 const formSchema = z.object({
   orderId: z.string().min(1, "Order ID is required"),
@@ -30,10 +43,10 @@ const formSchema = z.object({
 
 export default function OrdersPage() {
   const { orders, createOrder, deleteOrder } = useOrders()
-  const { finalStock, updateFinalStock } = useFinalStock()
+  const { finalStock } = useFinalStock()
   const { productGroups, loading: productGroupsLoading } = useProductGroups()
   const { toast } = useToast()
-  const { canEdit } = usePermissions()
+  const { canEdit, employee } = usePermissions()
   const canEditOrders = canEdit("Orders")
 
   const [isClient, setIsClient] = useState(false)
@@ -43,10 +56,12 @@ export default function OrdersPage() {
   const [orderTypes] = useLocalStorage<string[]>("orderTypes", [])
   const [selectedGroupId, setSelectedGroupId] = useState("")
   const [lineItems, setLineItems] = useState<
-    { productId: string; quantity: number }
+    { productId: string; quantity: number }[]
   >([])
   const [newLineProductId, setNewLineProductId] = useState("")
   const [newLineQuantity, setNewLineQuantity] = useState<string>("1")
+  const [selectedOrderId, setSelectedOrderId] = useState<string | null>(null)
+  const selectedOrder = orders.find((o) => o.id === selectedOrderId) || null
 
   useEffect(() => setIsClient(true), [])
 
@@ -64,14 +79,22 @@ export default function OrdersPage() {
     const filtered = orders.filter((o) =>
       o.orderId.toLowerCase().includes(q) ||
       (o.name?.toLowerCase() || "").includes(q) ||
-      o.productName?.toLowerCase().includes(q) ||
+      (o.lines || []).some((line) => line.productName?.toLowerCase().includes(q)) ||
       o.orderType.toLowerCase().includes(q) ||
+      getOrderStatus(o).toLowerCase().includes(q) ||
       o.id.toLowerCase().includes(q)
     )
 
     return sortArray(filtered, sortDirection, (order) => order.orderId)
   }, [orders, searchQuery, sortDirection])
 
+  const draftTotals = useMemo(() => {
+    const lines = lineItems
+      .filter((item) => finalStockMap.has(item.productId))
+      .map((item) => buildOrderLine(finalStockMap.get(item.productId)!, item.quantity))
+    return lines.length > 0 ? computeOrderTotals(lines) : null
+  }, [lineItems, finalStockMap])
+
   const handleSelectGroup = (groupId: string) => {
     setSelectedGroupId(groupId)
     const group = (productGroups as ProductGroup[] | undefined)?.find((g) => g.id === groupId)
@@ -127,96 +150,85 @@ export default function OrdersPage() {
     setLineItems((prev) => prev.filter((li) => li.productId !== productId))
   }
 
-  const onSubmit = async (values: z.infer<typeof formSchema>) => {
+  const onSubmit = async (values: z.infer<typeof formSchema>, confirm: boolean) => {
     if (lineItems.length === 0) {
       toast({ variant: "destructive", title: "Error", description: "Add at least one product to the order." })
       return
     }
 
-    // Validate stock for all line items first
     for (const item of lineItems) {
       const product = finalStockMap.get(item.productId)
       if (!product) {
         toast({ variant: "destructive", title: "Error", description: "One of the selected products was not found." })
         return
       }
-      const batches = [...(product.batches || [])]
-      const totalAvailable = batches.reduce((sum, b) => sum + Number(b.quantity ?? 0), 0)
-      if (item.quantity > totalAvailable) {
+      // Confirmation reserves stock, so check against what is not already promised
+      const { available } = getStockBreakdown(product)
+      if (confirm && item.quantity > available) {
         toast({
           variant: "destructive",
           title: "Insufficient Stock",
-          description: `${product.name}: Available ${totalAvailable}, Requested ${item.quantity}`,
+          description: `${product.name}: Available ${available}, Requested ${item.quantity}`,
         })
         return
       }
     }
 
-    // All good, compute updated batches per product and create orders
-    const updatedBatchesByProduct = new Map<string, any[]>()
-
-    for (const item of lineItems) {
-      const product = finalStockMap.get(item.productId)!
-      const originalBatches = [...(product.batches || [])]
-      const sorted = originalBatches
-        .map((b) => ({ ...b }))
-        .sort(
-          (a, b) =>
-            new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime(),
-        )
-      let remaining = Number(item.quantity)
-      for (const b of sorted) {
-        if (remaining <= 0) break
-        const qty = Number(b.quantity ?? 0)
-        const take = Math.min(qty, remaining)
-        b.quantity = qty - take
-        remaining -= take
-      }
-      const updatedById = new Map(sorted.map((b) => [b.batchId, b]))
-      const updatedBatches = (product.batches || []).map(
-        (b) => updatedById.get(b.batchId) || b,
-      )
-      updatedBatchesByProduct.set(product.id, updatedBatches)
+    // Orders start as drafts; stock is reserved on confirmation and deducted on dispatch
+    const now = new Date().toISOString()
+    const lines = lineItems.map((item) => buildOrderLine(finalStockMap.get(item.productId)!, item.quantity))
+    const newOrder: Omit<Order, "id"> = {
+      orderId: values.orderId,
+      orderType: values.orderType,
+      status: "Draft",
+      statusHistory: [{ to: "Draft", timestamp: now, user: employee?.name || "System" }],
+      lines,
+      ...computeOrderTotals(lines),
+      createdAt: now,
     }
 
-    const now = new Date().toISOString()
+    let id: string
     try {
-      // Update stock for all affected products
-      for (const [productId, batches] of updatedBatchesByProduct.entries()) {
-        await updateFinalStock(productId, { batches })
-      }
+      id = await createOrder(newOrder)
+    } catch (e) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to create order",
+      })
+      return
+    }
 
-      // Create one order per line item, sharing the same orderId and orderType
-      for (const item of lineItems) {
-        const product = finalStockMap.get(item.productId)!
-        const newOrder: Omit<Order, "id"> = {
-          orderId: values.orderId,
-          orderType: values.orderType,
-          productId: product.id,
-          productName: product.name,
-          quantity: item.quantity,
-          createdAt: now,
-        }
-        await createOrder(newOrder)
-      }
+    setIsCreateOpen(false)
+    form.reset({ orderId: "", orderType: "" })
+    setSelectedGroupId("")
+    setLineItems([])
+    setNewLineProductId("")
+    setNewLineQuantity("1")
 
+    if (!confirm) {
       toast({
-        title: "Order Created",
-        description: `Created ${lineItems.length} order line${
-          lineItems.length > 1 ? "s" : ""
-        } for ${values.orderId}.`,
+        title: "Draft Saved",
+        description: `Saved ${values.orderId} with ${lines.length} line${lines.length > 1 ? "s" : ""}.`,
+      })
+      return
+    }
+
+    await handleTransition({ ...newOrder, id }, "Confirmed")
+  }
+
+  const handleTransition = async (order: Order, to: OrderStatus) => {
+    try {
+      await transitionOrderStatus({ orderId: order.id, to, user: employee?.name })
+      toast({
+        title: "Order Updated",
+        description: `${order.orderId} is now ${to}.`,
       })
-      setIsCreateOpen(false)
-      form.reset({ orderId: "", orderType: "" })
-      setSelectedGroupId("")
-      setLineItems([])
-      setNewLineProductId("")
-      setNewLineQuantity("1")
     } catch (e) {
       toast({
         variant: "destructive",
         title: "Error",
-        description: "Failed to create order or update stock",
+        description: e instanceof Error ? e.message : `Failed to move ${order.orderId} to ${to}`,
       })
     }
   }
@@ -239,7 +251,7 @@ export default function OrdersPage() {
                 <DialogDescription>Enter order details.</DialogDescription>
               </DialogHeader>
               <Form {...form}>
-                <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4 pt-2">
+                <form onSubmit={form.handleSubmit((values) => onSubmit(values, true))} className="space-y-4 pt-2">
                   <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                     <FormField control={form.control} name="orderId" render={({ field }) => (
                       <FormItem>
@@ -340,21 +352,21 @@ export default function OrdersPage() {
                             <TableHead>Product</TableHead>
                             <TableHead className="w-32">Quantity</TableHead>
                             <TableHead className="w-32">Available</TableHead>
+                            <TableHead className="w-32 text-right">Line Total</TableHead>
                             <TableHead className="w-[60px] text-right">Remove</TableHead>
                           </TableRow>
                         </TableHeader>
                         <TableBody>
                           {lineItems.length === 0 ? (
                             <TableRow>
-                              <TableCell colSpan={4} className="h-16 text-center text-muted-foreground text-sm">
+                              <TableCell colSpan={5} className="h-16 text-center text-muted-foreground text-sm">
                                 No products added. Select a group or add products above.
                               </TableCell>
                             </TableRow>
                           ) : (
                             lineItems.map((item) => {
                               const product = finalStockMap.get(item.productId)
-                              const batches = [...(product?.batches || [])]
-                              const totalAvailable = batches.reduce((sum, b) => sum + Number(b.quantity ?? 0), 0)
+                              const totalAvailable = product ? getStockBreakdown(product).available : 0
                               return (
                                 <TableRow key={item.productId}>
                                   <TableCell>{product?.name || "Unknown product"}</TableCell>
@@ -368,6 +380,9 @@ export default function OrdersPage() {
                                     />
                                   </TableCell>
                                   <TableCell>{totalAvailable}</TableCell>
+                                  <TableCell className="text-right">
+                                    {product ? formatCurrency(computeOrderTotals([buildOrderLine(product, item.quantity)]).total) : "—"}
+                                  </TableCell>
                                   <TableCell className="text-right">
                                     <Button
                                       variant="ghost"
@@ -384,9 +399,23 @@ export default function OrdersPage() {
                         </TableBody>
                       </Table>
                     </div>
+                    {draftTotals && (
+                      <div className="flex justify-end gap-6 text-sm">
+                        <span>Subtotal: {formatCurrency(draftTotals.subtotal)}</span>
+                        <span>GST: {formatCurrency(draftTotals.taxTotal)}</span>
+                        <span className="font-semibold">Total: {formatCurrency(draftTotals.total)}</span>
+                      </div>
+                    )}
                   </div>
-                  <div className="flex justify-end pt-2">
-                    <Button type="submit">Create</Button>
+                  <div className="flex justify-end gap-2 pt-2">
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={form.handleSubmit((values) => onSubmit(values, false))}
+                    >
+                      Save as Draft
+                    </Button>
+                    <Button type="submit">Create &amp; Confirm</Button>
                   </div>
                 </form>
               </Form>
@@ -399,7 +428,7 @@ export default function OrdersPage() {
         <div className="relative flex-1">
           <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
           <Input
-            placeholder="Search by Order ID, Name, Type, or System ID..."
+            placeholder="Search by Order ID, Name, Type, Status, or System ID..."
             value={searchQuery}
             onChange={(e) => setSearchQuery(e.target.value)}
             className="pl-10"
@@ -418,9 +447,11 @@ export default function OrdersPage() {
             <TableHeader>
               <TableRow>
                 <TableHead>Order ID</TableHead>
-                <TableHead>Product</TableHead>
+                <TableHead>Products</TableHead>
                 <TableHead>Quantity</TableHead>
+                <TableHead>Total</TableHead>
                 <TableHead>Order Type</TableHead>
+                <TableHead>Status</TableHead>
                 <TableHead>Created At</TableHead>
                 <TableHead className="text-right w-[60px]">Actions</TableHead>
               </TableRow>
@@ -428,19 +459,27 @@ export default function OrdersPage() {
             <TableBody>
               {filteredAndSortedOrders.length === 0 ? (
                 <TableRow>
-                  <TableCell colSpan={6} className="h-24 text-center text-muted-foreground">
+                  <TableCell colSpan={8} className="h-24 text-center text-muted-foreground">
                     No orders found.
                   </TableCell>
                 </TableRow>
               ) : (
                 filteredAndSortedOrders.map((o: Order) => (
-                  <TableRow key={o.id}>
+                  <TableRow key={o.id} className="cursor-pointer" onClick={() => setSelectedOrderId(o.id)}>
                     <TableCell className="font-mono text-xs">{o.orderId}</TableCell>
-                    <TableCell>{o.productName}</TableCell>
-                    <TableCell>{o.quantity}</TableCell>
+                    <TableCell>
+                      {(o.lines || []).map((line) => line.productName).join(", ")}
+                    </TableCell>
+                    <TableCell>{getOrderQuantity(o)}</TableCell>
+                    <TableCell>{formatCurrency(o.total)}</TableCell>
                     <TableCell>{o.orderType}</TableCell>
+                    <TableCell>
+                      <Badge variant={getOrderStatus(o) === "Cancelled" ? "destructive" : "outline"}>
+                        {getOrderStatus(o)}
+                      </Badge>
+                    </TableCell>
                     <TableCell>{o.createdAt ? new Date(o.createdAt).toLocaleString() : "—"}</TableCell>
-                    <TableCell className="text-right">
+                    <TableCell className="text-right" onClick={(e) => e.stopPropagation()}>
                       <DropdownMenu>
                         <DropdownMenuTrigger asChild>
                           <Button variant="ghost" size="icon">
@@ -448,10 +487,31 @@ export default function OrdersPage() {
                           </Button>
                         </DropdownMenuTrigger>
                         <DropdownMenuContent>
+                          <DropdownMenuItem onClick={() => setSelectedOrderId(o.id)}>
+                            <Eye className="mr-2 h-4 w-4" /> View Details
+                          </DropdownMenuItem>
                           {canEditOrders ? (
-                            <DropdownMenuItem onClick={() => deleteOrder(o.id)} className="text-destructive">
-                              <Trash2 className="mr-2 h-4 w-4" /> Delete
-                            </DropdownMenuItem>
+                            <>
+                              {ORDER_STATUS_TRANSITIONS[getOrderStatus(o)].map((to) => (
+                                <DropdownMenuItem
+                                  key={to}
+                                  onClick={() => handleTransition(o, to)}
+                                  className={to === "Cancelled" ? "text-destructive" : undefined}
+                                >
+                                  {to === "Cancelled" ? (
+                                    <XCircle className="mr-2 h-4 w-4" />
+                                  ) : (
+                                    <ArrowRight className="mr-2 h-4 w-4" />
+                                  )}
+                                  {to === "Cancelled" ? "Cancel Order" : `Mark as ${to}`}
+                                </DropdownMenuItem>
+                              ))}
+                              {!orderHoldsStock(getOrderStatus(o)) && (
+                                <DropdownMenuItem onClick={() => deleteOrder(o.id)} className="text-destructive">
+                                  <Trash2 className="mr-2 h-4 w-4" /> Delete
+                                </DropdownMenuItem>
+                              )}
+                            </>
                           ) : (
                             <DropdownMenuItem disabled>View Only</DropdownMenuItem>
                           )}
@@ -465,6 +525,14 @@ export default function OrdersPage() {
           </Table>
         </CardContent>
       </Card>
+
+      {selectedOrder && (
+        <OrderDetailsDialog
+          isOpen={!!selectedOrder}
+          onOpenChange={(open) => !open && setSelectedOrderId(null)}
+          order={selectedOrder}
+        />
+      )}
     </>
   )
 }
@@ -17,6 +17,8 @@ import { Chatbot } from "@/components/chatbot"
 import { Badge } from "@/components/ui/badge"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { formatMsToHMS } from "@/lib/utils"
+import { workingTimeBetween } from "@/lib/shifts"
+import { useShiftCalendar } from "@/hooks/use-shift-calendar"
 import { KPICard, KPIGrid } from "@/components/ui/kpi-card"
 import { TruncatedId } from "@/components/ui/data-table"
 import { MotivationalQuote } from "@/components/motivational-quote"
@@ -26,6 +28,7 @@ import { FallbackAISuggestions } from "@/components/fallback-ai-suggestions"
 export default function DashboardPage() {
   const { batches } = useBatches()
   const { rawMaterials } = useRawMaterials()
+  const { calendar } = useShiftCalendar()
   const [suggestions, setSuggestions] = useState<ProductionSuggestion[]>([])
   const [loadingSuggestions, setLoadingSuggestions] = useState(true)
   const [suggestionsError, setSuggestionsError] = useState<string | null>(null)
@@ -139,8 +142,8 @@ export default function DashboardPage() {
     const counts: Record<StageName, number> = { Molding: 0, Machining: 0, Assembling: 0, Testing: 0 }
 
     for (const b of batches) {
-      // Exclude fully completed batches from "currently in stage"
-      if (b.status === "Completed") continue
+      // Exclude fully completed and merged batches from "currently in stage"
+      if (b.status === "Completed" || b.status === "Merged") continue
 
       const processes = b.selectedProcesses || []
       // Find the latest stage that has started but not completed
@@ -187,26 +190,30 @@ export default function DashboardPage() {
       .filter(item => item.rejected > 0) // Only show stages with actual wastage
   }, [completedBatches])
 
+  // Lead time from batch creation to its last finished stage, in working hours of the shift calendar
   const cycleTimeData = useMemo(() => {
-    const cycleTimes: Record<string, { totalDays: number; count: number }> = {}
+    const cycleTimes: Record<string, { totalHours: number; count: number }> = {}
     completedBatches.forEach((batch) => {
-      const createdAt = new Date(batch.createdAt)
-      // This is a simplification. A more robust solution would timestamp each stage completion.
-      const lastStageCompletionDate = new Date() // Simulate completion date as now for demo
-      const cycleDays = (lastStageCompletionDate.getTime() - createdAt.getTime()) / (1000 * 3600 * 24)
+      const finishedAt = Object.values(batch.processingStages || {})
+        .map((s) => s?.finishedAt)
+        .filter((f): f is string => Boolean(f))
+        .sort()
+        .pop()
+      if (!finishedAt) return
+      const cycleHours = workingTimeBetween(batch.createdAt, finishedAt, calendar) / 3600000
 
       if (!cycleTimes[batch.productName]) {
-        cycleTimes[batch.productName] = { totalDays: 0, count: 0 }
+        cycleTimes[batch.productName] = { totalHours: 0, count: 0 }
       }
-      cycleTimes[batch.productName].totalDays += cycleDays
+      cycleTimes[batch.productName].totalHours += cycleHours
       cycleTimes[batch.productName].count++
     })
 
     return Object.entries(cycleTimes).map(([name, data]) => ({
       name,
-      avgCycleTime: Number.parseFloat((data.totalDays / data.count).toFixed(1)),
+      avgCycleTime: Number.parseFloat((data.totalHours / data.count).toFixed(1)),
     }))
-  }, [completedBatches])
+  }, [completedBatches, calendar])
 
   // Helper function to format batch ID for display
   const formatBatchId = (batch: { id: string; batchId?: string; batchCode?: string }) => {
@@ -394,7 +401,7 @@ export default function DashboardPage() {
       const s = (selectedBatch.processingStages as any)[stage] as
         | { startedAt?: string; finishedAt?: string }
         | undefined
-      const ms = s?.startedAt && s?.finishedAt ? Math.max(0, Date.parse(s.finishedAt) - Date.parse(s.startedAt)) : 0
+      const ms = s?.startedAt && s?.finishedAt ? workingTimeBetween(s.startedAt, s.finishedAt, calendar) : 0
       return {
         stage,
         hours: Number((ms / 3600000).toFixed(2)),
@@ -402,7 +409,7 @@ export default function DashboardPage() {
         color: (stageColors as any)[stage],
       }
     })
-  }, [selectedBatch])
+  }, [selectedBatch, calendar])
 
   const ProductTooltip = ({ active, payload, label }: any) => {
     if (active && payload && payload.length) {
@@ -973,12 +980,12 @@ export default function DashboardPage() {
                   Production Cycle Time Analysis
                 </CardTitle>
                 <CardDescription>
-                  Time efficiency metrics from batch creation to completion
+                  Working hours from batch creation to completion, per the shift calendar
                 </CardDescription>
               </CardHeader>
               <CardContent>
                 <ChartContainer
-                  config={{ avgCycleTime: { label: "Avg. Cycle Time (Days)", color: "hsl(var(--primary))" } }}
+                  config={{ avgCycleTime: { label: "Avg. Cycle Time (Working Hours)", color: "hsl(var(--primary))" } }}
                   className="h-[280px] w-full"
                 >
                   <ResponsiveContainer width="100%" height="100%">
@@ -996,18 +1003,19 @@ export default function DashboardPage() {
                       />
                       <YAxis 
                         tick={{ fontSize: 12 }}
-                        label={{ value: "Days", angle: -90, position: "insideLeft", fontSize: 11 }}
+                        label={{ value: "Working hours", angle: -90, position: "insideLeft", fontSize: 11 }}
                       />
                       <Tooltip 
                         content={({ active, payload, label }) => {
                           if (active && payload && payload.length) {
-                            const days = payload[0].value as number
+                            const hours = payload[0].value as number
+                            const average = cycleTimeData.reduce((sum, item) => sum + item.avgCycleTime, 0) / cycleTimeData.length
                             return (
                               <div className="bg-background border rounded-lg p-3 shadow-lg">
                                 <p className="font-semibold">{label}</p>
-                                <p className="text-primary">Avg. Cycle Time: {days} days</p>
+                                <p className="text-primary">Avg. Cycle Time: {hours} working hours</p>
                                 <p className="text-xs text-muted-foreground mt-1">
-                                  {days > 7 ? 'Above average - consider optimization' : 'Efficient production cycle'}
+                                  {hours > average ? 'Above average - consider optimization' : 'Efficient production cycle'}
                                 </p>
                               </div>
                             )
@@ -1041,7 +1049,7 @@ export default function DashboardPage() {
                     <Clock className="h-5 w-5 text-purple-600" />
                     Stage Duration Deep Dive
                   </CardTitle>
-                  <CardDescription>Detailed time analysis per production stage for batch optimization</CardDescription>
+                  <CardDescription>Working time per production stage for batch optimization</CardDescription>
                 </div>
                 <div className="w-full sm:w-64">
                   <Select value={selectedBatchId ?? ""} onValueChange={(v) => setSelectedBatchId(v)}>
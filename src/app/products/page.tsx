@@ -13,11 +13,13 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
-import type { FinalStock } from "@/lib/types";
+import type { FinalStock, InspectionPlan } from "@/lib/types";
+import { getStockBreakdown } from "@/lib/stock-availability";
 import { PlusCircle, MoreHorizontal, FileDown, Upload, Search, AlertTriangle, XCircle } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { useFinalStock } from "@/hooks/use-final-stock";
 import { useActivityLog } from "@/hooks/use-activity-log";
+import { useStockMovements } from "@/hooks/use-stock-movements";
 import { usePermissions } from "@/hooks/use-permissions";
 import { useBatches } from "@/hooks/use-batches";
 import { useRawMaterials } from "@/hooks/use-raw-materials";
@@ -44,8 +46,10 @@ import { CSVImportDialog } from "@/components/csv-import-dialog";
 import { ProductDetailsDialog } from "@/components/product-details-dialog";
 import { Badge } from "@/components/ui/badge";
 import { RestockModal } from "@/components/restock-modal";
+import { InspectionPlanDialog } from "@/components/inspection-plan-dialog";
 import { SortControls, sortArray, type SortDirection } from "@/components/sort-controls";
 import { addRawMaterial, updateRawMaterial, batchUpdateRawMaterials } from "@/lib/firebase/firestore-operations";
+import { restockProduct } from "@/lib/firebase/stock-operations";
 
 // Grouped product interface
 interface GroupedProduct {
@@ -193,7 +197,8 @@ export default function ProductsPage() {
   const { finalStock, createFinalStock, updateFinalStock, deleteFinalStock } =
     useFinalStock();
   const { activityLog, createActivityLog } = useActivityLog();
-  const { canEdit } = usePermissions();
+  const { stockMovements } = useStockMovements();
+  const { canEdit, employee } = usePermissions();
   const { batches } = useBatches();
   const { rawMaterials } = useRawMaterials();
   const [isCreateFormOpen, setIsCreateFormOpen] = useState(false);
@@ -210,6 +215,7 @@ export default function ProductsPage() {
   const [deleteTargetProduct, setDeleteTargetProduct] = useState<FinalStock | null>(null);
   const [deleteDependentProducts, setDeleteDependentProducts] = useState<FinalStock[]>([]);
   const [isDeleteConfirmOpen, setIsDeleteConfirmOpen] = useState(false);
+  const [inspectionPlanProduct, setInspectionPlanProduct] = useState<FinalStock | null>(null);
   const { toast } = useToast();
   
   const canEditFinalStock = canEdit("Final Stock");
@@ -717,6 +723,29 @@ export default function ProductsPage() {
     }
   };
 
+  const handleSaveInspectionPlan = async (product: FinalStock, plan: InspectionPlan): Promise<boolean> => {
+    try {
+      await updateFinalStock(product.id, { inspectionPlan: plan });
+      await createActivityLog({
+        recordId: product.id,
+        recordType: "FinalStock",
+        action: "Updated",
+        details: `Inspection plan for "${product.name}" saved with ${plan.characteristics.length} characteristic(s) and a sample size of ${plan.sampleSize}.`,
+        timestamp: new Date().toISOString(),
+        user: "System",
+      });
+      toast({ title: "Inspection Plan Saved", description: `Testing will measure ${plan.characteristics.length} characteristic(s) for ${product.name}.` });
+      return true;
+    } catch (e) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: e instanceof Error ? e.message : "Failed to save inspection plan.",
+      });
+      return false;
+    }
+  };
+
   const handleRestock = async (
     product: GroupedProduct,
     data: { quantity: number; batchId: string; sku: string; companyName: string; restockDate: string },
@@ -726,44 +755,14 @@ export default function ProductsPage() {
         throw new Error("Product template not found");
       }
 
-      // Import the functions dynamically to avoid circular imports
-      const { addBatchToProduct, addRestockRecord } = await import("@/lib/firebase/firestore-operations");
-
-      const existingBatches = product.productTemplate.batches || [];
-      const previousStock = existingBatches.reduce(
-        (sum, b) => sum + Number(b.quantity ?? 0),
-        0,
-      );
-      const updatedStock = previousStock + Number(data.quantity);
-
-      const newBatch = {
+      await restockProduct({
+        productId: product.productTemplate.id,
         batchId: data.batchId,
-        sourceBatchId: data.batchId,
-        quantity: data.quantity,
         sku: data.sku,
-        createdAt: new Date().toISOString(),
-      };
-
-      await addBatchToProduct(product.productTemplate.id, newBatch);
-
-      await addRestockRecord({
-        productId: product.productTemplate.id,
-        productName: product.productName,
-        quantityAdded: data.quantity,
+        quantity: data.quantity,
         companyName: data.companyName,
         restockDate: new Date(data.restockDate + "T00:00:00").toISOString(),
-        previousStock,
-        updatedStock,
-        createdAt: new Date().toISOString(),
-      });
-
-      await createActivityLog({
-        recordId: product.productTemplate.id,
-        recordType: "FinalStock",
-        action: "Restocked",
-        details: `Added ${data.quantity} units via batch ${data.batchId} from ${data.companyName} (prev: ${previousStock}, new: ${updatedStock}).`,
-        timestamp: new Date().toISOString(),
-        user: "System",
+        user: employee?.name,
       });
 
       toast({
@@ -913,7 +912,9 @@ const filteredAndSortedProducts = useMemo(() => {
                 <TableHead>Product ID</TableHead>
                 <TableHead>Name</TableHead>
                 <TableHead>SKU</TableHead>
-                <TableHead>Quantity</TableHead>
+                <TableHead>On Hand</TableHead>
+                <TableHead>Reserved</TableHead>
+                <TableHead>Available</TableHead>
                 <TableHead>Low Stock Threshold</TableHead>
                 <TableHead>Status</TableHead>
                 <TableHead>Unit Price</TableHead>
@@ -924,7 +925,7 @@ const filteredAndSortedProducts = useMemo(() => {
             <TableBody>
               {filteredAndSortedProducts.length === 0 ? (
                 <TableRow>
-                  <TableCell colSpan={7} className="h-24 text-center text-muted-foreground">
+                  <TableCell colSpan={13} className="h-24 text-center text-muted-foreground">
                     No products found matching your search.
                   </TableCell>
                 </TableRow>
@@ -952,14 +953,20 @@ const filteredAndSortedProducts = useMemo(() => {
                     {group.firstEntry.sku}
                   </TableCell>
                   <TableCell>
-                    {group.batches.reduce((sum: number, b: any) => sum + Number(b.fullEntry.quantity ?? 0), 0)} pcs
+                    {getStockBreakdown(group.firstEntry).onHand} pcs
+                  </TableCell>
+                  <TableCell>
+                    {getStockBreakdown(group.firstEntry).reserved} pcs
+                  </TableCell>
+                  <TableCell className="font-medium">
+                    {getStockBreakdown(group.firstEntry).available} pcs
                   </TableCell>
                   <TableCell>
                     {group.productTemplate?.threshold ?? 0} pcs
                   </TableCell>
                   <TableCell>
                     {getStatus(
-                      group.batches.reduce((sum: number, b: any) => sum + Number(b.fullEntry.quantity ?? 0), 0),
+                      getStockBreakdown(group.firstEntry).available,
                       group.productTemplate?.threshold ?? 0
                     )}
                   </TableCell>
@@ -987,6 +994,13 @@ const filteredAndSortedProducts = useMemo(() => {
                             Restock
                           </DropdownMenuItem>
                         )}
+                        {canEditFinalStock && group.productTemplate && (
+                          <DropdownMenuItem
+                            onClick={() => setInspectionPlanProduct(group.productTemplate)}
+                          >
+                            Inspection Plan
+                          </DropdownMenuItem>
+                        )}
                       </DropdownMenuContent>
                     </DropdownMenu>
                   </TableCell>
@@ -1049,6 +1063,10 @@ const filteredAndSortedProducts = useMemo(() => {
             log.recordId === selectedGroupedProduct.productTemplate?.id ||
             log.recordId === selectedGroupedProduct.firstEntry.id
           )}
+          stockMovements={stockMovements.filter((m) =>
+            m.itemId === selectedGroupedProduct.productTemplate?.id ||
+            m.itemId === selectedGroupedProduct.firstEntry.id
+          )}
           onProductUpdate={handleProductUpdated}
           onProductDelete={handleProductDeleted}
           canEdit={canEditFinalStock}
@@ -1063,6 +1081,16 @@ const filteredAndSortedProducts = useMemo(() => {
           onRestock={(data) => handleRestock(restockModal.product!, data)}
         />
       )}
+      {inspectionPlanProduct && (
+        <InspectionPlanDialog
+          isOpen
+          onOpenChange={(isOpen) => !isOpen && setInspectionPlanProduct(null)}
+          productName={inspectionPlanProduct.name}
+          measurementSketch={inspectionPlanProduct.measurementSketch}
+          plan={inspectionPlanProduct.inspectionPlan}
+          onSave={(plan) => handleSaveInspectionPlan(inspectionPlanProduct, plan)}
+        />
+      )}
     </>
   );
 }
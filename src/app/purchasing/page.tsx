@@ -0,0 +1,562 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import PageHeader from "@/components/page-header"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { PlusCircle, MoreHorizontal, Search, Trash2, Eye, XCircle, PackageCheck, Send } from "lucide-react"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Badge } from "@/components/ui/badge"
+import { useToast } from "@/hooks/use-toast"
+import { usePermissions } from "@/hooks/use-permissions"
+import { useSuppliers } from "@/hooks/use-suppliers"
+import { usePurchaseOrders } from "@/hooks/use-purchase-orders"
+import { useRawMaterials } from "@/hooks/use-raw-materials"
+import { PurchaseOrderDialog, type ReceivedLot } from "@/components/purchase-order-dialog"
+import { formatCurrency } from "@/lib/orders"
+import {
+  PURCHASE_ORDER_STATUSES,
+  getExpectedDate,
+  getOutstandingValue,
+  getPurchaseOrderTotal,
+  getSupplierPrice,
+  isPurchaseOrderOpen,
+} from "@/lib/purchasing"
+import type { PurchaseOrder, PurchaseOrderLine } from "@/lib/types"
+
+export default function PurchasingPage() {
+  const { suppliers } = useSuppliers()
+  const {
+    purchaseOrders,
+    createPurchaseOrder,
+    deletePurchaseOrder,
+    receivePurchaseOrder,
+    issuePurchaseOrder,
+    cancelPurchaseOrder,
+  } = usePurchaseOrders()
+  const { regularMaterials } = useRawMaterials()
+  const { toast } = useToast()
+  const { canEdit, employee } = usePermissions()
+  const canEditPurchasing = canEdit("Purchasing")
+
+  const [isClient, setIsClient] = useState(false)
+  const [isCreateOpen, setIsCreateOpen] = useState(false)
+  const [searchQuery, setSearchQuery] = useState("")
+  const [supplierFilter, setSupplierFilter] = useState("all")
+  const [statusFilter, setStatusFilter] = useState("active")
+  const [selectedPoId, setSelectedPoId] = useState<string | null>(null)
+  const selectedPo = purchaseOrders.find((po) => po.id === selectedPoId) || null
+
+  // Create-PO form state
+  const [supplierId, setSupplierId] = useState("")
+  const [expectedDate, setExpectedDate] = useState("")
+  const [notes, setNotes] = useState("")
+  const [lineItems, setLineItems] = useState<{ materialId: string; quantity: number; pricePerUnit: number }[]>([])
+  const [newLineMaterialId, setNewLineMaterialId] = useState("")
+  const [newLineQuantity, setNewLineQuantity] = useState<string>("1")
+
+  useEffect(() => setIsClient(true), [])
+
+  const supplierMap = useMemo(() => new Map(suppliers.map((s) => [s.id, s])), [suppliers])
+  const materialMap = useMemo(() => new Map(regularMaterials.map((m) => [m.id, m])), [regularMaterials])
+  const selectedSupplier = supplierMap.get(supplierId)
+
+  // Materials the chosen supplier is known to provide come first
+  const orderableMaterials = useMemo(() => {
+    const supplied = new Set((selectedSupplier?.materials || []).map((m) => m.materialId))
+    return regularMaterials
+      .filter((m) => !lineItems.some((li) => li.materialId === m.id))
+      .sort((a, b) => Number(supplied.has(b.id)) - Number(supplied.has(a.id)) || a.name.localeCompare(b.name))
+  }, [regularMaterials, selectedSupplier, lineItems])
+
+  const openBySupplier = useMemo(() => {
+    const summary = new Map<string, { supplierName: string; count: number; outstandingValue: number }>()
+    for (const po of purchaseOrders.filter(isPurchaseOrderOpen)) {
+      const current = summary.get(po.supplierId) || { supplierName: po.supplierName, count: 0, outstandingValue: 0 }
+      current.count += 1
+      current.outstandingValue += getOutstandingValue(po)
+      summary.set(po.supplierId, current)
+    }
+    return [...summary.entries()].sort((a, b) => b[1].outstandingValue - a[1].outstandingValue)
+  }, [purchaseOrders])
+
+  const filteredPurchaseOrders = useMemo(() => {
+    const q = searchQuery.toLowerCase()
+    return purchaseOrders
+      .filter((po) => supplierFilter === "all" || po.supplierId === supplierFilter)
+      .filter((po) =>
+        statusFilter === "all"
+          ? true
+          : statusFilter === "active"
+            ? po.status === "Draft" || isPurchaseOrderOpen(po)
+            : po.status === statusFilter,
+      )
+      .filter((po) =>
+        po.poNumber.toLowerCase().includes(q) ||
+        po.supplierName.toLowerCase().includes(q) ||
+        (po.lines || []).some((line) => line.materialName.toLowerCase().includes(q)),
+      )
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+  }, [purchaseOrders, searchQuery, supplierFilter, statusFilter])
+
+  const resetCreateForm = () => {
+    setSupplierId("")
+    setExpectedDate("")
+    setNotes("")
+    setLineItems([])
+    setNewLineMaterialId("")
+    setNewLineQuantity("1")
+  }
+
+  const handleSelectSupplier = (id: string) => {
+    setSupplierId(id)
+    setExpectedDate(getExpectedDate(supplierMap.get(id)))
+    setLineItems((prev) =>
+      prev.map((li) => ({ ...li, pricePerUnit: getSupplierPrice(supplierMap.get(id), li.materialId) ?? li.pricePerUnit })),
+    )
+  }
+
+  const handleAddLineItem = () => {
+    if (!newLineMaterialId) {
+      toast({ variant: "destructive", title: "Error", description: "Select a material to add." })
+      return
+    }
+    const quantityNumber = Number(newLineQuantity)
+    if (!Number.isFinite(quantityNumber) || quantityNumber <= 0) {
+      toast({ variant: "destructive", title: "Error", description: "Quantity must be greater than 0." })
+      return
+    }
+    setLineItems((prev) => [
+      ...prev,
+      {
+        materialId: newLineMaterialId,
+        quantity: quantityNumber,
+        pricePerUnit: getSupplierPrice(selectedSupplier, newLineMaterialId) ?? 0,
+      },
+    ])
+    setNewLineMaterialId("")
+    setNewLineQuantity("1")
+  }
+
+  const handleUpdateLine = (materialId: string, field: "quantity" | "pricePerUnit", value: string) => {
+    const num = Number(value)
+    setLineItems((prev) =>
+      prev.map((li) =>
+        li.materialId === materialId && Number.isFinite(num) && (field === "quantity" ? num > 0 : num >= 0)
+          ? { ...li, [field]: num }
+          : li,
+      ),
+    )
+  }
+
+  const handleCreate = async () => {
+    if (!selectedSupplier) {
+      toast({ variant: "destructive", title: "Error", description: "Select a supplier." })
+      return
+    }
+    if (lineItems.length === 0) {
+      toast({ variant: "destructive", title: "Error", description: "Add at least one material to the purchase order." })
+      return
+    }
+
+    const lines: PurchaseOrderLine[] = lineItems.map((item) => {
+      const material = materialMap.get(item.materialId)
+      return {
+        materialId: item.materialId,
+        materialName: material?.name || item.materialId,
+        unit: material?.unit || "",
+        quantityOrdered: item.quantity,
+        quantityReceived: 0,
+        pricePerUnit: item.pricePerUnit,
+      }
+    })
+
+    try {
+      const { poNumber } = await createPurchaseOrder({
+        supplierId: selectedSupplier.id,
+        supplierName: selectedSupplier.name,
+        lines,
+        expectedDate: expectedDate ? new Date(expectedDate + "T00:00:00").toISOString() : undefined,
+        notes: notes.trim() || undefined,
+      })
+      toast({
+        title: "Purchase Order Raised",
+        description: `${poNumber} sent to ${selectedSupplier.name} for ${formatCurrency(getPurchaseOrderTotal({ lines }))}.`,
+      })
+      setIsCreateOpen(false)
+      resetCreateForm()
+    } catch (e) {
+      toast({ variant: "destructive", title: "Error", description: e instanceof Error ? e.message : "Failed to create purchase order." })
+    }
+  }
+
+  const handleReceive = async (
+    po: PurchaseOrder,
+    quantities: Record<string, number>,
+    receivedAt: string,
+    lots: Record<string, ReceivedLot>,
+  ) => {
+    try {
+      await receivePurchaseOrder({ purchaseOrderId: po.id, quantities, receivedAt, lots, user: employee?.name })
+      toast({ title: "Receipt Recorded", description: `Stock received against ${po.poNumber}.` })
+      return true
+    } catch (e) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: e instanceof Error ? e.message : `Failed to receive ${po.poNumber}`,
+      })
+      return false
+    }
+  }
+
+  const handleIssue = async (po: PurchaseOrder) => {
+    try {
+      await issuePurchaseOrder(po.id, employee?.name)
+      toast({ title: "Purchase Order Issued", description: `${po.poNumber} is now open with ${po.supplierName}.` })
+    } catch (e) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: e instanceof Error ? e.message : `Failed to issue ${po.poNumber}.`,
+      })
+    }
+  }
+
+  const handleCancel = async (po: PurchaseOrder) => {
+    try {
+      // Anything already received stays in stock; only the outstanding balance is cancelled
+      await cancelPurchaseOrder(po.id, employee?.name)
+      toast({ title: "Purchase Order Cancelled", description: `${po.poNumber} has been cancelled.` })
+    } catch (e) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: e instanceof Error ? e.message : `Failed to cancel ${po.poNumber}.`,
+      })
+    }
+  }
+
+  if (!isClient) return null
+
+  return (
+    <>
+      <PageHeader title="Purchase Orders" description="Raise purchase orders with suppliers and receive raw materials.">
+        {canEditPurchasing && (
+          <Dialog
+            open={isCreateOpen}
+            onOpenChange={(open) => {
+              setIsCreateOpen(open)
+              if (!open) resetCreateForm()
+            }}
+          >
+            <DialogTrigger asChild>
+              <Button>
+                <PlusCircle className="mr-2 h-4 w-4" /> New Purchase Order
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="sm:max-w-[760px] max-h-[90vh] overflow-y-auto">
+              <DialogHeader>
+                <DialogTitle>Raise Purchase Order</DialogTitle>
+                <DialogDescription>Prices default to the supplier&apos;s agreed rate for each material.</DialogDescription>
+              </DialogHeader>
+              <div className="space-y-4 pt-2">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-1">
+                    <p className="text-sm font-medium">Supplier</p>
+                    <Select value={supplierId} onValueChange={handleSelectSupplier}>
+                      <SelectTrigger>
+                        <SelectValue placeholder={suppliers.length ? "Select supplier" : "Add suppliers first"} />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {suppliers.map((s) => (
+                          <SelectItem key={s.id} value={s.id}>{s.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {selectedSupplier && (
+                      <p className="text-xs text-muted-foreground">
+                        Lead time: {selectedSupplier.leadTimeDays} day{selectedSupplier.leadTimeDays === 1 ? "" : "s"}
+                      </p>
+                    )}
+                  </div>
+                  <div className="space-y-1">
+                    <p className="text-sm font-medium">Expected Delivery</p>
+                    <Input type="date" value={expectedDate} onChange={(e) => setExpectedDate(e.target.value)} />
+                  </div>
+                </div>
+
+                <div className="flex items-end gap-2">
+                  <div className="flex-1">
+                    <p className="text-sm font-medium mb-1">Add Material</p>
+                    <Select value={newLineMaterialId} onValueChange={setNewLineMaterialId}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select material" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {orderableMaterials.map((m) => {
+                          const price = getSupplierPrice(selectedSupplier, m.id)
+                          return (
+                            <SelectItem key={m.id} value={m.id}>
+                              {m.name}
+                              {price !== undefined ? ` · ${formatCurrency(price)}/${m.unit}` : ""}
+                            </SelectItem>
+                          )
+                        })}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="w-32">
+                    <p className="text-sm font-medium mb-1">Quantity</p>
+                    <Input
+                      type="number"
+                      step="0.0001"
+                      min="0"
+                      value={newLineQuantity}
+                      onChange={(e) => setNewLineQuantity(e.target.value)}
+                    />
+                  </div>
+                  <Button type="button" variant="outline" onClick={handleAddLineItem}>
+                    <PlusCircle className="mr-2 h-4 w-4" /> Add to List
+                  </Button>
+                </div>
+
+                <div className="border rounded-md">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Material</TableHead>
+                        <TableHead className="w-32">Quantity</TableHead>
+                        <TableHead className="w-32">Price / Unit</TableHead>
+                        <TableHead className="w-32 text-right">Line Total</TableHead>
+                        <TableHead className="w-[60px] text-right">Remove</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {lineItems.length === 0 ? (
+                        <TableRow>
+                          <TableCell colSpan={5} className="h-16 text-center text-muted-foreground text-sm">
+                            No materials added.
+                          </TableCell>
+                        </TableRow>
+                      ) : (
+                        lineItems.map((item) => {
+                          const material = materialMap.get(item.materialId)
+                          return (
+                            <TableRow key={item.materialId}>
+                              <TableCell>
+                                {material?.name || "Unknown material"}
+                                <span className="ml-1 text-xs text-muted-foreground">({material?.unit})</span>
+                              </TableCell>
+                              <TableCell>
+                                <Input
+                                  type="number"
+                                  step="0.0001"
+                                  min="0"
+                                  value={item.quantity}
+                                  onChange={(e) => handleUpdateLine(item.materialId, "quantity", e.target.value)}
+                                />
+                              </TableCell>
+                              <TableCell>
+                                <Input
+                                  type="number"
+                                  step="0.01"
+                                  min="0"
+                                  value={item.pricePerUnit}
+                                  onChange={(e) => handleUpdateLine(item.materialId, "pricePerUnit", e.target.value)}
+                                />
+                              </TableCell>
+                              <TableCell className="text-right">{formatCurrency(item.quantity * item.pricePerUnit)}</TableCell>
+                              <TableCell className="text-right">
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  onClick={() => setLineItems((prev) => prev.filter((li) => li.materialId !== item.materialId))}
+                                >
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              </TableCell>
+                            </TableRow>
+                          )
+                        })
+                      )}
+                    </TableBody>
+                  </Table>
+                </div>
+
+                <div className="space-y-1">
+                  <p className="text-sm font-medium">Notes</p>
+                  <Textarea value={notes} onChange={(e) => setNotes(e.target.value)} rows={2} />
+                </div>
+
+                <div className="flex items-center justify-between pt-2">
+                  <span className="text-sm font-semibold">
+                    Total: {formatCurrency(lineItems.reduce((sum, li) => sum + li.quantity * li.pricePerUnit, 0))}
+                  </span>
+                  <Button type="button" onClick={handleCreate}>Raise PO</Button>
+                </div>
+              </div>
+            </DialogContent>
+          </Dialog>
+        )}
+      </PageHeader>
+
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle>Open POs by Supplier</CardTitle>
+          <CardDescription>Purchase orders still awaiting delivery, with the value yet to be received.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {openBySupplier.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No open purchase orders.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Supplier</TableHead>
+                  <TableHead className="text-right">Open POs</TableHead>
+                  <TableHead className="text-right">Outstanding Value</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {openBySupplier.map(([id, summary]) => (
+                  <TableRow key={id} className="cursor-pointer" onClick={() => setSupplierFilter(id)}>
+                    <TableCell>{supplierMap.get(id)?.name || summary.supplierName}</TableCell>
+                    <TableCell className="text-right">{summary.count}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(summary.outstandingValue)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="mb-4 flex gap-4 items-center">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            placeholder="Search by PO number, supplier, or material..."
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            className="pl-10"
+          />
+        </div>
+        <Select value={supplierFilter} onValueChange={setSupplierFilter}>
+          <SelectTrigger className="w-48">
+            <SelectValue placeholder="Supplier" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Suppliers</SelectItem>
+            {suppliers.map((s) => (
+              <SelectItem key={s.id} value={s.id}>{s.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={statusFilter} onValueChange={setStatusFilter}>
+          <SelectTrigger className="w-48">
+            <SelectValue placeholder="Status" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="active">Draft, Open &amp; Partial</SelectItem>
+            <SelectItem value="all">All Statuses</SelectItem>
+            {PURCHASE_ORDER_STATUSES.map((status) => (
+              <SelectItem key={status} value={status}>{status}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>PO Number</TableHead>
+                <TableHead>Supplier</TableHead>
+                <TableHead>Materials</TableHead>
+                <TableHead>Total</TableHead>
+                <TableHead>Outstanding</TableHead>
+                <TableHead>Expected</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right w-[60px]">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {filteredPurchaseOrders.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="h-24 text-center text-muted-foreground">
+                    No purchase orders found.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                filteredPurchaseOrders.map((po) => (
+                  <TableRow key={po.id} className="cursor-pointer" onClick={() => setSelectedPoId(po.id)}>
+                    <TableCell className="font-mono text-xs">{po.poNumber}</TableCell>
+                    <TableCell>{po.supplierName}</TableCell>
+                    <TableCell>{(po.lines || []).map((line) => line.materialName).join(", ")}</TableCell>
+                    <TableCell>{formatCurrency(getPurchaseOrderTotal(po))}</TableCell>
+                    <TableCell>{isPurchaseOrderOpen(po) ? formatCurrency(getOutstandingValue(po)) : "—"}</TableCell>
+                    <TableCell>{po.expectedDate ? new Date(po.expectedDate).toLocaleDateString() : "—"}</TableCell>
+                    <TableCell>
+                      <Badge variant={po.status === "Cancelled" ? "destructive" : "outline"}>{po.status}</Badge>
+                    </TableCell>
+                    <TableCell className="text-right" onClick={(e) => e.stopPropagation()}>
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button variant="ghost" size="icon">
+                            <MoreHorizontal className="h-4 w-4" />
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent>
+                          <DropdownMenuItem onClick={() => setSelectedPoId(po.id)}>
+                            <Eye className="mr-2 h-4 w-4" /> View Details
+                          </DropdownMenuItem>
+                          {canEditPurchasing && po.status === "Draft" && (
+                            <DropdownMenuItem onClick={() => handleIssue(po)}>
+                              <Send className="mr-2 h-4 w-4" /> Issue PO
+                            </DropdownMenuItem>
+                          )}
+                          {canEditPurchasing && isPurchaseOrderOpen(po) && (
+                            <>
+                              <DropdownMenuItem onClick={() => setSelectedPoId(po.id)}>
+                                <PackageCheck className="mr-2 h-4 w-4" /> Receive
+                              </DropdownMenuItem>
+                              <DropdownMenuItem onClick={() => handleCancel(po)} className="text-destructive">
+                                <XCircle className="mr-2 h-4 w-4" /> Cancel PO
+                              </DropdownMenuItem>
+                            </>
+                          )}
+                          {canEditPurchasing && (po.status === "Draft" || po.status === "Open") && (po.receipts || []).length === 0 && (
+                            <DropdownMenuItem onClick={() => deletePurchaseOrder(po.id)} className="text-destructive">
+                              <Trash2 className="mr-2 h-4 w-4" /> Delete
+                            </DropdownMenuItem>
+                          )}
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {selectedPo && (
+        <PurchaseOrderDialog
+          isOpen={!!selectedPo}
+          onOpenChange={(open) => !open && setSelectedPoId(null)}
+          purchaseOrder={selectedPo}
+          canReceive={canEditPurchasing}
+          onReceive={handleReceive}
+        />
+      )}
+    </>
+  )
+}
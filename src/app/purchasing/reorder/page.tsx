@@ -0,0 +1,282 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import PageHeader from "@/components/page-header"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Input } from "@/components/ui/input"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { FilePlus2 } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import { usePermissions } from "@/hooks/use-permissions"
+import { useRawMaterials } from "@/hooks/use-raw-materials"
+import { useBatches } from "@/hooks/use-batches"
+import { useSuppliers } from "@/hooks/use-suppliers"
+import { usePurchaseOrders } from "@/hooks/use-purchase-orders"
+import { useStockMovements } from "@/hooks/use-stock-movements"
+import { formatCurrency } from "@/lib/orders"
+import { getExpectedDate, getSupplierPrice } from "@/lib/purchasing"
+import { CONSUMPTION_WINDOW_DAYS, planReorders } from "@/lib/reorder-planning"
+import type { PurchaseOrderLine } from "@/lib/types"
+
+const formatQty = (value: number) => Number(value.toFixed(2))
+
+export default function ReorderPlannerPage() {
+  const { regularMaterials } = useRawMaterials()
+  const { batches } = useBatches()
+  const { suppliers } = useSuppliers()
+  const { purchaseOrders, createPurchaseOrder } = usePurchaseOrders()
+  const { stockMovements } = useStockMovements()
+  const { toast } = useToast()
+  const { canEdit } = usePermissions()
+  const canEditPurchasing = canEdit("Purchasing")
+
+  const [isClient, setIsClient] = useState(false)
+  const [isCreating, setIsCreating] = useState(false)
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  // User overrides per material; anything not overridden follows the suggestion
+  const [quantityOverrides, setQuantityOverrides] = useState<Record<string, number>>({})
+  const [supplierOverrides, setSupplierOverrides] = useState<Record<string, string>>({})
+
+  useEffect(() => setIsClient(true), [])
+
+  const suggestions = useMemo(
+    () =>
+      planReorders({
+        materials: regularMaterials,
+        batches,
+        suppliers,
+        purchaseOrders,
+        movements: stockMovements,
+      }),
+    [regularMaterials, batches, suppliers, purchaseOrders, stockMovements],
+  )
+
+  const supplierMap = useMemo(() => new Map(suppliers.map((s) => [s.id, s])), [suppliers])
+
+  const getRowSupplierId = (materialId: string) =>
+    supplierOverrides[materialId] ?? suggestions.find((s) => s.material.id === materialId)?.supplier?.id ?? ""
+
+  const getRowQuantity = (materialId: string) =>
+    quantityOverrides[materialId] ?? suggestions.find((s) => s.material.id === materialId)?.suggestedQuantity ?? 0
+
+  const toggle = (materialId: string, checked: boolean) => {
+    setSelected((prev) => {
+      const next = new Set(prev)
+      if (checked) next.add(materialId)
+      else next.delete(materialId)
+      return next
+    })
+  }
+
+  const allSelected = suggestions.length > 0 && suggestions.every((s) => selected.has(s.material.id))
+
+  const handleCreateDrafts = async () => {
+    const rows = suggestions.filter((s) => selected.has(s.material.id))
+    if (rows.length === 0) {
+      toast({ variant: "destructive", title: "Error", description: "Select at least one material." })
+      return
+    }
+    const missingSupplier = rows.find((s) => !getRowSupplierId(s.material.id))
+    if (missingSupplier) {
+      toast({
+        variant: "destructive",
+        title: "Supplier Required",
+        description: `Choose a supplier for ${missingSupplier.material.name}.`,
+      })
+      return
+    }
+
+    // One draft PO per supplier
+    const bySupplier = new Map<string, PurchaseOrderLine[]>()
+    for (const row of rows) {
+      const supplierId = getRowSupplierId(row.material.id)
+      const quantity = getRowQuantity(row.material.id)
+      if (quantity <= 0) continue
+      bySupplier.set(supplierId, [
+        ...(bySupplier.get(supplierId) || []),
+        {
+          materialId: row.material.id,
+          materialName: row.material.name,
+          unit: row.material.unit,
+          quantityOrdered: quantity,
+          quantityReceived: 0,
+          pricePerUnit: getSupplierPrice(supplierMap.get(supplierId), row.material.id) ?? 0,
+        },
+      ])
+    }
+
+    setIsCreating(true)
+    try {
+      const created: string[] = []
+      for (const [supplierId, lines] of bySupplier) {
+        const supplier = supplierMap.get(supplierId)!
+        const { poNumber } = await createPurchaseOrder(
+          {
+            supplierId,
+            supplierName: supplier.name,
+            lines,
+            expectedDate: new Date(getExpectedDate(supplier) + "T00:00:00").toISOString(),
+            notes: "Created from reorder planner",
+          },
+          "Draft",
+        )
+        created.push(poNumber)
+      }
+      toast({
+        title: "Draft POs Created",
+        description: `${created.join(", ")} ready for review in Purchase Orders.`,
+      })
+      setSelected(new Set())
+      setQuantityOverrides({})
+      setSupplierOverrides({})
+    } catch (e) {
+      toast({ variant: "destructive", title: "Error", description: e instanceof Error ? e.message : "Failed to create draft purchase orders." })
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
+  if (!isClient) return null
+
+  return (
+    <>
+      <PageHeader
+        title="Reorder Planner"
+        description="Suggested purchases from stock thresholds, open batch demand and supplier lead times."
+      >
+        {canEditPurchasing && (
+          <Button onClick={handleCreateDrafts} disabled={isCreating || selected.size === 0}>
+            <FilePlus2 className="mr-2 h-4 w-4" />
+            {isCreating ? "Creating..." : `Create Draft POs (${selected.size})`}
+          </Button>
+        )}
+      </PageHeader>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Suggested Purchases</CardTitle>
+          <CardDescription>
+            Suggested = threshold + open batch demand + usage during lead time − on hand − on order. Usage is the
+            average batch consumption over the last {CONSUMPTION_WINDOW_DAYS} days.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                {canEditPurchasing && (
+                  <TableHead className="w-[40px]">
+                    <Checkbox
+                      checked={allSelected}
+                      onCheckedChange={(checked) =>
+                        setSelected(checked ? new Set(suggestions.map((s) => s.material.id)) : new Set())
+                      }
+                    />
+                  </TableHead>
+                )}
+                <TableHead>Material</TableHead>
+                <TableHead className="text-right">On Hand</TableHead>
+                <TableHead className="text-right">Threshold</TableHead>
+                <TableHead className="text-right">Batch Demand</TableHead>
+                <TableHead className="text-right">On Order</TableHead>
+                <TableHead className="text-right">Lead Time Use</TableHead>
+                <TableHead>Supplier</TableHead>
+                <TableHead className="w-32">Order Qty</TableHead>
+                <TableHead className="text-right">Est. Cost</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {suggestions.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={canEditPurchasing ? 10 : 9} className="h-24 text-center text-muted-foreground">
+                    No materials need reordering.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                suggestions.map((s) => {
+                  const materialId = s.material.id
+                  const supplierId = getRowSupplierId(materialId)
+                  const quantity = getRowQuantity(materialId)
+                  const price = getSupplierPrice(supplierMap.get(supplierId), materialId)
+                  const candidates = suppliers.filter((sup) => getSupplierPrice(sup, materialId) !== undefined)
+                  return (
+                    <TableRow key={materialId}>
+                      {canEditPurchasing && (
+                        <TableCell>
+                          <Checkbox
+                            checked={selected.has(materialId)}
+                            onCheckedChange={(checked) => toggle(materialId, !!checked)}
+                          />
+                        </TableCell>
+                      )}
+                      <TableCell>
+                        <div className="font-medium">{s.material.name}</div>
+                        {s.projected < 0 && (
+                          <Badge variant="destructive" className="mt-1">
+                            Short {formatQty(-s.projected)} {s.material.unit}
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">{formatQty(s.onHand)} {s.material.unit}</TableCell>
+                      <TableCell className="text-right">{s.material.threshold}</TableCell>
+                      <TableCell className="text-right">{formatQty(s.batchDemand)}</TableCell>
+                      <TableCell className="text-right">{formatQty(s.onOrder)}</TableCell>
+                      <TableCell className="text-right">
+                        {formatQty(s.leadTimeDemand)}
+                        <span className="ml-1 text-xs text-muted-foreground">({s.leadTimeDays}d)</span>
+                      </TableCell>
+                      <TableCell>
+                        {candidates.length === 0 ? (
+                          <span className="text-sm text-muted-foreground">No supplier</span>
+                        ) : (
+                          <Select
+                            value={supplierId}
+                            onValueChange={(value) => setSupplierOverrides((prev) => ({ ...prev, [materialId]: value }))}
+                            disabled={!canEditPurchasing}
+                          >
+                            <SelectTrigger className="w-44">
+                              <SelectValue placeholder="Select supplier" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {candidates.map((sup) => (
+                                <SelectItem key={sup.id} value={sup.id}>
+                                  {sup.name} ({sup.leadTimeDays}d)
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min="0"
+                          step="1"
+                          value={quantity}
+                          disabled={!canEditPurchasing}
+                          onChange={(e) => {
+                            const value = Number(e.target.value)
+                            if (Number.isFinite(value) && value >= 0) {
+                              setQuantityOverrides((prev) => ({ ...prev, [materialId]: value }))
+                            }
+                          }}
+                        />
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {price !== undefined ? formatCurrency(price * quantity) : "—"}
+                      </TableCell>
+                    </TableRow>
+                  )
+                })
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </>
+  )
+}
@@ -0,0 +1,423 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import PageHeader from "@/components/page-header"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { PlusCircle, MoreHorizontal, Search, Trash2, Pencil } from "lucide-react"
+import { Input } from "@/components/ui/input"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { useForm } from "react-hook-form"
+import * as z from "zod"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { useToast } from "@/hooks/use-toast"
+import { usePermissions } from "@/hooks/use-permissions"
+import { useSuppliers } from "@/hooks/use-suppliers"
+import { usePurchaseOrders } from "@/hooks/use-purchase-orders"
+import { useRawMaterials } from "@/hooks/use-raw-materials"
+import { formatCurrency } from "@/lib/orders"
+import { isPurchaseOrderOpen } from "@/lib/purchasing"
+import type { Supplier, SupplierMaterial } from "@/lib/types"
+
+const formSchema = z.object({
+  name: z.string().min(1, "Supplier name is required"),
+  contactName: z.string().optional(),
+  email: z.string().email("Enter a valid email").or(z.literal("")).optional(),
+  phone: z.string().optional(),
+  address: z.string().optional(),
+  leadTimeDays: z.coerce.number().min(0, "Lead time cannot be negative"),
+})
+
+const emptyForm = { name: "", contactName: "", email: "", phone: "", address: "", leadTimeDays: 7 }
+
+export default function SuppliersPage() {
+  const { suppliers, createSupplier, updateSupplier, deleteSupplier } = useSuppliers()
+  const { purchaseOrders } = usePurchaseOrders()
+  const { regularMaterials } = useRawMaterials()
+  const { toast } = useToast()
+  const { canEdit } = usePermissions()
+  const canEditPurchasing = canEdit("Purchasing")
+
+  const [isClient, setIsClient] = useState(false)
+  const [isFormOpen, setIsFormOpen] = useState(false)
+  const [editingSupplier, setEditingSupplier] = useState<Supplier | null>(null)
+  const [searchQuery, setSearchQuery] = useState("")
+  const [materials, setMaterials] = useState<SupplierMaterial[]>([])
+  const [newMaterialId, setNewMaterialId] = useState("")
+  const [newPrice, setNewPrice] = useState<string>("")
+
+  useEffect(() => setIsClient(true), [])
+
+  const form = useForm<z.infer<typeof formSchema>>({
+    resolver: zodResolver(formSchema),
+    defaultValues: emptyForm,
+  })
+
+  const materialMap = useMemo(() => new Map(regularMaterials.map((m) => [m.id, m])), [regularMaterials])
+
+  const openPoCounts = useMemo(() => {
+    const counts = new Map<string, number>()
+    for (const po of purchaseOrders.filter(isPurchaseOrderOpen)) {
+      counts.set(po.supplierId, (counts.get(po.supplierId) || 0) + 1)
+    }
+    return counts
+  }, [purchaseOrders])
+
+  const filteredSuppliers = useMemo(() => {
+    const q = searchQuery.toLowerCase()
+    return suppliers
+      .filter((s) =>
+        s.name.toLowerCase().includes(q) ||
+        (s.contactName?.toLowerCase() || "").includes(q) ||
+        (s.materials || []).some((m) => materialMap.get(m.materialId)?.name.toLowerCase().includes(q)),
+      )
+      .sort((a, b) => a.name.localeCompare(b.name))
+  }, [suppliers, searchQuery, materialMap])
+
+  const openForm = (supplier: Supplier | null) => {
+    setEditingSupplier(supplier)
+    form.reset(
+      supplier
+        ? {
+            name: supplier.name,
+            contactName: supplier.contactName || "",
+            email: supplier.email || "",
+            phone: supplier.phone || "",
+            address: supplier.address || "",
+            leadTimeDays: supplier.leadTimeDays,
+          }
+        : emptyForm,
+    )
+    setMaterials(supplier?.materials || [])
+    setNewMaterialId("")
+    setNewPrice("")
+    setIsFormOpen(true)
+  }
+
+  const handleAddMaterial = () => {
+    const price = Number(newPrice)
+    if (!newMaterialId) {
+      toast({ variant: "destructive", title: "Error", description: "Select a material to add." })
+      return
+    }
+    if (!Number.isFinite(price) || price < 0) {
+      toast({ variant: "destructive", title: "Error", description: "Price per unit cannot be negative." })
+      return
+    }
+    setMaterials((prev) => [...prev, { materialId: newMaterialId, pricePerUnit: price }])
+    setNewMaterialId("")
+    setNewPrice("")
+  }
+
+  const handleUpdatePrice = (materialId: string, value: string) => {
+    const price = Number(value)
+    setMaterials((prev) =>
+      prev.map((m) =>
+        m.materialId === materialId ? { ...m, pricePerUnit: Number.isFinite(price) && price >= 0 ? price : m.pricePerUnit } : m,
+      ),
+    )
+  }
+
+  const onSubmit = async (values: z.infer<typeof formSchema>) => {
+    // Optional fields are stored as "" so clearing them on edit is persisted
+    const data = {
+      name: values.name.trim(),
+      contactName: values.contactName?.trim() || "",
+      email: values.email?.trim() || "",
+      phone: values.phone?.trim() || "",
+      address: values.address?.trim() || "",
+      leadTimeDays: values.leadTimeDays,
+      materials,
+    }
+
+    try {
+      if (editingSupplier) {
+        await updateSupplier(editingSupplier.id, data)
+        toast({ title: "Supplier Updated", description: `${data.name} has been updated.` })
+      } else {
+        await createSupplier(data)
+        toast({ title: "Supplier Added", description: `${data.name} has been added.` })
+      }
+      setIsFormOpen(false)
+    } catch (e) {
+      toast({ variant: "destructive", title: "Error", description: e instanceof Error ? e.message : "Failed to save supplier." })
+    }
+  }
+
+  const handleDelete = async (supplier: Supplier) => {
+    if (openPoCounts.get(supplier.id)) {
+      toast({
+        variant: "destructive",
+        title: "Cannot Delete",
+        description: `${supplier.name} has open purchase orders.`,
+      })
+      return
+    }
+    try {
+      await deleteSupplier(supplier.id)
+      toast({ title: "Supplier Deleted", description: `${supplier.name} has been deleted.` })
+    } catch (e) {
+      toast({ variant: "destructive", title: "Error", description: e instanceof Error ? e.message : "Failed to delete supplier." })
+    }
+  }
+
+  if (!isClient) return null
+
+  return (
+    <>
+      <PageHeader title="Suppliers" description="Manage suppliers, lead times and the materials they provide.">
+        {canEditPurchasing && (
+          <Button onClick={() => openForm(null)}>
+            <PlusCircle className="mr-2 h-4 w-4" /> Add Supplier
+          </Button>
+        )}
+      </PageHeader>
+
+      <div className="mb-4 relative">
+        <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+        <Input
+          placeholder="Search by supplier, contact, or material..."
+          value={searchQuery}
+          onChange={(e) => setSearchQuery(e.target.value)}
+          className="pl-10"
+        />
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Supplier</TableHead>
+                <TableHead>Contact</TableHead>
+                <TableHead>Lead Time</TableHead>
+                <TableHead>Materials Supplied</TableHead>
+                <TableHead>Open POs</TableHead>
+                <TableHead className="text-right w-[60px]">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {filteredSuppliers.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="h-24 text-center text-muted-foreground">
+                    No suppliers found.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                filteredSuppliers.map((s) => (
+                  <TableRow key={s.id}>
+                    <TableCell className="font-medium">{s.name}</TableCell>
+                    <TableCell>
+                      <div className="text-sm">{s.contactName || "—"}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {[s.email, s.phone].filter(Boolean).join(" · ")}
+                      </div>
+                    </TableCell>
+                    <TableCell>{s.leadTimeDays} day{s.leadTimeDays === 1 ? "" : "s"}</TableCell>
+                    <TableCell className="text-sm">
+                      {(s.materials || []).length === 0
+                        ? "—"
+                        : (s.materials || [])
+                            .map((m) => {
+                              const material = materialMap.get(m.materialId)
+                              return `${material?.name || m.materialId} (${formatCurrency(m.pricePerUnit)}/${material?.unit || "unit"})`
+                            })
+                            .join(", ")}
+                    </TableCell>
+                    <TableCell>{openPoCounts.get(s.id) || 0}</TableCell>
+                    <TableCell className="text-right">
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button variant="ghost" size="icon">
+                            <MoreHorizontal className="h-4 w-4" />
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent>
+                          {canEditPurchasing ? (
+                            <>
+                              <DropdownMenuItem onClick={() => openForm(s)}>
+                                <Pencil className="mr-2 h-4 w-4" /> Edit
+                              </DropdownMenuItem>
+                              <DropdownMenuItem onClick={() => handleDelete(s)} className="text-destructive">
+                                <Trash2 className="mr-2 h-4 w-4" /> Delete
+                              </DropdownMenuItem>
+                            </>
+                          ) : (
+                            <DropdownMenuItem disabled>View Only</DropdownMenuItem>
+                          )}
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent className="sm:max-w-[720px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingSupplier ? "Edit Supplier" : "Add Supplier"}</DialogTitle>
+            <DialogDescription>Contact details, typical lead time and agreed prices per material.</DialogDescription>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4 pt-2">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <FormField control={form.control} name="name" render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Supplier Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g., Acme Polymers" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )} />
+                <FormField control={form.control} name="leadTimeDays" render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Lead Time (days)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min="0" step="1" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )} />
+                <FormField control={form.control} name="contactName" render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Contact Person</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )} />
+                <FormField control={form.control} name="phone" render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Phone</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )} />
+                <FormField control={form.control} name="email" render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Email</FormLabel>
+                    <FormControl>
+                      <Input type="email" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )} />
+                <FormField control={form.control} name="address" render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Address</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )} />
+              </div>
+
+              <div className="space-y-3">
+                <div className="flex items-end gap-2">
+                  <div className="flex-1">
+                    <p className="text-sm font-medium mb-1">Material Supplied</p>
+                    <Select value={newMaterialId} onValueChange={setNewMaterialId}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select material" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {regularMaterials
+                          .filter((m) => !materials.some((sm) => sm.materialId === m.id))
+                          .map((m) => (
+                            <SelectItem key={m.id} value={m.id}>{m.name}</SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="w-36">
+                    <p className="text-sm font-medium mb-1">Price / Unit</p>
+                    <Input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={newPrice}
+                      onChange={(e) => setNewPrice(e.target.value)}
+                    />
+                  </div>
+                  <Button type="button" variant="outline" onClick={handleAddMaterial}>
+                    <PlusCircle className="mr-2 h-4 w-4" /> Add
+                  </Button>
+                </div>
+                <div className="border rounded-md">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Material</TableHead>
+                        <TableHead className="w-40">Price / Unit</TableHead>
+                        <TableHead className="w-[60px] text-right">Remove</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {materials.length === 0 ? (
+                        <TableRow>
+                          <TableCell colSpan={3} className="h-16 text-center text-muted-foreground text-sm">
+                            No materials added.
+                          </TableCell>
+                        </TableRow>
+                      ) : (
+                        materials.map((m) => (
+                          <TableRow key={m.materialId}>
+                            <TableCell>
+                              {materialMap.get(m.materialId)?.name || m.materialId}
+                              <span className="ml-1 text-xs text-muted-foreground">
+                                ({materialMap.get(m.materialId)?.unit || "unit"})
+                              </span>
+                            </TableCell>
+                            <TableCell>
+                              <Input
+                                type="number"
+                                step="0.01"
+                                min="0"
+                                value={m.pricePerUnit}
+                                onChange={(e) => handleUpdatePrice(m.materialId, e.target.value)}
+                              />
+                            </TableCell>
+                            <TableCell className="text-right">
+                              <Button
+                                type="button"
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => setMaterials((prev) => prev.filter((x) => x.materialId !== m.materialId))}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </TableCell>
+                          </TableRow>
+                        ))
+                      )}
+                    </TableBody>
+                  </Table>
+                </div>
+              </div>
+
+              <div className="flex justify-end gap-2 pt-2">
+                <Button type="button" variant="outline" onClick={() => setIsFormOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit">{editingSupplier ? "Save Changes" : "Add Supplier"}</Button>
+              </div>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
@@ -1,6 +1,7 @@
 "use client"
 
 import { useMemo, useState } from "react"
+import Link from "next/link"
 import PageHeader from "@/components/page-header"
 import { Card, CardContent } from "@/components/ui/card"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
@@ -10,6 +11,8 @@ import { ShieldX } from "lucide-react"
 import { useActivityLog } from "@/hooks/use-activity-log"
 import { useRawMaterials } from "@/hooks/use-raw-materials"
 import { useFinalStock } from "@/hooks/use-final-stock"
+import { useStockMovements } from "@/hooks/use-stock-movements"
+import { STOCK_MOVEMENT_REASON_LABELS, getMaterialStockKind, getStockMovementReference } from "@/lib/stock-movements"
 import type { ActivityLog, RawMaterial, FinalStock, LogAction } from "@/lib/types"
 import { Input } from "@/components/ui/input"
 import { Button } from "@/components/ui/button"
@@ -30,6 +33,7 @@ export default function AuditTrailPage() {
   const canAccessReports = canEdit("Reports")
 
   const { activityLog, loading } = useActivityLog()
+  const { stockMovements, loading: movementsLoading } = useStockMovements()
   const { rawMaterials } = useRawMaterials()
   const { finalStock } = useFinalStock()
 
@@ -62,7 +66,7 @@ export default function AuditTrailPage() {
 
       if (log.recordType === "RawMaterial") {
         const material = rawMap.get(log.recordId)
-        const isStoreItem = !!material && (material.isMoulded || material.isFinished || material.isAssembled)
+        const isStoreItem = !!material && getMaterialStockKind(material) === "StoreItem"
         entityType = isStoreItem ? "StoreItem" : "RawMaterial"
         entityName = material?.name
         entitySystemId = material?.id ?? log.recordId
@@ -127,6 +131,36 @@ export default function AuditTrailPage() {
     })
   }, [enrichedLogs, from, to, actionFilter, entityFilter, userFilter])
 
+  // Stock movements share the date/entity/user filters with the audit log above
+  const filteredMovements = useMemo(() => {
+    return stockMovements.filter((m) => {
+      const ts = new Date(m.timestamp)
+
+      if (from) {
+        const fromDate = new Date(from)
+        fromDate.setHours(0, 0, 0, 0)
+        if (ts < fromDate) return false
+      }
+
+      if (to) {
+        const toDate = new Date(to)
+        toDate.setHours(23, 59, 59, 999)
+        if (ts > toDate) return false
+      }
+
+      const entityType = m.itemKind === "FinalStock" ? "FinalStockItem" : m.itemKind
+      if (entityFilter !== "all" && entityType !== entityFilter) {
+        return false
+      }
+
+      if (userFilter && !m.user.toLowerCase().includes(userFilter.toLowerCase())) {
+        return false
+      }
+
+      return true
+    })
+  }, [stockMovements, from, to, entityFilter, userFilter])
+
   const totalPages = Math.max(1, Math.ceil(filteredLogs.length / PAGE_SIZE))
   const currentPage = Math.min(page, totalPages - 1)
 
@@ -354,6 +388,67 @@ export default function AuditTrailPage() {
           </div>
         </CardContent>
       </Card>
+
+      <Card>
+        <CardContent className="pt-6">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-lg font-semibold">Stock Movements</h2>
+            <Link href="/reports/stock-movements" className="text-sm text-primary hover:underline">
+              View full ledger
+            </Link>
+          </div>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Timestamp</TableHead>
+                <TableHead>Item</TableHead>
+                <TableHead>Reason</TableHead>
+                <TableHead>Reference</TableHead>
+                <TableHead className="text-right">Quantity</TableHead>
+                <TableHead className="text-right">Balance After</TableHead>
+                <TableHead>User</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {movementsLoading ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="h-24 text-center">
+                    Loading stock movements...
+                  </TableCell>
+                </TableRow>
+              ) : filteredMovements.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="h-24 text-center text-muted-foreground">
+                    No stock movements found for the selected filters.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                filteredMovements.slice(0, PAGE_SIZE).map((m) => (
+                  <TableRow key={m.id}>
+                    <TableCell className="whitespace-nowrap text-xs">
+                      {new Date(m.timestamp).toLocaleString()}
+                    </TableCell>
+                    <TableCell className="text-xs">
+                      <span className="font-medium">{m.itemName}</span>
+                      <span className="ml-1 text-[10px] text-muted-foreground">({m.itemKind})</span>
+                    </TableCell>
+                    <TableCell className="text-xs">{STOCK_MOVEMENT_REASON_LABELS[m.reason] || m.reason}</TableCell>
+                    <TableCell className="text-xs font-mono">{getStockMovementReference(m) || "—"}</TableCell>
+                    <TableCell
+                      className={`text-right text-xs font-medium ${Number(m.quantity) >= 0 ? "text-green-600" : "text-red-600"}`}
+                    >
+                      {Number(m.quantity) >= 0 ? "+" : ""}
+                      {m.quantity} {m.unit}
+                    </TableCell>
+                    <TableCell className="text-right text-xs">{m.balanceAfter ?? "—"}</TableCell>
+                    <TableCell className="text-xs">{m.user}</TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
     </div>
   )
 }
@@ -0,0 +1,268 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import PageHeader from "@/components/page-header"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { usePermissions } from "@/hooks/use-permissions"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { AlertTriangle, ShieldX } from "lucide-react"
+import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
+import { useBatches } from "@/hooks/use-batches"
+import { useProcessDefinitions } from "@/hooks/use-process-definitions"
+import { useWorkstations } from "@/hooks/use-workstations"
+import { useDowntimeEvents } from "@/hooks/use-downtime-events"
+import { useShiftCalendar } from "@/hooks/use-shift-calendar"
+import { getStageLabel } from "@/lib/stages"
+import { getShiftLabel } from "@/lib/shifts"
+import { formatMsToHMS } from "@/lib/utils"
+import { csvCell } from "@/lib/format-utils"
+import { computeOee, getOeeFactors, summarizeDowntime, type OeeRow } from "@/lib/oee"
+
+function formatYMD(d: Date): string {
+  const y = d.getFullYear()
+  const m = String(d.getMonth() + 1).padStart(2, "0")
+  const day = String(d.getDate()).padStart(2, "0")
+  return `${y}-${m}-${day}`
+}
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`
+
+// World-class OEE is commonly taken as 85%
+function oeeClass(value: number): string {
+  if (value >= 0.85) return "text-green-600 font-semibold"
+  if (value >= 0.6) return "text-amber-600 font-semibold"
+  return "text-red-600 font-semibold"
+}
+
+export default function OeeReportPage() {
+  const { canEdit, loading: permissionsLoading } = usePermissions()
+  const canAccessReports = canEdit("Reports")
+
+  const { batches, loading: batchesLoading } = useBatches()
+  const { processDefinitions } = useProcessDefinitions()
+  const { workstations } = useWorkstations()
+  const { downtimeEvents } = useDowntimeEvents()
+  const { calendar } = useShiftCalendar()
+
+  const [from, setFrom] = useState(() => {
+    const d = new Date()
+    d.setDate(d.getDate() - 7)
+    return formatYMD(d)
+  })
+  const [to, setTo] = useState(() => formatYMD(new Date()))
+
+  const oee = useMemo(
+    () =>
+      from && to
+        ? computeOee({ batches, workstations, downtimeEvents, from, to, calendar })
+        : { byShift: [], byWorkstation: [] },
+    [batches, workstations, downtimeEvents, from, to, calendar],
+  )
+  const downtime = useMemo(
+    () => (from && to ? summarizeDowntime(downtimeEvents, from, to, calendar) : []),
+    [downtimeEvents, from, to, calendar],
+  )
+
+  function downloadCSV() {
+    const headers = ["Workstation", "Stage", "Shift", "Shifts Worked", "Planned Hours", "Downtime Hours", "Accepted", "Rejected", "Availability %", "Performance %", "Quality %", "OEE %"]
+    const lines = [headers.join(",")]
+    for (const row of [...oee.byShift, ...oee.byWorkstation]) {
+      const f = getOeeFactors(row)
+      lines.push(
+        [
+          csvCell(row.label),
+          csvCell(getStageLabel(processDefinitions, row.stage)),
+          row.shift ? csvCell(row.shift.name) : "All",
+          row.shifts,
+          (row.plannedMs / 3_600_000).toFixed(2),
+          (row.downtimeMs / 3_600_000).toFixed(2),
+          Math.round(row.accepted),
+          Math.round(row.rejected),
+          (f.availability * 100).toFixed(1),
+          (f.performance * 100).toFixed(1),
+          (f.quality * 100).toFixed(1),
+          (f.oee * 100).toFixed(1),
+        ].join(","),
+      )
+    }
+    const csv = lines.join("\n")
+    const blob = new Blob([csv], { type: "text/csv;charset=utf-8;" })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement("a")
+    a.href = url
+    a.download = `oee-${from}-to-${to}.csv`
+    document.body.appendChild(a)
+    a.click()
+    document.body.removeChild(a)
+    URL.revokeObjectURL(url)
+  }
+
+  if (permissionsLoading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <div className="h-6 w-6 animate-spin rounded-full border-2 border-gray-300 border-t-gray-700" />
+      </div>
+    )
+  }
+
+  if (!canAccessReports) {
+    return (
+      <div className="space-y-6">
+        <PageHeader title="OEE" description="Availability, performance and quality per workstation and shift." />
+        <Alert variant="destructive" className="max-w-2xl">
+          <ShieldX className="h-4 w-4" />
+          <AlertDescription>
+            You don&apos;t have permission to access Reports. Only users with Reports edit permissions can view this page.
+          </AlertDescription>
+        </Alert>
+      </div>
+    )
+  }
+
+  const renderRows = (rows: OeeRow[], showShift: boolean) =>
+    rows.map((row) => {
+      const f = getOeeFactors(row)
+      const isOverRated = f.performance > 1
+      return (
+        <TableRow key={row.key} className={isOverRated ? "bg-amber-50" : undefined}>
+          <TableCell className="font-medium">{row.label}</TableCell>
+          <TableCell>{getStageLabel(processDefinitions, row.stage)}</TableCell>
+          {showShift && <TableCell>{row.shift ? getShiftLabel(row.shift) : "—"}</TableCell>}
+          <TableCell className="text-right">{row.shifts}</TableCell>
+          <TableCell className="text-right font-mono text-xs">{formatMsToHMS(row.plannedMs)}</TableCell>
+          <TableCell className="text-right font-mono text-xs">{formatMsToHMS(row.downtimeMs)}</TableCell>
+          <TableCell className="text-right">{Math.round(row.accepted).toLocaleString()}</TableCell>
+          <TableCell className="text-right">{Math.round(row.rejected).toLocaleString()}</TableCell>
+          <TableCell className="text-right">{percent(f.availability)}</TableCell>
+          <TableCell
+            className={`text-right ${isOverRated ? "text-amber-600 font-semibold" : ""}`}
+            title={isOverRated ? "More units than the rated capacity allows: check the capacity in Setup and the cycle times." : undefined}
+          >
+            {isOverRated && <AlertTriangle className="mr-1 inline h-3 w-3" />}
+            {row.capacityPerHour > 0 ? percent(f.performance) : "—"}
+          </TableCell>
+          <TableCell className="text-right">{percent(f.quality)}</TableCell>
+          <TableCell className={`text-right ${oeeClass(f.oee)}`}>{percent(f.oee)}</TableCell>
+        </TableRow>
+      )
+    })
+
+  const renderTable = (title: string, description: string, rows: OeeRow[], showShift: boolean) => (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base">{title}</CardTitle>
+        <CardDescription>{description}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Workstation</TableHead>
+              <TableHead>Stage</TableHead>
+              {showShift && <TableHead>Shift</TableHead>}
+              <TableHead className="text-right">Shifts</TableHead>
+              <TableHead className="text-right">Planned</TableHead>
+              <TableHead className="text-right">Downtime</TableHead>
+              <TableHead className="text-right">Accepted</TableHead>
+              <TableHead className="text-right">Rejected</TableHead>
+              <TableHead className="text-right">Availability</TableHead>
+              <TableHead className="text-right">Performance</TableHead>
+              <TableHead className="text-right">Quality</TableHead>
+              <TableHead className="text-right">OEE</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {batchesLoading ? (
+              <TableRow>
+                <TableCell colSpan={showShift ? 12 : 11} className="h-16 text-center text-muted-foreground">
+                  Loading...
+                </TableCell>
+              </TableRow>
+            ) : rows.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={showShift ? 12 : 11} className="h-16 text-center text-muted-foreground">
+                  No workstation output or downtime in this period.
+                </TableCell>
+              </TableRow>
+            ) : (
+              renderRows(rows, showShift)
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  )
+
+  return (
+    <div className="space-y-6">
+      <PageHeader title="OEE" description="Availability, performance and quality per workstation and shift." />
+
+      <div className="flex flex-wrap gap-3 items-end">
+        <div className="grid gap-1">
+          <label htmlFor="from" className="text-sm text-muted-foreground">
+            From date
+          </label>
+          <Input id="from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="w-44" />
+        </div>
+        <div className="grid gap-1">
+          <label htmlFor="to" className="text-sm text-muted-foreground">
+            To date
+          </label>
+          <Input id="to" type="date" value={to} onChange={(e) => setTo(e.target.value)} className="w-44" />
+        </div>
+        <Button onClick={downloadCSV} disabled={oee.byWorkstation.length === 0}>
+          Download CSV
+        </Button>
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        A workstation&apos;s planned time is the working time, breaks excluded, of each shift in the shift calendar it
+        ran or was down in. Downtime outside working time is not counted. Availability is the share of it not lost to
+        downtime, performance compares units made with the workstation&apos;s rated capacity over the run time, and quality
+        is accepted over all units. Rows above 100% performance are highlighted: the rated capacity is set too low or
+        units were booked outside the run. A cycle&apos;s units are spread over the shifts it ran in by its
+        working time in each, assuming an even rate, so per-shift figures are approximate.
+      </p>
+
+      {renderTable("By Workstation", "All shifts in the period", oee.byWorkstation, false)}
+      {renderTable("By Workstation and Shift", "Each shift pattern separately", oee.byShift, true)}
+
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-base">Downtime by Reason</CardTitle>
+          <CardDescription>Where availability was lost, longest first</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Reason</TableHead>
+                <TableHead className="text-right">Events</TableHead>
+                <TableHead className="text-right">Downtime</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {downtime.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={3} className="h-16 text-center text-muted-foreground">
+                    No downtime logged in this period.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                downtime.map((row) => (
+                  <TableRow key={row.reason}>
+                    <TableCell className="font-medium">{row.reason}</TableCell>
+                    <TableCell className="text-right">{row.events}</TableCell>
+                    <TableCell className="text-right font-mono text-xs">{formatMsToHMS(row.downtimeMs)}</TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -9,6 +9,9 @@ import { usePermissions } from "@/hooks/use-permissions"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { ShieldX } from "lucide-react"
 import { useFinalStock } from "@/hooks/use-final-stock"
+import { getLineAmounts, getOrderStatus } from "@/lib/orders"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 
 export default function OrderReportsPage() {
   const { orders, loading: ordersLoading } = useOrders()
@@ -17,27 +20,39 @@ export default function OrderReportsPage() {
   
   const canAccessOrderReports = canEdit("Reports")
 
+  // One report row per order line
   const rows = useMemo(() => {
-    return orders.map((o) => {
-      const product = finalStock.find(
-        (p) => p.id === o.productId || p.productId === o.productId,
-      )
+    return orders.flatMap((o) =>
+      (o.lines || []).map((line) => {
+        const product = finalStock.find(
+          (p) => p.id === line.productId || p.productId === line.productId,
+        )
 
-      return {
-        dateISO: o.createdAt,
-        date: new Date(o.createdAt),
-        orderId: o.orderId,
-        name: o.name,
-        productName: o.productName,
-        quantity: o.quantity,
-        orderType: o.orderType,
-        productSystemId: product?.id || "",
-        productPid: product?.productId || "",
-        productSku: product?.sku || "",
-      }
-    })
+        return {
+          dateISO: o.createdAt,
+          date: new Date(o.createdAt),
+          orderId: o.orderId,
+          name: o.name,
+          productName: line.productName,
+          quantity: line.quantity,
+          amount: getLineAmounts(line).total,
+          orderType: o.orderType,
+          status: getOrderStatus(o),
+          productSystemId: product?.id || line.productId,
+          productPid: product?.productId || "",
+          productSku: product?.sku || line.sku || "",
+        }
+      }),
+    )
   }, [orders, finalStock])
 
+  // Every lifecycle transition across all orders, newest first
+  const transitions = useMemo(() => {
+    return orders
+      .flatMap((o) => (o.statusHistory || []).map((change) => ({ ...change, orderId: o.orderId, key: o.id })))
+      .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
+  }, [orders])
+
   if (permissionsLoading || ordersLoading) {
     return (
       <div className="flex items-center justify-center p-8">
@@ -70,6 +85,43 @@ export default function OrderReportsPage() {
         description="Daily orders by date. Filters by date range and order ID. View order quantities and types."
       />
       <OrderReportsTable rows={rows} />
+      <Card>
+        <CardHeader>
+          <CardTitle>Status Transitions</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Timestamp</TableHead>
+                <TableHead>Order ID</TableHead>
+                <TableHead>From</TableHead>
+                <TableHead>To</TableHead>
+                <TableHead>User</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {transitions.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-muted-foreground">
+                    No status changes recorded.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                transitions.map((t, i) => (
+                  <TableRow key={`${t.key}-${i}`}>
+                    <TableCell className="whitespace-nowrap text-xs">{new Date(t.timestamp).toLocaleString()}</TableCell>
+                    <TableCell className="font-mono text-sm">{t.orderId}</TableCell>
+                    <TableCell>{t.from || "—"}</TableCell>
+                    <TableCell>{t.to}</TableCell>
+                    <TableCell className="text-xs">{t.user}</TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
     </div>
   )
 }
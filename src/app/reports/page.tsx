@@ -5,7 +5,7 @@ import PageHeader from "@/components/page-header"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { usePermissions } from "@/hooks/use-permissions"
 import { Alert, AlertDescription } from "@/components/ui/alert"
-import { ShieldX, Package, ShoppingCart, PlusCircle } from "lucide-react"
+import { ShieldX, Package, ShoppingCart, PlusCircle, ArrowLeftRight, Trash2, BarChart3, GitBranch, Siren, Factory, Gauge } from "lucide-react"
 import { cn } from "@/lib/utils"
 
 export default function ReportsPage() {
@@ -170,6 +170,188 @@ export default function ReportsPage() {
             </CardContent>
           </Card>
         </Link>
+
+        <Link href="/reports/stock-movements">
+          <Card className={cn(
+            "transition-all hover:shadow-lg hover:border-primary cursor-pointer h-full"
+          )}>
+            <CardHeader>
+              <div className="flex items-center gap-3">
+                <div className="p-2 rounded-lg bg-primary/10">
+                  <ArrowLeftRight className="h-6 w-6 text-primary" />
+                </div>
+                <div className="flex-1">
+                  <CardTitle>Stock Movements</CardTitle>
+                  <CardDescription>
+                    Ledger of every stock change with reason, reference and resulting balance
+                  </CardDescription>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <p className="text-sm text-muted-foreground">
+                Trace restocks, batch consumption and output, order fulfilment, and manual adjustments for Raw
+                Materials, Store Items, and Final Stock. Filter by date, item type, and reason, and download CSV reports.
+              </p>
+            </CardContent>
+          </Card>
+        </Link>
+
+        <Link href="/reports/scrap">
+          <Card className={cn(
+            "transition-all hover:shadow-lg hover:border-primary cursor-pointer h-full"
+          )}>
+            <CardHeader>
+              <div className="flex items-center gap-3">
+                <div className="p-2 rounded-lg bg-primary/10">
+                  <Trash2 className="h-6 w-6 text-primary" />
+                </div>
+                <div className="flex-1">
+                  <CardTitle>Scrap Report</CardTitle>
+                  <CardDescription>
+                    Scrapped units and material cost by stage, reason code and product
+                  </CardDescription>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <p className="text-sm text-muted-foreground">
+                Review every scrap disposition recorded when a stage completed, with its reason code and material cost.
+                Filter by date range and download CSV reports.
+              </p>
+            </CardContent>
+          </Card>
+        </Link>
+
+        <Link href="/reports/quality">
+          <Card className={cn(
+            "transition-all hover:shadow-lg hover:border-primary cursor-pointer h-full"
+          )}>
+            <CardHeader>
+              <div className="flex items-center gap-3">
+                <div className="p-2 rounded-lg bg-primary/10">
+                  <BarChart3 className="h-6 w-6 text-primary" />
+                </div>
+                <div className="flex-1">
+                  <CardTitle>Quality Report</CardTitle>
+                  <CardDescription>
+                    Pareto and weekly trend of defect codes per product and stage
+                  </CardDescription>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <p className="text-sm text-muted-foreground">
+                See which defects account for most rejected units, how they move week by week, and where each product
+                loses the most. Filter by date, product and stage, and download CSV reports.
+              </p>
+            </CardContent>
+          </Card>
+        </Link>
+
+        <Link href="/reports/traceability">
+          <Card className={cn(
+            "transition-all hover:shadow-lg hover:border-primary cursor-pointer h-full"
+          )}>
+            <CardHeader>
+              <div className="flex items-center gap-3">
+                <div className="p-2 rounded-lg bg-primary/10">
+                  <GitBranch className="h-6 w-6 text-primary" />
+                </div>
+                <div className="flex-1">
+                  <CardTitle>Traceability</CardTitle>
+                  <CardDescription>
+                    Batch genealogy from supplier lots to customer orders
+                  </CardDescription>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <p className="text-sm text-muted-foreground">
+                Trace any batch, material lot or order backward to what it was made from and forward to where it went,
+                across stages, Store items and Final Stock entries. Download the trace as CSV.
+              </p>
+            </CardContent>
+          </Card>
+        </Link>
+
+        <Link href="/reports/recall">
+          <Card className={cn(
+            "transition-all hover:shadow-lg hover:border-primary cursor-pointer h-full"
+          )}>
+            <CardHeader>
+              <div className="flex items-center gap-3">
+                <div className="p-2 rounded-lg bg-primary/10">
+                  <Siren className="h-6 w-6 text-primary" />
+                </div>
+                <div className="flex-1">
+                  <CardTitle>Recall Simulation</CardTitle>
+                  <CardDescription>
+                    Everything affected by a suspect material lot, batch or stage run
+                  </CardDescription>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <p className="text-sm text-muted-foreground">
+                List the downstream batches, the Store and Final Stock still on hand and the orders already shipped,
+                for customer audits. Download as CSV or print to PDF.
+              </p>
+            </CardContent>
+          </Card>
+        </Link>
+
+        <Link href="/reports/workstations">
+          <Card className={cn(
+            "transition-all hover:shadow-lg hover:border-primary cursor-pointer h-full"
+          )}>
+            <CardHeader>
+              <div className="flex items-center gap-3">
+                <div className="p-2 rounded-lg bg-primary/10">
+                  <Factory className="h-6 w-6 text-primary" />
+                </div>
+                <div className="flex-1">
+                  <CardTitle>Workstation Output</CardTitle>
+                  <CardDescription>
+                    Output and rejects per machine and operator
+                  </CardDescription>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <p className="text-sm text-muted-foreground">
+                Compare accepted and rejected units, run time and units per hour across machines, cells and operators,
+                against each workstation&apos;s rated capacity. Download as CSV.
+              </p>
+            </CardContent>
+          </Card>
+        </Link>
+
+        <Link href="/reports/oee">
+          <Card className={cn(
+            "transition-all hover:shadow-lg hover:border-primary cursor-pointer h-full"
+          )}>
+            <CardHeader>
+              <div className="flex items-center gap-3">
+                <div className="p-2 rounded-lg bg-primary/10">
+                  <Gauge className="h-6 w-6 text-primary" />
+                </div>
+                <div className="flex-1">
+                  <CardTitle>OEE</CardTitle>
+                  <CardDescription>
+                    Availability × performance × quality per machine and shift
+                  </CardDescription>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <p className="text-sm text-muted-foreground">
+                Overall equipment effectiveness from logged downtime, rated capacity and accepted and rejected units,
+                with downtime broken down by reason. Download as CSV.
+              </p>
+            </CardContent>
+          </Card>
+        </Link>
       </div>
     </div>
   )
@@ -5,11 +5,14 @@ import PageHeader from "@/components/page-header"
 import type { Batch } from "@/lib/types"
 import ReportsTable from "@/components/reports-table"
 import { subscribeToAllBatches } from "@/lib/firebase"
-import { durationBetween } from "@/lib/utils"
+import { workingTimeBetween } from "@/lib/shifts"
 import { usePermissions } from "@/hooks/use-permissions"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { ShieldX } from "lucide-react"
 import { useFinalStock } from "@/hooks/use-final-stock"
+import { useShiftCalendar } from "@/hooks/use-shift-calendar"
+import { useProcessDefinitions } from "@/hooks/use-process-definitions"
+import { getStageLabel, sortStages } from "@/lib/stages"
 
 function getFinalOutputForBatch(batch: Batch): number {
   // Final output preference for Production report (exclude Testing):
@@ -72,6 +75,8 @@ export default function ProductionReportsPage() {
   const [batches, setBatches] = useState<Batch[]>([])
   const { canEdit, loading: permissionsLoading } = usePermissions()
   const { finalStock } = useFinalStock()
+  const { calendar } = useShiftCalendar()
+  const { processDefinitions } = useProcessDefinitions()
   
   const canAccessReports = canEdit("Reports")
 
@@ -81,15 +86,12 @@ export default function ProductionReportsPage() {
   }, [])
 
   const rows = useMemo(() => {
+    // Merged batches' units are reported with the batch they were merged into
     const nonTestingBatches = (batches || []).filter(
-      (b) => !(Array.isArray(b.selectedProcesses) && b.selectedProcesses.includes("Testing"))
+      (b) => b.status !== "Merged" && !(Array.isArray(b.selectedProcesses) && b.selectedProcesses.includes("Testing"))
     )
     return nonTestingBatches.map((b) => {
       const s = b.processingStages
-      const moldingDone = Boolean(s?.Molding?.finishedAt)
-      const finishingDone = Boolean(s?.Machining?.finishedAt)
-      const assemblingDone = Boolean(s?.Assembling?.finishedAt)
-      const testingDone = Boolean(s?.Testing?.finishedAt)
 
       const rejectedUnits =
         (Number(s?.Molding?.rejected) || 0) +
@@ -115,16 +117,25 @@ export default function ProductionReportsPage() {
         productSystemId: product?.id || "",
         productPid: product?.productId || "",
         productSku: product?.sku || "",
-        // durations: {
-        //   Molding: moldingDone ? durationBetween(s?.Molding?.startedAt, s?.Molding?.finishedAt) : undefined,
-        //   Machining: finishingDone ? durationBetween(s?.Machining?.startedAt, s?.Machining?.finishedAt) : undefined,
-        //   Assembling: assemblingDone ? durationBetween(s?.Assembling?.startedAt, s?.Assembling?.finishedAt) : undefined,
-        //   Testing: testingDone ? durationBetween(s?.Testing?.startedAt, s?.Testing?.finishedAt) : undefined,
-        // },
+        // Working time in the shift calendar, so nights, weekends and holidays are not counted
+        durations: Object.fromEntries(
+          (b.selectedProcesses || [])
+            .filter((stage) => s?.[stage]?.finishedAt)
+            .map((stage) => [
+              getStageLabel(processDefinitions, stage),
+              workingTimeBetween(s[stage].startedAt, s[stage].finishedAt, calendar),
+            ]),
+        ),
         batch: b, // Pass full batch for reference
       }
     })
-  }, [batches, finalStock])
+  }, [batches, finalStock, calendar, processDefinitions])
+
+  // Every stage the batches in the report run, in the configured order
+  const stageLabels = useMemo(() => {
+    const stages = new Set(rows.flatMap((r) => r.batch.selectedProcesses || []))
+    return sortStages([...stages], processDefinitions).map((stage) => getStageLabel(processDefinitions, stage))
+  }, [rows, processDefinitions])
 
   if (permissionsLoading) {
     return (
@@ -157,7 +168,7 @@ export default function ProductionReportsPage() {
         title="Production Reports"
         description="Daily production by batch. Filters by date range and batch ID. Final output uses the latest completed stage. Stage durations are shown per batch."
       />
-      <ReportsTable rows={rows} />
+      <ReportsTable rows={rows} stageLabels={stageLabels} />
     </div>
   )
 }
@@ -0,0 +1,375 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import PageHeader from "@/components/page-header"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { usePermissions } from "@/hooks/use-permissions"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { ShieldX } from "lucide-react"
+import { Bar, BarChart, CartesianGrid, ComposedChart, Legend, Line, XAxis, YAxis } from "recharts"
+import { ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart"
+import { useBatches } from "@/hooks/use-batches"
+import { useProcessDefinitions } from "@/hooks/use-process-definitions"
+import { buildDefectPareto, collectDefectEntries, getDefectKey } from "@/lib/defects"
+import { getStageLabel } from "@/lib/stages"
+import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+
+// Defects shown individually in the weekly trend; the rest are grouped as Other
+const TREND_TOP_DEFECTS = 5
+
+const TREND_COLORS = [
+  "hsl(var(--chart-1))",
+  "hsl(var(--chart-2))",
+  "hsl(var(--chart-3))",
+  "hsl(var(--chart-4))",
+  "hsl(var(--chart-5))",
+  "hsl(var(--muted-foreground))",
+]
+
+function formatYMD(d: Date): string {
+  const y = d.getFullYear()
+  const m = String(d.getMonth() + 1).padStart(2, "0")
+  const day = String(d.getDate()).padStart(2, "0")
+  return `${y}-${m}-${day}`
+}
+
+export default function QualityReportPage() {
+  const { canEdit, loading: permissionsLoading } = usePermissions()
+  const canAccessReports = canEdit("Reports")
+
+  const { batches, loading } = useBatches()
+  const { processDefinitions } = useProcessDefinitions()
+
+  const [from, setFrom] = useState<string>("")
+  const [to, setTo] = useState<string>("")
+  const [productFilter, setProductFilter] = useState<string>("all")
+  const [stageFilter, setStageFilter] = useState<string>("all")
+
+  const entries = useMemo(() => collectDefectEntries(batches, processDefinitions), [batches, processDefinitions])
+
+  const products = useMemo(() => {
+    const names = new Map<string, string>()
+    for (const e of entries) names.set(e.productId, e.productName)
+    return Array.from(names.entries()).sort((a, b) => a[1].localeCompare(b[1]))
+  }, [entries])
+
+  const filteredEntries = useMemo(() => {
+    return entries.filter((e) => {
+      const ts = new Date(e.date)
+      if (from) {
+        const fromDate = new Date(from)
+        fromDate.setHours(0, 0, 0, 0)
+        if (ts < fromDate) return false
+      }
+      if (to) {
+        const toDate = new Date(to)
+        toDate.setHours(23, 59, 59, 999)
+        if (ts > toDate) return false
+      }
+      if (productFilter !== "all" && e.productId !== productFilter) return false
+      if (stageFilter !== "all" && e.stage !== stageFilter) return false
+      return true
+    })
+  }, [entries, from, to, productFilter, stageFilter])
+
+  const pareto = useMemo(
+    () => buildDefectPareto(filteredEntries, processDefinitions),
+    [filteredEntries, processDefinitions],
+  )
+
+  const totalDefects = pareto.reduce((sum, row) => sum + row.quantity, 0)
+
+  // Weekly totals of the largest defects, oldest week first. Series use index-based
+  // keys as they become CSS variable names in the chart.
+  const trend = useMemo(() => {
+    const top = pareto.slice(0, TREND_TOP_DEFECTS)
+    const series = [
+      ...top.map((row, i) => ({ key: `defect${i}`, label: row.label })),
+      ...(pareto.length > TREND_TOP_DEFECTS ? [{ key: "other", label: "Other" }] : []),
+    ]
+    const weeks = new Map<string, Record<string, number>>()
+    for (const e of filteredEntries) {
+      const index = top.findIndex((row) => row.key === getDefectKey(e))
+      const key = index >= 0 ? `defect${index}` : "other"
+      const week = weeks.get(e.week) || {}
+      week[key] = (week[key] || 0) + e.quantity
+      weeks.set(e.week, week)
+    }
+    const data = Array.from(weeks.entries())
+      .sort((a, b) => a[0].localeCompare(b[0]))
+      .map(([week, counts]) => ({ week, ...counts }))
+    return { series, data }
+  }, [filteredEntries, pareto])
+
+  // Totals per product and stage with their most frequent defect
+  const byProductStage = useMemo(() => {
+    const rows = new Map<string, { productName: string; stage: string; quantity: number; counts: Map<string, number> }>()
+    for (const e of filteredEntries) {
+      const key = `${e.productId}:${e.stage}`
+      const row = rows.get(key) || { productName: e.productName, stage: e.stage, quantity: 0, counts: new Map() }
+      row.quantity += e.quantity
+      row.counts.set(e.label, (row.counts.get(e.label) || 0) + e.quantity)
+      rows.set(key, row)
+    }
+    return Array.from(rows.entries())
+      .map(([key, row]) => {
+        const top = Array.from(row.counts.entries()).sort((a, b) => b[1] - a[1])[0]
+        return { key, productName: row.productName, stage: row.stage, quantity: row.quantity, topDefect: top?.[0] || "—" }
+      })
+      .sort((a, b) => b.quantity - a.quantity)
+  }, [filteredEntries])
+
+  const paretoConfig = {
+    quantity: { label: "Rejected units", color: "hsl(var(--chart-1))" },
+    cumulative: { label: "Cumulative %", color: "hsl(var(--chart-2))" },
+  }
+
+  const trendConfig = Object.fromEntries(
+    trend.series.map((s, i) => [s.key, { label: s.label, color: TREND_COLORS[i % TREND_COLORS.length] }]),
+  )
+
+  function downloadCSV() {
+    const headers = ["Date", "Week", "Batch ID", "Product", "Stage", "Defect Code", "Defect", "Quantity"]
+    const lines = [headers.join(",")]
+    for (const e of filteredEntries) {
+      const row = [
+        e.date,
+        e.week,
+        e.batchId,
+        (e.productName || "").replaceAll(",", " "),
+        e.stage,
+        e.code,
+        e.label.replaceAll(",", " "),
+        String(e.quantity),
+      ]
+      lines.push(row.join(","))
+    }
+    const csv = lines.join("\n")
+    const blob = new Blob([csv], { type: "text/csv;charset=utf-8;" })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement("a")
+    a.href = url
+    a.download = `quality-report-${formatYMD(new Date())}.csv`
+    document.body.appendChild(a)
+    a.click()
+    document.body.removeChild(a)
+    URL.revokeObjectURL(url)
+  }
+
+  if (permissionsLoading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <div className="h-6 w-6 animate-spin rounded-full border-2 border-gray-300 border-t-gray-700" />
+      </div>
+    )
+  }
+
+  if (!canAccessReports) {
+    return (
+      <div className="space-y-6">
+        <PageHeader title="Quality Report" description="Rejected units by defect code, product, stage and week." />
+        <Alert variant="destructive" className="max-w-2xl">
+          <ShieldX className="h-4 w-4" />
+          <AlertDescription>
+            You don&apos;t have permission to access Reports. Only users with Reports edit permissions can view this page.
+          </AlertDescription>
+        </Alert>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <PageHeader title="Quality Report" description="Rejected units by defect code, product, stage and week." />
+
+      <div className="flex flex-wrap gap-3 items-end">
+        <div className="grid gap-1">
+          <label htmlFor="from" className="text-sm text-muted-foreground">
+            From date
+          </label>
+          <Input id="from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="w-44" />
+        </div>
+        <div className="grid gap-1">
+          <label htmlFor="to" className="text-sm text-muted-foreground">
+            To date
+          </label>
+          <Input id="to" type="date" value={to} onChange={(e) => setTo(e.target.value)} className="w-44" />
+        </div>
+        <div className="grid gap-1">
+          <span className="text-sm text-muted-foreground">Product</span>
+          <Select value={productFilter} onValueChange={setProductFilter}>
+            <SelectTrigger className="w-52">
+              <SelectValue placeholder="All products" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All</SelectItem>
+              {products.map(([id, name]) => (
+                <SelectItem key={id} value={id}>
+                  {name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="grid gap-1">
+          <span className="text-sm text-muted-foreground">Stage</span>
+          <Select value={stageFilter} onValueChange={setStageFilter}>
+            <SelectTrigger className="w-44">
+              <SelectValue placeholder="All stages" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All</SelectItem>
+              {processDefinitions
+                .filter((d) => d.hasRejects)
+                .map((d) => (
+                  <SelectItem key={d.id} value={d.name}>
+                    {d.label}
+                  </SelectItem>
+                ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="secondary"
+            onClick={() => {
+              setFrom("")
+              setTo("")
+              setProductFilter("all")
+              setStageFilter("all")
+            }}
+          >
+            Clear filters
+          </Button>
+          <Button onClick={downloadCSV}>Download CSV</Button>
+        </div>
+      </div>
+
+      {loading ? (
+        <p className="text-sm text-muted-foreground">Loading defect data...</p>
+      ) : pareto.length === 0 ? (
+        <Card>
+          <CardContent className="h-24 pt-6 text-center text-muted-foreground">
+            No classified rejects found for the selected filters.
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle>Defect Pareto</CardTitle>
+              <CardDescription>
+                {totalDefects} rejected units across {pareto.length} defect codes, largest first.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ChartContainer config={paretoConfig} className="h-[350px] w-full">
+                <ComposedChart data={pareto} margin={{ top: 20, right: 20, left: 12, bottom: 60 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--muted))" />
+                  <XAxis dataKey="code" interval={0} tick={{ fontSize: 11 }} />
+                  <YAxis yAxisId="left" tick={{ fontSize: 11 }} allowDecimals={false} />
+                  <YAxis
+                    yAxisId="right"
+                    orientation="right"
+                    domain={[0, 100]}
+                    tick={{ fontSize: 11 }}
+                    tickFormatter={(v) => `${v}%`}
+                  />
+                  <ChartTooltip
+                    content={<ChartTooltipContent labelFormatter={(_, payload) => payload?.[0]?.payload?.label} />}
+                  />
+                  <Legend verticalAlign="top" height={36} />
+                  <Bar yAxisId="left" dataKey="quantity" fill="var(--color-quantity)" radius={[2, 2, 0, 0]} />
+                  <Line
+                    yAxisId="right"
+                    type="monotone"
+                    dataKey="cumulative"
+                    stroke="var(--color-cumulative)"
+                    strokeWidth={2}
+                    dot={{ r: 3 }}
+                  />
+                </ComposedChart>
+              </ChartContainer>
+              <Table className="mt-4">
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Code</TableHead>
+                    <TableHead>Defect</TableHead>
+                    <TableHead>Stage</TableHead>
+                    <TableHead className="text-right">Units</TableHead>
+                    <TableHead className="text-right">Share</TableHead>
+                    <TableHead className="text-right">Cumulative</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {pareto.map((row) => (
+                    <TableRow key={row.key}>
+                      <TableCell className="font-mono text-xs">{row.code}</TableCell>
+                      <TableCell className="text-xs">{row.label}</TableCell>
+                      <TableCell className="text-xs">{getStageLabel(processDefinitions, row.stage)}</TableCell>
+                      <TableCell className="text-right text-xs">{row.quantity}</TableCell>
+                      <TableCell className="text-right text-xs">{row.share.toFixed(1)}%</TableCell>
+                      <TableCell className="text-right text-xs">{row.cumulative.toFixed(1)}%</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Weekly Trend</CardTitle>
+              <CardDescription>Rejected units per week (starting Monday) for the top defects.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ChartContainer config={trendConfig} className="h-[300px] w-full">
+                <BarChart data={trend.data} margin={{ top: 20, right: 20, left: 12, bottom: 20 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--muted))" />
+                  <XAxis dataKey="week" tick={{ fontSize: 11 }} />
+                  <YAxis tick={{ fontSize: 11 }} allowDecimals={false} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Legend verticalAlign="top" height={36} />
+                  {trend.series.map((s) => (
+                    <Bar key={s.key} dataKey={s.key} name={s.label} stackId="defects" fill={`var(--color-${s.key})`} />
+                  ))}
+                </BarChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>By Product and Stage</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Product</TableHead>
+                    <TableHead>Stage</TableHead>
+                    <TableHead>Top Defect</TableHead>
+                    <TableHead className="text-right">Units</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {byProductStage.map((row) => (
+                    <TableRow key={row.key}>
+                      <TableCell className="text-xs">{row.productName}</TableCell>
+                      <TableCell className="text-xs">{getStageLabel(processDefinitions, row.stage)}</TableCell>
+                      <TableCell className="text-xs">{row.topDefect}</TableCell>
+                      <TableCell className="text-right text-xs">{row.quantity}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,430 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import PageHeader from "@/components/page-header"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { usePermissions } from "@/hooks/use-permissions"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { ShieldX } from "lucide-react"
+import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useBatches } from "@/hooks/use-batches"
+import { useFinalStock } from "@/hooks/use-final-stock"
+import { useOrders } from "@/hooks/use-orders"
+import { useStockMovements } from "@/hooks/use-stock-movements"
+import { useProcessDefinitions } from "@/hooks/use-process-definitions"
+import { useFirestoreCollection } from "@/hooks/use-firestore-collection"
+import { COLLECTIONS } from "@/lib/firebase/firestore-operations"
+import type { RestockRecord } from "@/lib/types"
+import { buildGenealogy, findTraceNodes, getBatchNodeId } from "@/lib/genealogy"
+import { getStageWindowBatches, simulateRecall } from "@/lib/recall"
+import { getStageLabel } from "@/lib/stages"
+import { csvCell } from "@/lib/format-utils"
+
+type RecallScope = "lot" | "batch" | "stage"
+
+function formatYMD(d: Date): string {
+  const y = d.getFullYear()
+  const m = String(d.getMonth() + 1).padStart(2, "0")
+  const day = String(d.getDate()).padStart(2, "0")
+  return `${y}-${m}-${day}`
+}
+
+export default function RecallReportPage() {
+  const { canEdit, loading: permissionsLoading } = usePermissions()
+  const canAccessReports = canEdit("Reports")
+
+  const { batches } = useBatches()
+  const { finalStock } = useFinalStock()
+  const { orders } = useOrders()
+  const { stockMovements } = useStockMovements()
+  const { processDefinitions } = useProcessDefinitions()
+  const { data: restocks } = useFirestoreCollection<RestockRecord>(COLLECTIONS.RESTOCKS)
+
+  const [scope, setScope] = useState<RecallScope>("lot")
+  const [lotId, setLotId] = useState("")
+  const [batchId, setBatchId] = useState("")
+  const [stage, setStage] = useState("")
+  const [from, setFrom] = useState("")
+  const [to, setTo] = useState("")
+
+  const genealogy = useMemo(
+    () => buildGenealogy({ batches, stockMovements, restocks: restocks || [], orders, finalStock }),
+    [batches, stockMovements, restocks, orders, finalStock],
+  )
+  const lots = useMemo(() => findTraceNodes(genealogy, "", "lot"), [genealogy])
+  const sortedBatches = useMemo(
+    () => [...batches].sort((a, b) => b.createdAt.localeCompare(a.createdAt)),
+    [batches],
+  )
+
+  const sourceIds = useMemo(() => {
+    if (scope === "lot") return lotId ? [lotId] : []
+    if (scope === "batch") return batchId ? [getBatchNodeId(batchId)] : []
+    if (!stage || (!from && !to)) return []
+    return getStageWindowBatches(batches, stage, from, to).map((b) => getBatchNodeId(b.batchId))
+  }, [scope, lotId, batchId, stage, from, to, batches])
+
+  const result = useMemo(
+    () => (sourceIds.length > 0 ? simulateRecall(genealogy, sourceIds, { batches, finalStock, orders }) : null),
+    [genealogy, sourceIds, batches, finalStock, orders],
+  )
+
+  const shipped = result?.orders.filter((o) => o.shipped) || []
+  const allocated = result?.orders.filter((o) => !o.shipped) || []
+
+  const describeScope = () => {
+    if (scope === "lot") return `Material lot ${genealogy.nodes.get(lotId)?.label || lotId}`
+    if (scope === "batch") return `Batch ${batchId}`
+    return `${getStageLabel(processDefinitions, stage)} between ${from || "start"} and ${to || "today"}`
+  }
+
+  function downloadCSV() {
+    if (!result) return
+    const lines = [`Recall simulation,${csvCell(describeScope())}`, `Generated,${new Date().toISOString()}`, ""]
+    lines.push("Affected Batches", "Batch ID,Product,Quantity,Status,Current Stage,Created")
+    for (const { batch, currentStage } of result.batches) {
+      lines.push(
+        [
+          batch.batchId,
+          csvCell(batch.productName),
+          batch.quantityToBuild,
+          batch.status,
+          currentStage ? csvCell(getStageLabel(processDefinitions, currentStage)) : "",
+          batch.createdAt,
+        ].join(","),
+      )
+    }
+    lines.push("", "Stock On Hand", "Item,Location,From,Quantity,Reserved,Unit,Link")
+    for (const s of result.onHand) {
+      lines.push(
+        [
+          csvCell(s.itemName),
+          s.itemKind,
+          csvCell(s.source),
+          s.quantity,
+          s.reserved,
+          s.unit,
+          s.attributed ? "FIFO" : "Recorded",
+        ].join(","),
+      )
+    }
+    lines.push("", "Orders", "Order ID,Customer,Status,Shipped,Affected Units,Created")
+    for (const o of result.orders) {
+      lines.push(
+        [
+          csvCell(o.order.orderId),
+          csvCell(o.order.name),
+          o.order.status || "",
+          o.shipped ? "Yes" : "No",
+          o.quantity,
+          o.order.createdAt,
+        ].join(","),
+      )
+    }
+    const csv = lines.join("\n")
+    const blob = new Blob([csv], { type: "text/csv;charset=utf-8;" })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement("a")
+    a.href = url
+    a.download = `recall-simulation-${formatYMD(new Date())}.csv`
+    document.body.appendChild(a)
+    a.click()
+    document.body.removeChild(a)
+    URL.revokeObjectURL(url)
+  }
+
+  if (permissionsLoading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <div className="h-6 w-6 animate-spin rounded-full border-2 border-gray-300 border-t-gray-700" />
+      </div>
+    )
+  }
+
+  if (!canAccessReports) {
+    return (
+      <div className="space-y-6">
+        <PageHeader
+          title="Recall Simulation"
+          description="Find every batch, stock item and order affected by a suspect material lot, batch or stage run."
+        />
+        <Alert variant="destructive" className="max-w-2xl">
+          <ShieldX className="h-4 w-4" />
+          <AlertDescription>
+            You don&apos;t have permission to access Reports. Only users with Reports edit permissions can view this page.
+          </AlertDescription>
+        </Alert>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <PageHeader
+        title="Recall Simulation"
+        description="Find every batch, stock item and order affected by a suspect material lot, batch or stage run."
+      />
+
+      <div className="flex flex-wrap gap-3 items-end print:hidden">
+        <div className="grid gap-1">
+          <span className="text-sm text-muted-foreground">Recall by</span>
+          <Select value={scope} onValueChange={(value) => setScope(value as RecallScope)}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="lot">Material lot</SelectItem>
+              <SelectItem value="batch">Batch</SelectItem>
+              <SelectItem value="stage">Stage and date range</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        {scope === "lot" && (
+          <div className="grid gap-1">
+            <span className="text-sm text-muted-foreground">Lot</span>
+            <Select value={lotId} onValueChange={setLotId}>
+              <SelectTrigger className="w-80">
+                <SelectValue placeholder="Select material lot" />
+              </SelectTrigger>
+              <SelectContent>
+                {lots.map((lot) => (
+                  <SelectItem key={lot.id} value={lot.id}>
+                    {lot.label}
+                    {lot.date ? ` · ${new Date(lot.date).toLocaleDateString()}` : ""}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+        {scope === "batch" && (
+          <div className="grid gap-1">
+            <span className="text-sm text-muted-foreground">Batch</span>
+            <Select value={batchId} onValueChange={setBatchId}>
+              <SelectTrigger className="w-80">
+                <SelectValue placeholder="Select batch" />
+              </SelectTrigger>
+              <SelectContent>
+                {sortedBatches.map((b) => (
+                  <SelectItem key={b.id} value={b.batchId}>
+                    {b.batchId} · {b.productName}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+        {scope === "stage" && (
+          <>
+            <div className="grid gap-1">
+              <span className="text-sm text-muted-foreground">Stage</span>
+              <Select value={stage} onValueChange={setStage}>
+                <SelectTrigger className="w-48">
+                  <SelectValue placeholder="Select stage" />
+                </SelectTrigger>
+                <SelectContent>
+                  {processDefinitions.map((d) => (
+                    <SelectItem key={d.name} value={d.name}>
+                      {d.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-1">
+              <label htmlFor="from" className="text-sm text-muted-foreground">
+                From date
+              </label>
+              <Input id="from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="w-44" />
+            </div>
+            <div className="grid gap-1">
+              <label htmlFor="to" className="text-sm text-muted-foreground">
+                To date
+              </label>
+              <Input id="to" type="date" value={to} onChange={(e) => setTo(e.target.value)} className="w-44" />
+            </div>
+          </>
+        )}
+        <div className="flex gap-2">
+          <Button onClick={downloadCSV} disabled={!result}>
+            Download CSV
+          </Button>
+          <Button variant="outline" onClick={() => window.print()} disabled={!result}>
+            Print / Save PDF
+          </Button>
+        </div>
+      </div>
+
+      {!result ? (
+        <p className="text-sm text-muted-foreground">
+          {scope === "stage"
+            ? "Select a stage and a date range. Batches that finished (or started) the stage in that range are recalled."
+            : `Select a ${scope === "lot" ? "material lot" : "batch"} to simulate its recall.`}
+        </p>
+      ) : (
+        <>
+          <div className="space-y-1">
+            <h2 className="font-semibold">{describeScope()}</h2>
+            <div className="flex flex-wrap gap-6 text-sm">
+              <span>
+                Affected batches: <span className="font-medium">{result.batches.length}</span>
+              </span>
+              <span>
+                Stock lines on hand: <span className="font-medium">{result.onHand.length}</span>
+              </span>
+              <span>
+                Orders shipped: <span className="font-medium text-red-600">{shipped.length}</span>
+              </span>
+              <span>
+                Orders allocated, not shipped: <span className="font-medium">{allocated.length}</span>
+              </span>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Quantities marked FIFO are attributed from the stock ledger, since Store items are held as one quantity.
+            </p>
+          </div>
+
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base">Affected Batches</CardTitle>
+              <CardDescription>Batches made from the recalled material, including the recalled batches</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Batch ID</TableHead>
+                    <TableHead>Product</TableHead>
+                    <TableHead className="text-right">Quantity</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Current Stage</TableHead>
+                    <TableHead>Created</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {result.batches.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="h-12 text-center text-muted-foreground">
+                        No batches affected.
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    result.batches.map(({ batch, currentStage }) => (
+                      <TableRow key={batch.id}>
+                        <TableCell className="font-mono text-xs">{batch.batchId}</TableCell>
+                        <TableCell className="text-xs">{batch.productName}</TableCell>
+                        <TableCell className="text-right text-xs">{batch.quantityToBuild}</TableCell>
+                        <TableCell className="text-xs">
+                          <Badge variant="outline">{batch.status}</Badge>
+                        </TableCell>
+                        <TableCell className="text-xs">
+                          {currentStage ? getStageLabel(processDefinitions, currentStage) : "—"}
+                        </TableCell>
+                        <TableCell className="text-xs">{new Date(batch.createdAt).toLocaleDateString()}</TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base">Stock On Hand</CardTitle>
+              <CardDescription>Store items, raw material and Final Stock still in the plant to quarantine</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Item</TableHead>
+                    <TableHead>Location</TableHead>
+                    <TableHead>From</TableHead>
+                    <TableHead className="text-right">Quantity</TableHead>
+                    <TableHead className="text-right">Reserved</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {result.onHand.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={5} className="h-12 text-center text-muted-foreground">
+                        Nothing affected is on hand.
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    result.onHand.map((s, i) => (
+                      <TableRow key={`${s.itemId}-${i}`}>
+                        <TableCell className="text-xs">{s.itemName}</TableCell>
+                        <TableCell className="text-xs">
+                          {s.itemKind === "FinalStock" ? "Final Stock" : s.itemKind === "StoreItem" ? "Store" : "Raw Materials"}
+                        </TableCell>
+                        <TableCell className="font-mono text-xs">{s.source}</TableCell>
+                        <TableCell className="text-right text-xs">
+                          {s.quantity} {s.unit}
+                          {s.attributed && (
+                            <Badge variant="secondary" className="ml-2 text-[10px]">
+                              FIFO
+                            </Badge>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right text-xs">{s.reserved || "—"}</TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base">Orders</CardTitle>
+              <CardDescription>
+                Shipped orders need customer notification; allocated orders can still be stopped
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Order ID</TableHead>
+                    <TableHead>Customer</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Affected Units</TableHead>
+                    <TableHead>Created</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {result.orders.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={5} className="h-12 text-center text-muted-foreground">
+                        No orders affected.
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    result.orders.map(({ order, quantity, shipped: isShipped }) => (
+                      <TableRow key={order.id}>
+                        <TableCell className="font-mono text-xs">{order.orderId}</TableCell>
+                        <TableCell className="text-xs">{order.name || "—"}</TableCell>
+                        <TableCell className="text-xs">
+                          <Badge variant={isShipped ? "destructive" : "outline"}>{order.status}</Badge>
+                        </TableCell>
+                        <TableCell className="text-right text-xs">{quantity}</TableCell>
+                        <TableCell className="text-xs">{new Date(order.createdAt).toLocaleDateString()}</TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  )
+}
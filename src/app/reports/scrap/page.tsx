@@ -0,0 +1,295 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import PageHeader from "@/components/page-header"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { usePermissions } from "@/hooks/use-permissions"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { ShieldX } from "lucide-react"
+import { useScrapRecords } from "@/hooks/use-scrap-records"
+import { useProcessDefinitions } from "@/hooks/use-process-definitions"
+import { getScrapReasonLabel } from "@/lib/rejects"
+import { getStageLabel } from "@/lib/stages"
+import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
+
+interface ScrapSummaryRow {
+  key: string
+  label: string
+  quantity: number
+  cost: number
+}
+
+function formatYMD(d: Date): string {
+  const y = d.getFullYear()
+  const m = String(d.getMonth() + 1).padStart(2, "0")
+  const day = String(d.getDate()).padStart(2, "0")
+  return `${y}-${m}-${day}`
+}
+
+const formatCost = (value: number) => value.toFixed(2)
+
+function summarize<T>(
+  items: T[],
+  getKey: (item: T) => string,
+  getLabel: (key: string) => string,
+  getQty: (item: T) => number,
+  getCost: (item: T) => number,
+): ScrapSummaryRow[] {
+  const rows = new Map<string, ScrapSummaryRow>()
+  for (const item of items) {
+    const key = getKey(item)
+    const row = rows.get(key) || { key, label: getLabel(key), quantity: 0, cost: 0 }
+    row.quantity += getQty(item)
+    row.cost += getCost(item)
+    rows.set(key, row)
+  }
+  return Array.from(rows.values()).sort((a, b) => b.cost - a.cost || b.quantity - a.quantity)
+}
+
+export default function ScrapReportPage() {
+  const { canEdit, loading: permissionsLoading } = usePermissions()
+  const canAccessReports = canEdit("Reports")
+
+  const { scrapRecords, loading } = useScrapRecords()
+  const { processDefinitions } = useProcessDefinitions()
+
+  const [from, setFrom] = useState<string>("")
+  const [to, setTo] = useState<string>("")
+
+  const filteredRecords = useMemo(() => {
+    return scrapRecords.filter((r) => {
+      const ts = new Date(r.createdAt)
+      if (from) {
+        const fromDate = new Date(from)
+        fromDate.setHours(0, 0, 0, 0)
+        if (ts < fromDate) return false
+      }
+      if (to) {
+        const toDate = new Date(to)
+        toDate.setHours(23, 59, 59, 999)
+        if (ts > toDate) return false
+      }
+      return true
+    })
+  }, [scrapRecords, from, to])
+
+  const summaries = useMemo(() => {
+    const qty = (r: (typeof filteredRecords)[number]) => Number(r.quantity || 0)
+    const cost = (r: (typeof filteredRecords)[number]) => Number(r.totalCost || 0)
+    return {
+      byStage: summarize(filteredRecords, (r) => r.stage, (key) => getStageLabel(processDefinitions, key), qty, cost),
+      byReason: summarize(filteredRecords, (r) => r.reasonCode, (key) => `${key} · ${getScrapReasonLabel(key)}`, qty, cost),
+      byProduct: summarize(
+        filteredRecords,
+        (r) => r.productId,
+        (key) => filteredRecords.find((r) => r.productId === key)?.productName || key,
+        qty,
+        cost,
+      ),
+    }
+  }, [filteredRecords, processDefinitions])
+
+  const totals = useMemo(
+    () =>
+      filteredRecords.reduce(
+        (acc, r) => ({ quantity: acc.quantity + Number(r.quantity || 0), cost: acc.cost + Number(r.totalCost || 0) }),
+        { quantity: 0, cost: 0 },
+      ),
+    [filteredRecords],
+  )
+
+  function downloadCSV() {
+    const headers = ["Date", "Batch ID", "Product", "Stage", "Reason", "Quantity", "Unit Cost", "Total Cost", "Notes", "User"]
+    const lines = [headers.join(",")]
+    for (const r of filteredRecords) {
+      const row = [
+        r.createdAt,
+        r.batchId,
+        (r.productName || "").replaceAll(",", " "),
+        r.stage,
+        getScrapReasonLabel(r.reasonCode).replaceAll(",", " "),
+        String(r.quantity ?? 0),
+        formatCost(Number(r.unitCost || 0)),
+        formatCost(Number(r.totalCost || 0)),
+        (r.notes || "").replaceAll(",", " "),
+        (r.user || "").replaceAll(",", " "),
+      ]
+      lines.push(row.join(","))
+    }
+    const csv = lines.join("\n")
+    const blob = new Blob([csv], { type: "text/csv;charset=utf-8;" })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement("a")
+    a.href = url
+    a.download = `scrap-report-${formatYMD(new Date())}.csv`
+    document.body.appendChild(a)
+    a.click()
+    document.body.removeChild(a)
+    URL.revokeObjectURL(url)
+  }
+
+  if (permissionsLoading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <div className="h-6 w-6 animate-spin rounded-full border-2 border-gray-300 border-t-gray-700" />
+      </div>
+    )
+  }
+
+  if (!canAccessReports) {
+    return (
+      <div className="space-y-6">
+        <PageHeader
+          title="Scrap Report"
+          description="Scrapped units and their material cost by stage, reason code and product."
+        />
+        <Alert variant="destructive" className="max-w-2xl">
+          <ShieldX className="h-4 w-4" />
+          <AlertDescription>
+            You don&apos;t have permission to access Reports. Only users with Reports edit permissions can view this page.
+          </AlertDescription>
+        </Alert>
+      </div>
+    )
+  }
+
+  const renderSummary = (title: string, rows: ScrapSummaryRow[]) => (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base">{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>{title.replace("By ", "")}</TableHead>
+              <TableHead className="text-right">Units</TableHead>
+              <TableHead className="text-right">Cost</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={3} className="h-12 text-center text-muted-foreground">
+                  No scrap recorded.
+                </TableCell>
+              </TableRow>
+            ) : (
+              rows.map((row) => (
+                <TableRow key={row.key}>
+                  <TableCell className="text-xs">{row.label}</TableCell>
+                  <TableCell className="text-right text-xs">{row.quantity}</TableCell>
+                  <TableCell className="text-right text-xs">{formatCost(row.cost)}</TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  )
+
+  return (
+    <div className="space-y-6">
+      <PageHeader
+        title="Scrap Report"
+        description="Scrapped units and their material cost by stage, reason code and product."
+      />
+
+      <div className="flex flex-wrap gap-3 items-end">
+        <div className="grid gap-1">
+          <label htmlFor="from" className="text-sm text-muted-foreground">
+            From date
+          </label>
+          <Input id="from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="w-44" />
+        </div>
+        <div className="grid gap-1">
+          <label htmlFor="to" className="text-sm text-muted-foreground">
+            To date
+          </label>
+          <Input id="to" type="date" value={to} onChange={(e) => setTo(e.target.value)} className="w-44" />
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="secondary"
+            onClick={() => {
+              setFrom("")
+              setTo("")
+            }}
+          >
+            Clear filters
+          </Button>
+          <Button onClick={downloadCSV}>Download CSV</Button>
+        </div>
+      </div>
+
+      <div className="flex gap-6 text-sm">
+        <span>
+          Scrapped units: <span className="font-medium text-red-600">{totals.quantity}</span>
+        </span>
+        <span>
+          Material cost: <span className="font-medium text-red-600">{formatCost(totals.cost)}</span>
+        </span>
+      </div>
+
+      <div className="grid gap-6 md:grid-cols-3">
+        {renderSummary("By Stage", summaries.byStage)}
+        {renderSummary("By Reason", summaries.byReason)}
+        {renderSummary("By Product", summaries.byProduct)}
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Batch ID</TableHead>
+                <TableHead>Product</TableHead>
+                <TableHead>Stage</TableHead>
+                <TableHead>Reason</TableHead>
+                <TableHead className="text-right">Quantity</TableHead>
+                <TableHead className="text-right">Unit Cost</TableHead>
+                <TableHead className="text-right">Total Cost</TableHead>
+                <TableHead>User</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading ? (
+                <TableRow>
+                  <TableCell colSpan={9} className="h-24 text-center">
+                    Loading scrap records...
+                  </TableCell>
+                </TableRow>
+              ) : filteredRecords.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={9} className="h-24 text-center text-muted-foreground">
+                    No scrap records found for the selected dates.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                filteredRecords.map((r) => (
+                  <TableRow key={r.id}>
+                    <TableCell className="whitespace-nowrap text-xs">{new Date(r.createdAt).toLocaleString()}</TableCell>
+                    <TableCell className="font-mono text-xs">{r.batchId}</TableCell>
+                    <TableCell className="text-xs">{r.productName}</TableCell>
+                    <TableCell className="text-xs">{getStageLabel(processDefinitions, r.stage)}</TableCell>
+                    <TableCell className="text-xs" title={r.notes}>
+                      {r.reasonCode} · {getScrapReasonLabel(r.reasonCode)}
+                    </TableCell>
+                    <TableCell className="text-right text-xs">{r.quantity}</TableCell>
+                    <TableCell className="text-right text-xs">{formatCost(Number(r.unitCost || 0))}</TableCell>
+                    <TableCell className="text-right text-xs font-medium">{formatCost(Number(r.totalCost || 0))}</TableCell>
+                    <TableCell className="text-xs">{r.user}</TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
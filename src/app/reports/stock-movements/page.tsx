@@ -0,0 +1,359 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import PageHeader from "@/components/page-header"
+import { Card, CardContent } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { usePermissions } from "@/hooks/use-permissions"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { ShieldX } from "lucide-react"
+import { useStockMovements } from "@/hooks/use-stock-movements"
+import type { StockItemKind, StockMovementReason } from "@/lib/types"
+import { STOCK_MOVEMENT_REASON_LABELS, getStockMovementReference } from "@/lib/stock-movements"
+import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+
+const PAGE_SIZE = 25
+
+function formatYMD(d: Date): string {
+  const y = d.getFullYear()
+  const m = String(d.getMonth() + 1).padStart(2, "0")
+  const day = String(d.getDate()).padStart(2, "0")
+  return `${y}-${m}-${day}`
+}
+
+export default function StockMovementsReportPage() {
+  const { canEdit, loading: permissionsLoading } = usePermissions()
+  const canAccessReports = canEdit("Reports")
+
+  const { stockMovements, loading } = useStockMovements()
+
+  const [from, setFrom] = useState<string>("")
+  const [to, setTo] = useState<string>("")
+  const [kindFilter, setKindFilter] = useState<StockItemKind | "all">("all")
+  const [reasonFilter, setReasonFilter] = useState<StockMovementReason | "all">("all")
+  const [itemQuery, setItemQuery] = useState<string>("")
+  const [page, setPage] = useState<number>(0)
+
+  const filteredMovements = useMemo(() => {
+    const q = itemQuery.trim().toLowerCase()
+    return stockMovements.filter((m) => {
+      const ts = new Date(m.timestamp)
+
+      if (from) {
+        const fromDate = new Date(from)
+        fromDate.setHours(0, 0, 0, 0)
+        if (ts < fromDate) return false
+      }
+
+      if (to) {
+        const toDate = new Date(to)
+        toDate.setHours(23, 59, 59, 999)
+        if (ts > toDate) return false
+      }
+
+      if (kindFilter !== "all" && m.itemKind !== kindFilter) return false
+      if (reasonFilter !== "all" && m.reason !== reasonFilter) return false
+
+      if (q) {
+        const haystack = [m.itemName, m.itemId, getStockMovementReference(m)].join(" ").toLowerCase()
+        if (!haystack.includes(q)) return false
+      }
+
+      return true
+    })
+  }, [stockMovements, from, to, kindFilter, reasonFilter, itemQuery])
+
+  const totals = useMemo(() => {
+    return filteredMovements.reduce(
+      (acc, m) => {
+        const qty = Number(m.quantity || 0)
+        if (qty >= 0) acc.inward += qty
+        else acc.outward += Math.abs(qty)
+        return acc
+      },
+      { inward: 0, outward: 0 },
+    )
+  }, [filteredMovements])
+
+  const totalPages = Math.max(1, Math.ceil(filteredMovements.length / PAGE_SIZE))
+  const currentPage = Math.min(page, totalPages - 1)
+
+  const pageItems = useMemo(() => {
+    const start = currentPage * PAGE_SIZE
+    return filteredMovements.slice(start, start + PAGE_SIZE)
+  }, [filteredMovements, currentPage])
+
+  function downloadCSV() {
+    const headers = [
+      "Timestamp",
+      "Item ID",
+      "Item",
+      "Item Type",
+      "Reason",
+      "Reference",
+      "Stage",
+      "Quantity",
+      "Unit",
+      "Balance After",
+      "User",
+    ]
+    const lines = [headers.join(",")]
+    for (const m of filteredMovements) {
+      const row = [
+        m.timestamp,
+        m.itemId,
+        (m.itemName || "").replaceAll(",", " "),
+        m.itemKind,
+        STOCK_MOVEMENT_REASON_LABELS[m.reason] || m.reason,
+        getStockMovementReference(m).replaceAll(",", " "),
+        m.stage || "",
+        String(m.quantity ?? 0),
+        m.unit || "",
+        m.balanceAfter != null ? String(m.balanceAfter) : "",
+        (m.user || "").replaceAll(",", " "),
+      ]
+      lines.push(row.join(","))
+    }
+    const csv = lines.join("\n")
+    const blob = new Blob([csv], { type: "text/csv;charset=utf-8;" })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement("a")
+    a.href = url
+    a.download = `stock-movements-${formatYMD(new Date())}.csv`
+    document.body.appendChild(a)
+    a.click()
+    document.body.removeChild(a)
+    URL.revokeObjectURL(url)
+  }
+
+  if (permissionsLoading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <div className="h-6 w-6 animate-spin rounded-full border-2 border-gray-300 border-t-gray-700" />
+      </div>
+    )
+  }
+
+  if (!canAccessReports) {
+    return (
+      <div className="space-y-6">
+        <PageHeader
+          title="Stock Movements"
+          description="Ledger of every inventory change across Raw Materials, Store Items, and Final Stock."
+        />
+        <Alert variant="destructive" className="max-w-2xl">
+          <ShieldX className="h-4 w-4" />
+          <AlertDescription>
+            You don&apos;t have permission to access Reports. Only users with Reports edit permissions can view this page.
+          </AlertDescription>
+        </Alert>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <PageHeader
+        title="Stock Movements"
+        description="Ledger of every inventory change across Raw Materials, Store Items, and Final Stock."
+      />
+
+      <div className="flex flex-wrap gap-3 items-end">
+        <div className="grid gap-1">
+          <label htmlFor="from" className="text-sm text-muted-foreground">
+            From date
+          </label>
+          <Input
+            id="from"
+            type="date"
+            value={from}
+            onChange={(e) => {
+              setFrom(e.target.value)
+              setPage(0)
+            }}
+            className="w-44"
+          />
+        </div>
+        <div className="grid gap-1">
+          <label htmlFor="to" className="text-sm text-muted-foreground">
+            To date
+          </label>
+          <Input
+            id="to"
+            type="date"
+            value={to}
+            onChange={(e) => {
+              setTo(e.target.value)
+              setPage(0)
+            }}
+            className="w-44"
+          />
+        </div>
+        <div className="grid gap-1">
+          <span className="text-sm text-muted-foreground">Item type</span>
+          <Select
+            value={kindFilter}
+            onValueChange={(value) => {
+              setKindFilter(value as StockItemKind | "all")
+              setPage(0)
+            }}
+          >
+            <SelectTrigger className="w-44">
+              <SelectValue placeholder="All items" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All</SelectItem>
+              <SelectItem value="RawMaterial">Raw Material</SelectItem>
+              <SelectItem value="StoreItem">Store Item</SelectItem>
+              <SelectItem value="FinalStock">Final Stock</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="grid gap-1">
+          <span className="text-sm text-muted-foreground">Reason</span>
+          <Select
+            value={reasonFilter}
+            onValueChange={(value) => {
+              setReasonFilter(value as StockMovementReason | "all")
+              setPage(0)
+            }}
+          >
+            <SelectTrigger className="w-48">
+              <SelectValue placeholder="All reasons" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All</SelectItem>
+              {(Object.keys(STOCK_MOVEMENT_REASON_LABELS) as StockMovementReason[]).map((reason) => (
+                <SelectItem key={reason} value={reason}>
+                  {STOCK_MOVEMENT_REASON_LABELS[reason]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="grid gap-1">
+          <span className="text-sm text-muted-foreground">Item / reference</span>
+          <Input
+            placeholder="Name, ID, batch or order"
+            value={itemQuery}
+            onChange={(e) => {
+              setItemQuery(e.target.value)
+              setPage(0)
+            }}
+            className="w-56"
+          />
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="secondary"
+            onClick={() => {
+              setFrom("")
+              setTo("")
+              setKindFilter("all")
+              setReasonFilter("all")
+              setItemQuery("")
+              setPage(0)
+            }}
+          >
+            Clear filters
+          </Button>
+          <Button onClick={downloadCSV}>Download CSV</Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          <div className="flex gap-6 mb-4 text-sm">
+            <span>
+              Inward: <span className="font-medium text-green-600">+{totals.inward}</span>
+            </span>
+            <span>
+              Outward: <span className="font-medium text-red-600">-{totals.outward}</span>
+            </span>
+          </div>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Timestamp</TableHead>
+                <TableHead>Item</TableHead>
+                <TableHead>Item Type</TableHead>
+                <TableHead>Reason</TableHead>
+                <TableHead>Reference</TableHead>
+                <TableHead>Stage</TableHead>
+                <TableHead className="text-right">Quantity</TableHead>
+                <TableHead className="text-right">Balance After</TableHead>
+                <TableHead>User</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading ? (
+                <TableRow>
+                  <TableCell colSpan={9} className="h-24 text-center">
+                    Loading stock movements...
+                  </TableCell>
+                </TableRow>
+              ) : pageItems.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={9} className="h-24 text-center text-muted-foreground">
+                    No stock movements found for the selected filters.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                pageItems.map((m) => (
+                  <TableRow key={m.id}>
+                    <TableCell className="whitespace-nowrap text-xs">
+                      {new Date(m.timestamp).toLocaleString()}
+                    </TableCell>
+                    <TableCell className="text-xs">
+                      <span className="font-medium">{m.itemName}</span>
+                      <span className="ml-1 text-[10px] text-muted-foreground">(ID: {m.itemId})</span>
+                    </TableCell>
+                    <TableCell className="text-xs">{m.itemKind}</TableCell>
+                    <TableCell className="text-xs">{STOCK_MOVEMENT_REASON_LABELS[m.reason] || m.reason}</TableCell>
+                    <TableCell className="text-xs font-mono">{getStockMovementReference(m) || "—"}</TableCell>
+                    <TableCell className="text-xs">{m.stage || "—"}</TableCell>
+                    <TableCell
+                      className={`text-right text-xs font-medium ${Number(m.quantity) >= 0 ? "text-green-600" : "text-red-600"}`}
+                    >
+                      {Number(m.quantity) >= 0 ? "+" : ""}
+                      {m.quantity} {m.unit}
+                    </TableCell>
+                    <TableCell className="text-right text-xs">{m.balanceAfter ?? "—"}</TableCell>
+                    <TableCell className="text-xs">{m.user}</TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+
+          <div className="flex items-center justify-between mt-4 text-xs text-muted-foreground">
+            <span>
+              Page {currentPage + 1} of {totalPages} ({filteredMovements.length} movement
+              {filteredMovements.length === 1 ? "" : "s"})
+            </span>
+            <div className="space-x-2">
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={currentPage === 0}
+                onClick={() => setPage((p) => Math.max(0, p - 1))}
+              >
+                Previous
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={currentPage >= totalPages - 1}
+                onClick={() => setPage((p) => Math.min(totalPages - 1, p + 1))}
+              >
+                Next
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -2,19 +2,34 @@
 
 import { useEffect, useMemo, useState } from "react"
 import PageHeader from "@/components/page-header"
-import { Card, CardContent } from "@/components/ui/card"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
-import type { Batch } from "@/lib/types"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { ControlChart } from "@/components/control-chart"
+import type { Batch, InspectionCharacteristic, InspectionRecord } from "@/lib/types"
 import { subscribeToAllBatches } from "@/lib/firebase"
 import { useFinalStock } from "@/hooks/use-final-stock"
+import { formatSpecification, isWithinTolerance } from "@/lib/inspection"
+import {
+  WESTERN_ELECTRIC_RULES,
+  buildPChart,
+  buildXbarRCharts,
+  collectSubgroups,
+  getCapability,
+} from "@/lib/spc"
+import { cn } from "@/lib/utils"
 
 export default function TestingReportPage() {
   const [batches, setBatches] = useState<Batch[]>([])
   const [from, setFrom] = useState("")
   const [to, setTo] = useState("")
+  const [inspectionRow, setInspectionRow] = useState<{ batchId: string; productName: string; inspection: InspectionRecord } | null>(null)
+  const [spcProductId, setSpcProductId] = useState("")
+  const [spcCharacteristicId, setSpcCharacteristicId] = useState("")
   const { finalStock } = useFinalStock()
 
   useEffect(() => {
@@ -46,6 +61,7 @@ export default function TestingReportPage() {
         finishedAt: b.processingStages?.Testing?.finishedAt,
         completed: Boolean(b.processingStages?.Testing?.completed),
         createdAt: b.createdAt,
+        inspection: b.processingStages?.Testing?.inspection,
       }
     })
   }, [batches, finalStock])
@@ -70,6 +86,53 @@ export default function TestingReportPage() {
     })
   }, [rows, from, to])
 
+  // Control limits and capability use the inspected batches within the date filter
+  const inspectedBatches = useMemo(() => {
+    const ids = new Set(filtered.map((r) => r.id))
+    return batches.filter((b) => ids.has(b.id) && b.processingStages?.Testing?.inspection)
+  }, [batches, filtered])
+
+  const spcProducts = useMemo(() => {
+    const names = new Map<string, string>()
+    for (const b of inspectedBatches) names.set(b.productId, b.productName)
+    return Array.from(names.entries()).sort((a, b) => a[1].localeCompare(b[1]))
+  }, [inspectedBatches])
+
+  // Characteristics measured for the product; the current plan's limits win over older snapshots
+  const spcCharacteristics = useMemo(() => {
+    const byId = new Map<string, InspectionCharacteristic>()
+    const records = inspectedBatches
+      .filter((b) => b.productId === spcProductId)
+      .map((b) => b.processingStages.Testing.inspection!)
+      .sort((a, b) => a.inspectedAt.localeCompare(b.inspectedAt))
+    for (const record of records) for (const c of record.characteristics) byId.set(c.id, c)
+    const product = finalStock.find((p) => p.productId === spcProductId || p.id === spcProductId)
+    for (const c of product?.inspectionPlan?.characteristics || []) if (byId.has(c.id)) byId.set(c.id, c)
+    return Array.from(byId.values())
+  }, [inspectedBatches, spcProductId, finalStock])
+
+  const spcCharacteristic = spcCharacteristics.find((c) => c.id === spcCharacteristicId) || spcCharacteristics[0]
+
+  const spc = useMemo(() => {
+    if (!spcCharacteristic) return null
+    const subgroups = collectSubgroups(inspectedBatches, spcProductId, spcCharacteristic.id)
+    const xbarR = buildXbarRCharts(subgroups)
+    const pChart = buildPChart(subgroups)
+    const violations = [
+      ...(xbarR?.xbar.points || []).flatMap((p) => p.violations.map((rule) => ({ label: p.label, chart: "X-bar", rule }))),
+      ...(xbarR?.range.points || []).flatMap((p) => p.violations.map(() => ({ label: p.label, chart: "Range", rule: 1 }))),
+      ...(pChart?.points || []).flatMap((p) => p.violations.map((rule) => ({ label: p.label, chart: "p", rule }))),
+    ]
+    return {
+      subgroups,
+      xbarR,
+      pChart,
+      capability: getCapability(subgroups, spcCharacteristic),
+      singleSamples: subgroups.every((s) => s.values.length === 1),
+      violations,
+    }
+  }, [inspectedBatches, spcProductId, spcCharacteristic])
+
   function formatYMD(d: Date) {
     const y = d.getFullYear()
     const m = String(d.getMonth() + 1).padStart(2, "0")
@@ -88,6 +151,7 @@ export default function TestingReportPage() {
       "Rejected Tested",
       "Created",
       "Finished",
+      "Inspection",
     ]
     const lines = [headers.join(",")]
     for (const r of filtered) {
@@ -101,6 +165,7 @@ export default function TestingReportPage() {
         String(r.rejected ?? 0),
         r.createdAt ? new Date(r.createdAt).toISOString() : "",
         r.finishedAt ? new Date(r.finishedAt).toISOString() : "",
+        r.inspection ? `${r.inspection.passed ? "Pass" : "Fail"} (${r.inspection.samples.length - r.inspection.failedSamples}/${r.inspection.samples.length})` : "",
       ]
       lines.push(row.join(","))
     }
@@ -124,6 +189,11 @@ export default function TestingReportPage() {
 
   const fmt = (iso?: string) => (iso ? new Date(iso).toLocaleString() : "-")
 
+  const fmtIndex = (value: number | null | undefined) => (value == null ? "—" : value.toFixed(2))
+  // Common capability targets: 1.33 capable, 1.0 marginal
+  const indexClass = (value: number | null | undefined) =>
+    value == null ? "" : value >= 1.33 ? "text-green-600" : value >= 1 ? "text-amber-600" : "text-destructive"
+
   return (
     <>
       <PageHeader title="Testing Report" description="All batches that include the Testing stage." />
@@ -157,12 +227,13 @@ export default function TestingReportPage() {
                 <TableHead>Rejected Tested</TableHead>
                 <TableHead>Created</TableHead>
                 <TableHead>Finished</TableHead>
+                <TableHead>Inspection</TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
               {filtered.length === 0 ? (
                 <TableRow>
-                  <TableCell colSpan={9} className="h-24 text-center">
+                  <TableCell colSpan={10} className="h-24 text-center">
                     No testing records found
                   </TableCell>
                 </TableRow>
@@ -178,6 +249,21 @@ export default function TestingReportPage() {
                     <TableCell>{r.rejected}</TableCell>
                     <TableCell>{fmt(r.createdAt)}</TableCell>
                     <TableCell>{fmt(r.finishedAt)}</TableCell>
+                    <TableCell>
+                      {r.inspection ? (
+                        <button
+                          type="button"
+                          onClick={() => setInspectionRow({ batchId: r.id, productName: r.productName, inspection: r.inspection! })}
+                        >
+                          <Badge variant={r.inspection.passed ? "secondary" : "destructive"}>
+                            {r.inspection.passed ? "Pass" : "Fail"} {r.inspection.samples.length - r.inspection.failedSamples}/
+                            {r.inspection.samples.length}
+                          </Badge>
+                        </button>
+                      ) : (
+                        "—"
+                      )}
+                    </TableCell>
                   </TableRow>
                 ))
               )}
@@ -185,6 +271,189 @@ export default function TestingReportPage() {
           </Table>
         </CardContent>
       </Card>
+
+      <Card className="mt-6">
+        <CardHeader>
+          <CardTitle>Process Control</CardTitle>
+          <CardDescription>
+            X-bar/R and p-charts per inspected characteristic, one subgroup per batch. Control limits are computed from the
+            batches in the date range; points breaking a Western Electric rule are shown in red.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="flex flex-wrap gap-3 items-end">
+            <div className="grid gap-1">
+              <span className="text-sm text-muted-foreground">Product</span>
+              <Select
+                value={spcProductId}
+                onValueChange={(value) => {
+                  setSpcProductId(value)
+                  setSpcCharacteristicId("")
+                }}
+              >
+                <SelectTrigger className="w-56">
+                  <SelectValue placeholder="Select product" />
+                </SelectTrigger>
+                <SelectContent>
+                  {spcProducts.map(([id, name]) => (
+                    <SelectItem key={id} value={id}>
+                      {name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-1">
+              <span className="text-sm text-muted-foreground">Characteristic</span>
+              <Select value={spcCharacteristic?.id || ""} onValueChange={setSpcCharacteristicId}>
+                <SelectTrigger className="w-56">
+                  <SelectValue placeholder="Select characteristic" />
+                </SelectTrigger>
+                <SelectContent>
+                  {spcCharacteristics.map((c) => (
+                    <SelectItem key={c.id} value={c.id}>
+                      {c.sketchRef ? `${c.sketchRef} · ` : ""}
+                      {c.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {spcCharacteristic && (
+              <span className="text-sm text-muted-foreground">Specification: {formatSpecification(spcCharacteristic)}</span>
+            )}
+          </div>
+
+          {spcProducts.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No inspections recorded in the selected date range.</p>
+          ) : !spc ? (
+            <p className="text-sm text-muted-foreground">Select a product to chart its inspection measurements.</p>
+          ) : spc.subgroups.length < 2 ? (
+            <p className="text-sm text-muted-foreground">At least two inspected batches are needed for control limits.</p>
+          ) : (
+            <>
+              {spc.capability && (
+                <div className="grid gap-4 text-sm sm:grid-cols-3 lg:grid-cols-9">
+                  {[
+                    ["Subgroups", String(spc.capability.subgroups), ""],
+                    ["Samples", String(spc.capability.samples), ""],
+                    ["Mean", spc.capability.mean.toFixed(4), ""],
+                    ["σ within", spc.capability.sigmaWithin.toFixed(4), ""],
+                    ["σ overall", spc.capability.sigmaOverall.toFixed(4), ""],
+                    ["Cp", fmtIndex(spc.capability.cp), indexClass(spc.capability.cp)],
+                    ["Cpk", fmtIndex(spc.capability.cpk), indexClass(spc.capability.cpk)],
+                    ["Pp", fmtIndex(spc.capability.pp), indexClass(spc.capability.pp)],
+                    ["Ppk", fmtIndex(spc.capability.ppk), indexClass(spc.capability.ppk)],
+                  ].map(([label, value, className]) => (
+                    <div key={label} className="space-y-1">
+                      <div className={cn("text-xl font-bold", className)}>{value}</div>
+                      <div className="text-xs text-muted-foreground">{label}</div>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {spc.xbarR && (
+                <div className="grid gap-6 lg:grid-cols-2">
+                  <ControlChart title={spc.singleSamples ? "Individuals" : "X-bar"} chart={spc.xbarR.xbar} />
+                  <ControlChart title={spc.singleSamples ? "Moving Range" : "Range"} chart={spc.xbarR.range} />
+                </div>
+              )}
+              {spc.pChart && (
+                <ControlChart
+                  title="p-chart (fraction out of tolerance)"
+                  chart={spc.pChart}
+                  format={(v) => `${(v * 100).toFixed(1)}%`}
+                />
+              )}
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Batch</TableHead>
+                    <TableHead>Chart</TableHead>
+                    <TableHead>Rule</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {spc.violations.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={3} className="h-12 text-center text-muted-foreground">
+                        No rule violations. The process is in statistical control.
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    spc.violations.map((v, i) => (
+                      <TableRow key={i}>
+                        <TableCell className="font-mono text-xs">{v.label}</TableCell>
+                        <TableCell className="text-xs">{v.chart}</TableCell>
+                        <TableCell className="text-xs">
+                          {v.chart === "Range" ? "Point outside control limits" : WESTERN_ELECTRIC_RULES[v.rule]}
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!inspectionRow} onOpenChange={(open) => !open && setInspectionRow(null)}>
+        <DialogContent className="sm:max-w-[1000px] w-[95vw] max-h-[90vh] overflow-y-auto">
+          {inspectionRow && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Inspection · {inspectionRow.batchId}</DialogTitle>
+                <DialogDescription>
+                  {inspectionRow.productName} · {fmt(inspectionRow.inspection.inspectedAt)}
+                  {inspectionRow.inspection.inspector ? ` · ${inspectionRow.inspection.inspector}` : ""}
+                </DialogDescription>
+              </DialogHeader>
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Sample</TableHead>
+                      {inspectionRow.inspection.characteristics.map((c) => (
+                        <TableHead key={c.id}>
+                          <div>
+                            {c.sketchRef ? `${c.sketchRef} · ` : ""}
+                            {c.name}
+                          </div>
+                          <div className="text-[10px] font-normal text-muted-foreground">{formatSpecification(c)}</div>
+                        </TableHead>
+                      ))}
+                      <TableHead>Result</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {inspectionRow.inspection.samples.map((sample, i) => (
+                      <TableRow key={i}>
+                        <TableCell>{i + 1}</TableCell>
+                        {inspectionRow.inspection.characteristics.map((c) => (
+                          <TableCell
+                            key={c.id}
+                            className={cn(!isWithinTolerance(c, sample.values[c.id]) && "font-semibold text-destructive")}
+                          >
+                            {sample.values[c.id]}
+                          </TableCell>
+                        ))}
+                        <TableCell>
+                          <Badge variant={sample.passed ? "secondary" : "destructive"}>
+                            {sample.passed ? "Pass" : "Fail"}
+                          </Badge>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
     </>
   )
 }
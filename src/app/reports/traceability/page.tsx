@@ -0,0 +1,275 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import PageHeader from "@/components/page-header"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { usePermissions } from "@/hooks/use-permissions"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { ShieldX } from "lucide-react"
+import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useBatches } from "@/hooks/use-batches"
+import { useFinalStock } from "@/hooks/use-final-stock"
+import { useOrders } from "@/hooks/use-orders"
+import { useStockMovements } from "@/hooks/use-stock-movements"
+import { useProcessDefinitions } from "@/hooks/use-process-definitions"
+import { useFirestoreCollection } from "@/hooks/use-firestore-collection"
+import { COLLECTIONS } from "@/lib/firebase/firestore-operations"
+import type { RestockRecord } from "@/lib/types"
+import {
+  TRACE_NODE_LABELS,
+  buildGenealogy,
+  findTraceNodes,
+  traceGenealogy,
+  type TraceDirection,
+  type TraceNodeKind,
+  type TraceStep,
+} from "@/lib/genealogy"
+import { getStageLabel } from "@/lib/stages"
+
+function formatYMD(d: Date): string {
+  const y = d.getFullYear()
+  const m = String(d.getMonth() + 1).padStart(2, "0")
+  const day = String(d.getDate()).padStart(2, "0")
+  return `${y}-${m}-${day}`
+}
+
+const MAX_RESULTS = 25
+
+export default function TraceabilityReportPage() {
+  const { canEdit, loading: permissionsLoading } = usePermissions()
+  const canAccessReports = canEdit("Reports")
+
+  const { batches, loading: batchesLoading } = useBatches()
+  const { finalStock } = useFinalStock()
+  const { orders } = useOrders()
+  const { stockMovements, loading: movementsLoading } = useStockMovements()
+  const { processDefinitions } = useProcessDefinitions()
+  const { data: restocks } = useFirestoreCollection<RestockRecord>(COLLECTIONS.RESTOCKS)
+
+  const [search, setSearch] = useState("")
+  const [kind, setKind] = useState<TraceNodeKind | "all">("all")
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+
+  const genealogy = useMemo(
+    () => buildGenealogy({ batches, stockMovements, restocks: restocks || [], orders, finalStock }),
+    [batches, stockMovements, restocks, orders, finalStock],
+  )
+
+  const results = useMemo(
+    () => findTraceNodes(genealogy, search, kind === "all" ? undefined : kind).slice(0, MAX_RESULTS),
+    [genealogy, search, kind],
+  )
+
+  const selected = selectedId ? genealogy.nodes.get(selectedId) : undefined
+  const backward = useMemo(
+    () => (selectedId ? traceGenealogy(genealogy, selectedId, "backward") : []),
+    [genealogy, selectedId],
+  )
+  const forward = useMemo(
+    () => (selectedId ? traceGenealogy(genealogy, selectedId, "forward") : []),
+    [genealogy, selectedId],
+  )
+
+  const describeLink = (step: TraceStep) => {
+    if (!step.edge) return ""
+    const stage = step.edge.stage ? ` at ${getStageLabel(processDefinitions, step.edge.stage)}` : ""
+    return `${step.edge.quantity} ${step.edge.unit} ${step.edge.item}${stage}`
+  }
+
+  function downloadCSV() {
+    if (!selected) return
+    const headers = ["Direction", "Depth", "Type", "ID", "Details", "Date", "Quantity", "Unit", "Item", "Stage", "Link"]
+    const lines = [headers.join(",")]
+    const addRows = (direction: TraceDirection, steps: TraceStep[]) => {
+      for (const step of steps.slice(1)) {
+        const row = [
+          direction,
+          String(step.depth),
+          TRACE_NODE_LABELS[step.node.kind],
+          step.node.label.replaceAll(",", " "),
+          (step.node.detail || "").replaceAll(",", " "),
+          step.node.date || "",
+          String(step.edge?.quantity ?? ""),
+          step.edge?.unit || "",
+          (step.edge?.item || "").replaceAll(",", " "),
+          step.edge?.stage || "",
+          step.edge?.attributed ? "FIFO" : "Recorded",
+        ]
+        lines.push(row.join(","))
+      }
+    }
+    addRows("backward", backward)
+    addRows("forward", forward)
+    const csv = lines.join("\n")
+    const blob = new Blob([csv], { type: "text/csv;charset=utf-8;" })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement("a")
+    a.href = url
+    a.download = `trace-${selected.label.replace(/[^\w-]+/g, "_")}-${formatYMD(new Date())}.csv`
+    document.body.appendChild(a)
+    a.click()
+    document.body.removeChild(a)
+    URL.revokeObjectURL(url)
+  }
+
+  if (permissionsLoading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <div className="h-6 w-6 animate-spin rounded-full border-2 border-gray-300 border-t-gray-700" />
+      </div>
+    )
+  }
+
+  if (!canAccessReports) {
+    return (
+      <div className="space-y-6">
+        <PageHeader
+          title="Traceability"
+          description="Trace batches, material lots and orders forward and backward through production."
+        />
+        <Alert variant="destructive" className="max-w-2xl">
+          <ShieldX className="h-4 w-4" />
+          <AlertDescription>
+            You don&apos;t have permission to access Reports. Only users with Reports edit permissions can view this page.
+          </AlertDescription>
+        </Alert>
+      </div>
+    )
+  }
+
+  const renderTrace = (title: string, description: string, steps: TraceStep[], arrow: string) => (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base">{title}</CardTitle>
+        <CardDescription>{description}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {steps.length <= 1 ? (
+          <p className="text-sm text-muted-foreground">Nothing linked.</p>
+        ) : (
+          <div className="space-y-1">
+            {steps.slice(1).map((step, i) => (
+              <div
+                key={`${step.node.id}-${i}`}
+                className="flex flex-wrap items-center gap-2 rounded border px-2 py-1 text-xs"
+                style={{ marginLeft: (step.depth - 1) * 20 }}
+              >
+                <span className="text-muted-foreground">{arrow}</span>
+                <Badge variant="outline" className="text-[10px]">
+                  {TRACE_NODE_LABELS[step.node.kind]}
+                </Badge>
+                <button
+                  type="button"
+                  className="font-mono font-medium hover:underline"
+                  onClick={() => setSelectedId(step.node.id)}
+                >
+                  {step.node.label}
+                </button>
+                {step.node.detail && <span className="text-muted-foreground">{step.node.detail}</span>}
+                <span className="ml-auto text-muted-foreground">{describeLink(step)}</span>
+                {step.edge?.attributed && (
+                  <Badge variant="secondary" className="text-[10px]" title="Attributed first-in, first-out from the stock ledger">
+                    FIFO
+                  </Badge>
+                )}
+                {step.repeated && <span className="text-muted-foreground">(listed above)</span>}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+
+  return (
+    <div className="space-y-6">
+      <PageHeader
+        title="Traceability"
+        description="Trace batches, material lots and orders forward and backward through production."
+      />
+
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-base">Find</CardTitle>
+          <CardDescription>
+            Search for a batch ID, a material lot (restock record or material name) or an order ID, then select it to
+            trace.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="flex flex-wrap gap-3 items-end">
+            <Select value={kind} onValueChange={(value) => setKind(value as TraceNodeKind | "all")}>
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All</SelectItem>
+                {(Object.keys(TRACE_NODE_LABELS) as TraceNodeKind[]).map((k) => (
+                  <SelectItem key={k} value={k}>
+                    {TRACE_NODE_LABELS[k]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              placeholder="e.g. BATCH-MLD-014, resin, ORD-12"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="w-72"
+            />
+            <Button variant="secondary" onClick={() => setSearch("")}>
+              Clear
+            </Button>
+          </div>
+          {batchesLoading || movementsLoading ? (
+            <p className="text-sm text-muted-foreground">Loading...</p>
+          ) : results.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No matches.</p>
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              {results.map((node) => (
+                <Button
+                  key={node.id}
+                  size="sm"
+                  variant={node.id === selectedId ? "default" : "outline"}
+                  className="h-auto py-1 text-xs"
+                  onClick={() => setSelectedId(node.id)}
+                >
+                  <span className="mr-1 text-[10px] opacity-70">{TRACE_NODE_LABELS[node.kind]}</span>
+                  {node.label}
+                </Button>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {selected && (
+        <>
+          <div className="flex flex-wrap items-center gap-3">
+            <Badge>{TRACE_NODE_LABELS[selected.kind]}</Badge>
+            <span className="font-mono font-semibold">{selected.label}</span>
+            {selected.detail && <span className="text-sm text-muted-foreground">{selected.detail}</span>}
+            {selected.date && (
+              <span className="text-sm text-muted-foreground">{new Date(selected.date).toLocaleDateString()}</span>
+            )}
+            <Button className="ml-auto" onClick={downloadCSV}>
+              Download CSV
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Links marked FIFO are attributed from the stock ledger, since Store items and raw materials are held as one
+            quantity; all other links are recorded on the batch, Final Stock entry or order.
+          </p>
+          <div className="grid gap-6 lg:grid-cols-2">
+            {renderTrace("Backward Trace", "What it was made from", backward, "←")}
+            {renderTrace("Forward Trace", "Where it went", forward, "→")}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
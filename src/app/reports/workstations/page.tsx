@@ -0,0 +1,227 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import PageHeader from "@/components/page-header"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { usePermissions } from "@/hooks/use-permissions"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { ShieldX } from "lucide-react"
+import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useBatches } from "@/hooks/use-batches"
+import { useProcessDefinitions } from "@/hooks/use-process-definitions"
+import { useWorkstations } from "@/hooks/use-workstations"
+import { useShiftCalendar } from "@/hooks/use-shift-calendar"
+import { getStageLabel } from "@/lib/stages"
+import { formatMsToHMS } from "@/lib/utils"
+import { csvCell } from "@/lib/format-utils"
+import { getOutputPerHour, getRejectRate, summarizeStageOutput, type OutputRow } from "@/lib/workstations"
+
+function formatYMD(d: Date): string {
+  const y = d.getFullYear()
+  const m = String(d.getMonth() + 1).padStart(2, "0")
+  const day = String(d.getDate()).padStart(2, "0")
+  return `${y}-${m}-${day}`
+}
+
+export default function WorkstationReportPage() {
+  const { canEdit, loading: permissionsLoading } = usePermissions()
+  const canAccessReports = canEdit("Reports")
+
+  const { batches, loading: batchesLoading } = useBatches()
+  const { processDefinitions } = useProcessDefinitions()
+  const { workstations } = useWorkstations()
+  const { calendar } = useShiftCalendar()
+
+  const [stage, setStage] = useState("all")
+  const [from, setFrom] = useState(() => {
+    const d = new Date()
+    d.setDate(d.getDate() - 30)
+    return formatYMD(d)
+  })
+  const [to, setTo] = useState(() => formatYMD(new Date()))
+
+  const { byWorkstation, byOperator } = useMemo(
+    () => summarizeStageOutput(batches, workstations, { from, to, calendar, ...(stage !== "all" ? { stage } : {}) }),
+    [batches, workstations, from, to, stage, calendar],
+  )
+
+  function downloadCSV() {
+    const headers = ["Group", "Workstation / Operator", "Stage", "Runs", "Accepted", "Rejected", "Reject %", "Run Hours", "Units / Hour", "Capacity / Hour"]
+    const lines = [headers.join(",")]
+    const addRows = (group: string, rows: OutputRow[]) => {
+      for (const row of rows) {
+        lines.push(
+          [
+            group,
+            csvCell(row.label),
+            row.stage ? csvCell(getStageLabel(processDefinitions, row.stage)) : "",
+            row.runs,
+            row.accepted,
+            row.rejected,
+            (getRejectRate(row) * 100).toFixed(1),
+            (row.runMs / 3_600_000).toFixed(2),
+            getOutputPerHour(row).toFixed(1),
+            row.capacityPerHour ?? "",
+          ].join(","),
+        )
+      }
+    }
+    addRows("Workstation", byWorkstation)
+    addRows("Operator", byOperator)
+    const csv = lines.join("\n")
+    const blob = new Blob([csv], { type: "text/csv;charset=utf-8;" })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement("a")
+    a.href = url
+    a.download = `workstation-output-${from || "all"}-to-${to || formatYMD(new Date())}.csv`
+    document.body.appendChild(a)
+    a.click()
+    document.body.removeChild(a)
+    URL.revokeObjectURL(url)
+  }
+
+  if (permissionsLoading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <div className="h-6 w-6 animate-spin rounded-full border-2 border-gray-300 border-t-gray-700" />
+      </div>
+    )
+  }
+
+  if (!canAccessReports) {
+    return (
+      <div className="space-y-6">
+        <PageHeader
+          title="Workstation Output"
+          description="Output, rejects and run time per machine and operator."
+        />
+        <Alert variant="destructive" className="max-w-2xl">
+          <ShieldX className="h-4 w-4" />
+          <AlertDescription>
+            You don&apos;t have permission to access Reports. Only users with Reports edit permissions can view this page.
+          </AlertDescription>
+        </Alert>
+      </div>
+    )
+  }
+
+  const renderTable = (title: string, description: string, rows: OutputRow[], showWorkstation: boolean) => (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base">{title}</CardTitle>
+        <CardDescription>{description}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>{showWorkstation ? "Workstation" : "Operator"}</TableHead>
+              {showWorkstation && <TableHead>Stage</TableHead>}
+              <TableHead className="text-right">Runs</TableHead>
+              <TableHead className="text-right">Accepted</TableHead>
+              <TableHead className="text-right">Rejected</TableHead>
+              <TableHead className="text-right">Reject %</TableHead>
+              <TableHead className="text-right">Run Time</TableHead>
+              <TableHead className="text-right">Units / Hour</TableHead>
+              {showWorkstation && <TableHead className="text-right">Capacity / Hour</TableHead>}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {batchesLoading ? (
+              <TableRow>
+                <TableCell colSpan={showWorkstation ? 9 : 7} className="h-16 text-center text-muted-foreground">
+                  Loading...
+                </TableCell>
+              </TableRow>
+            ) : rows.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={showWorkstation ? 9 : 7} className="h-16 text-center text-muted-foreground">
+                  No production runs in this period.
+                </TableCell>
+              </TableRow>
+            ) : (
+              rows.map((row) => {
+                const perHour = getOutputPerHour(row)
+                const belowCapacity = !!row.capacityPerHour && perHour > 0 && perHour < row.capacityPerHour
+                return (
+                  <TableRow key={row.key}>
+                    <TableCell className="font-medium">{row.label}</TableCell>
+                    {showWorkstation && (
+                      <TableCell>{row.stage ? getStageLabel(processDefinitions, row.stage) : "—"}</TableCell>
+                    )}
+                    <TableCell className="text-right">{row.runs}</TableCell>
+                    <TableCell className="text-right">{row.accepted.toLocaleString()}</TableCell>
+                    <TableCell className="text-right">{row.rejected.toLocaleString()}</TableCell>
+                    <TableCell className="text-right">{(getRejectRate(row) * 100).toFixed(1)}%</TableCell>
+                    <TableCell className="text-right font-mono text-xs">{formatMsToHMS(row.runMs)}</TableCell>
+                    <TableCell className={belowCapacity ? "text-right text-amber-600" : "text-right"}>
+                      {perHour > 0 ? perHour.toFixed(1) : "—"}
+                    </TableCell>
+                    {showWorkstation && (
+                      <TableCell className="text-right">{row.capacityPerHour ?? "—"}</TableCell>
+                    )}
+                  </TableRow>
+                )
+              })
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  )
+
+  return (
+    <div className="space-y-6">
+      <PageHeader
+        title="Workstation Output"
+        description="Output, rejects and run time per machine and operator."
+      />
+
+      <div className="flex flex-wrap gap-3 items-end">
+        <div className="grid gap-1">
+          <label className="text-sm text-muted-foreground">Stage</label>
+          <Select value={stage} onValueChange={setStage}>
+            <SelectTrigger className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All stages</SelectItem>
+              {processDefinitions.map((d) => (
+                <SelectItem key={d.name} value={d.name}>
+                  {d.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="grid gap-1">
+          <label htmlFor="from" className="text-sm text-muted-foreground">
+            From date
+          </label>
+          <Input id="from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="w-44" />
+        </div>
+        <div className="grid gap-1">
+          <label htmlFor="to" className="text-sm text-muted-foreground">
+            To date
+          </label>
+          <Input id="to" type="date" value={to} onChange={(e) => setTo(e.target.value)} className="w-44" />
+        </div>
+        <Button onClick={downloadCSV} disabled={byWorkstation.length === 0}>
+          Download CSV
+        </Button>
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        Each production cycle is a run, counted on the day it ended; stages completed before cycles were recorded count
+        as one run from stage start to finish. Run time is working time in the shift calendar; units per hour below the
+        workstation&apos;s capacity are shown in amber.
+      </p>
+
+      {renderTable("By Workstation", "Production runs per machine, cell or bench", byWorkstation, true)}
+      {renderTable("By Operator", "Production runs per operator", byOperator, false)}
+    </div>
+  )
+}
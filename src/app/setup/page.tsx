@@ -13,8 +13,15 @@ import { usePermissions } from "@/hooks/use-permissions"
 import { useEmployees } from "@/hooks/use-employee"
 import { useFinalStock } from "@/hooks/use-final-stock"
 import { useProductGroups } from "@/hooks/use-product-groups"
+import { useProcessDefinitions } from "@/hooks/use-process-definitions"
+import { useWorkstations } from "@/hooks/use-workstations"
+import { useShiftCalendar } from "@/hooks/use-shift-calendar"
+import { useBatches } from "@/hooks/use-batches"
 import { ROLE_LABELS } from "@/lib/permissions"
-import type { UnitOfMeasure, Employee, ProductGroup } from "@/lib/types"
+import { getStageLabel } from "@/lib/stages"
+import type { UnitOfMeasure, Employee, ProductGroup, ProcessDefinition, Workstation, Shift, Holiday } from "@/lib/types"
+import { formatMsToHMS } from "@/lib/utils"
+import { getShiftDaysLabel, getShiftWorkingMs } from "@/lib/shifts"
 import { getAllBatches, deleteBatch } from "@/lib/firebase"
 import { PlusCircle, Trash2, MoreHorizontal } from "lucide-react"
 import { DropdownMenu, DropdownMenuTrigger, DropdownMenuContent, DropdownMenuItem } from "@/components/ui/dropdown-menu"
@@ -29,6 +36,9 @@ import {
   DialogTrigger,
 } from "@/components/ui/dialog"
 import { EmployeeForm } from "@/components/employee-form"
+import { StageDefinitionDialog, type StageDefinitionValues } from "@/components/stage-definition-dialog"
+import { WorkstationDialog, type WorkstationValues } from "@/components/workstation-dialog"
+import { ShiftDialog, type ShiftValues } from "@/components/shift-dialog"
 import {
   AlertDialog,
   AlertDialogAction,
@@ -44,6 +54,7 @@ import { getFirebaseAuth } from "@/lib/firebase-client"
 import { sendPasswordResetEmail } from "firebase/auth"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { ShieldX } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
 
 const initialUnits: UnitOfMeasure[] = [
   { id: "unit_001", name: "kg" },
@@ -86,6 +97,39 @@ export default function SetupPage() {
   const [editingGroup, setEditingGroup] = useState<ProductGroup | null>(null)
   const [editingProductIds, setEditingProductIds] = useState<string[]>([])
   const [editingProductQuantities, setEditingProductQuantities] = useState<Record<string, string>>({})
+  const {
+    processDefinitions,
+    loading: processDefinitionsLoading,
+    createProcessDefinition,
+    updateProcessDefinition,
+    deleteProcessDefinition,
+  } = useProcessDefinitions()
+  const { batches } = useBatches()
+  const [isStageDialogOpen, setIsStageDialogOpen] = useState(false)
+  const [editingStage, setEditingStage] = useState<ProcessDefinition | null>(null)
+  const {
+    workstations,
+    loading: workstationsLoading,
+    createWorkstation,
+    updateWorkstation,
+    deleteWorkstation,
+  } = useWorkstations()
+  const [isWorkstationDialogOpen, setIsWorkstationDialogOpen] = useState(false)
+  const [editingWorkstation, setEditingWorkstation] = useState<Workstation | null>(null)
+  const {
+    shifts,
+    holidays,
+    loading: calendarLoading,
+    createShift,
+    updateShift,
+    deleteShift,
+    createHoliday,
+    deleteHoliday,
+  } = useShiftCalendar()
+  const [isShiftDialogOpen, setIsShiftDialogOpen] = useState(false)
+  const [editingShift, setEditingShift] = useState<Shift | null>(null)
+  const [newHolidayDate, setNewHolidayDate] = useState("")
+  const [newHolidayName, setNewHolidayName] = useState("")
   
   const canAccessSetup = canEdit("Setup")
 
@@ -288,6 +332,152 @@ export default function SetupPage() {
     }
   }
   
+  const openStageDialog = (definition: ProcessDefinition | null) => {
+    setEditingStage(definition)
+    setIsStageDialogOpen(true)
+  }
+
+  const handleSaveStage = async (values: StageDefinitionValues): Promise<boolean> => {
+    try {
+      if (!editingStage) {
+        await createProcessDefinition(values)
+        toast({ title: "Success", description: `Stage ${values.label} added.` })
+      } else if (editingStage.builtIn) {
+        // Built-in stages only take label, code, description and defect code overrides
+        await updateProcessDefinition(editingStage.id, {
+          name: editingStage.name,
+          label: values.label,
+          code: values.code,
+          description: values.description,
+          defectCodes: values.defectCodes,
+        })
+        toast({ title: "Success", description: `Stage ${values.label} updated.` })
+      } else {
+        await updateProcessDefinition(editingStage.id, { ...values, name: editingStage.name })
+        toast({ title: "Success", description: `Stage ${values.label} updated.` })
+      }
+      return true
+    } catch (e) {
+      toast({ variant: "destructive", title: "Error", description: e instanceof Error ? e.message : "Failed to save stage." })
+      return false
+    }
+  }
+
+  const handleDeleteStage = async (definition: ProcessDefinition) => {
+    const products = finalStock.filter((p) => (p.manufacturingStages || []).includes(definition.name))
+    const openBatches = batches.filter(
+      (b) => b.status !== "Completed" && b.status !== "Merged" && (b.selectedProcesses || []).includes(definition.name),
+    )
+    if (products.length > 0 || openBatches.length > 0) {
+      toast({
+        variant: "destructive",
+        title: "Stage In Use",
+        description: `${definition.label} is used by ${products.length} product(s) and ${openBatches.length} open batch(es). Remove it from them first.`,
+      })
+      return
+    }
+    try {
+      await deleteProcessDefinition(definition.id)
+      toast({ title: "Success", description: `Stage ${definition.label} deleted.` })
+    } catch (e) {
+      toast({ variant: "destructive", title: "Error", description: e instanceof Error ? e.message : "Failed to delete stage." })
+    }
+  }
+
+  const openWorkstationDialog = (workstation: Workstation | null) => {
+    setEditingWorkstation(workstation)
+    setIsWorkstationDialogOpen(true)
+  }
+
+  const handleSaveWorkstation = async (values: WorkstationValues): Promise<boolean> => {
+    try {
+      if (editingWorkstation) {
+        await updateWorkstation(editingWorkstation.id, values)
+        toast({ title: "Success", description: `Workstation ${values.code} updated.` })
+      } else {
+        await createWorkstation(values)
+        toast({ title: "Success", description: `Workstation ${values.code} added.` })
+      }
+      return true
+    } catch (e) {
+      toast({ variant: "destructive", title: "Error", description: e instanceof Error ? e.message : "Failed to save workstation." })
+      return false
+    }
+  }
+
+  const handleDeleteWorkstation = async (workstation: Workstation) => {
+    try {
+      await deleteWorkstation(workstation.id)
+      toast({ title: "Success", description: `Workstation ${workstation.code} deleted.` })
+    } catch (e) {
+      toast({ variant: "destructive", title: "Error", description: e instanceof Error ? e.message : "Failed to delete workstation." })
+    }
+  }
+
+  const openShiftDialog = (shift: Shift | null) => {
+    setEditingShift(shift)
+    setIsShiftDialogOpen(true)
+  }
+
+  const handleSaveShift = async (values: ShiftValues): Promise<boolean> => {
+    try {
+      if (editingShift) {
+        await updateShift(editingShift.id, values)
+        toast({ title: "Success", description: `Shift ${values.name} updated.` })
+      } else {
+        await createShift(values)
+        toast({ title: "Success", description: `Shift ${values.name} added.` })
+      }
+      return true
+    } catch (e) {
+      toast({ variant: "destructive", title: "Error", description: e instanceof Error ? e.message : "Failed to save shift." })
+      return false
+    }
+  }
+
+  const handleDeleteShift = async (shift: Shift) => {
+    try {
+      await deleteShift(shift.id)
+      toast({ title: "Success", description: `Shift ${shift.name} deleted.` })
+    } catch (e) {
+      toast({ variant: "destructive", title: "Error", description: e instanceof Error ? e.message : "Failed to delete shift." })
+    }
+  }
+
+  const handleAddHoliday = async () => {
+    if (!newHolidayDate || !newHolidayName.trim()) {
+      toast({ variant: "destructive", title: "Error", description: "Enter the date and name of the holiday." })
+      return
+    }
+    if (holidays.some((h) => h.date === newHolidayDate)) {
+      toast({ variant: "destructive", title: "Error", description: `${newHolidayDate} is already a holiday.` })
+      return
+    }
+    try {
+      await createHoliday({ date: newHolidayDate, name: newHolidayName.trim() })
+      setNewHolidayDate("")
+      setNewHolidayName("")
+      toast({ title: "Success", description: `Holiday ${newHolidayName.trim()} added.` })
+    } catch (e) {
+      toast({ variant: "destructive", title: "Error", description: e instanceof Error ? e.message : "Failed to add holiday." })
+    }
+  }
+
+  const handleDeleteHoliday = async (holiday: Holiday) => {
+    try {
+      await deleteHoliday(holiday.id)
+      toast({ title: "Success", description: `Holiday ${holiday.name} deleted.` })
+    } catch (e) {
+      toast({ variant: "destructive", title: "Error", description: e instanceof Error ? e.message : "Failed to delete holiday." })
+    }
+  }
+
+  const sortedWorkstations = [...workstations].sort(
+    (a, b) =>
+      (processDefinitions.find((d) => d.name === a.stage)?.order ?? 0) -
+        (processDefinitions.find((d) => d.name === b.stage)?.order ?? 0) || a.code.localeCompare(b.code),
+  )
+
   if (permissionsLoading) {
     return (
       <div className="flex items-center justify-center p-8">
@@ -314,8 +504,11 @@ export default function SetupPage() {
     <>
       <PageHeader title="Setup" description="Manage application-wide settings and lists." />
       <Tabs defaultValue="units">
-        <TabsList className="grid w-full grid-cols-5">
+        <TabsList className="grid w-full grid-cols-8">
           <TabsTrigger value="units">Units of Measure</TabsTrigger>
+          <TabsTrigger value="stages">Stages</TabsTrigger>
+          <TabsTrigger value="workstations">Workstations</TabsTrigger>
+          <TabsTrigger value="calendar">Shift Calendar</TabsTrigger>
           <TabsTrigger value="orderTypes">Order Types</TabsTrigger>
           <TabsTrigger value="productGroups">Product Groups</TabsTrigger>
           <TabsTrigger value="employees">Employee Management</TabsTrigger>
@@ -370,6 +563,362 @@ export default function SetupPage() {
             </CardContent>
           </Card>
         </TabsContent>
+        <TabsContent value="stages">
+          <Card>
+            <CardHeader className="flex flex-row items-start justify-between space-y-0">
+              <div className="space-y-1.5">
+                <CardTitle>Manufacturing Stages</CardTitle>
+                <CardDescription>
+                  Stages products can pass through, in run order. Each stage gets its own page under Batches.
+                </CardDescription>
+              </div>
+              <Button onClick={() => openStageDialog(null)}>
+                <PlusCircle className="mr-2 h-4 w-4" /> Add Stage
+              </Button>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-[80px]">Order</TableHead>
+                    <TableHead>Stage</TableHead>
+                    <TableHead>Code</TableHead>
+                    <TableHead>Store Output</TableHead>
+                    <TableHead>Rejects</TableHead>
+                    <TableHead className="w-[160px] text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {processDefinitionsLoading ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="h-24 text-center">
+                        Loading stages...
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    processDefinitions.map((definition) => (
+                      <TableRow key={definition.id}>
+                        <TableCell>{definition.order}</TableCell>
+                        <TableCell className="font-medium">
+                          {definition.label}
+                          {definition.builtIn && (
+                            <Badge variant="outline" className="ml-2">
+                              Built-in
+                            </Badge>
+                          )}
+                          {definition.description && (
+                            <p className="text-xs text-muted-foreground">{definition.description}</p>
+                          )}
+                        </TableCell>
+                        <TableCell className="font-mono text-xs">{definition.code}</TableCell>
+                        <TableCell>
+                          {definition.producesStoreItem ? `${definition.storePrefix || definition.label} …` : "—"}
+                        </TableCell>
+                        <TableCell>
+                          {definition.hasRejects
+                            ? `Yes · ${(definition.defectCodes || []).length} defect code${(definition.defectCodes || []).length === 1 ? "" : "s"}`
+                            : "No"}
+                        </TableCell>
+                        <TableCell className="text-right space-x-2">
+                          <Button variant="outline" size="sm" onClick={() => openStageDialog(definition)}>
+                            Edit
+                          </Button>
+                          {!definition.builtIn && (
+                            <AlertDialog>
+                              <AlertDialogTrigger asChild>
+                                <Button variant="ghost" size="icon">
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              </AlertDialogTrigger>
+                              <AlertDialogContent>
+                                <AlertDialogHeader>
+                                  <AlertDialogTitle>Delete {definition.label}?</AlertDialogTitle>
+                                  <AlertDialogDescription>
+                                    The stage and its page will be removed. Stages still used by products or open
+                                    batches cannot be deleted.
+                                  </AlertDialogDescription>
+                                </AlertDialogHeader>
+                                <AlertDialogFooter>
+                                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                  <AlertDialogAction onClick={() => handleDeleteStage(definition)}>
+                                    Delete
+                                  </AlertDialogAction>
+                                </AlertDialogFooter>
+                              </AlertDialogContent>
+                            </AlertDialog>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+          <StageDefinitionDialog
+            isOpen={isStageDialogOpen}
+            onOpenChange={(open) => {
+              setIsStageDialogOpen(open)
+              if (!open) setEditingStage(null)
+            }}
+            definition={editingStage}
+            existing={processDefinitions}
+            onSave={handleSaveStage}
+          />
+        </TabsContent>
+        <TabsContent value="workstations">
+          <Card>
+            <CardHeader className="flex flex-row items-start justify-between space-y-0">
+              <div className="space-y-1.5">
+                <CardTitle>Workstations</CardTitle>
+                <CardDescription>
+                  Machines, cells and benches each stage runs on. Operators pick one when they record a batch.
+                </CardDescription>
+              </div>
+              <Button onClick={() => openWorkstationDialog(null)}>
+                <PlusCircle className="mr-2 h-4 w-4" /> Add Workstation
+              </Button>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Code</TableHead>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Stage</TableHead>
+                    <TableHead className="text-right">Capacity / Hour</TableHead>
+                    <TableHead className="w-[160px] text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {workstationsLoading ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="h-24 text-center">
+                        Loading workstations...
+                      </TableCell>
+                    </TableRow>
+                  ) : sortedWorkstations.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="h-24 text-center">
+                        No workstations defined.
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    sortedWorkstations.map((workstation) => (
+                      <TableRow key={workstation.id}>
+                        <TableCell className="font-mono text-xs">{workstation.code}</TableCell>
+                        <TableCell className="font-medium">
+                          {workstation.name}
+                          {!workstation.active && (
+                            <Badge variant="outline" className="ml-2">
+                              Inactive
+                            </Badge>
+                          )}
+                        </TableCell>
+                        <TableCell>{workstation.type}</TableCell>
+                        <TableCell>{getStageLabel(processDefinitions, workstation.stage)}</TableCell>
+                        <TableCell className="text-right">{workstation.capacityPerHour}</TableCell>
+                        <TableCell className="text-right space-x-2">
+                          <Button variant="outline" size="sm" onClick={() => openWorkstationDialog(workstation)}>
+                            Edit
+                          </Button>
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button variant="ghost" size="icon">
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>Delete {workstation.code}?</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  Batches already run on it keep its name. To stop it being selected while keeping it
+                                  in reports, mark it inactive instead.
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                <AlertDialogAction onClick={() => handleDeleteWorkstation(workstation)}>
+                                  Delete
+                                </AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+          <WorkstationDialog
+            isOpen={isWorkstationDialogOpen}
+            onOpenChange={(open) => {
+              setIsWorkstationDialogOpen(open)
+              if (!open) setEditingWorkstation(null)
+            }}
+            workstation={editingWorkstation}
+            existing={workstations}
+            stages={processDefinitions}
+            onSave={handleSaveWorkstation}
+          />
+        </TabsContent>
+        <TabsContent value="calendar" className="space-y-4">
+          <Card>
+            <CardHeader className="flex flex-row items-start justify-between space-y-0">
+              <div className="space-y-1.5">
+                <CardTitle>Shifts</CardTitle>
+                <CardDescription>
+                  Working hours per day. Cycle times, lead times, OEE and scheduling count only time inside shifts, less
+                  planned breaks. Until a shift is added, three 8-hour shifts around the clock are assumed.
+                </CardDescription>
+              </div>
+              <Button onClick={() => openShiftDialog(null)}>
+                <PlusCircle className="mr-2 h-4 w-4" /> Add Shift
+              </Button>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Hours</TableHead>
+                    <TableHead>Days</TableHead>
+                    <TableHead>Breaks</TableHead>
+                    <TableHead className="text-right">Working Time</TableHead>
+                    <TableHead className="w-[160px] text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {calendarLoading ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="h-24 text-center">
+                        Loading shifts...
+                      </TableCell>
+                    </TableRow>
+                  ) : shifts.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="h-24 text-center">
+                        No shifts defined.
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    shifts.map((shift) => (
+                      <TableRow key={shift.id}>
+                        <TableCell className="font-medium">{shift.name}</TableCell>
+                        <TableCell className="font-mono text-xs">
+                          {shift.start}–{shift.end}
+                        </TableCell>
+                        <TableCell>{getShiftDaysLabel(shift)}</TableCell>
+                        <TableCell className="text-sm text-muted-foreground">
+                          {(shift.breaks || []).length === 0
+                            ? "—"
+                            : (shift.breaks || []).map((b) => `${b.name} ${b.start}–${b.end}`).join(", ")}
+                        </TableCell>
+                        <TableCell className="text-right font-mono text-xs">
+                          {formatMsToHMS(getShiftWorkingMs(shift))}
+                        </TableCell>
+                        <TableCell className="text-right space-x-2">
+                          <Button variant="outline" size="sm" onClick={() => openShiftDialog(shift)}>
+                            Edit
+                          </Button>
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button variant="ghost" size="icon">
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>Delete {shift.name}?</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  Its hours stop counting as working time, including in reports over past periods.
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                <AlertDialogAction onClick={() => handleDeleteShift(shift)}>Delete</AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader>
+              <CardTitle>Holidays</CardTitle>
+              <CardDescription>Days without any shifts, such as public holidays and plant shutdowns.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex flex-wrap gap-2">
+                <Input
+                  type="date"
+                  value={newHolidayDate}
+                  onChange={(e) => setNewHolidayDate(e.target.value)}
+                  className="w-44"
+                  aria-label="Holiday date"
+                />
+                <Input
+                  value={newHolidayName}
+                  onChange={(e) => setNewHolidayName(e.target.value)}
+                  placeholder="e.g. New Year's Day"
+                  className="max-w-xs"
+                  aria-label="Holiday name"
+                />
+                <Button onClick={handleAddHoliday}>
+                  <PlusCircle className="mr-2 h-4 w-4" /> Add Holiday
+                </Button>
+              </div>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Name</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {holidays.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={3} className="h-16 text-center">
+                        No holidays defined.
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    holidays.map((holiday) => (
+                      <TableRow key={holiday.id}>
+                        <TableCell className="font-mono text-xs">{holiday.date}</TableCell>
+                        <TableCell>{holiday.name}</TableCell>
+                        <TableCell className="text-right">
+                          <Button variant="ghost" size="icon" onClick={() => handleDeleteHoliday(holiday)}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+          <ShiftDialog
+            isOpen={isShiftDialogOpen}
+            onOpenChange={(open) => {
+              setIsShiftDialogOpen(open)
+              if (!open) setEditingShift(null)
+            }}
+            shift={editingShift}
+            existing={shifts}
+            onSave={handleSaveShift}
+          />
+        </TabsContent>
         <TabsContent value="productGroups">
           <Card>
             <CardHeader>
@@ -13,6 +13,7 @@ import type { RawMaterial, ProcessingStageName, FinalStock } from "@/lib/types"
 import { useRawMaterials } from "@/hooks/use-raw-materials"
 import { useToast } from "@/hooks/use-toast"
 import { useActivityLog } from "@/hooks/use-activity-log"
+import { useStockMovements } from "@/hooks/use-stock-movements"
 import { usePermissions } from "@/hooks/use-permissions"
 import { useBatches } from "@/hooks/use-batches"
 import { ItemDetailsDialog } from "@/components/item-details-dialog"
@@ -25,12 +26,15 @@ import { EditMaterialForm } from "@/components/edit-material-form"
 import { SortControls, sortArray, type SortDirection } from "@/components/sort-controls"
 import { useFinalStock } from "@/hooks/use-final-stock"
 import { CreateBatchForm } from "@/components/create-batch-form"
+import { getMaterialBreakdown } from "@/lib/stock-availability"
+import { restockMaterial, updateMaterial } from "@/lib/firebase/stock-operations"
 
 export default function StorePage() {
   // removed regularMaterials (raw materials) from destructure
-  const { mouldedMaterials, finishedMaterials, assembledMaterials, updateRawMaterial } = useRawMaterials()
-  const { createActivityLog, activityLog } = useActivityLog()
-  const { canEdit } = usePermissions()
+  const { mouldedMaterials, finishedMaterials, assembledMaterials } = useRawMaterials()
+  const { activityLog } = useActivityLog()
+  const { stockMovements } = useStockMovements()
+  const { canEdit, employee } = usePermissions()
   const { batches } = useBatches()
   const [isClient, setIsClient] = useState(false)
   const [selectedItem, setSelectedItem] = useState<RawMaterial | null>(null)
@@ -51,14 +55,6 @@ export default function StorePage() {
     setIsClient(true)
   }, [])
 
-  const createActivityLogEntry = async (log: { recordId: string; recordType: "RawMaterial"; action: "Updated" | "Deleted" | "Stock Adjustment (Manual)"; details: string }) => {
-    await createActivityLog({
-      ...log,
-      timestamp: new Date().toISOString(),
-      user: "System",
-    })
-  }
-
   const handleMaterialUpdated = async (updatedMaterial: RawMaterial) => {
     try {
       // only consider moulded + finished materials (raw materials removed)
@@ -66,29 +62,14 @@ export default function StorePage() {
       const oldMaterial = allMaterials.find((m) => m.id === updatedMaterial.id)
       if (!oldMaterial) return
 
-      let details = `Material "${updatedMaterial.name}" was updated.`
-      const changes = Object.keys(updatedMaterial)
-        .filter((key) => key !== "id")
-        .map((key) => {
-          const typedKey = key as keyof Omit<RawMaterial, "id">
-          if (oldMaterial[typedKey] !== updatedMaterial[typedKey]) {
-            return `${key} changed from "${oldMaterial[typedKey]}" to "${updatedMaterial[typedKey]}"`
-          }
-          return null
-        })
-        .filter(Boolean)
-
-      if (changes.length > 0) {
-        details += ` ${changes.join(", ")}.`
-      }
-
-      // Update material (allow quantity 0 for moulded/finished units)
-      await updateRawMaterial(updatedMaterial.id, updatedMaterial)
-      await createActivityLogEntry({ 
-        recordId: updatedMaterial.id, 
-        recordType: "RawMaterial", 
-        action: "Updated", 
-        details 
+      // Quantity 0 is allowed for moulded/finished units. An unchanged quantity is
+      // left out, so stock booked since the form opened is kept.
+      const { quantity, ...fields } = updatedMaterial
+      await updateMaterial({
+        materialId: updatedMaterial.id,
+        itemKind: "StoreItem",
+        updates: Number(quantity) !== Number(oldMaterial.quantity) ? { ...fields, quantity } : fields,
+        user: employee?.name,
       })
       toast({ title: "Material Updated", description: `${updatedMaterial.name} has been updated.` })
       setIsEditOpen(false)
@@ -107,30 +88,13 @@ export default function StorePage() {
   ) => {
     try {
       const quantity = Number(data.quantity) || 0
-      const oldQuantity = Number(material.quantity) || 0
-      const newQuantity = oldQuantity + quantity
-      const updatedMaterial = { ...material, quantity: newQuantity }
-
-      await updateRawMaterial(material.id, updatedMaterial)
-
-      // Record in central Restocks collection for reporting
-      const { addRestockRecord } = await import("@/lib/firebase/firestore-operations")
-      await addRestockRecord({
-        productId: material.id,
-        productName: material.name,
-        quantityAdded: quantity,
+      await restockMaterial({
+        materialId: material.id,
+        itemKind: "StoreItem",
+        quantity,
         companyName: data.companyName,
         restockDate: new Date(data.restockDate + "T00:00:00").toISOString(),
-        previousStock: oldQuantity,
-        updatedStock: newQuantity,
-        createdAt: new Date().toISOString(),
-      })
-
-      await createActivityLogEntry({
-        recordId: material.id,
-        recordType: "RawMaterial",
-        action: "Stock Adjustment (Manual)",
-        details: `Restocked ${quantity} ${material.unit} from ${data.companyName}. Old quantity: ${oldQuantity}, New quantity: ${newQuantity}.`,
+        user: employee?.name,
       })
       toast({
         title: "Material Restocked",
@@ -274,6 +238,8 @@ export default function StorePage() {
               <TableHead>Name</TableHead>
               <TableHead>SKU</TableHead>
               <TableHead>Quantity</TableHead>
+              <TableHead>Committed</TableHead>
+              <TableHead>Free</TableHead>
               <TableHead>Min Threshold</TableHead>
               <TableHead>Created At</TableHead>
               <TableHead className="text-right w-[60px]">Actions</TableHead>
@@ -283,7 +249,7 @@ export default function StorePage() {
             {materials.length === 0 ? (
               <TableRow>
                 {/* adjusted colspan after removing Source Batch column */}
-                <TableCell colSpan={7} className="h-24 text-center">
+                <TableCell colSpan={9} className="h-24 text-center">
                   <div className="flex flex-col items-center justify-center space-y-2">
                     <Package className="h-8 w-8 text-muted-foreground" />
                     <p className="text-muted-foreground">
@@ -319,6 +285,12 @@ export default function StorePage() {
                         {material.quantity.toLocaleString()} {material.unit}
                       </Badge>
                     </TableCell>
+                    <TableCell className="text-muted-foreground">
+                      {getMaterialBreakdown(material).committed.toLocaleString()} {material.unit}
+                    </TableCell>
+                    <TableCell>
+                      {getMaterialBreakdown(material).free.toLocaleString()} {material.unit}
+                    </TableCell>
                     <TableCell>{displayThreshold}</TableCell>
                     <TableCell>
                       {material.createdAt ? format(new Date(material.createdAt), "MM/dd/yyyy HH:mm") : "—"}
@@ -477,6 +449,7 @@ export default function StorePage() {
           item={selectedItem}
           itemType="RawMaterial"
           activityLog={activityLog.filter((log) => log.recordId === selectedItem.id)}
+          stockMovements={stockMovements.filter((m) => m.itemId === selectedItem.id)}
           onItemUpdate={handleMaterialUpdated}
           disableDelete={true}
           batches={batches || []}
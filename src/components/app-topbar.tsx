@@ -12,6 +12,8 @@ import { cn } from "@/lib/utils"
 import { getFirebaseAuth } from "@/lib/firebase-client"
 import { onAuthStateChanged, signOut, type User } from "firebase/auth"
 import { usePermissions } from "@/hooks/use-permissions"
+import { useProcessDefinitions } from "@/hooks/use-process-definitions"
+import { getStageHref, getStageModule } from "@/lib/stages"
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -39,14 +41,23 @@ const navItems = [
     basePath: "/batches",
     items: [
       { href: "/batches/overview", label: "Overview", module: "Batches" as const },
-      { href: "/batches/molding", label: "Moulding", module: "Moulding" as const },
-      { href: "/batches/machining", label: "Machining", module: "Machining" as const },
-      { href: "/batches/assembling", label: "Assembling", module: "Assembling" as const },
-      { href: "/batches/testing", label: "Testing", module: "Testing" as const },
+      { href: "/batches/planning", label: "Material Planning", module: "Batches" as const },
+      { href: "/batches/schedule", label: "Scheduling Board", module: "Batches" as const },
     ],
   },
   { href: "/products", label: "Final Stock", module: "Final Stock" as const },
   { href: "/orders", label: "Orders", module: "Orders" as const },
+  {
+    label: "Purchasing",
+    module: "Purchasing" as const,
+    isMenu: true,
+    basePath: "/purchasing",
+    items: [
+      { href: "/purchasing", label: "Purchase Orders", module: "Purchasing" as const },
+      { href: "/purchasing/suppliers", label: "Suppliers", module: "Purchasing" as const },
+      { href: "/purchasing/reorder", label: "Reorder Planner", module: "Purchasing" as const },
+    ],
+  },
   { href: "/reports", label: "Reports", module: "Reports" as const },
   { href: "/setup", label: "Setup", module: "Setup" as const },
 ]
@@ -56,6 +67,17 @@ export function AppTopbar() {
   const router = useRouter()
   const [user, setUser] = useState<User | null>(null)
   const { canView, loading: permissionsLoading, employee } = usePermissions()
+  const { processDefinitions } = useProcessDefinitions()
+
+  // Stage pages follow the stage order configured in Setup
+  const stageNavItems = processDefinitions.map((d) => ({
+    href: getStageHref(d),
+    label: d.label,
+    module: getStageModule(d.name),
+  }))
+  const allNavItems = navItems.map((item) =>
+    item.basePath === "/batches" && item.items ? { ...item, items: [...item.items, ...stageNavItems] } : item,
+  )
 
   useEffect(() => {
     const auth = getFirebaseAuth()
@@ -75,10 +97,10 @@ export function AppTopbar() {
 
   const getVisibleNavItems = () => {
     if (permissionsLoading || !employee) {
-      return navItems
+      return allNavItems
     }
 
-    return navItems
+    return allNavItems
       .filter((item) => {
         if (item.module && canView(item.module)) {
           if (item.items) {
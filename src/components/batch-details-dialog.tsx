@@ -13,7 +13,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import type { Batch, ActivityLog, ProcessingStageName } from "@/lib/types"
 import { Button } from "./ui/button"
 import { ActivityLogList } from "./activity-log-list"
-import { format } from "date-fns"
+import { format, isSameDay } from "date-fns"
 import { Badge } from "./ui/badge"
 import { Progress } from "./ui/progress"
 import { EditBatchForm } from "./edit-batch-form"
@@ -32,6 +32,10 @@ import {
 import { Card, CardContent, CardHeader, CardTitle } from "./ui/card"
 import { Bar, BarChart, CartesianGrid, XAxis, YAxis, Tooltip, Legend } from "recharts"
 import { ChartContainer, ChartTooltipContent } from "./ui/chart"
+import { getStageCycles } from "@/lib/stage-cycles"
+import { workingTimeBetween } from "@/lib/shifts"
+import { formatMsToHMS } from "@/lib/utils"
+import { useShiftCalendar } from "@/hooks/use-shift-calendar"
 
 interface BatchDetailsDialogProps {
   isOpen: boolean
@@ -51,9 +55,37 @@ export function BatchDetailsDialog({
   onBatchDelete,
 }: BatchDetailsDialogProps) {
   const [isEditing, setIsEditing] = useState(false)
+  const { calendar } = useShiftCalendar()
 
   const isBatchCompleted = useMemo(() => batch.processingStages.Assembling.completed, [batch])
 
+  // Supplier lots drawn by each stage, recorded when the stage completed
+  const lotsUsed = useMemo(
+    () =>
+      Object.entries(batch.processingStages || {}).flatMap(([stage, data]) =>
+        Object.entries(data?.lotConsumptions || {}).flatMap(([materialId, lots]) => {
+          const material = batch.materials.find((m) => m.id === materialId)
+          return lots.map((lot) => ({
+            stage,
+            name: material?.name || materialId,
+            unit: material?.unit || "",
+            lotNumber: lot.lotNumber,
+            quantity: lot.quantity,
+          }))
+        }),
+      ),
+    [batch],
+  )
+
+  // Production cycles of every stage, in the order they ended
+  const cycleTimeline = useMemo(
+    () =>
+      Object.entries(batch.processingStages || {})
+        .flatMap(([stage, data]) => getStageCycles(data).map((cycle) => ({ stage, cycle })))
+        .sort((a, b) => new Date(a.cycle.endedAt).getTime() - new Date(b.cycle.endedAt).getTime()),
+    [batch],
+  )
+
   const consumptionData = useMemo(() => {
     if (!isBatchCompleted) return []
 
@@ -174,6 +206,26 @@ export function BatchDetailsDialog({
           <span className="text-right">{getConsumptionQty()}</span>
           <span>{labels.accepted}:</span>
           <span className="text-right">{stage.accepted.toLocaleString()} units</span>
+          {stage.workstationName && (
+            <>
+              <span>Workstation:</span>
+              <span className="text-right">{stage.workstationName}</span>
+            </>
+          )}
+          {stage.operatorName && (
+            <>
+              <span>Operator:</span>
+              <span className="text-right">{stage.operatorName}</span>
+            </>
+          )}
+          {stage.startedAt && (
+            <>
+              <span>Working Time:</span>
+              <span className="text-right font-mono text-xs">
+                {formatMsToHMS(workingTimeBetween(stage.startedAt, stage.finishedAt, calendar))}
+              </span>
+            </>
+          )}
         </div>
         <Progress value={progress} />
       </div>
@@ -211,6 +263,49 @@ export function BatchDetailsDialog({
         </ul>
       </div>
 
+      {lotsUsed.length > 0 && (
+        <div>
+          <h4 className="font-medium mb-2">Material Lots Used</h4>
+          <ul className="list-disc list-inside space-y-1 text-sm text-muted-foreground">
+            {lotsUsed.map((lot, i) => (
+              <li key={i}>
+                {lot.quantity} {lot.unit} of {lot.name} from lot <span className="font-mono">{lot.lotNumber}</span> at{" "}
+                <Badge variant="outline" className="font-normal">
+                  {lot.stage}
+                </Badge>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {(batch.origin || (batch.transfers || []).length > 0) && (
+        <div>
+          <h4 className="font-medium mb-2">Splits &amp; Merges</h4>
+          <ul className="list-disc list-inside space-y-1 text-sm text-muted-foreground">
+            {batch.origin && (
+              <li>
+                {batch.origin.type === "merge" ? "Merged from" : "Split from"}{" "}
+                {batch.origin.parents.map((p) => `${p.displayBatchId} (${p.quantity})`).join(", ")} before{" "}
+                <Badge variant="outline" className="font-normal">
+                  {batch.origin.stage}
+                </Badge>
+              </li>
+            )}
+            {(batch.transfers || []).map((transfer, i) => (
+              <li key={i}>
+                {transfer.quantity} units {transfer.type === "merge" ? "merged into" : "split into"}{" "}
+                <span className="font-mono">{transfer.displayBatchId}</span> before{" "}
+                <Badge variant="outline" className="font-normal">
+                  {transfer.stage}
+                </Badge>{" "}
+                on {format(new Date(transfer.createdAt), "MM/dd/yyyy")}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       <div>
         <h4 className="font-medium mb-2">Processing Progress</h4>
         <div className="grid sm:grid-cols-3 gap-4">
@@ -220,6 +315,45 @@ export function BatchDetailsDialog({
         </div>
       </div>
 
+      {cycleTimeline.length > 0 && (
+        <div>
+          <h4 className="font-medium mb-2">Production Cycles</h4>
+          <ol className="space-y-3 border-l pl-4">
+            {cycleTimeline.map(({ stage, cycle }) => {
+              const startedAt = new Date(cycle.startedAt)
+              const endedAt = new Date(cycle.endedAt)
+              const consumed = Object.entries(cycle.materialConsumptions || {}).map(([materialId, quantity]) => {
+                const material = batch.materials.find((m) => m.id === materialId)
+                return `${quantity} ${material?.unit || ""} of ${material?.name || materialId}`
+              })
+              return (
+                <li key={`${stage}-${cycle.id}`} className="text-sm">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Badge variant="outline" className="font-normal">
+                      {stage}
+                    </Badge>
+                    <span className="font-medium">
+                      {format(startedAt, "MM/dd/yyyy HH:mm")} –{" "}
+                      {format(endedAt, isSameDay(startedAt, endedAt) ? "HH:mm" : "MM/dd/yyyy HH:mm")}
+                    </span>
+                    <span className="font-mono text-xs text-muted-foreground">
+                      {formatMsToHMS(workingTimeBetween(cycle.startedAt, cycle.endedAt, calendar))} working
+                    </span>
+                    {cycle.shiftName && <span className="text-muted-foreground">{cycle.shiftName} shift</span>}
+                  </div>
+                  <div className="text-muted-foreground">
+                    {cycle.accepted.toLocaleString()} accepted, {cycle.rejected.toLocaleString()} rejected
+                    {cycle.workstationName && ` · ${cycle.workstationName}`}
+                    {cycle.operatorName && ` · ${cycle.operatorName}`}
+                  </div>
+                  {consumed.length > 0 && <div className="text-muted-foreground">Consumed {consumed.join(", ")}</div>}
+                </li>
+              )
+            })}
+          </ol>
+        </div>
+      )}
+
       {isBatchCompleted && (
         <div className="space-y-4 pt-4">
           <h3 className="font-semibold text-lg">Batch Analysis</h3>
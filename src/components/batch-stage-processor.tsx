@@ -1,7 +1,16 @@
 "use client";
 
 import { useEffect, useState } from "react";
-import type { Batch, ProcessingStageName, ActivityLog, BatchMaterial } from "@/lib/types";
+import type {
+  Batch,
+  ProcessingStageName,
+  ActivityLog,
+  BatchMaterial,
+  ProcessDefinition,
+  RejectDisposition,
+  InspectionRecord,
+  StageAssignment,
+} from "@/lib/types";
 import { useForm, useFieldArray } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import * as z from "zod";
@@ -24,6 +33,13 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { usePermissions } from "@/hooks/use-permissions";
 import { canEditProcessingStage } from "@/lib/permissions";
@@ -32,12 +48,45 @@ import { validateBatchStageAccess } from "@/lib/manufacturing-stages-validation"
 import {
   subscribeToBatchesForStage,
   updateBatchStage,
-  completeStage,
   createBatch,
 } from "@/lib/firebase";
+import {
+  completeBatchStage,
+  linkReworkBatch,
+  recordStageCycle,
+  resolveStageOutputs,
+} from "@/lib/firebase/stage-operations";
 import { useRawMaterials } from "@/hooks/use-raw-materials";
 import { useFinalStock } from "@/hooks/use-final-stock";
 import { useActivityLog } from "@/hooks/use-activity-log";
+import { useBatches } from "@/hooks/use-batches";
+import { useProcessDefinitions } from "@/hooks/use-process-definitions";
+import { useSuppliers } from "@/hooks/use-suppliers";
+import { useWorkstations } from "@/hooks/use-workstations";
+import { useShiftCalendar } from "@/hooks/use-shift-calendar";
+import { useEmployees } from "@/hooks/use-employee";
+import { getStageWorkstations, getWorkstationLabel } from "@/lib/workstations";
+import { getStageDefinition, getStageLabel } from "@/lib/stages";
+import {
+  buildReworkBatch,
+  findReworkBatch,
+  getDispositionTotal,
+  getPendingReworkIndexes,
+  getReturnStages,
+  getScrapUnitCost,
+  validateDispositions,
+} from "@/lib/rejects";
+import { getDefectTotal, validateDefects } from "@/lib/defects";
+import { RejectDispositionDialog } from "@/components/reject-disposition-dialog";
+import { DefectBreakdownDialog } from "@/components/defect-breakdown-dialog";
+import { getInspectionSampleCount, hasInspectionPlan } from "@/lib/inspection";
+import { InspectionEntryDialog } from "@/components/inspection-entry-dialog";
+import { SplitBatchDialog } from "@/components/split-batch-dialog";
+import { DowntimePanel } from "@/components/downtime-panel";
+import { ScheduleQueuePanel } from "@/components/schedule-queue-panel";
+import { getTransferStage, validateMerge } from "@/lib/batch-transfers";
+import { mergeBatches, splitBatch } from "@/lib/firebase/transfer-operations";
+import { createCycle, getNextCycleStart, getStageCycles, sumCycles } from "@/lib/stage-cycles";
 import { getBatchId } from "@/lib/utils";
 import {
   Dialog,
@@ -54,6 +103,8 @@ const formSchema = z.object({
       id: z.string(),
       accepted: z.coerce.number().min(0),
       rejected: z.coerce.number().min(0),
+      workstationId: z.string().optional(),
+      operatorId: z.string().optional(),
       materialConsumptions: z.array(
         z.object({
           materialId: z.string(),
@@ -64,14 +115,47 @@ const formSchema = z.object({
   ),
 });
 
+const NO_DISPOSITIONS: RejectDisposition[] = [];
+const NO_DEFECTS: Record<string, number> = {};
+
+// The form holds the cycle being entered; it starts empty once a stage has cycles recorded
+function getFormValues(
+  b: Batch,
+  stage: ProcessingStageName,
+  showRejected: boolean,
+): z.infer<typeof formSchema>["batches"][number] {
+  const data = b.processingStages[stage];
+  const hasCycles = getStageCycles(data).length > 0;
+  return {
+    id: b.id,
+    accepted: hasCycles
+      ? 0
+      : stage === "Assembling" && b.autoCreatedFromTestingRejected
+        ? (data?.accepted ?? b.quantityToBuild ?? 0)
+        : (data?.accepted || 0),
+    rejected: showRejected && !hasCycles ? (data?.rejected || 0) : 0,
+    workstationId: data?.workstationId || "",
+    operatorId: data?.operatorId || "",
+    materialConsumptions: b.materials
+      .filter((m) => m.stage === stage)
+      .map((m) => ({
+        materialId: m.id,
+        actualConsumption: hasCycles ? 0 : data?.materialConsumptions?.[m.id] || 0,
+      })),
+  };
+}
+
 interface BatchStageProcessorProps {
   stage: ProcessingStageName;
   previousStage: ProcessingStageName | null;
+  // Defaults to the configured definition of `stage`
+  definition?: ProcessDefinition;
 }
 
 export function BatchStageProcessor({
   stage,
   previousStage,
+  definition,
 }: BatchStageProcessorProps) {
   const [batches, setBatches] = useState<Batch[]>([]);
   const [selectedBatches, setSelectedBatches] = useState<Set<string>>(
@@ -81,17 +165,47 @@ export function BatchStageProcessor({
   const [isEndingCycle, setIsEndingCycle] = useState(false);
   const [isFinishing, setIsFinishing] = useState(false);
   const [assemblySelections, setAssemblySelections] = useState<Record<string, Record<string, boolean>>>({});
+  // Dispositions of the rejected units entered per batch, saved when the stage completes
+  const [dispositions, setDispositions] = useState<Record<string, RejectDisposition[]>>({});
+  const [dispositionBatchId, setDispositionBatchId] = useState<string | null>(null);
+  // Rejected units per defect code, per batch; saved stage data is used until edited
+  const [defects, setDefects] = useState<Record<string, Record<string, number>>>({});
+  const [defectBatchId, setDefectBatchId] = useState<string | null>(null);
+  const [inspectionBatchId, setInspectionBatchId] = useState<string | null>(null);
+  const [splitBatchId, setSplitBatchId] = useState<string | null>(null);
+  const [isMerging, setIsMerging] = useState(false);
+  // Batches whose rework batches are being created, so a retry cannot run alongside
+  const [creatingRework, setCreatingRework] = useState<Set<string>>(new Set());
   
-  const { rawMaterials, mouldedMaterials, finishedMaterials, assembledMaterials, updateRawMaterial, deleteRawMaterial } =
+  const { rawMaterials, mouldedMaterials, finishedMaterials, assembledMaterials } =
     useRawMaterials();
-  const { finalStock, createFinalStock, updateFinalStock } = useFinalStock();
+  const { finalStock } = useFinalStock();
+  const { batches: allBatches } = useBatches();
   const { createActivityLog } = useActivityLog();
   const { employee } = usePermissions();
+  const { processDefinitions } = useProcessDefinitions();
+  const { suppliers } = useSuppliers();
+  const { workstations } = useWorkstations();
+  const { calendar } = useShiftCalendar();
+  const { employees } = useEmployees();
   const { toast } = useToast();
+  const stageDefinition = definition || getStageDefinition(processDefinitions, stage);
   
   // Check if user has permission to edit this stage
-  const canEditStage = employee ? canEditProcessingStage(employee.role, stage) : false;
-  const showRejected = stage === "Testing";
+  const canEditStage = employee ? canEditProcessingStage(employee.role, stage, employee.stages) : false;
+  const showRejected = stageDefinition ? stageDefinition.hasRejects : true;
+  const defectCatalogue = (showRejected && stageDefinition?.defectCodes) || [];
+  const stageWorkstations = getStageWorkstations(workstations, stage);
+
+  const getBatchDefects = (batch: Batch): Record<string, number> =>
+    defects[batch.id] ?? batch.processingStages[stage]?.defects ?? NO_DEFECTS;
+
+  // Totals of the cycles already recorded at this stage
+  const getRecordedTotals = (batch: Batch) => sumCycles(getStageCycles(batch.processingStages[stage]));
+
+  // Rejected units of the whole stage: recorded cycles plus the cycle being entered
+  const getStageRejected = (batch: Batch, formRejected: number): number =>
+    getRecordedTotals(batch).rejected + (showRejected ? Number(formRejected || 0) : 0);
 
   useEffect(() => {
     console.log("[v0] Setting up real-time subscription for stage:", stage);
@@ -114,20 +228,7 @@ export function BatchStageProcessor({
   const form = useForm<z.infer<typeof formSchema>>({
     resolver: zodResolver(formSchema),
     defaultValues: {
-      batches: batches.map((b) => ({
-        id: b.id,
-        accepted:
-          stage === "Assembling" && b.autoCreatedFromTestingRejected
-            ? (b.processingStages[stage]?.accepted ?? b.quantityToBuild ?? 0)
-            : (b.processingStages[stage]?.accepted || 0),
-        rejected: showRejected ? (b.processingStages[stage]?.rejected || 0) : 0,
-        materialConsumptions: b.materials
-          .filter((m) => m.stage === stage)
-          .map((m) => ({
-            materialId: m.id,
-            actualConsumption: b.processingStages[stage]?.materialConsumptions?.[m.id] || 0,
-          })),
-      })),
+      batches: batches.map((b) => getFormValues(b, stage, showRejected)),
     },
   });
 
@@ -138,20 +239,7 @@ export function BatchStageProcessor({
 
   useEffect(() => {
     form.reset({
-      batches: batches.map((b) => ({
-        id: b.id,
-        accepted:
-          stage === "Assembling" && b.autoCreatedFromTestingRejected
-            ? (b.processingStages[stage]?.accepted ?? b.quantityToBuild ?? 0)
-            : (b.processingStages[stage]?.accepted || 0),
-        rejected: showRejected ? (b.processingStages[stage]?.rejected || 0) : 0,
-        materialConsumptions: b.materials
-          .filter((m) => m.stage === stage)
-          .map((m) => ({
-            materialId: m.id,
-            actualConsumption: b.processingStages[stage]?.materialConsumptions?.[m.id] || 0,
-          })),
-      })),
+      batches: batches.map((b) => getFormValues(b, stage, showRejected)),
     });
   }, [batches, form, stage, showRejected]);
 
@@ -260,13 +348,8 @@ export function BatchStageProcessor({
   const numberInputClassName =
     "appearance-none [appearance:textfield] [&::-webkit-inner-spin-button]:appearance-none [&::-webkit-outer-spin-button]:appearance-none";
 
-  // Canonical global stage order
-  const STAGE_ORDER: ProcessingStageName[] = [
-    "Molding",
-    "Machining",
-    "Assembling",
-    "Testing",
-  ];
+  // Canonical global stage order, as configured in Setup
+  const STAGE_ORDER: ProcessingStageName[] = processDefinitions.map((d) => d.name);
 
   // Helper: resolve product for a batch using external PID first (FinalStock.productId),
   // then fall back to legacy doc ID semantics and finally to name-based lookup.
@@ -283,6 +366,38 @@ export function BatchStageProcessor({
     return finalStock.find((p) => p.name === batch.productName);
   };
 
+  // Inspection plans are measured at Testing only
+  const getInspectionPlanForBatch = (batch: Batch) => {
+    const plan = getProductForBatch(batch)?.inspectionPlan;
+    return stage === "Testing" && hasInspectionPlan(plan) ? plan : undefined;
+  };
+
+  const saveInspection = async (batch: Batch, record: InspectionRecord): Promise<boolean> => {
+    try {
+      await updateBatchStage(batch.id, stage, { inspection: record });
+      await addLog({
+        recordId: batch.id,
+        recordType: "Batch",
+        action: "Updated",
+        details: `Inspection recorded for batch ${getBatchId(batch)}: ${record.samples.length - record.failedSamples} of ${record.samples.length} samples passed.`,
+      });
+      toast({
+        variant: record.passed ? "default" : "destructive",
+        title: record.passed ? "Inspection Passed" : "Inspection Failed",
+        description: `${record.failedSamples} of ${record.samples.length} samples out of tolerance for batch ${getBatchId(batch)}.`,
+      });
+      return true;
+    } catch (error) {
+      console.error("Failed to save inspection:", error);
+      toast({
+        variant: "destructive",
+        title: "Failed to Save Inspection",
+        description: error instanceof Error ? error.message : "Please try again.",
+      });
+      return false;
+    }
+  };
+
   const getEffectiveStagesForBatch = (batch: Batch): ProcessingStageName[] => {
     const product = getProductForBatch(batch);
     const productStages = product?.manufacturingStages || [];
@@ -388,368 +503,281 @@ export function BatchStageProcessor({
           consumption: "Actual Consumption",
           nextDept: nextDept || "Final Stock",
         };
+      default: {
+        const label = getStageLabel(processDefinitions, stageName);
+        const previous = batch?.selectedProcesses?.[batch.selectedProcesses.indexOf(stageName) - 1];
+        return {
+          input: `${label} Raw Mat. Input`,
+          prevStage: previous ? `From ${getStageLabel(processDefinitions, previous)}` : null,
+          accepted: `Accepted ${label}`,
+          rejected: `Rejected ${label}`,
+          consumption: "Actual Consumption",
+          nextDept: nextDept || "Final Stock",
+        };
+      }
     }
   };
 
-  const createFailedAssemblyBatch = async (
-    originalBatch: Batch,
-    rejectedQty: number,
-    uncheckedAssemblyMaterials: BatchMaterial[],
-  ) => {
-    if (rejectedQty <= 0) return;
-    if (uncheckedAssemblyMaterials.length === 0) return;
-
-    console.log("[Testing] Creating failed Assembly batch:", {
-      originalBatchId: originalBatch.id,
-      rejectedQty,
-      uncheckedCount: uncheckedAssemblyMaterials.length,
-    });
-
-    const qtyToBuildOriginal = Math.max(1, Number(originalBatch.quantityToBuild) || 1);
-
-    const scaledMaterials = uncheckedAssemblyMaterials.map((mat) => {
-      const perPiece = qtyToBuildOriginal > 0
-        ? Number(mat.quantity || 0) / qtyToBuildOriginal
-        : 0;
-      const scaledQty = perPiece > 0 ? perPiece * rejectedQty : Number(mat.quantity || 0);
-      return {
-        id: mat.id,
-        name: mat.name,
-        quantity: scaledQty,
-        unit: mat.unit,
-        stage: "Assembling" as ProcessingStageName,
-      };
-    });
-
-    const totalMaterialQuantity = scaledMaterials.reduce(
-      (sum, m) => sum + Number(m.quantity || 0),
-      0,
-    );
-
-    const processingStages: Record<ProcessingStageName, any> = {
-      Molding: { accepted: 0, rejected: 0, actualConsumption: 0, completed: false },
-      Machining: { accepted: 0, rejected: 0, actualConsumption: 0, completed: false },
-      Assembling: { accepted: rejectedQty, rejected: 0, actualConsumption: 0, completed: false },
-      Testing: { accepted: 0, rejected: 0, actualConsumption: 0, completed: false },
-    };
-
-    const newBatchId = await createBatch({
-      productId: originalBatch.productId,
-      productName: originalBatch.productName,
-      quantityToBuild: rejectedQty,
-      totalMaterialQuantity,
-      materials: scaledMaterials,
-      createdAt: new Date().toISOString(),
-      status: "Planned",
-      processingStages,
-      selectedProcesses: ["Assembling", "Testing"],
-      autoCreatedFromTestingRejected: true,
-    });
-
-    await addLog({
-      recordId: newBatchId,
-      recordType: "Batch",
-      action: "Created",
-            details: `Failed Assembly batch created from Testing batch ${getBatchId(originalBatch)} for ${rejectedQty} rejected units.`,
+  /**
+   * Dispositions entered for a batch. Testing rejects returned to Assembling
+   * record the assembly materials left unchecked, so the rework batch can be
+   * created again from the saved stage if it fails.
+   */
+  const getBatchDispositions = (batch: Batch): RejectDisposition[] =>
+    (dispositions[batch.id] || []).map((disposition) => {
+      if (stage !== "Testing" || disposition.type !== "Return" || disposition.targetStage !== "Assembling") {
+        return disposition;
+      }
+      const selectionForBatch = assemblySelections[batch.id] || {};
+      const materialIds = getAssemblyMaterialsForBatch(batch)
+        .filter((mat) => !selectionForBatch[mat.id])
+        .map((mat) => mat.id);
+      return { ...disposition, materialIds };
     });
 
-    toast({
-      title: "Failed Assembly Batch Created",
-      description: `Created Assembly batch ${newBatchId} for ${rejectedQty} rejected units from Testing batch ${getBatchId(originalBatch)}.`,
-    });
+  /**
+   * Create the linked batches for the Rework / Return dispositions of a completed stage.
+   * Testing rejects returned to Assembling only carry the assembly materials left
+   * unchecked; the checked ones are reused. Dispositions already linked are skipped,
+   * and a batch created earlier whose link failed is only linked.
+   */
+  const createReworkBatches = async (batch: Batch, batchDispositions: RejectDisposition[]) => {
+    if (creatingRework.has(batch.id)) return;
+    setCreatingRework((prev) => new Set(prev).add(batch.id));
+    try {
+      const effectiveStages = getEffectiveStagesForBatch(batch);
+      for (let index = 0; index < batchDispositions.length; index++) {
+        await createReworkBatch(batch, batchDispositions[index], index, effectiveStages);
+      }
+    } finally {
+      setCreatingRework((prev) => {
+        const next = new Set(prev);
+        next.delete(batch.id);
+        return next;
+      });
+    }
   };
 
-  const labels = getStageLabels(stage);
-  
-  // After hiding previous stage and raw material input columns globally,
-  // compute total visible columns for empty-state colSpan.
-  // Visible columns:
-  // [Select, Batch ID, Product, Measurement Sketch, Date Created, (Actual Consumption if not Testing), Accepted, (Rejected if enabled)]
-  const totalColumns = 7 + (stage !== "Testing" ? 1 : 0) + (showRejected ? 1 : 0);
-
-  const processMaterialConsumptions = async (
+  const createReworkBatch = async (
     batch: Batch,
-    materialConsumptions: { materialId: string; actualConsumption: number }[],
-    isCompleted: boolean,
-    acceptedUnits: number,
+    disposition: RejectDisposition,
+    index: number,
+    effectiveStages: ProcessingStageName[],
   ) => {
-    if (!isCompleted) return;
+    if (disposition.type === "Scrap" || disposition.reworkBatchId) return;
 
-    const materialsForStage = batch.materials.filter((m) => m.stage === stage);
-    
-    for (const materialInBatch of materialsForStage) {
-      const inv = findInventoryItemById(materialInBatch.id);
-      
-      if (inv) {
-        const consumptionData = materialConsumptions.find(
-          (mc) => mc.materialId === materialInBatch.id
-        );
-        
-        // Default to Accepted × (BOM qty per piece). We approximate per-piece as
-        // materialInBatch.quantity / batch.quantityToBuild when BOM is pre-expanded for the batch size.
-        const perPiece = Number(batch.quantityToBuild) > 0
-          ? Number(materialInBatch.quantity || 0) / Number(batch.quantityToBuild)
-          : 0
-        const defaultConsumption = Math.max(0, Number(acceptedUnits || 0) * perPiece)
-        const consumptionAmount = consumptionData && Number(consumptionData.actualConsumption) > 0
-          ? Number(consumptionData.actualConsumption)
-          : defaultConsumption
-        
-        const oldQuantity = Number(inv.item.quantity || 0);
-        const newQuantity = Math.max(0, oldQuantity - consumptionAmount); // Ensure quantity doesn't go negative
-
-        if (inv.kind === "raw") {
-          await updateRawMaterial(inv.item.id, { quantity: newQuantity });
-          const batchId = getBatchId(batch);
-          await addLog({
-            recordId: inv.item.id,
-            recordType: "RawMaterial",
-            action: "Stock Adjustment (Batch)",
-            details: `Batch ${batchId} (${stage}) consumed ${consumptionAmount} ${inv.item.unit || "pcs"}. Old qty: ${oldQuantity}, New qty: ${newQuantity}.`,
-          });
-        } else {
-          const product = finalStock.find((p) => p.id === inv.item.id);
-          const hasBatches = product && Array.isArray(product.batches) && product.batches.length > 0;
-          if (hasBatches) {
-            let remaining = consumptionAmount;
-            const sorted = [...(product!.batches as any[])].sort((a, b) => {
-              const ta = new Date(a.createdAt || 0).getTime();
-              const tb = new Date(b.createdAt || 0).getTime();
-              return ta - tb;
-            });
-            for (const entry of sorted) {
-              if (remaining <= 0) break;
-              const q = Math.max(0, Number(entry.quantity || 0));
-              const deduct = Math.min(q, remaining);
-              entry.quantity = q - deduct;
-              remaining -= deduct;
-            }
-            const updatedBatches = sorted.filter((e) => Number(e.quantity || 0) > 0);
-            await updateFinalStock(inv.item.id, { batches: updatedBatches } as any);
-            const newTotal = updatedBatches.reduce((sum, b) => sum + Number(b.quantity || 0), 0);
-            const batchId = getBatchId(batch);
-            await addLog({
-              recordId: inv.item.id,
-              recordType: "FinalStock",
-              action: "Stock Adjustment (Batch)",
-              details: `Batch ${batchId} (${stage}) consumed ${consumptionAmount} pcs from batches. Old qty: ${oldQuantity}, New qty: ${newTotal}.`,
-            });
-          } else {
-            await updateFinalStock(inv.item.id, { quantity: newQuantity } as any);
-            const batchId = getBatchId(batch);
-            await addLog({
-              recordId: inv.item.id,
-              recordType: "FinalStock",
-              action: "Stock Adjustment (Batch)",
-              details: `Batch ${batchId} (${stage}) consumed ${consumptionAmount} pcs. Old qty: ${oldQuantity}, New qty: ${newQuantity}.`,
-            });
-          }
-        }
+    try {
+      const existing = findReworkBatch(allBatches, batch.id, stage, index);
+      if (existing) {
+        await linkReworkBatch(batch.id, stage, index, existing.id);
+        return;
       }
-    }
-  };
 
-  const createMouldedMaterial = async (batch: Batch, accepted: number) => {
-    const { addRawMaterial } = await import("@/lib/firebase/firestore-operations");
-    const materialName = `Moulded ${batch.productName}`;
-    const existingMaterial = rawMaterials.find(
-      (m) => m.name === materialName && m.isMoulded === true,
-    );
+      let materials = batch.materials || [];
+      if (disposition.materialIds) {
+        const materialIds = new Set(disposition.materialIds);
+        const uncheckedMaterials = getAssemblyMaterialsForBatch(batch).filter((mat) => materialIds.has(mat.id));
+        materials = [...materials.filter((m) => m.stage !== "Assembling"), ...uncheckedMaterials];
+      }
 
-    if (existingMaterial) {
-      const oldQuantity = Number(existingMaterial.quantity) || 0;
-      const newQuantity = oldQuantity + Number(accepted);
-      await updateRawMaterial(existingMaterial.id, {
-        quantity: newQuantity,
-      });
+      const reworkBatch = buildReworkBatch(batch, stage, disposition, effectiveStages, materials, index);
+      const newBatchId = await createBatch(reworkBatch);
+      await linkReworkBatch(batch.id, stage, index, newBatchId);
 
-      const batchId = getBatchId(batch);
+      const startStage = getStageLabel(processDefinitions, reworkBatch.selectedProcesses[0]);
       await addLog({
-        recordId: existingMaterial.id,
-        recordType: "RawMaterial",
-        action: "Stock Adjustment (Batch)",
-        details: `${accepted} moulded items from batch ${batchId} added to Store. Old qty: ${oldQuantity}, New qty: ${newQuantity}.`,
+        recordId: newBatchId,
+        recordType: "Batch",
+        action: "Created",
+        details: `Rework batch created from ${stage} batch ${getBatchId(batch)} for ${disposition.quantity} rejected units, starting at ${startStage}.`,
       });
-
       toast({
-        title: "Moulded Material Updated",
-        description: `${accepted} moulded ${batch.productName} added to existing stock.`,
-      });
-    } else {
-      const batchId = getBatchId(batch);
-      const mouldedMaterialId = await addRawMaterial({
-        name: materialName,
-        sku: `MOULD-${Date.now()}`,
-        quantity: accepted,
-        unit: "pcs",
-        threshold: 10,
-        isMoulded: true,
-        sourceBatchId: batchId,
-        createdAt: new Date().toISOString(),
-      });
-
-      await addLog({
-        recordId: mouldedMaterialId,
-        recordType: "RawMaterial",
-        action: "Created",
-        details: `${accepted} moulded items from batch ${batchId} added to Store.`,
+        title: "Rework Batch Created",
+        description: `Created batch ${newBatchId} at ${startStage} for ${disposition.quantity} rejected units from batch ${getBatchId(batch)}.`,
       });
-
+    } catch (error) {
+      console.error("Failed to create rework batch:", error);
       toast({
-        title: "Moulded Material Created",
-        description: `${accepted} moulded ${batch.productName} added to Store.`,
+        variant: "destructive",
+        title: "Failed to Create Rework Batch",
+        description: `Batch ${getBatchId(batch)}: ${error instanceof Error ? error.message : "please try again."}`,
       });
     }
   };
 
-  const createFinishedMaterial = async (batch: Batch, accepted: number) => {
-    const { addRawMaterial } = await import("@/lib/firebase/firestore-operations");
-    const materialName = `Machined ${batch.productName}`;
-    const existingMaterial = rawMaterials.find(
-      (m) => m.name === materialName && m.isFinished === true,
-    );
+  // Completed batches of this stage with Rework / Return dispositions still to create
+  const pendingReworkBatches = allBatches.filter((b) => getPendingReworkIndexes(b, stage).length > 0);
 
-    if (existingMaterial) {
-      const oldQuantity = Number(existingMaterial.quantity) || 0;
-      const newQuantity = oldQuantity + Number(accepted);
-      await updateRawMaterial(existingMaterial.id, {
-        quantity: newQuantity,
-      });
+  const labels = getStageLabels(stage);
+  
+  // After hiding previous stage and raw material input columns globally,
+  // compute total visible columns for empty-state colSpan.
+  // Visible columns:
+  // [Select, Batch ID, Product, Measurement Sketch, Date Created, (Actual Consumption if not Testing), Accepted, (Rejected if enabled)]
+  const totalColumns = 8 + (stage !== "Testing" ? 1 : 0) + (showRejected ? 1 : 0);
 
-      const batchId = getBatchId(batch);
-      await addLog({
-        recordId: existingMaterial.id,
-        recordType: "RawMaterial",
-        action: "Stock Adjustment (Batch)",
-        details: `${accepted} machined items from batch ${batchId} added to Store. Old qty: ${oldQuantity}, New qty: ${newQuantity}.`,
-      });
+  const resolveFinalStockProductId = async (batch: Batch): Promise<string> => {
+    // Prefer resolving the product using the batch's productId (PID semantics),
+    // then fall back to legacy doc ID, and only then to name-based creation.
+    const product =
+      finalStock.find((p) => p.productId === batch.productId) ||
+      finalStock.find((p) => p.id === batch.productId);
+    if (product) return product.id;
 
-      toast({
-        title: "Machined Material Updated",
-        description: `${accepted} machined ${batch.productName} added to existing stock.`,
-      });
-    } else {
-      const batchId = getBatchId(batch);
-      const finishedMaterialId = await addRawMaterial({
-        name: materialName,
-        sku: `FINISH-${Date.now()}`,
-        quantity: accepted,
-        unit: "pcs",
-        threshold: 10,
-        isFinished: true,
-        sourceBatchId: batchId,
-        createdAt: new Date().toISOString(),
-      });
-      await addLog({
-        recordId: finishedMaterialId,
-        recordType: "RawMaterial",
-        action: "Created",
-        details: `${accepted} machined items from batch ${batchId} added to Store.`,
-      });
+    console.warn(
+      `[BatchStageProcessor] No FinalStock product found for batch.productId="${batch.productId}". Falling back to getOrCreateProduct by name: "${batch.productName}"`,
+    );
+    const { getOrCreateProduct } = await import("@/lib/firebase/firestore-operations");
+    const created = await getOrCreateProduct(batch.productName, {
+      imageUrl: "/placeholder.svg?height=100&width=100",
+      imageHint: batch.productName,
+    });
+    return created.id;
+  };
 
-      toast({
-        title: "Machined Material Created",
-        description: `${accepted} machined ${batch.productName} added to Store.`,
-      });
-    }
+  // Operators default to the signed-in employee; names are copied so history survives renames
+  const getStageAssignment = (
+    formData: z.infer<typeof formSchema>["batches"][number],
+  ): StageAssignment => {
+    const workstation = workstations.find((w) => w.id === formData.workstationId);
+    const operator = formData.operatorId
+      ? employees.find((e) => e.uid === formData.operatorId)
+      : employee;
+    return {
+      ...(workstation ? { workstationId: workstation.id, workstationName: getWorkstationLabel(workstation) } : {}),
+      ...(operator ? { operatorId: operator.uid, operatorName: operator.name } : {}),
+    };
   };
-  const createAssembledMaterial = async (batch: Batch, accepted: number) => {
-    const { addRawMaterial } = await import("@/lib/firebase/firestore-operations");
-    const materialName = `Assembled ${batch.productName}`;
-    const existingMaterial = rawMaterials.find(
-      (m) => m.name === materialName && m.isAssembled === true,
-    );
 
-    if (existingMaterial) {
-      const oldQuantity = Number(existingMaterial.quantity) || 0;
-      const newQuantity = oldQuantity + Number(accepted);
-      await updateRawMaterial(existingMaterial.id, {
-        quantity: newQuantity,
+  // The cycle being entered for a batch, ending now; null when no units were entered
+  const getFormCycle = (
+    batch: Batch,
+    formData: z.infer<typeof formSchema>["batches"][number],
+    options: { useFormConsumptions: boolean },
+  ) => {
+    const data = batch.processingStages[stage];
+    const rejected = showRejected ? Number(formData.rejected || 0) : 0;
+    const accepted =
+      stage === "Assembling" && batch.autoCreatedFromTestingRejected && getStageCycles(data).length === 0
+        ? (data?.accepted ?? batch.quantityToBuild ?? 0)
+        : Number(formData.accepted || 0);
+    if (accepted + rejected <= 0) return null;
+
+    const materialConsumptions: Record<string, number> = {};
+    if (stage !== "Testing" || options.useFormConsumptions) {
+      formData.materialConsumptions.forEach((mc) => {
+        materialConsumptions[mc.materialId] = mc.actualConsumption;
       });
+    }
+    return createCycle({
+      ...getStageAssignment(formData),
+      accepted,
+      rejected,
+      materialConsumptions,
+      startedAt: getNextCycleStart(data),
+      endedAt: new Date().toISOString(),
+      user: employee?.name,
+    }, calendar);
+  };
 
-      const batchId = getBatchId(batch);
-      await addLog({
-        recordId: existingMaterial.id,
-        recordType: "RawMaterial",
-        action: "Stock Adjustment (Batch)",
-        details: `${accepted} assembled items from batch ${batchId} added to Store. Old qty: ${oldQuantity}, New qty: ${newQuantity}.`,
-      });
+  /**
+   * Complete the stage for a batch with the form values as its last cycle, through
+   * `completeBatchStage`, which moves stock and advances the batch in a single transaction.
+   * Returns true when the stage was completed.
+   */
+  const commitBatchStage = async (
+    batch: Batch,
+    formData: z.infer<typeof formSchema>["batches"][number],
+    options: { useFormConsumptions: boolean },
+  ): Promise<boolean> => {
+    // Stage totals are those of every cycle, including the one being entered
+    const cycle = getFormCycle(batch, formData, options);
+    const cycles = [...getStageCycles(batch.processingStages[stage]), ...(cycle ? [cycle] : [])];
+    const totals = sumCycles(cycles);
+    const { accepted, materialConsumptions } = totals;
+    const rejected = showRejected ? totals.rejected : 0;
+    const isCompleted = accepted + rejected > 0;
+    const actualConsumption = stage === "Testing" ? accepted + rejected : undefined;
 
-      toast({
-        title: "Assembled Material Updated",
-        description: `${accepted} assembled ${batch.productName} added to existing stock.`,
-      });
-    } else {
-      const batchId = getBatchId(batch);
-      const assembledMaterialId = await addRawMaterial({
-        name: materialName,
-        sku: `ASSEMB-${Date.now()}`,
-        quantity: accepted,
-        unit: "pcs",
-        threshold: 10,
-        isAssembled: true,
-        sourceBatchId: batchId,
-        createdAt: new Date().toISOString(),
-      });
-      await addLog({
-        recordId: assembledMaterialId,
-        recordType: "RawMaterial",
-        action: "Created",
-        details: `${accepted} assembled items from batch ${batchId} added to Store.`,
-      });
+    const effectiveStages = getEffectiveStagesForBatch(batch);
+    const outputs = isCompleted && accepted > 0 ? resolveStageOutputs(stage, effectiveStages, stageDefinition) : [];
+    const finalStockProductId = outputs.includes("final")
+      ? await resolveFinalStockProductId(batch)
+      : undefined;
+
+    const result = await completeBatchStage({
+      batchId: batch.id,
+      stage,
+      accepted,
+      ...(showRejected ? { rejected } : {}),
+      ...(actualConsumption !== undefined ? { actualConsumption } : {}),
+      materialConsumptions,
+      consumedUnits: accepted + rejected,
+      moveStock: isCompleted,
+      effectiveStages,
+      stageDefinition,
+      finalStockProductId,
+      ...(rejected > 0
+        ? {
+            dispositions: getBatchDispositions(batch),
+            scrapUnitCost: getScrapUnitCost(batch, stage, effectiveStages, suppliers),
+            ...(defectCatalogue.length > 0 ? { defects: getBatchDefects(batch) } : {}),
+          }
+        : {}),
+      assignment: getStageAssignment(formData),
+      ...(cycle ? { cycle } : {}),
+      user: employee?.name,
+    });
 
+    for (const movement of result.produced) {
+      if (movement.kind !== "raw") continue;
+      const label = movement.itemName.split(" ")[0];
       toast({
-        title: "Assembled Material Created",
-        description: `${accepted} assembled ${batch.productName} added to Store.`,
+        title: movement.created ? `${label} Material Created` : `${label} Material Updated`,
+        description: movement.created
+          ? `${movement.quantity} ${label.toLowerCase()} ${batch.productName} added to Store.`
+          : `${movement.quantity} ${label.toLowerCase()} ${batch.productName} added to existing stock.`,
       });
     }
+    return true;
   };
 
-  const addToFinalStock = async (batch: Batch, accepted: number) => {
-    const { getOrCreateProduct, addBatchToProduct } = await import(
-      "@/lib/firebase/firestore-operations"
-    );
-
-    const batchId = getBatchId(batch);
-    const newBatch = {
-      batchId: batchId,
-      sourceBatchId: batchId,
-      quantity: accepted,
-      sku: `BATCH-${batchId}`,
-      createdAt: new Date().toISOString(),
-    };
-
-    // Prefer resolving the product using the batch's productId (PID semantics),
-    // then fall back to legacy doc ID, and only then to name-based creation.
-    let product = finalStock.find((p) => p.productId === batch.productId);
-    if (!product) {
-      product = finalStock.find((p) => p.id === batch.productId);
-    }
-
-    if (!product) {
-      console.warn(
-        `[BatchStageProcessor] No FinalStock product found for batch.productId="${batch.productId}". Falling back to getOrCreateProduct by name: "${batch.productName}"`,
-      );
-      product = await getOrCreateProduct(batch.productName, {
-        imageUrl: "/placeholder.svg?height=100&width=100",
-        imageHint: batch.productName,
+  // Before a stage can be completed every rejected unit needs a disposition (and a
+  // defect code when the stage has a catalogue), and products with an inspection
+  // plan need their inspection recorded at Testing
+  const getCompletionErrors = (
+    formValues: z.infer<typeof formSchema>,
+    batchIds: Set<string>,
+  ): string[] => {
+    return batches
+      .filter((b) => batchIds.has(b.id) && !b.processingStages[stage]?.completed)
+      .flatMap((b) => {
+        const formData = formValues.batches.find((x) => x.id === b.id);
+        const rejected = getStageRejected(b, Number(formData?.rejected || 0));
+        const rejectMessage = showRejected
+          ? validateDefects(rejected, getBatchDefects(b), defectCatalogue) ||
+            validateDispositions(rejected, dispositions[b.id], getReturnStages(getEffectiveStagesForBatch(b), stage))
+          : null;
+        const message =
+          rejectMessage ||
+          (getInspectionPlanForBatch(b) && !b.processingStages[stage]?.inspection
+            ? "Record the inspection before completing Testing."
+            : null) ||
+          (stageWorkstations.length > 0 && !formData?.workstationId
+            ? "Select the workstation that ran the batch."
+            : null);
+        return message ? [`${getBatchId(b)}: ${message}`] : [];
       });
-    }
-
-    console.log(`[BatchStageProcessor] Product resolved for Final Stock: ${product.id} (PID=${product.productId || product.id}) - "${product.name}"`);
+  };
 
-    try {
-      await addBatchToProduct(product.id, newBatch);
-      console.log(
-        `[BatchStageProcessor] ✓ Successfully added batch ${batch.id} to product ${product.name} (${product.id})`,
-      );
-    } catch (error) {
-      console.error(
-        `[BatchStageProcessor] ❌ Failed to add batch ${batch.id} to product ${product.id}:`,
-        error,
-      );
-      throw error;
-    }
+  const toastCompletionErrors = (errors: string[]): boolean => {
+    if (errors.length === 0) return false;
+    toast({
+      variant: "destructive",
+      title: "Cannot Complete Stage",
+      description: errors.join(" "),
+    });
+    return true;
   };
 
   const getEffectiveSelectedBatches = (
@@ -768,11 +796,7 @@ export function BatchStageProcessor({
   };
 
   async function onSubmit(values: z.infer<typeof formSchema>) {
-    console.log("🚀 DEBUG: onSubmit function called for stage:", stage);
-    
     if (isSubmitting) return;
-    
-    console.log("[v0] Submitting form for stage:", stage, "with values:", values);
 
     const effectiveSelected = getEffectiveSelectedBatches(values);
     setSelectedBatches(effectiveSelected);
@@ -786,6 +810,8 @@ export function BatchStageProcessor({
       return;
     }
 
+    if (toastCompletionErrors(getCompletionErrors(values, effectiveSelected))) return;
+
     // No upper bound validation for accepted quantity; it can be any non-negative value.
 
     setIsSubmitting(true);
@@ -796,138 +822,28 @@ export function BatchStageProcessor({
         const formData = values.batches.find((b) => b.id === batch.id);
         if (!formData) continue;
 
-        const currentTotal = showRejected
-          ? formData.accepted + formData.rejected
-          : formData.accepted;
-        const isCompleted = currentTotal > 0;
-
-        console.log("[v0] Processing batch:", batch.id, "isCompleted:", isCompleted);
-
-        // Build materialConsumptions object (non-Testing stages only)
-        const materialConsumptions: Record<string, number> = {};
-        if (stage !== "Testing") {
-          formData.materialConsumptions.forEach((mc) => {
-            materialConsumptions[mc.materialId] = mc.actualConsumption;
-          });
-        }
-
+        let completed = false;
         try {
-          if (stage === "Testing") {
-            await updateBatchStage(batch.id, stage, {
-              accepted: formData.accepted,
-              ...(showRejected ? { rejected: formData.rejected } : {}),
-              actualConsumption: formData.accepted + (showRejected ? (formData.rejected || 0) : 0),
-            });
-          } else {
-            const enforcedAccepted =
-              stage === "Assembling" && batch.autoCreatedFromTestingRejected
-                ? (batch.processingStages["Assembling"]?.accepted ?? batch.quantityToBuild ?? 0)
-                : formData.accepted;
-            await updateBatchStage(batch.id, stage, {
-              accepted: enforcedAccepted,
-              ...(showRejected ? { rejected: formData.rejected } : {}),
-              materialConsumptions,
-            });
-          }
+          completed = await commitBatchStage(batch, formData, {
+            useFormConsumptions: false,
+          });
         } catch (error) {
           console.error(`[v0] Failed to update batch ${batch.id}:`, error);
           toast({
             variant: "destructive",
             title: "Batch Update Failed",
-            description: `Failed to update batch ${batch.id}. It may have been deleted.`,
+            description: `Failed to update batch ${getBatchId(batch)}. ${error instanceof Error ? error.message : ""}`,
           });
           continue;
         }
 
-        // Debug: Check why the condition might not be met
-        console.log("DEBUG - Batch stage status:", batch.id, stage, "completed:", batch.processingStages[stage]?.completed);
-        console.log("DEBUG - Full batch processing stages:", batch.processingStages);
-        
-        if (!batch.processingStages[stage]?.completed) {
+        if (completed) {
           const nextDept = getNextDepartment(batch, stage);
           toast({
             title: `${nextDept} Dept. Notification`,
-            description: `Batch ${batch.id} for ${batch.productName} has completed the ${stage} stage.`,
+            description: `Batch ${getBatchId(batch)} for ${batch.productName} has completed the ${stage} stage.`,
           });
-
-          if (stage !== "Testing") {
-            await processMaterialConsumptions(batch, formData.materialConsumptions, isCompleted, formData.accepted);
-          } else {
-            const totalConsumed = formData.accepted + (showRejected ? (formData.rejected || 0) : 0);
-            await processMaterialConsumptions(batch, [], isCompleted, totalConsumed);
-          }
-
-            // Get product/effective stages to determine correct flow
-          const product = getProductForBatch(batch);
-          const effectiveStages = getEffectiveStagesForBatch(batch);
-          
-          // Debug logging
-          console.log("DEBUG onSubmit - Batch:", batch.productName, "Stage:", stage);
-          console.log("DEBUG onSubmit - Product found:", !!product);
-          console.log("DEBUG onSubmit - Effective stages:", effectiveStages);
-          const isLastStage = effectiveStages[effectiveStages.length - 1] === stage;
-          const isMachiningOnly = effectiveStages.length === 1 && effectiveStages[0] === "Machining";
-          const isSingleStageProduct =
-            effectiveStages.length === 1 && effectiveStages[0] === stage;
-          
-          // Use effective stages to determine if it should go to Final Stock
-          const productIsMoldingAndMachiningOnly = effectiveStages.length === 2 && 
-            effectiveStages.includes("Molding") && effectiveStages.includes("Machining");
-            
-          console.log("DEBUG onSubmit - productIsMoldingAndMachiningOnly:", productIsMoldingAndMachiningOnly);
-          if (isSingleStageProduct && formData.accepted > 0) {
-            // Single-stage products: send directly to Final Stock, skip Store intermediates
-            console.log("DEBUG onSubmit: Single-stage product - adding directly to Final Stock and skipping Store inventory");
-            await addToFinalStock(batch, formData.accepted);
-          } else {
-            if (stage === "Molding" && formData.accepted > 0) {
-              await createMouldedMaterial(batch, formData.accepted);
-            }
-            if (stage === "Assembling" && formData.accepted > 0) {
-              // Always increment Assembled stage inventory for multi-stage flows
-              await createAssembledMaterial(batch, formData.accepted);
-            }
-            if (stage === "Machining" && productIsMoldingAndMachiningOnly && formData.accepted > 0) {
-              // Special case: Product with Molding + Machining only - add to Final Stock when Machining completes
-              console.log("DEBUG onSubmit: Adding to Final Stock - Product has only Molding + Machining stages");
-              await addToFinalStock(batch, formData.accepted);
-            }
-            if (stage === "Machining" && formData.accepted > 0) {
-              // For multi-stage flows, increment Machined stage inventory in Store
-              console.log("DEBUG onSubmit: Creating/Updating machined materials for accepted units");
-              await createFinishedMaterial(batch, formData.accepted);
-            }
-            if (isLastStage && stage === "Testing" && !isMachiningOnly && !productIsMoldingAndMachiningOnly) {
-              console.log("DEBUG onSubmit: Adding to Final Stock - Testing as last stage of multi-stage product");
-              await addToFinalStock(batch, formData.accepted);
-            }
-          }
-
-          await completeStage(batch.id, stage);
-
-          if (stage === "Testing") {
-            const rejectedQty = Number((formData as any).rejected || 0);
-            if (rejectedQty > 0) {
-              const assemblyMaterials = getAssemblyMaterialsForBatch(batch);
-              const selectionForBatch = assemblySelections[batch.id] || {};
-              const uncheckedMaterials = assemblyMaterials.filter(
-                (mat) => !selectionForBatch[mat.id],
-              );
-
-              if (uncheckedMaterials.length > 0) {
-                try {
-                  await createFailedAssemblyBatch(batch, rejectedQty, uncheckedMaterials);
-                } catch (error) {
-                  console.error("Failed to create failed Assembly batch from Testing:", error);
-                  toast({
-                    variant: "destructive",
-                    title: "Failed to Create Failed Assembly Batch",
-                    description: "An error occurred while creating the failed Assembly batch. Please check console logs or try again.",
-                  });
-                }
-              }
-            }
-          }
+          await createReworkForRejects(batch);
         }
       }
 
@@ -940,11 +856,22 @@ export function BatchStageProcessor({
     }
   }
 
+  const createReworkForRejects = async (batch: Batch) => {
+    const batchDispositions = getBatchDispositions(batch);
+    setDispositions((prev) => {
+      const next = { ...prev };
+      delete next[batch.id];
+      return next;
+    });
+    if (batchDispositions.some((d) => d.type !== "Scrap")) {
+      await createReworkBatches(batch, batchDispositions);
+    }
+  };
+
+  // Record the units entered as a finished cycle; the stage stays open and no stock moves
   const handleEndCycle = async () => {
-    console.log("🚀 DEBUG: handleEndCycle function called for stage:", stage);
-    
     if (isEndingCycle) return;
-    
+
     setIsEndingCycle(true);
 
     try {
@@ -952,127 +879,55 @@ export function BatchStageProcessor({
       const effectiveSelected = getEffectiveSelectedBatches(values);
       setSelectedBatches(effectiveSelected);
 
-      if (effectiveSelected.size === 0) {
+      const entries = batches.flatMap((batch) => {
+        const formData = values.batches.find((b) => b.id === batch.id);
+        if (!effectiveSelected.has(batch.id) || !formData) return [];
+        const cycle = getFormCycle(batch, formData, { useFormConsumptions: true });
+        return cycle ? [{ batch, formData, cycle }] : [];
+      });
+
+      if (entries.length === 0) {
         toast({
           variant: "destructive",
-          title: "No Batches Selected",
-          description: "Please select at least one batch to proceed.",
+          title: "Nothing to Record",
+          description: "Enter the accepted or rejected units of the cycle for at least one batch.",
         });
         return;
       }
 
-      // No upper bound validation for accepted quantity; it can be any non-negative value.
-
-      for (const batch of batches) {
-        if (!effectiveSelected.has(batch.id)) continue;
-        const formData = values.batches.find((b) => b.id === batch.id);
-        if (!formData) continue;
-
-        const currentTotal = showRejected
-          ? formData.accepted + formData.rejected
-          : formData.accepted;
-        const isCompleted = currentTotal > 0;
-
-        console.log("[v0] Processing batch:", batch.id, "isCompleted:", isCompleted);
-
-        // Build materialConsumptions object (non-Testing stages only)
-        const materialConsumptions: Record<string, number> = {};
-        if (stage !== "Testing") {
-          formData.materialConsumptions.forEach((mc) => {
-            materialConsumptions[mc.materialId] = mc.actualConsumption;
+      if (stageWorkstations.length > 0) {
+        const missing = entries.filter((e) => !e.formData.workstationId).map((e) => getBatchId(e.batch));
+        if (missing.length > 0) {
+          toast({
+            variant: "destructive",
+            title: "Workstation Required",
+            description: `Select the workstation that ran the cycle for ${missing.join(", ")}.`,
           });
+          return;
         }
+      }
 
+      let recorded = 0;
+      for (const { batch, cycle } of entries) {
         try {
-          if (stage === "Testing") {
-            await updateBatchStage(batch.id, stage, {
-              accepted: formData.accepted,
-              ...(showRejected ? { rejected: formData.rejected } : {}),
-              actualConsumption: formData.accepted + (showRejected ? (formData.rejected || 0) : 0),
-            });
-          } else {
-            const enforcedAccepted =
-              stage === "Assembling" && batch.autoCreatedFromTestingRejected
-                ? (batch.processingStages["Assembling"]?.accepted ?? batch.quantityToBuild ?? 0)
-                : formData.accepted;
-            await updateBatchStage(batch.id, stage, {
-              accepted: enforcedAccepted,
-              ...(showRejected ? { rejected: formData.rejected } : {}),
-              materialConsumptions,
-            });
-          }
+          await recordStageCycle(batch.id, stage, cycle);
+          recorded++;
         } catch (error) {
-          console.error(`[v0] Failed to update batch ${batch.id}:`, error);
-          continue;
-        }
-
-        // Debug: Check handleEndCycle condition
-        console.log("DEBUG handleEndCycle - Batch stage status:", batch.id, stage, "completed:", batch.processingStages[stage]?.completed, "isCompleted:", isCompleted);
-        
-        if (isCompleted && !batch.processingStages[stage]?.completed) {
-          if (stage !== "Testing") {
-            await processMaterialConsumptions(batch, formData.materialConsumptions, isCompleted, formData.accepted);
-          } else {
-            const totalConsumed = formData.accepted + (showRejected ? (formData.rejected || 0) : 0);
-            await processMaterialConsumptions(batch, [], isCompleted, totalConsumed);
-          }
-
-          // Get product/effective stages to determine correct flow
-          const product = getProductForBatch(batch);
-          const effectiveStages = getEffectiveStagesForBatch(batch);
-          
-          // Debug logging
-          console.log("DEBUG - Batch:", batch.productName, "Stage:", stage);
-          console.log("DEBUG - Product found:", !!product);
-          console.log("DEBUG - Effective stages:", effectiveStages);
-          const currentIndex = effectiveStages.indexOf(stage);
-          const hasNext = currentIndex >= 0 && currentIndex < effectiveStages.length - 1;
-          const isLastStage = effectiveStages[effectiveStages.length - 1] === stage;
-          const isMachiningOnly = effectiveStages.length === 1 && effectiveStages[0] === "Machining";
-          const isSingleStageProduct =
-            effectiveStages.length === 1 && effectiveStages[0] === stage;
-          
-          // Use effective stages to determine if it should go to Final Stock
-          const productIsMoldingAndMachiningOnly = effectiveStages.length === 2 && 
-            effectiveStages.includes("Molding") && effectiveStages.includes("Machining");
-            
-          console.log("DEBUG - productIsMoldingAndMachiningOnly:", productIsMoldingAndMachiningOnly);
-          if (isSingleStageProduct && formData.accepted > 0) {
-            // Single-stage products: send directly to Final Stock, skip Store intermediates
-            console.log("DEBUG handleEndCycle: Single-stage product - adding directly to Final Stock and skipping Store inventory");
-            await addToFinalStock(batch, formData.accepted);
-          } else {
-            if (stage === "Molding" && formData.accepted > 0) {
-              await createMouldedMaterial(batch, formData.accepted);
-            }
-            if (stage === "Assembling" && formData.accepted > 0) {
-              // Always increment Assembled stage inventory for multi-stage flows
-              await createAssembledMaterial(batch, formData.accepted);
-            }
-            if (stage === "Machining" && productIsMoldingAndMachiningOnly && formData.accepted > 0) {
-              // Special case: Product with Molding + Machining only - add to Final Stock when Machining completes
-              console.log("DEBUG handleEndCycle: Adding to Final Stock - Product has only Molding + Machining stages");
-              await addToFinalStock(batch, formData.accepted);
-            }
-            if (stage === "Machining" && formData.accepted > 0) {
-              // For multi-stage flows, increment Machined stage inventory in Store
-              console.log("DEBUG handleEndCycle: Creating/Updating machined materials for accepted units");
-              await createFinishedMaterial(batch, formData.accepted);
-            }
-            if (isLastStage && stage === "Testing" && !isMachiningOnly && !productIsMoldingAndMachiningOnly) {
-              console.log("DEBUG handleEndCycle: Adding to Final Stock - Testing as last stage of multi-stage product");
-              await addToFinalStock(batch, formData.accepted);
-            }
-          }
-
-          await completeStage(batch.id, stage);
+          console.error(`[v0] Failed to record cycle for batch ${batch.id}:`, error);
+          toast({
+            variant: "destructive",
+            title: "Cycle Not Recorded",
+            description: `Failed to record the cycle of batch ${getBatchId(batch)}. ${error instanceof Error ? error.message : ""}`,
+          });
         }
       }
 
-      toast({
-        title: "Cycle Ended",
-        description: `The production cycle has been ended at the ${stage} stage for the submitted batches.`,
-      });
+      if (recorded > 0) {
+        toast({
+          title: "Cycle Ended",
+          description: `Recorded a ${stage} cycle for ${recorded} batch${recorded === 1 ? "" : "es"}. Finish the batch once its last cycle is done.`,
+        });
+      }
     } finally {
       setIsEndingCycle(false);
     }
@@ -1119,10 +974,11 @@ export function BatchStageProcessor({
         const formData = values.batches.find((b) => b.id === batch.id)
         if (!formData) continue
         const materialsForStage = batch.materials.filter((m) => m.stage === stage)
+        const recorded = getRecordedTotals(batch).materialConsumptions
         for (const materialInBatch of materialsForStage) {
           const inv = findInventoryItemById(materialInBatch.id)
           const mc = formData.materialConsumptions.find((x) => x.materialId === materialInBatch.id)
-          const required = Math.max(0, Number(mc?.actualConsumption) || 0)
+          const required = Math.max(0, (Number(mc?.actualConsumption) || 0) + (recorded[materialInBatch.id] || 0))
           const available = Number(inv?.item.quantity || 0)
           if (inv && required > available) {
             shortages.push(`Batch ${batch.id} - ${inv.item.name}: need ${required} ${(inv.item.unit || "pcs")}, have ${available} ${(inv.item.unit || "pcs")}`)
@@ -1139,14 +995,15 @@ export function BatchStageProcessor({
         return
       }
 
+      if (toastCompletionErrors(getCompletionErrors(values, effectiveSelected))) return;
+
       if (stage === "Testing") {
         let hasAssemblySelectionError = false;
         for (const batch of selectedTargetBatches) {
-          const formData = values.batches.find((b) => b.id === batch.id);
-          if (!formData) continue;
-
-          const rejectedQty = Number((formData as any).rejected || 0);
-          if (rejectedQty <= 0) continue;
+          const returnsToAssembly = (dispositions[batch.id] || []).some(
+            (d) => d.type === "Return" && d.targetStage === "Assembling",
+          );
+          if (!returnsToAssembly) continue;
 
           const assemblyMaterials = getAssemblyMaterialsForBatch(batch);
           if (assemblyMaterials.length === 0) continue;
@@ -1166,7 +1023,7 @@ export function BatchStageProcessor({
           toast({
             variant: "destructive",
             title: "Invalid Assembly Material Selection",
-            description: "At least one assembly material must be left unchecked for rejected units.",
+            description: "At least one assembly material must be left unchecked for units returned to Assembling.",
           });
           return;
         }
@@ -1180,125 +1037,22 @@ export function BatchStageProcessor({
         const formData = values.batches.find((b) => b.id === batch.id);
         if (!formData) continue;
 
-        const currentTotal = showRejected
-          ? formData.accepted + formData.rejected
-          : formData.accepted;
-        const isCompleted = currentTotal > 0;
-
-        const materialConsumptions: Record<string, number> = {};
-        formData.materialConsumptions.forEach((mc) => {
-          materialConsumptions[mc.materialId] = mc.actualConsumption;
-        });
-
+        let completed = false;
         try {
-          if (stage === "Testing") {
-            const totalConsumed = formData.accepted + (showRejected ? (formData.rejected || 0) : 0);
-            await updateBatchStage(batch.id, stage, {
-              accepted: formData.accepted,
-              ...(showRejected ? { rejected: formData.rejected } : {}),
-              materialConsumptions,
-              actualConsumption: totalConsumed,
-            });
-          } else {
-            const enforcedAccepted =
-              stage === "Assembling" && batch.autoCreatedFromTestingRejected
-                ? (batch.processingStages["Assembling"]?.accepted ?? batch.quantityToBuild ?? 0)
-                : formData.accepted;
-            await updateBatchStage(batch.id, stage, {
-              accepted: enforcedAccepted,
-              ...(showRejected ? { rejected: formData.rejected } : {}),
-              materialConsumptions,
-            });
-          }
+          completed = await commitBatchStage(batch, formData, {
+            useFormConsumptions: true,
+          });
         } catch (error) {
           console.error(`[v0] Failed to update batch ${batch.id}:`, error);
+          toast({
+            variant: "destructive",
+            title: "Batch Update Failed",
+            description: `Failed to update batch ${getBatchId(batch)}. ${error instanceof Error ? error.message : ""}`,
+          });
           continue;
         }
 
-        if (!batch.processingStages[stage]?.completed) {
-          const acceptedUnitsForConsumption = stage === "Testing"
-            ? (formData.accepted + (showRejected ? (formData.rejected || 0) : 0))
-            : formData.accepted;
-          await processMaterialConsumptions(batch, formData.materialConsumptions, isCompleted, acceptedUnitsForConsumption);
-
-          // Get product/effective stages to determine correct flow
-          const product = getProductForBatch(batch);
-          const effectiveStages = getEffectiveStagesForBatch(batch);
-
-          console.log("DEBUG handleFinishBatch - Product lookup:", batch.productName);
-          console.log("DEBUG handleFinishBatch - Product found:", !!product);
-          console.log("DEBUG handleFinishBatch - Effective stages:", effectiveStages);
-          console.log("DEBUG handleFinishBatch - All finalStock products:", finalStock.map(p => p.name));
-          const currentIndex = effectiveStages.indexOf(stage);
-          const hasNext = currentIndex >= 0 && currentIndex < effectiveStages.length - 1;
-          const isLastStage = effectiveStages[effectiveStages.length - 1] === stage;
-          const isMachiningOnly = effectiveStages.length === 1 && effectiveStages[0] === "Machining";
-          const isSingleStageProduct =
-            effectiveStages.length === 1 && effectiveStages[0] === stage;
-
-          // Use product's manufacturing stages to determine if it should go to Final Stock
-          const productIsMoldingAndMachiningOnly = effectiveStages.length === 2 && 
-            effectiveStages.includes("Molding") && effectiveStages.includes("Machining");
-            
-          console.log("DEBUG handleFinishBatch - productIsMoldingAndMachiningOnly:", productIsMoldingAndMachiningOnly);
-          console.log("DEBUG handleFinishBatch - Current stage:", stage, "hasNext:", hasNext, "isLastStage:", isLastStage);
-
-          if (isSingleStageProduct && formData.accepted > 0) {
-            // Single-stage products: send directly to Final Stock, skip Store intermediates
-            console.log("DEBUG handleFinishBatch: Single-stage product - adding directly to Final Stock and skipping Store inventory");
-            await addToFinalStock(batch, formData.accepted);
-          } else {
-            if (stage === "Molding" && formData.accepted > 0) {
-              await createMouldedMaterial(batch, formData.accepted);
-            }
-            if (stage === "Assembling" && formData.accepted > 0) {
-              // Always increment Assembled stage inventory for multi-stage flows
-              await createAssembledMaterial(batch, formData.accepted);
-            }
-            if (stage === "Machining" && productIsMoldingAndMachiningOnly && formData.accepted > 0) {
-              // Special case: Product with Molding + Machining only - add to Final Stock when Machining completes
-              console.log("DEBUG: Adding to Final Stock - Product has only Molding + Machining stages");
-              await addToFinalStock(batch, formData.accepted);
-            }
-            if (stage === "Machining" && formData.accepted > 0) {
-              // For multi-stage flows, increment Machined stage inventory in Store
-              console.log("DEBUG: Creating/Updating machined materials for accepted units");
-              await createFinishedMaterial(batch, formData.accepted);
-            }
-            if (isLastStage && stage === "Testing" && !isMachiningOnly && !productIsMoldingAndMachiningOnly) {
-              console.log("DEBUG: Adding to Final Stock - Testing as last stage of multi-stage product");
-              await addToFinalStock(batch, formData.accepted);
-            }
-          }
-
-          await completeStage(batch.id, stage);
-        }
-
-        if (stage === "Testing") {
-          const rejectedQty = Number((formData as any).rejected || 0);
-          if (rejectedQty > 0) {
-            const assemblyMaterials = getAssemblyMaterialsForBatch(batch);
-            if (assemblyMaterials.length > 0) {
-              const selectionForBatch = assemblySelections[batch.id] || {};
-              const uncheckedMaterials = assemblyMaterials.filter(
-                (mat) => !selectionForBatch[mat.id],
-              );
-
-              if (uncheckedMaterials.length > 0) {
-                try {
-                  await createFailedAssemblyBatch(batch, rejectedQty, uncheckedMaterials);
-                } catch (error) {
-                  console.error("Failed to create failed Assembly batch from Testing:", error);
-                  toast({
-                    variant: "destructive",
-                    title: "Failed to Create Failed Assembly Batch",
-                    description: "An error occurred while creating the failed Assembly batch. Please check console logs or try again.",
-                  });
-                }
-              }
-            }
-          }
-        }
+        if (completed) await createReworkForRejects(batch);
       }
 
       toast({
@@ -1322,7 +1076,47 @@ export function BatchStageProcessor({
     return effectiveStages[effectiveStages.length - 1] === stage;
   });
 
-  const isAnyButtonDisabled = isSubmitting || isEndingCycle || isFinishing || !canEditStage;
+  const handleSplit = async (batch: Batch, quantity: number) => {
+    const newBatchId = await splitBatch(batch.id, stage, quantity, employee?.name);
+    toast({
+      title: "Batch Split",
+      description: `Moved ${quantity} units of batch ${getBatchId(batch)} into a new batch (${newBatchId}).`,
+    });
+  };
+
+  const selectedForMerge = batches.filter((b) => selectedBatches.has(b.id));
+  const mergeValidation = validateMerge(selectedForMerge, stage);
+
+  const handleMerge = async () => {
+    if (!mergeValidation.isValid) return;
+    setIsMerging(true);
+    try {
+      const newBatchId = await mergeBatches(selectedForMerge.map((b) => b.id), stage, employee?.name);
+      setSelectedBatches(new Set());
+      toast({
+        title: "Batches Merged",
+        description: `Merged ${selectedForMerge.map(getBatchId).join(", ")} into a new batch (${newBatchId}).`,
+      });
+    } catch (error) {
+      console.error("Failed to merge batches:", error);
+      toast({
+        variant: "destructive",
+        title: "Merge Failed",
+        description: error instanceof Error ? error.message : "Please try again.",
+      });
+    } finally {
+      setIsMerging(false);
+    }
+  };
+
+  const isAnyButtonDisabled = isSubmitting || isEndingCycle || isFinishing || isMerging || !canEditStage;
+  const dispositionBatchIndex = batches.findIndex((b) => b.id === dispositionBatchId);
+  const dispositionBatch = dispositionBatchIndex >= 0 ? batches[dispositionBatchIndex] : null;
+  const defectBatchIndex = batches.findIndex((b) => b.id === defectBatchId);
+  const defectBatch = defectBatchIndex >= 0 ? batches[defectBatchIndex] : null;
+  const inspectionBatch = batches.find((b) => b.id === inspectionBatchId) || null;
+  const inspectionPlan = inspectionBatch ? getInspectionPlanForBatch(inspectionBatch) : undefined;
+  const splittingBatch = batches.find((b) => b.id === splitBatchId) || null;
 
   return (
     <Form {...form}>
@@ -1342,6 +1136,56 @@ export function BatchStageProcessor({
             </CardContent>
           </Card>
         )}
+        <ScheduleQueuePanel
+          stage={stage}
+          stageLabel={getStageLabel(processDefinitions, stage)}
+          batches={batches}
+        />
+        <DowntimePanel
+          stage={stage}
+          stageLabel={getStageLabel(processDefinitions, stage)}
+          workstations={stageWorkstations}
+          batches={batches}
+          user={employee?.name}
+          disabled={!canEditStage}
+        />
+        {pendingReworkBatches.length > 0 && (
+          <Card className="mb-4 border-amber-200 bg-amber-50">
+            <CardHeader>
+              <CardTitle className="text-amber-800 text-sm font-medium">
+                Pending Rework Batches
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2 text-sm text-amber-700">
+              <p>
+                These batches completed {getStageLabel(processDefinitions, stage)} with rejected units set for
+                rework or return, but their rework batches were not created.
+              </p>
+              {pendingReworkBatches.map((b) => {
+                const pending = getPendingReworkIndexes(b, stage);
+                const units = pending.reduce(
+                  (sum, index) => sum + Number(b.processingStages[stage]?.dispositions?.[index]?.quantity || 0),
+                  0,
+                );
+                return (
+                  <div key={b.id} className="flex items-center justify-between gap-4">
+                    <span>
+                      <span className="font-mono">{getBatchId(b)}</span> · {b.productName} · {units} units
+                    </span>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={!canEditStage || creatingRework.has(b.id)}
+                      onClick={() => createReworkBatches(b, b.processingStages[stage]?.dispositions || [])}
+                    >
+                      {creatingRework.has(b.id) ? "Creating..." : "Create Rework Batches"}
+                    </Button>
+                  </div>
+                );
+              })}
+            </CardContent>
+          </Card>
+        )}
         <Card>
           <CardContent className="pt-6">
             <Table>
@@ -1376,6 +1220,7 @@ export function BatchStageProcessor({
                   {showRejected && (
                     <TableHead className="w-[150px]">{labels.rejected}</TableHead>
                   )}
+                  <TableHead className="w-[180px]">Workstation / Operator</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
@@ -1391,6 +1236,7 @@ export function BatchStageProcessor({
                     : [];
                   const product = getProductForBatch(batch);
                   const measurementSketch = product?.measurementSketch;
+                  const inspection = batch.processingStages[stage]?.inspection;
 
                   return (
                     <>
@@ -1421,6 +1267,24 @@ export function BatchStageProcessor({
                         </TableCell>
                         <TableCell className="font-mono text-xs font-bold">
                           {batch.batchId || batch.batchCode || batch.id}
+                          {batch.origin && (
+                            <div className="font-normal text-[10px] text-muted-foreground">
+                              {batch.origin.type === "merge" ? "Merged from" : "Split from"}{" "}
+                              {batch.origin.parents.map((p) => p.displayBatchId).join(", ")}
+                            </div>
+                          )}
+                          {getTransferStage(batch) === stage && (
+                            <Button
+                              type="button"
+                              size="sm"
+                              variant="outline"
+                              className="mt-2 block"
+                              disabled={isAnyButtonDisabled}
+                              onClick={() => setSplitBatchId(batch.id)}
+                            >
+                              Split
+                            </Button>
+                          )}
                         </TableCell>
                         <TableCell className="font-mono text-xs">
                           {batch.productId}
@@ -1486,6 +1350,22 @@ export function BatchStageProcessor({
                               No Image
                             </span>
                           )}
+                          {getInspectionPlanForBatch(batch) && (
+                            <Button
+                              type="button"
+                              size="sm"
+                              variant={!inspection ? "outline" : inspection.passed ? "secondary" : "destructive"}
+                              className="mt-2 block"
+                              disabled={isAnyButtonDisabled}
+                              onClick={() => setInspectionBatchId(batch.id)}
+                            >
+                              {!inspection
+                                ? "Inspect"
+                                : inspection.passed
+                                  ? "Inspection Passed"
+                                  : `Failed ${inspection.failedSamples}/${inspection.samples.length}`}
+                            </Button>
+                          )}
                         </TableCell>
                         <TableCell className="font-bold">
                           {format(new Date(batch.createdAt), "dd/MM/yyyy")}
@@ -1500,6 +1380,7 @@ export function BatchStageProcessor({
                         >
                           {(() => {
                             const lockAccepted =
+                              getStageCycles(batch.processingStages[stage]).length === 0 &&
                               stage === "Assembling" && (
                                 batch.autoCreatedFromTestingRejected ||
                                 ((batch.selectedProcesses?.[0] === "Assembling") &&
@@ -1536,6 +1417,17 @@ export function BatchStageProcessor({
                             />
                           );
                           })()}
+                          {(() => {
+                            const cycles = getStageCycles(batch.processingStages[stage]);
+                            if (cycles.length === 0) return null;
+                            const recorded = sumCycles(cycles);
+                            return (
+                              <p className="mt-1 text-xs text-muted-foreground">
+                                {cycles.length} cycle{cycles.length === 1 ? "" : "s"}: {recorded.accepted} accepted
+                                {showRejected ? `, ${recorded.rejected} rejected` : ""}
+                              </p>
+                            );
+                          })()}
                         </TableCell>
                         {showRejected && (
                           <TableCell
@@ -1571,8 +1463,105 @@ export function BatchStageProcessor({
                                 </FormItem>
                               )}
                             />
+                            {(() => {
+                              const rejectedValue = getStageRejected(batch, Number(form.watch(`batches.${index}.rejected`) || 0));
+                              if (rejectedValue <= 0) return null;
+                              const assigned = getDispositionTotal(dispositions[batch.id]);
+                              const classified = getDefectTotal(getBatchDefects(batch));
+                              return (
+                                <>
+                                  {defectCatalogue.length > 0 && (
+                                    <Button
+                                      type="button"
+                                      size="sm"
+                                      variant={classified === rejectedValue ? "outline" : "destructive"}
+                                      className="mt-2 w-full"
+                                      disabled={isAnyButtonDisabled}
+                                      onClick={() => setDefectBatchId(batch.id)}
+                                    >
+                                      Defects {classified}/{rejectedValue}
+                                    </Button>
+                                  )}
+                                  <Button
+                                    type="button"
+                                    size="sm"
+                                    variant={assigned === rejectedValue ? "outline" : "destructive"}
+                                    className="mt-2 w-full"
+                                    disabled={isAnyButtonDisabled}
+                                    onClick={() => setDispositionBatchId(batch.id)}
+                                  >
+                                    Disposition {assigned}/{rejectedValue}
+                                  </Button>
+                                </>
+                              );
+                            })()}
                           </TableCell>
                         )}
+                        <TableCell
+                          rowSpan={
+                            materialsForStage.length > 0
+                              ? materialsForStage.length + 1
+                              : 1
+                          }
+                          className="space-y-2"
+                        >
+                          <FormField
+                            control={form.control}
+                            name={`batches.${index}.workstationId`}
+                            render={({ field }) => (
+                              <FormItem>
+                                <Select
+                                  value={field.value || undefined}
+                                  onValueChange={field.onChange}
+                                  disabled={isAnyButtonDisabled || stageWorkstations.length === 0}
+                                >
+                                  <FormControl>
+                                    <SelectTrigger>
+                                      <SelectValue
+                                        placeholder={
+                                          stageWorkstations.length > 0 ? "Workstation" : "No workstations"
+                                        }
+                                      />
+                                    </SelectTrigger>
+                                  </FormControl>
+                                  <SelectContent>
+                                    {stageWorkstations.map((w) => (
+                                      <SelectItem key={w.id} value={w.id}>
+                                        {getWorkstationLabel(w)}
+                                      </SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                              </FormItem>
+                            )}
+                          />
+                          <FormField
+                            control={form.control}
+                            name={`batches.${index}.operatorId`}
+                            render={({ field }) => (
+                              <FormItem>
+                                <Select
+                                  value={field.value || undefined}
+                                  onValueChange={field.onChange}
+                                  disabled={isAnyButtonDisabled}
+                                >
+                                  <FormControl>
+                                    <SelectTrigger>
+                                      <SelectValue placeholder={employee?.name || "Operator"} />
+                                    </SelectTrigger>
+                                  </FormControl>
+                                  <SelectContent>
+                                    {employees.map((e) => (
+                                      <SelectItem key={e.uid} value={e.uid}>
+                                        {e.name}
+                                      </SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                              </FormItem>
+                            )}
+                          />
+                        </TableCell>
                       </TableRow>
 
                       {materialsForStage.map((material, matIndex) => {
@@ -1724,6 +1713,25 @@ export function BatchStageProcessor({
         </Card>
         {batches.length > 0 && (
           <div className="flex justify-end gap-2 mt-4">
+            {selectedBatches.size > 1 && (
+              <Button
+                type="button"
+                variant="outline"
+                onClick={handleMerge}
+                disabled={isAnyButtonDisabled || !mergeValidation.isValid}
+                title={mergeValidation.reason}
+              >
+                {isMerging ? "Merging..." : "Merge Selected"}
+              </Button>
+            )}
+            <Button
+              type="button"
+              variant="outline"
+              onClick={handleEndCycle}
+              disabled={isAnyButtonDisabled}
+            >
+              {isEndingCycle ? "Ending Cycle..." : "End Cycle"}
+            </Button>
             <Button 
               type="button" 
               onClick={handleFinishBatch}
@@ -1733,6 +1741,54 @@ export function BatchStageProcessor({
             </Button>
           </div>
         )}
+        {dispositionBatch && (
+          <RejectDispositionDialog
+            isOpen
+            onOpenChange={(open) => !open && setDispositionBatchId(null)}
+            title={`Rejected Units · ${getBatchId(dispositionBatch)}`}
+            rejected={getStageRejected(dispositionBatch, Number(form.getValues(`batches.${dispositionBatchIndex}.rejected`) || 0))}
+            returnStages={getReturnStages(getEffectiveStagesForBatch(dispositionBatch), stage).map((name) => ({
+              name,
+              label: getStageLabel(processDefinitions, name),
+            }))}
+            value={dispositions[dispositionBatch.id] || NO_DISPOSITIONS}
+            onSave={(list) => setDispositions((prev) => ({ ...prev, [dispositionBatch.id]: list }))}
+          />
+        )}
+        {defectBatch && (
+          <DefectBreakdownDialog
+            isOpen
+            onOpenChange={(open) => !open && setDefectBatchId(null)}
+            title={`Defects · ${getBatchId(defectBatch)}`}
+            rejected={getStageRejected(defectBatch, Number(form.getValues(`batches.${defectBatchIndex}.rejected`) || 0))}
+            catalogue={defectCatalogue}
+            value={getBatchDefects(defectBatch)}
+            onSave={(counts) => setDefects((prev) => ({ ...prev, [defectBatch.id]: counts }))}
+          />
+        )}
+        {splittingBatch && (
+          <SplitBatchDialog
+            isOpen
+            onOpenChange={(open) => !open && setSplitBatchId(null)}
+            batch={splittingBatch}
+            stage={stage}
+            stageLabel={getStageLabel(processDefinitions, stage)}
+            onSplit={(quantity) => handleSplit(splittingBatch, quantity)}
+          />
+        )}
+        {inspectionBatch && inspectionPlan && (
+          <InspectionEntryDialog
+            isOpen
+            onOpenChange={(open) => !open && setInspectionBatchId(null)}
+            title={`Inspection · ${getBatchId(inspectionBatch)} · ${inspectionBatch.productName}`}
+            measurementSketch={getProductForBatch(inspectionBatch)?.measurementSketch}
+            plan={inspectionPlan}
+            sampleCount={getInspectionSampleCount(inspectionPlan, inspectionBatch.quantityToBuild)}
+            value={inspectionBatch.processingStages[stage]?.inspection}
+            inspector={employee?.name}
+            onSave={(record) => saveInspection(inspectionBatch, record)}
+          />
+        )}
       </form>
     </Form>
   );
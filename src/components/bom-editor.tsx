@@ -9,6 +9,8 @@ import { Trash2, PlusCircle } from "lucide-react"
 import { useRawMaterials } from "@/hooks/use-raw-materials"
 import { useFinalStock } from "@/hooks/use-final-stock"
 import type { BOMRow, ProcessingStageName, FinalStock } from "@/lib/types"
+import { useProcessDefinitions } from "@/hooks/use-process-definitions"
+import { getStageLabel } from "@/lib/stages"
 import { Badge } from "@/components/ui/badge"
 import { Checkbox } from "@/components/ui/checkbox"
 import {
@@ -56,11 +58,12 @@ interface BOMEditorProps {
   showOnlyProductOptions?: boolean
 }
 
-const processingStages: ProcessingStageName[] = ["Molding", "Machining", "Assembling", "Testing"]
 
 export function BOMEditor({ bomRows, onBOMChange, readOnly = false, quantityMultiplier = 1, productName = "", selectedStages = [], unitThresholds, onUnitThresholdsChange, scopeStage, hideHeader = false, hideStageColumn = true, addButtonLabel, showOnlyProductOptions = false }: BOMEditorProps) {
   const { rawMaterials, regularMaterials, mouldedMaterials, finishedMaterials, assembledMaterials } = useRawMaterials()
   const { finalStock } = useFinalStock()
+  const { processDefinitions } = useProcessDefinitions()
+  const processingStages: ProcessingStageName[] = processDefinitions.map((d) => d.name)
   const [mouldedUnitRequired, setMouldedUnitRequired] = useState(false)
   const [machinedUnitRequired, setMachinedUnitRequired] = useState(false)
   const [assembledUnitRequired, setAssembledUnitRequired] = useState(false)
@@ -632,7 +635,7 @@ export function BOMEditor({ bomRows, onBOMChange, readOnly = false, quantityMult
                             .filter(stage => selectedStages.length === 0 || selectedStages.includes(stage))
                             .map((stage) => (
                             <SelectItem key={stage} value={stage}>
-                              {stage}
+                              {getStageLabel(processDefinitions, stage)}
                             </SelectItem>
                           ))}
                         </SelectContent>
@@ -0,0 +1,65 @@
+"use client"
+
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from "recharts"
+import { ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart"
+import type { ControlChart as ControlChartData } from "@/lib/spc"
+
+interface ControlChartProps {
+  title: string
+  chart: ControlChartData
+  format?: (value: number) => string
+}
+
+const chartConfig = {
+  value: { label: "Value", color: "hsl(var(--chart-1))" },
+  ucl: { label: "UCL", color: "hsl(var(--destructive))" },
+  lcl: { label: "LCL", color: "hsl(var(--destructive))" },
+}
+
+interface DotProps {
+  cx?: number
+  cy?: number
+  index?: number
+}
+
+/**
+ * Control chart with per-point limits; points breaking a Western Electric rule are drawn in red.
+ */
+export function ControlChart({ title, chart, format = (v) => v.toFixed(3) }: ControlChartProps) {
+  const renderDot = ({ cx, cy, index }: DotProps) => {
+    const flagged = index !== undefined && chart.points[index]?.violations.length > 0
+    return (
+      <circle
+        key={`dot-${index}`}
+        cx={cx}
+        cy={cy}
+        r={flagged ? 5 : 3}
+        fill={flagged ? "hsl(var(--destructive))" : "hsl(var(--chart-1))"}
+        stroke="none"
+      />
+    )
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-sm">
+        <h4 className="font-medium">{title}</h4>
+        <span className="text-xs text-muted-foreground">
+          CL {format(chart.center)} · UCL {format(chart.ucl)} · LCL {format(chart.lcl)}
+        </span>
+      </div>
+      <ChartContainer config={chartConfig} className="h-[240px] w-full">
+        <LineChart data={chart.points} margin={{ top: 10, right: 20, left: 12, bottom: 30 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--muted))" />
+          <XAxis dataKey="label" tick={{ fontSize: 10 }} angle={-30} textAnchor="end" height={40} />
+          <YAxis tick={{ fontSize: 10 }} domain={["auto", "auto"]} tickFormatter={(v) => format(Number(v))} />
+          <ChartTooltip content={<ChartTooltipContent />} />
+          <ReferenceLine y={chart.center} stroke="hsl(var(--muted-foreground))" />
+          <Line type="stepAfter" dataKey="ucl" stroke="var(--color-ucl)" strokeDasharray="4 4" dot={false} />
+          <Line type="stepAfter" dataKey="lcl" stroke="var(--color-lcl)" strokeDasharray="4 4" dot={false} />
+          <Line type="linear" dataKey="value" stroke="var(--color-value)" strokeWidth={2} dot={renderDot} />
+        </LineChart>
+      </ChartContainer>
+    </div>
+  )
+}
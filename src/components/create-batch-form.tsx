@@ -22,7 +22,7 @@ import {
 import { Input } from "@/components/ui/input";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Badge } from "@/components/ui/badge";
-import { useEffect, useState, useRef } from "react";
+import { useEffect, useMemo, useState, useRef } from "react";
 import type {
   Batch,
   RawMaterial,
@@ -30,20 +30,26 @@ import type {
   ActivityLog,
   ProcessingStageName,
 } from "@/lib/types";
-import { PlusCircle, Trash2 } from "lucide-react";
+import { AlertTriangle, PlusCircle, Trash2 } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
 import { useToast } from "@/hooks/use-toast";
 import { Combobox } from "./ui/combobox";
 import { useRawMaterials } from "@/hooks/use-raw-materials";
 import { useFinalStock } from "@/hooks/use-final-stock";
 import { useActivityLog } from "@/hooks/use-activity-log";
+import { useBatches } from "@/hooks/use-batches";
 import { createBatch } from "@/lib/firebase";
-
-const processingStages = [
-  "Molding",
-  "Machining",
-  "Assembling",
-  "Testing",
-] as const;
+import { checkMaterialAvailability, getOpenBatchDemand } from "@/lib/batch-demand";
+import { useProcessDefinitions } from "@/hooks/use-process-definitions";
+import { createProcessingStages, getStageLabel, sortStages } from "@/lib/stages";
 
 const numberInputClassName =
   "appearance-none [appearance:textfield] [&::-webkit-inner-spin-button]:appearance-none [&::-webkit-outer-spin-button]:appearance-none";
@@ -51,7 +57,7 @@ const numberInputClassName =
 const materialSchema = z.object({
   materialId: z.string().min(1, "Please select a material."),
   quantity: z.coerce.number().min(0, "Quantity must be greater than 0."),
-  stage: z.enum(processingStages, { required_error: "Please select a stage." }),
+  stage: z.string({ required_error: "Please select a stage." }).min(1, "Please select a stage."),
   materialType: z.enum(["raw", "moulded", "finished", "assembled"]).optional(),
 });
 
@@ -61,7 +67,7 @@ const formSchema = z.object({
   productId: z.string().min(1, "Please select a product."),
   quantityToBuild: z.coerce.number().min(1, "Quantity must be at least 1."),
   selectedProcesses: z
-    .array(z.enum(processingStages))
+    .array(z.string())
     .min(1, "Please select at least one process."),
   materials: z
     .array(materialSchema)
@@ -72,9 +78,10 @@ interface CreateBatchFormProps {
   onBatchCreated: (batch: Batch) => void;
   initialProductId?: string;
   initialStage?: ProcessingStageName;
+  initialQuantity?: number;
 }
 
-export function CreateBatchForm({ onBatchCreated, initialProductId, initialStage }: CreateBatchFormProps) {
+export function CreateBatchForm({ onBatchCreated, initialProductId, initialStage, initialQuantity }: CreateBatchFormProps) {
   const [isClient, setIsClient] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const { toast } = useToast();
@@ -86,7 +93,10 @@ export function CreateBatchForm({ onBatchCreated, initialProductId, initialStage
     assembledMaterials,
   } = useRawMaterials();
   const { finalStock } = useFinalStock();
+  const { batches } = useBatches();
   const { createActivityLog } = useActivityLog();
+  const { processDefinitions } = useProcessDefinitions();
+  const [allowShortage, setAllowShortage] = useState(false);
 
   
   console.log("[CreateBatchForm] Total finalStock items:", finalStock.length);
@@ -132,6 +142,33 @@ export function CreateBatchForm({ onBatchCreated, initialProductId, initialStage
   const selectedProductId = form.watch("productId");
   const quantityToBuild = form.watch("quantityToBuild") || 1;
   const hasAppliedInitialConfigRef = useRef(false);
+  const watchedMaterials = form.watch("materials");
+
+  // Required vs available per material, net of what other open batches still need
+  const availability = useMemo(
+    () =>
+      checkMaterialAvailability({
+        materials: watchedMaterials || [],
+        quantityToBuild,
+        rawMaterials,
+        finalStock,
+        committed: getOpenBatchDemand(batches),
+      }),
+    [watchedMaterials, quantityToBuild, rawMaterials, finalStock, batches],
+  );
+
+  const handleBuildMaximum = () => {
+    const max = availability.maxBuildable;
+    if (max <= 0 || quantityToBuild <= 0) return;
+    // Scale manual rows too; products with a BOM are recomputed by the BOM effect
+    const scale = max / quantityToBuild;
+    form.setValue(
+      "materials",
+      form.getValues("materials").map((m) => ({ ...m, quantity: Number(m.quantity || 0) * scale })),
+    );
+    form.setValue("quantityToBuild", max);
+    setAllowShortage(false);
+  };
 
   // Derive allowed stages from the selected product's manufacturing stages.
   // If the product has defined manufacturing stages, only those should be selectable
@@ -142,7 +179,12 @@ export function CreateBatchForm({ onBatchCreated, initialProductId, initialStage
     Array.isArray(selectedProduct.manufacturingStages) &&
     selectedProduct.manufacturingStages.length > 0
       ? selectedProduct.manufacturingStages
-      : [...processingStages];
+      : processDefinitions.map((d) => d.name);
+
+  // Assembling, Testing and any stage configured in Setup can be combined freely
+  const multiSelectStages: ProcessingStageName[] = processDefinitions
+    .map((d) => d.name)
+    .filter((name) => name !== "Molding" && name !== "Machining");
 
   // Note: Users must manually select processes; no auto-fill of manufacturing stages on product selection
 
@@ -234,9 +276,12 @@ export function CreateBatchForm({ onBatchCreated, initialProductId, initialStage
     if (initialStage && productStages.includes(initialStage)) {
       form.setValue("selectedProcesses", [initialStage]);
     }
+    if (initialQuantity && initialQuantity > 0) {
+      form.setValue("quantityToBuild", Math.ceil(initialQuantity));
+    }
 
     hasAppliedInitialConfigRef.current = true;
-  }, [initialProductId, initialStage, finalStock, form, hasAppliedInitialConfigRef]);
+  }, [initialProductId, initialStage, initialQuantity, finalStock, form, hasAppliedInitialConfigRef]);
 
   useEffect(() => {
     setIsClient(true);
@@ -275,26 +320,33 @@ export function CreateBatchForm({ onBatchCreated, initialProductId, initialStage
 
     // Inventory Check (supports Raw Materials and Final Stock inputs)
     for (const material of values.materials) {
-      const stockItemRaw = rawMaterials.find((rm) => rm.id === material.materialId);
-      const stockItemFinal = finalStock.find((p) => p.id === material.materialId);
-      const stockItem = stockItemRaw || stockItemFinal;
-      const availableFinal = stockItemFinal
-        ? ((stockItemFinal.batches && stockItemFinal.batches.length > 0)
-            ? stockItemFinal.batches.reduce((sum, b) => sum + Number(b.quantity || 0), 0)
-            : Number(stockItemFinal.quantity || 0))
-        : undefined;
-      const available = Number((stockItemRaw?.quantity ?? availableFinal) || 0);
-      if (!stockItem || available < material.quantity) {
+      const exists =
+        rawMaterials.some((rm) => rm.id === material.materialId) ||
+        finalStock.some((p) => p.id === material.materialId);
+      if (!exists) {
         toast({
           variant: "destructive",
-          title: "Insufficient Stock",
-          description: `Not enough ${(stockItemRaw?.name || stockItemFinal?.name) || "material"}. Required: ${material.quantity}, Available: ${available}.`,
+          title: "Unknown Material",
+          description: `Material ${material.materialId} was not found in Raw Materials or Final Stock.`,
         });
         setIsSubmitting(false);
         return;
       }
     }
 
+    const shortages = availability.rows.filter((row) => row.shortage > 0);
+    if (shortages.length > 0 && !allowShortage) {
+      toast({
+        variant: "destructive",
+        title: "Insufficient Stock",
+        description: shortages
+          .map((row) => `${row.name}: required ${row.required}, available ${row.available}`)
+          .join("; "),
+      });
+      setIsSubmitting(false);
+      return;
+    }
+
     const selectedProduct = finalStock.find((p) => p.id === values.productId);
     if (!selectedProduct) {
       toast({
@@ -342,33 +394,8 @@ export function CreateBatchForm({ onBatchCreated, initialProductId, initialStage
       selectedProcesses: values.selectedProcesses, // Store selected processes
     };
 
-    const processingStages: Record<ProcessingStageName, any> = {} as any;
-
-    // Initialize all possible stages first
-    processingStages.Molding = {
-      accepted: 0,
-      rejected: 0,
-      actualConsumption: 0,
-      completed: false,
-    };
-    processingStages.Machining = {
-      accepted: 0,
-      rejected: 0,
-      actualConsumption: 0,
-      completed: false,
-    };
-    processingStages.Assembling = {
-      accepted: 0,
-      rejected: 0,
-      actualConsumption: 0,
-      completed: false,
-    };
-    processingStages.Testing = {
-      accepted: 0,
-      rejected: 0,
-      actualConsumption: 0,
-      completed: false,
-    };
+    // All built-in stages plus any selected configured stage
+    const processingStages = createProcessingStages(values.selectedProcesses);
 
     const fullBatch: Batch = {
       ...newBatch,
@@ -385,7 +412,11 @@ export function CreateBatchForm({ onBatchCreated, initialProductId, initialStage
         recordId: createdId,
         recordType: "Batch",
         action: "Created",
-        details: `Batch for "${fullBatch.productName}" created with processes: ${values.selectedProcesses.join(", ")}.`,
+        details:
+          `Batch for "${fullBatch.productName}" created with processes: ${values.selectedProcesses.join(", ")}.` +
+          (shortages.length > 0
+            ? ` Created despite shortages: ${shortages.map((row) => `${row.name} (${row.shortage} ${row.unit})`).join(", ")}.`
+            : ""),
       });
       toast({
         title: "Batch Created",
@@ -407,6 +438,7 @@ export function CreateBatchForm({ onBatchCreated, initialProductId, initialStage
           },
         ],
       });
+      setAllowShortage(false);
     } catch (error) {
       toast({
         variant: "destructive",
@@ -505,7 +537,7 @@ export function CreateBatchForm({ onBatchCreated, initialProductId, initialStage
                 <p className="text-sm text-muted-foreground">
                   Choose <strong>only one</strong> of these processes: either{" "}
                   <strong>Moulding</strong> or <strong>Machining</strong> (cannot select both).
-                  Or choose any combination of <strong>Assembling/Testing</strong> instead.
+                  Or choose any combination of <strong>Assembling/Testing</strong> and other configured stages instead.
                 </p>
               </div>
               <div className="space-y-4">
@@ -609,7 +641,7 @@ export function CreateBatchForm({ onBatchCreated, initialProductId, initialStage
                     </p>
                   </div>
                   <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-                    {(["Assembling", "Testing"] as const).map((process) => (
+                    {multiSelectStages.map((process) => (
                       <FormField
                         key={process}
                         control={form.control}
@@ -636,10 +668,12 @@ export function CreateBatchForm({ onBatchCreated, initialProductId, initialStage
                                           p !== "Molding" && p !== "Machining",
                                       ) || [];
                                     if (checked) {
-                                      field.onChange([
-                                        ...otherMultiProcesses,
-                                        process,
-                                      ]);
+                                      field.onChange(
+                                        sortStages(
+                                          [...otherMultiProcesses, process],
+                                          processDefinitions,
+                                        ),
+                                      );
                                     } else {
                                       field.onChange(
                                         otherMultiProcesses.filter(
@@ -651,7 +685,7 @@ export function CreateBatchForm({ onBatchCreated, initialProductId, initialStage
                                 />
                               </FormControl>
                               <div className="space-y-1 leading-none">
-                                <FormLabel>{process}</FormLabel>
+                                <FormLabel>{getStageLabel(processDefinitions, process)}</FormLabel>
                               </div>
                             </FormItem>
                           );
@@ -1400,6 +1434,78 @@ export function CreateBatchForm({ onBatchCreated, initialProductId, initialStage
             </p>
           )}
 
+        {availability.rows.length > 0 && (
+          <div className="space-y-3">
+            <h3 className="text-sm font-semibold">Material Availability</h3>
+            <div className="border rounded-md">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Material</TableHead>
+                    <TableHead className="text-right">Required</TableHead>
+                    <TableHead className="text-right">In Stock</TableHead>
+                    <TableHead className="text-right">Committed</TableHead>
+                    <TableHead className="text-right">Available</TableHead>
+                    <TableHead className="text-right">Shortage</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {availability.rows.map((row) => (
+                    <TableRow key={row.materialId}>
+                      <TableCell>{row.name}</TableCell>
+                      <TableCell className="text-right">
+                        {Number(row.required.toFixed(4))} {row.unit}
+                      </TableCell>
+                      <TableCell className="text-right">{Number(row.onHand.toFixed(4))}</TableCell>
+                      <TableCell className="text-right">{Number(row.committed.toFixed(4))}</TableCell>
+                      <TableCell className="text-right">{Number(row.available.toFixed(4))}</TableCell>
+                      <TableCell className="text-right">
+                        {row.shortage > 0 ? (
+                          <span className="font-semibold text-destructive">
+                            {Number(row.shortage.toFixed(4))}
+                          </span>
+                        ) : (
+                          "—"
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+            {availability.hasShortage && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertTitle>Not enough stock for {quantityToBuild} units</AlertTitle>
+                <AlertDescription className="space-y-3">
+                  <p>
+                    Available stock (after other open batches) covers at most{" "}
+                    {availability.maxBuildable} units.
+                  </p>
+                  <div className="flex flex-wrap items-center gap-4">
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      disabled={availability.maxBuildable <= 0}
+                      onClick={handleBuildMaximum}
+                    >
+                      Build maximum ({availability.maxBuildable})
+                    </Button>
+                    <label className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={allowShortage}
+                        onCheckedChange={(checked) => setAllowShortage(!!checked)}
+                      />
+                      Create anyway (stock will be replenished before production)
+                    </label>
+                  </div>
+                </AlertDescription>
+              </Alert>
+            )}
+          </div>
+        )}
+
         <div className="flex justify-end">
           <Button type="submit" disabled={isSubmitting}>
             {isSubmitting ? "Creating..." : "Create Batch"}
@@ -0,0 +1,109 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import type { DefectCode } from "@/lib/types"
+import { getDefectTotal, validateDefects } from "@/lib/defects"
+
+interface DefectBreakdownDialogProps {
+  isOpen: boolean
+  onOpenChange: (isOpen: boolean) => void
+  title: string
+  rejected: number
+  catalogue: DefectCode[]
+  value: Record<string, number>
+  onSave: (defects: Record<string, number>) => void
+}
+
+export function DefectBreakdownDialog({
+  isOpen,
+  onOpenChange,
+  title,
+  rejected,
+  catalogue,
+  value,
+  onSave,
+}: DefectBreakdownDialogProps) {
+  const [counts, setCounts] = useState<Record<string, number>>({})
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!isOpen) return
+    setError(null)
+    setCounts(value)
+  }, [isOpen, value])
+
+  const handleSave = () => {
+    // Codes left at zero are not stored
+    const defects = Object.fromEntries(Object.entries(counts).filter(([, qty]) => qty > 0))
+    const message = validateDefects(rejected, defects, catalogue)
+    if (message) {
+      setError(message)
+      return
+    }
+    onSave(defects)
+    onOpenChange(false)
+  }
+
+  const assigned = getDefectTotal(counts)
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>Classify the {rejected} rejected units by defect.</DialogDescription>
+        </DialogHeader>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-[80px]">Code</TableHead>
+              <TableHead>Defect</TableHead>
+              <TableHead className="w-[110px]">Units</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {catalogue.map((defect) => (
+              <TableRow key={defect.code}>
+                <TableCell className="font-mono text-xs">{defect.code}</TableCell>
+                <TableCell>{defect.label}</TableCell>
+                <TableCell>
+                  <Input
+                    type="number"
+                    min="0"
+                    step="1"
+                    value={counts[defect.code] ?? 0}
+                    onChange={(e) =>
+                      setCounts((prev) => ({ ...prev, [defect.code]: Math.max(0, Number(e.target.value) || 0) }))
+                    }
+                  />
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <div className="flex justify-end">
+          <span className={assigned === rejected ? "text-sm text-muted-foreground" : "text-sm font-medium text-destructive"}>
+            Classified {assigned} of {rejected}
+          </span>
+        </div>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleSave}>
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
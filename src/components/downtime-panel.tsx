@@ -0,0 +1,244 @@
+"use client"
+
+import { useState } from "react"
+import { format } from "date-fns"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Badge } from "@/components/ui/badge"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useToast } from "@/hooks/use-toast"
+import { useDowntimeEvents } from "@/hooks/use-downtime-events"
+import type { Batch, DowntimeReason, ProcessingStageName, Workstation } from "@/lib/types"
+import { DOWNTIME_REASONS } from "@/lib/oee"
+import { getWorkstationLabel } from "@/lib/workstations"
+import { durationBetween, formatMsToHMS } from "@/lib/utils"
+
+const NO_BATCH = "none"
+
+// datetime-local inputs take local time without a zone
+function toLocalInput(date: Date): string {
+  return format(date, "yyyy-MM-dd'T'HH:mm")
+}
+
+interface DowntimePanelProps {
+  stage: ProcessingStageName
+  stageLabel: string
+  workstations: Workstation[] // Active workstations of the stage
+  batches: Batch[] // Batches waiting at the stage
+  user?: string
+  disabled?: boolean
+}
+
+/**
+ * Open downtime on a stage's workstations, with logging and closing of events.
+ */
+export function DowntimePanel({ stage, stageLabel, workstations, batches, user, disabled }: DowntimePanelProps) {
+  const { downtimeEvents, createDowntimeEvent, updateDowntimeEvent } = useDowntimeEvents()
+  const { toast } = useToast()
+  const [isOpen, setIsOpen] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [workstationId, setWorkstationId] = useState("")
+  const [batchId, setBatchId] = useState(NO_BATCH)
+  const [reason, setReason] = useState<DowntimeReason>("Breakdown")
+  const [startedAt, setStartedAt] = useState("")
+  const [endedAt, setEndedAt] = useState("")
+  const [notes, setNotes] = useState("")
+
+  const openEvents = downtimeEvents.filter((e) => e.stage === stage && !e.endedAt)
+
+  if (workstations.length === 0 && openEvents.length === 0) return null
+
+  const openDialog = () => {
+    setError(null)
+    setWorkstationId(workstations.length === 1 ? workstations[0].id : "")
+    setBatchId(NO_BATCH)
+    setReason("Breakdown")
+    setStartedAt(toLocalInput(new Date()))
+    setEndedAt("")
+    setNotes("")
+    setIsOpen(true)
+  }
+
+  const handleSave = async () => {
+    const workstation = workstations.find((w) => w.id === workstationId)
+    if (!workstation) {
+      setError("Select the workstation that is down.")
+      return
+    }
+    if (!startedAt) {
+      setError("Enter when the downtime started.")
+      return
+    }
+    const start = new Date(startedAt)
+    const end = endedAt ? new Date(endedAt) : null
+    if (end && end <= start) {
+      setError("The end must be after the start.")
+      return
+    }
+    const batch = batches.find((b) => b.id === batchId)
+    setIsSaving(true)
+    try {
+      await createDowntimeEvent({
+        workstationId: workstation.id,
+        workstationName: getWorkstationLabel(workstation),
+        stage,
+        ...(batch ? { batchId: batch.id, displayBatchId: batch.batchId } : {}),
+        reason,
+        startedAt: start.toISOString(),
+        ...(end ? { endedAt: end.toISOString() } : {}),
+        ...(notes.trim() ? { notes: notes.trim() } : {}),
+        user: user || "System",
+      })
+      toast({
+        title: "Downtime Logged",
+        description: `${reason} on ${workstation.code}${end ? "" : " is open until it is ended"}.`,
+      })
+      setIsOpen(false)
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to log downtime.")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleEnd = async (id: string) => {
+    try {
+      await updateDowntimeEvent(id, { endedAt: new Date().toISOString() })
+    } catch (e) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: e instanceof Error ? e.message : "Failed to end downtime.",
+      })
+    }
+  }
+
+  return (
+    <Card className="mb-4">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0 pb-2">
+        <div className="space-y-1.5">
+          <CardTitle className="text-base">Downtime</CardTitle>
+          <CardDescription>Log stoppages on {stageLabel} workstations; they count against availability in the OEE report.</CardDescription>
+        </div>
+        <Button type="button" variant="outline" size="sm" onClick={openDialog} disabled={disabled || workstations.length === 0}>
+          Log Downtime
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {openEvents.length === 0 ? (
+          <p className="text-sm text-muted-foreground">All workstations running.</p>
+        ) : (
+          <div className="space-y-2">
+            {openEvents.map((event) => (
+              <div key={event.id} className="flex flex-wrap items-center gap-2 rounded border px-3 py-2 text-sm">
+                <Badge variant="destructive">{event.reason}</Badge>
+                <span className="font-medium">{event.workstationName}</span>
+                {event.displayBatchId && (
+                  <span className="font-mono text-xs text-muted-foreground">{event.displayBatchId}</span>
+                )}
+                <span className="text-muted-foreground">
+                  since {format(new Date(event.startedAt), "dd/MM HH:mm")} ({formatMsToHMS(durationBetween(event.startedAt))})
+                </span>
+                <Button
+                  type="button"
+                  size="sm"
+                  className="ml-auto"
+                  disabled={disabled}
+                  onClick={() => handleEnd(event.id)}
+                >
+                  End Now
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogContent className="sm:max-w-[520px]">
+          <DialogHeader>
+            <DialogTitle>Log Downtime · {stageLabel}</DialogTitle>
+            <DialogDescription>Leave the end empty while the workstation is still down, then end it from the list.</DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <Label>Workstation</Label>
+              <Select value={workstationId || undefined} onValueChange={setWorkstationId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select" />
+                </SelectTrigger>
+                <SelectContent>
+                  {workstations.map((w) => (
+                    <SelectItem key={w.id} value={w.id}>
+                      {getWorkstationLabel(w)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Reason</Label>
+              <Select value={reason} onValueChange={(value) => setReason(value as DowntimeReason)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DOWNTIME_REASONS.map((r) => (
+                    <SelectItem key={r} value={r}>
+                      {r}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="col-span-2 space-y-1">
+              <Label>Batch</Label>
+              <Select value={batchId} onValueChange={setBatchId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_BATCH}>No batch</SelectItem>
+                  {batches.map((b) => (
+                    <SelectItem key={b.id} value={b.id}>
+                      {b.batchId} · {b.productName}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="downtime-start">Started</Label>
+              <Input id="downtime-start" type="datetime-local" value={startedAt} onChange={(e) => setStartedAt(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="downtime-end">Ended</Label>
+              <Input id="downtime-end" type="datetime-local" value={endedAt} onChange={(e) => setEndedAt(e.target.value)} />
+            </div>
+            <div className="col-span-2 space-y-1">
+              <Label htmlFor="downtime-notes">Notes</Label>
+              <Textarea id="downtime-notes" value={notes} onChange={(e) => setNotes(e.target.value)} />
+            </div>
+          </div>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setIsOpen(false)}>
+              Cancel
+            </Button>
+            <Button type="button" onClick={handleSave} disabled={isSaving}>
+              {isSaving ? "Saving..." : "Log Downtime"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
@@ -21,7 +21,7 @@ import { format } from 'date-fns';
 
 const formSchema = z.object({
   id: z.string(),
-  status: z.enum(['Planned', 'In Progress', 'On Hold', 'Completed']),
+  status: z.enum(['Planned', 'In Progress', 'On Hold', 'Completed', 'Merged']),
 });
 
 interface EditBatchFormProps {
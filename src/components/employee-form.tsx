@@ -16,6 +16,8 @@ import {
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Checkbox } from '@/components/ui/checkbox';
+import { useProcessDefinitions } from '@/hooks/use-process-definitions';
 import { type Employee, type Role } from '@/lib/types';
 import { ROLE_LABELS, getRolePermissions } from '@/lib/permissions';
 import { useEffect } from 'react';
@@ -23,11 +25,15 @@ import { useEffect } from 'react';
 const formSchema = z.object({
   uid: z.string(),
   name: z.string().min(2, { message: 'Name must be at least 2 characters.' }),
-  role: z.enum(['admin', 'storeManager', 'mouldingManager', 'machiningManager', 'assemblingManager', 'testingManager'], {
+  role: z.enum(['admin', 'storeManager', 'mouldingManager', 'machiningManager', 'assemblingManager', 'testingManager', 'stageManager'], {
     required_error: 'Please select a role.',
   }),
   email: z.string().email({ message: 'Please enter a valid email.' }),
+  stages: z.array(z.string()).optional(),
   createdAt: z.string().optional(),
+}).refine((data) => data.role !== 'stageManager' || (data.stages?.length ?? 0) > 0, {
+  message: 'Assign at least one stage.',
+  path: ['stages'],
 });
 
 type EmployeeFormValues = z.infer<typeof formSchema>;
@@ -38,6 +44,8 @@ interface EmployeeFormProps {
 }
 
 export function EmployeeForm({ employee, onEmployeeSaved }: EmployeeFormProps) {
+  const { processDefinitions } = useProcessDefinitions();
+
   const getInitialValues = (): Partial<EmployeeFormValues> => {
     if (employee) {
       return {
@@ -45,6 +53,7 @@ export function EmployeeForm({ employee, onEmployeeSaved }: EmployeeFormProps) {
         name: employee.name,
         role: employee.role,
         email: employee.email,
+        stages: employee.stages || [],
         createdAt: employee.createdAt,
       };
     }
@@ -52,6 +61,7 @@ export function EmployeeForm({ employee, onEmployeeSaved }: EmployeeFormProps) {
       uid: '',
       name: '',
       email: '',
+      stages: [],
       createdAt: new Date().toISOString(),
     };
   };
@@ -77,6 +87,9 @@ export function EmployeeForm({ employee, onEmployeeSaved }: EmployeeFormProps) {
       role: data.role,
       createdAt: data.createdAt || new Date().toISOString(),
     };
+    if (data.role === 'stageManager') {
+      employeeData.stages = data.stages || [];
+    }
     onEmployeeSaved(employeeData);
   }
 
@@ -139,6 +152,42 @@ export function EmployeeForm({ employee, onEmployeeSaved }: EmployeeFormProps) {
               </FormItem>
             )}
           />
+
+          {selectedRole === 'stageManager' && (
+            <FormField
+              control={form.control}
+              name="stages"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Assigned Stages</FormLabel>
+                  <div className="grid grid-cols-2 gap-2">
+                    {processDefinitions.map((stage) => {
+                      const checked = field.value?.includes(stage.name) ?? false;
+                      return (
+                        <label key={stage.id} className="flex items-center gap-2 text-sm">
+                          <Checkbox
+                            checked={checked}
+                            onCheckedChange={(value) =>
+                              field.onChange(
+                                value
+                                  ? [...(field.value || []), stage.name]
+                                  : (field.value || []).filter((s) => s !== stage.name),
+                              )
+                            }
+                          />
+                          {stage.label}
+                        </label>
+                      );
+                    })}
+                  </div>
+                  <FormDescription>
+                    A Stage Manager can process batches only at these stages.
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          )}
         </div>
 
         {selectedRole && (
@@ -162,7 +211,12 @@ export function EmployeeForm({ employee, onEmployeeSaved }: EmployeeFormProps) {
                 <div>
                   <h4 className="text-sm font-semibold mb-2 text-green-700">Can Edit:</h4>
                   <div className="flex flex-wrap gap-2">
-                    {getRolePermissions(selectedRole as Role).canEdit.map((module) => (
+                    {(selectedRole === 'stageManager'
+                      ? (form.watch('stages') || []).map(
+                          (name) => processDefinitions.find((s) => s.name === name)?.label || name,
+                        )
+                      : getRolePermissions(selectedRole as Role).canEdit
+                    ).map((module) => (
                       <span
                         key={module}
                         className="inline-flex items-center px-3 py-1 rounded-full text-xs font-medium bg-green-100 text-green-800"
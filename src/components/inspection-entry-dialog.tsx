@@ -0,0 +1,188 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Image from "next/image"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import type { InspectionPlan, InspectionRecord } from "@/lib/types"
+import { buildInspectionRecord, formatSpecification, isWithinTolerance } from "@/lib/inspection"
+import { cn } from "@/lib/utils"
+
+interface InspectionEntryDialogProps {
+  isOpen: boolean
+  onOpenChange: (isOpen: boolean) => void
+  title: string
+  measurementSketch?: string
+  plan: InspectionPlan
+  sampleCount: number
+  value?: InspectionRecord // Saved record, edited in place
+  inspector?: string
+  onSave: (record: InspectionRecord) => Promise<boolean>
+}
+
+// Values are kept as entered so blanks can be told apart from zero
+type SampleInput = Record<string, string>
+
+export function InspectionEntryDialog({
+  isOpen,
+  onOpenChange,
+  title,
+  measurementSketch,
+  plan,
+  sampleCount,
+  value,
+  inspector,
+  onSave,
+}: InspectionEntryDialogProps) {
+  const [samples, setSamples] = useState<SampleInput[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const characteristics = plan.characteristics
+
+  useEffect(() => {
+    if (!isOpen) return
+    setError(null)
+    const count = Math.max(sampleCount, value?.samples.length || 0)
+    setSamples(
+      Array.from({ length: count }, (_, i) =>
+        Object.fromEntries(
+          characteristics.map((c) => {
+            const saved = value?.samples[i]?.values[c.id]
+            return [c.id, saved !== undefined ? String(saved) : ""]
+          }),
+        ),
+      ),
+    )
+  }, [isOpen, sampleCount, value, characteristics])
+
+  const parse = (raw: string | undefined) => (raw === undefined || raw.trim() === "" ? NaN : Number(raw))
+
+  const setValue = (sampleIndex: number, characteristicId: string, raw: string) =>
+    setSamples((prev) => prev.map((s, i) => (i === sampleIndex ? { ...s, [characteristicId]: raw } : s)))
+
+  const isSampleComplete = (sample: SampleInput) => characteristics.every((c) => Number.isFinite(parse(sample[c.id])))
+  const isSamplePassed = (sample: SampleInput) => characteristics.every((c) => isWithinTolerance(c, parse(sample[c.id])))
+
+  const handleSave = async () => {
+    const measurements = samples.map((sample) =>
+      Object.fromEntries(characteristics.map((c) => [c.id, parse(sample[c.id])])),
+    )
+    const record = buildInspectionRecord(characteristics, measurements, inspector)
+    if (typeof record === "string") {
+      setError(record)
+      return
+    }
+    setIsSubmitting(true)
+    const ok = await onSave(record)
+    setIsSubmitting(false)
+    if (ok) onOpenChange(false)
+  }
+
+  const completed = samples.filter(isSampleComplete)
+  const failed = completed.filter((s) => !isSamplePassed(s)).length
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[1000px] w-[95vw] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>
+            Enter the measured value of each characteristic for {sampleCount} sample{sampleCount === 1 ? "" : "s"}.
+            Values outside tolerance are highlighted and fail the sample.
+          </DialogDescription>
+        </DialogHeader>
+
+        {measurementSketch && (
+          <div className="flex justify-center">
+            <Image
+              src={measurementSketch}
+              alt="Measurement sketch"
+              width={224}
+              height={224}
+              className="max-h-56 w-auto rounded border object-contain"
+            />
+          </div>
+        )}
+
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-[80px]">Sample</TableHead>
+                {characteristics.map((c) => (
+                  <TableHead key={c.id} className="min-w-[130px]">
+                    <div>
+                      {c.sketchRef ? `${c.sketchRef} · ` : ""}
+                      {c.name}
+                    </div>
+                    <div className="text-[10px] font-normal text-muted-foreground">{formatSpecification(c)}</div>
+                  </TableHead>
+                ))}
+                <TableHead className="w-[90px]">Result</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {samples.map((sample, sampleIndex) => (
+                <TableRow key={sampleIndex}>
+                  <TableCell className="font-medium">{sampleIndex + 1}</TableCell>
+                  {characteristics.map((c) => {
+                    const measured = parse(sample[c.id])
+                    const outOfTolerance = Number.isFinite(measured) && !isWithinTolerance(c, measured)
+                    return (
+                      <TableCell key={c.id}>
+                        <Input
+                          type="number"
+                          step="any"
+                          value={sample[c.id] ?? ""}
+                          onChange={(e) => setValue(sampleIndex, c.id, e.target.value)}
+                          className={cn(outOfTolerance && "border-destructive text-destructive")}
+                        />
+                      </TableCell>
+                    )
+                  })}
+                  <TableCell>
+                    {!isSampleComplete(sample) ? (
+                      <span className="text-xs text-muted-foreground">—</span>
+                    ) : isSamplePassed(sample) ? (
+                      <Badge variant="secondary">Pass</Badge>
+                    ) : (
+                      <Badge variant="destructive">Fail</Badge>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+
+        <div className="flex justify-between text-sm">
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => setSamples((prev) => [...prev, Object.fromEntries(characteristics.map((c) => [c.id, ""]))])}
+          >
+            Add Sample
+          </Button>
+          <span className="text-muted-foreground">
+            {completed.length} of {samples.length} measured · {failed} failed
+          </span>
+        </div>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleSave} disabled={isSubmitting}>
+            {isSubmitting ? "Saving..." : "Save Inspection"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,221 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Image from "next/image"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { PlusCircle, Trash2 } from "lucide-react"
+import type { InspectionCharacteristic, InspectionPlan } from "@/lib/types"
+import { validateInspectionPlan } from "@/lib/inspection"
+
+interface InspectionPlanDialogProps {
+  isOpen: boolean
+  onOpenChange: (isOpen: boolean) => void
+  productName: string
+  measurementSketch?: string
+  plan: InspectionPlan | undefined
+  onSave: (plan: InspectionPlan) => Promise<boolean>
+}
+
+const newCharacteristic = (): InspectionCharacteristic => ({
+  id: Date.now().toString(36) + Math.random().toString(36).slice(2, 6),
+  name: "",
+  sketchRef: "",
+  nominal: 0,
+  lowerTolerance: 0,
+  upperTolerance: 0,
+  unit: "mm",
+})
+
+export function InspectionPlanDialog({
+  isOpen,
+  onOpenChange,
+  productName,
+  measurementSketch,
+  plan,
+  onSave,
+}: InspectionPlanDialogProps) {
+  const [characteristics, setCharacteristics] = useState<InspectionCharacteristic[]>([])
+  const [sampleSize, setSampleSize] = useState(5)
+  const [error, setError] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  useEffect(() => {
+    if (!isOpen) return
+    setError(null)
+    setCharacteristics(plan?.characteristics || [])
+    setSampleSize(plan?.sampleSize || 5)
+  }, [isOpen, plan])
+
+  const update = (index: number, updates: Partial<InspectionCharacteristic>) =>
+    setCharacteristics((prev) => prev.map((c, i) => (i === index ? { ...c, ...updates } : c)))
+
+  const handleSave = async () => {
+    const next: InspectionPlan = {
+      // Firestore rejects undefined inside arrays, so an empty sketch reference is left out
+      characteristics: characteristics.map(({ sketchRef, ...c }) => ({
+        ...c,
+        name: c.name.trim(),
+        unit: c.unit.trim(),
+        ...(sketchRef?.trim() ? { sketchRef: sketchRef.trim() } : {}),
+      })),
+      sampleSize,
+      updatedAt: new Date().toISOString(),
+    }
+    const message = validateInspectionPlan(next)
+    if (message) {
+      setError(message)
+      return
+    }
+    setIsSubmitting(true)
+    const ok = await onSave(next)
+    setIsSubmitting(false)
+    if (ok) onOpenChange(false)
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[960px] w-[95vw] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Inspection Plan · {productName}</DialogTitle>
+          <DialogDescription>
+            Characteristics measured on each Testing sample. Use the sketch reference to point at the callout on the
+            product&apos;s measurement sketch.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-6">
+          {measurementSketch ? (
+            <div className="relative h-40 w-40 shrink-0 overflow-hidden rounded border">
+              <Image
+                src={measurementSketch}
+                alt={`Measurement sketch for ${productName}`}
+                fill
+                className="object-contain"
+              />
+            </div>
+          ) : (
+            <div className="flex h-40 w-40 shrink-0 items-center justify-center rounded border text-xs text-muted-foreground">
+              No measurement sketch
+            </div>
+          )}
+          <div className="space-y-1">
+            <Label htmlFor="sample-size">Sample Size</Label>
+            <Input
+              id="sample-size"
+              type="number"
+              min="1"
+              step="1"
+              className="w-32"
+              value={sampleSize}
+              onChange={(e) => setSampleSize(Math.max(1, Math.floor(Number(e.target.value) || 1)))}
+            />
+            <p className="text-xs text-muted-foreground">Units measured per batch, capped at the batch quantity.</p>
+          </div>
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-[80px]">Ref</TableHead>
+              <TableHead>Characteristic</TableHead>
+              <TableHead className="w-[110px]">Nominal</TableHead>
+              <TableHead className="w-[100px]">- Tol</TableHead>
+              <TableHead className="w-[100px]">+ Tol</TableHead>
+              <TableHead className="w-[90px]">Unit</TableHead>
+              <TableHead className="w-[50px]" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {characteristics.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={7} className="h-16 text-center text-muted-foreground">
+                  No characteristics yet. Testing records counts only until one is added.
+                </TableCell>
+              </TableRow>
+            ) : (
+              characteristics.map((c, index) => (
+                <TableRow key={c.id}>
+                  <TableCell>
+                    <Input value={c.sketchRef || ""} onChange={(e) => update(index, { sketchRef: e.target.value })} />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      value={c.name}
+                      placeholder="e.g. Outer diameter"
+                      onChange={(e) => update(index, { name: e.target.value })}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      step="any"
+                      value={c.nominal}
+                      onChange={(e) => update(index, { nominal: Number(e.target.value) })}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="any"
+                      value={c.lowerTolerance}
+                      onChange={(e) => update(index, { lowerTolerance: Math.abs(Number(e.target.value)) })}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="any"
+                      value={c.upperTolerance}
+                      onChange={(e) => update(index, { upperTolerance: Math.abs(Number(e.target.value)) })}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input value={c.unit} onChange={(e) => update(index, { unit: e.target.value })} />
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setCharacteristics((prev) => prev.filter((_, i) => i !== index))}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+
+        <div>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => setCharacteristics((prev) => [...prev, newCharacteristic()])}
+          >
+            <PlusCircle className="mr-2 h-4 w-4" /> Add Characteristic
+          </Button>
+        </div>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleSave} disabled={isSubmitting}>
+            {isSubmitting ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -1,7 +1,7 @@
 "use client";
 
 import { useMemo } from "react";
-import { type ActivityLog, type RawMaterial, type FinalStock, type Batch } from "@/lib/types";
+import { type Batch, type StockMovement } from "@/lib/types";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card";
 import { Badge } from "./ui/badge";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "./ui/table";
@@ -9,29 +9,28 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "./ui/tabs";
 import { ArrowDownCircle, ArrowUpCircle } from "lucide-react";
 import { format } from "date-fns";
 import { getBatchId } from "@/lib/utils";
+import { STOCK_MOVEMENT_REASON_LABELS, getStockMovementReference } from "@/lib/stock-movements";
 
 interface InventoryMovement {
   id: string;
   date: string;
   quantity: number;
-  batchId: string;
-  batchName?: string;
-  orderId?: string;
-  details: string;
+  reference: string;
+  referenceName?: string;
+  reason: string;
+  balanceAfter?: number;
   type: "inward" | "outward";
 }
 
 interface InventoryTrackingProps {
-  item: RawMaterial | FinalStock;
   itemType: "RawMaterial" | "FinalStock";
-  activityLog: ActivityLog[];
+  stockMovements: StockMovement[]; // Ledger entries for this item
   batches?: Batch[]; // For batch name lookup
 }
 
 export function InventoryTracking({
-  item,
   itemType,
-  activityLog,
+  stockMovements,
   batches = [],
 }: InventoryTrackingProps) {
   // Create batch lookup map
@@ -44,182 +43,31 @@ export function InventoryTracking({
     return map;
   }, [batches]);
 
-  // Parse activity logs to extract inventory movements
+  // Map ledger entries to inward (positive) and outward (negative) movements
   const movements = useMemo(() => {
-    const movementsList: InventoryMovement[] = [];
-
-    if (itemType === "RawMaterial") {
-      const material = item as RawMaterial;
-
-      // Parse activity logs for this material
-      activityLog
-        .filter((log) => log.recordId === material.id)
-        .forEach((log) => {
-          const details = log.details || "";
-          const timestamp = log.timestamp;
-
-          // INWARD: Material created/added from batch
-          if (
-            log.action === "Created" ||
-            (log.action === "Stock Adjustment (Batch)" && details.includes("added to Store"))
-          ) {
-            // Extract batch ID from details: "X items from batch BATCH-ID added to Store"
-            const batchMatch = details.match(/batch\s+([A-Z0-9-]+)/i);
-            if (batchMatch) {
-              const batchId = batchMatch[1];
-              const quantityMatch = details.match(/(\d+)\s+(?:moulded|machined|assembled)\s+items/i);
-              const quantity = quantityMatch ? parseInt(quantityMatch[1], 10) : 0;
-
-              movementsList.push({
-                id: log.id,
-                date: timestamp,
-                quantity,
-                batchId,
-                batchName: batchMap.get(batchId)?.productName,
-                details: log.details || "",
-                type: "inward",
-              });
-            }
-            // Also check sourceBatchId if available
-            if (material.sourceBatchId) {
-              movementsList.push({
-                id: `${log.id}-source`,
-                date: timestamp,
-                quantity: material.quantity, // Approximate, actual quantity from log details preferred
-                batchId: material.sourceBatchId,
-                batchName: batchMap.get(material.sourceBatchId)?.productName,
-                details: `Initial creation from batch ${material.sourceBatchId}`,
-                type: "inward",
-              });
-            }
-          }
-
-          // OUTWARD: Material consumed by batch
-          if (
-            log.action === "Stock Adjustment (Batch)" &&
-            details.includes("consumed")
-          ) {
-            // Extract batch ID: "Batch BATCH-ID (Stage) consumed X pcs"
-            const batchMatch = details.match(/Batch\s+([A-Z0-9-]+)\s*\(/i);
-            if (batchMatch) {
-              const batchId = batchMatch[1];
-              const quantityMatch = details.match(/consumed\s+(\d+)/i);
-              const quantity = quantityMatch ? parseInt(quantityMatch[1], 10) : 0;
-
-              movementsList.push({
-                id: log.id,
-                date: timestamp,
-                quantity,
-                batchId,
-                batchName: batchMap.get(batchId)?.productName,
-                details: log.details || "",
-                type: "outward",
-              });
-            }
-          }
-
-          // OUTWARD: Material deleted (fully consumed)
-          if (log.action === "Deleted" && details.includes("consumed")) {
-            const batchMatch = details.match(/Batch\s+([A-Z0-9-]+)\s*\(/i);
-            if (batchMatch) {
-              const batchId = batchMatch[1];
-              const quantityMatch = details.match(/stock\s*\((\d+)/i);
-              const quantity = quantityMatch ? parseInt(quantityMatch[1], 10) : 0;
-
-              movementsList.push({
-                id: log.id,
-                date: timestamp,
-                quantity,
-                batchId,
-                batchName: batchMap.get(batchId)?.productName,
-                details: log.details || "",
-                type: "outward",
-              });
-            }
-          }
-        });
-    } else if (itemType === "FinalStock") {
-      const product = item as FinalStock;
-
-      // INWARD: Batches that produced this final stock
-      if (product.batches && Array.isArray(product.batches)) {
-        product.batches.forEach((batchEntry) => {
-          const batchId = batchEntry.batchId || batchEntry.sourceBatchId;
-          if (batchId) {
-            movementsList.push({
-              id: `batch-${batchId}-${batchEntry.createdAt}`,
-              date: batchEntry.createdAt || new Date().toISOString(),
-              quantity: Number(batchEntry.quantity || 0),
-              batchId,
-              batchName: batchMap.get(batchId)?.productName,
-              details: `Batch ${batchId} produced ${batchEntry.quantity} units`,
-              type: "inward",
-            });
-          }
-        });
-      }
-
-      // Parse activity logs for outward movements
-      activityLog
-        .filter((log) => {
-          // Check if log is for this product or any of its batches
-          if (log.recordId === product.id) return true;
-          if (product.batches && Array.isArray(product.batches)) {
-            return product.batches.some(
-              (b) => b.batchId === log.recordId || b.sourceBatchId === log.recordId
-            );
-          }
-          return false;
-        })
-        .forEach((log) => {
-          const details = log.details || "";
-          const timestamp = log.timestamp;
-
-          // OUTWARD: Consumed by order
-          if (details.includes("order") || details.includes("Order")) {
-            const orderMatch = details.match(/[Oo]rder\s*[#:]?\s*([A-Z0-9-]+)/i);
-            const orderId = orderMatch ? orderMatch[1] : "Unknown Order";
-            const quantityMatch = details.match(/(\d+)\s*(?:units?|pcs?)/i);
-            const quantity = quantityMatch ? parseInt(quantityMatch[1], 10) : 0;
-
-            movementsList.push({
-              id: log.id,
-              date: timestamp,
-              quantity,
-              orderId,
-              batchId: "",
-              details: log.details || "",
-              type: "outward",
-            });
-          }
-
-          // OUTWARD: Consumed by batch (used as input)
-          if (details.includes("consumed") && details.includes("Batch")) {
-            const batchMatch = details.match(/Batch\s+([A-Z0-9-]+)/i);
-            if (batchMatch) {
-              const batchId = batchMatch[1];
-              const quantityMatch = details.match(/(\d+)\s*(?:units?|pcs?)/i);
-              const quantity = quantityMatch ? parseInt(quantityMatch[1], 10) : 0;
-
-              movementsList.push({
-                id: log.id,
-                date: timestamp,
-                quantity,
-                batchId,
-                batchName: batchMap.get(batchId)?.productName,
-                details: log.details || "",
-                type: "outward",
-              });
-            }
-          }
-        });
-    }
+    const movementsList: InventoryMovement[] = stockMovements.map((movement) => {
+      const reference = getStockMovementReference(movement);
+      return {
+        id: movement.id,
+        date: movement.timestamp,
+        quantity: Math.abs(Number(movement.quantity || 0)),
+        reference,
+        referenceName: movement.batchId
+          ? batchMap.get(movement.batchId)?.productName
+          : movement.orderId
+            ? `Order ${movement.orderId}`
+            : undefined,
+        reason: STOCK_MOVEMENT_REASON_LABELS[movement.reason] || movement.reason,
+        balanceAfter: movement.balanceAfter,
+        type: Number(movement.quantity) >= 0 ? "inward" : "outward",
+      };
+    });
 
     // Sort by date (newest first)
     return movementsList.sort(
       (a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()
     );
-  }, [item, itemType, activityLog, batchMap]);
+  }, [stockMovements, batchMap]);
 
   const inwardMovements = movements.filter((m) => m.type === "inward");
   const outwardMovements = movements.filter((m) => m.type === "outward");
@@ -249,8 +97,8 @@ export function InventoryTracking({
             <CardTitle>Inward Inventory</CardTitle>
             <CardDescription>
               {itemType === "RawMaterial"
-                ? "Batches that created this store item"
-                : "Batches that produced this final stock item"}
+                ? "Restocks, batch output and manual additions for this item"
+                : "Batches and restocks that produced this final stock item"}
             </CardDescription>
           </CardHeader>
           <CardContent>
@@ -261,10 +109,11 @@ export function InventoryTracking({
                 <TableHeader>
                   <TableRow>
                     <TableHead>Date</TableHead>
-                    <TableHead>Batch ID</TableHead>
-                    <TableHead>Batch Name</TableHead>
+                    <TableHead>Reason</TableHead>
+                    <TableHead>Reference</TableHead>
+                    <TableHead>Name</TableHead>
                     <TableHead className="text-right">Quantity</TableHead>
-                    <TableHead>Details</TableHead>
+                    <TableHead className="text-right">Balance</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
@@ -273,17 +122,18 @@ export function InventoryTracking({
                       <TableCell className="text-sm">
                         {format(new Date(movement.date), "MMM dd, yyyy HH:mm")}
                       </TableCell>
+                      <TableCell className="text-sm">{movement.reason}</TableCell>
                       <TableCell className="font-mono text-xs">
-                        {movement.batchId}
+                        {movement.reference || "—"}
                       </TableCell>
                       <TableCell className="text-sm">
-                        {movement.batchName || "—"}
+                        {movement.referenceName || "—"}
                       </TableCell>
                       <TableCell className="text-right font-medium text-green-600">
                         +{movement.quantity}
                       </TableCell>
-                      <TableCell className="text-sm text-muted-foreground max-w-xs truncate">
-                        {movement.details}
+                      <TableCell className="text-right text-sm text-muted-foreground">
+                        {movement.balanceAfter ?? "—"}
                       </TableCell>
                     </TableRow>
                   ))}
@@ -300,7 +150,7 @@ export function InventoryTracking({
             <CardTitle>Outward Inventory</CardTitle>
             <CardDescription>
               {itemType === "RawMaterial"
-                ? "Batches that consumed this store item"
+                ? "Batches that consumed this item and manual reductions"
                 : "Orders or batches that consumed this final stock item"}
             </CardDescription>
           </CardHeader>
@@ -312,12 +162,11 @@ export function InventoryTracking({
                 <TableHeader>
                   <TableRow>
                     <TableHead>Date</TableHead>
-                    <TableHead>
-                      {itemType === "RawMaterial" ? "Batch ID" : "Reference"}
-                    </TableHead>
+                    <TableHead>Reason</TableHead>
+                    <TableHead>Reference</TableHead>
                     <TableHead>Name</TableHead>
                     <TableHead className="text-right">Quantity</TableHead>
-                    <TableHead>Details</TableHead>
+                    <TableHead className="text-right">Balance</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
@@ -326,17 +175,18 @@ export function InventoryTracking({
                       <TableCell className="text-sm">
                         {format(new Date(movement.date), "MMM dd, yyyy HH:mm")}
                       </TableCell>
+                      <TableCell className="text-sm">{movement.reason}</TableCell>
                       <TableCell className="font-mono text-xs">
-                        {movement.batchId || movement.orderId || "—"}
+                        {movement.reference || "—"}
                       </TableCell>
                       <TableCell className="text-sm">
-                        {movement.batchName || movement.orderId || "—"}
+                        {movement.referenceName || "—"}
                       </TableCell>
                       <TableCell className="text-right font-medium text-red-600">
                         -{movement.quantity}
                       </TableCell>
-                      <TableCell className="text-sm text-muted-foreground max-w-xs truncate">
-                        {movement.details}
+                      <TableCell className="text-right text-sm text-muted-foreground">
+                        {movement.balanceAfter ?? "—"}
                       </TableCell>
                     </TableRow>
                   ))}
@@ -11,7 +11,7 @@ import {
   DialogFooter
 } from '@/components/ui/dialog';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { type RawMaterial, type ActivityLog, type FinalStock, type Batch } from '@/lib/types';
+import { type RawMaterial, type ActivityLog, type FinalStock, type Batch, type StockMovement } from '@/lib/types';
 import { Button } from './ui/button';
 import { EditMaterialForm } from './edit-material-form';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from './ui/alert-dialog';
@@ -29,6 +29,7 @@ interface ItemDetailsDialogProps<T extends Item> {
   item: T;
   itemType: ItemType;
   activityLog: ActivityLog[];
+  stockMovements?: StockMovement[]; // Ledger entries for this item, shown in the Inventory tab
   onItemUpdate: (item: T) => void;
   onItemDelete?: (id: string) => void;
   // When true, hide the Delete button entirely (e.g., for Store items which must be permanent)
@@ -42,6 +43,7 @@ export function ItemDetailsDialog<T extends Item>({
   item,
   itemType,
   activityLog,
+  stockMovements = [],
   onItemUpdate,
   onItemDelete,
   disableDelete = false,
@@ -164,9 +166,8 @@ export function ItemDetailsDialog<T extends Item>({
                 </TabsContent>
                 <TabsContent value="inventory" className="mt-4">
                     <InventoryTracking
-                        item={item}
                         itemType={itemType}
-                        activityLog={activityLog}
+                        stockMovements={stockMovements}
                         batches={batches}
                     />
                 </TabsContent>
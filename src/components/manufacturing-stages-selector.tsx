@@ -7,6 +7,7 @@ import { Badge } from "@/components/ui/badge"
 import { AlertCircle, CheckCircle2 } from "lucide-react"
 import type { ProcessingStageName } from "@/lib/types"
 import { BOMEditor } from "@/components/bom-editor"
+import { useProcessDefinitions } from "@/hooks/use-process-definitions"
 
 interface ManufacturingStagesSelectorProps {
   selectedStages: ProcessingStageName[]
@@ -20,29 +21,6 @@ interface ManufacturingStagesSelectorProps {
   onUnitThresholdsChange?: (t: { moulded?: number; machined?: number; assembled?: number }) => void
 }
 
-const MANUFACTURING_STAGES: { name: ProcessingStageName; label: string; description: string }[] = [
-  {
-    name: "Molding",
-    label: "Moulding",
-    description: "Shape raw materials into desired form"
-  },
-  {
-    name: "Machining", 
-    label: "Machining",
-    description: "Precision cutting and finishing operations"
-  },
-  {
-    name: "Assembling",
-    label: "Assembling", 
-    description: "Combine components into final assembly"
-  },
-  {
-    name: "Testing",
-    label: "Testing",
-    description: "Quality control and validation testing"
-  }
-]
-
 export function ManufacturingStagesSelector({ 
   selectedStages, 
   onStagesChange, 
@@ -53,6 +31,9 @@ export function ManufacturingStagesSelector({
   unitThresholds,
   onUnitThresholdsChange,
 }: ManufacturingStagesSelectorProps) {
+  // Built-in and Setup-configured stages, in order
+  const { processDefinitions: MANUFACTURING_STAGES } = useProcessDefinitions()
+
   const handleStageToggle = (stage: ProcessingStageName, checked: boolean) => {
     if (disabled) return
 
@@ -102,7 +83,7 @@ export function ManufacturingStagesSelector({
             
             return (
               <div
-                key={stage.name}
+                key={stage.id}
                 className={`p-3 rounded-lg border transition-colors ${
                   isSelected 
                     ? "bg-primary/5 border-primary/20" 
@@ -138,7 +119,7 @@ export function ManufacturingStagesSelector({
                 </div>
 
                 {/* Scoped BOM inside selected process card for production stages */}
-                {isSelected && onBOMChange && ["Molding", "Machining", "Assembling"].includes(stage.name) && (
+                {isSelected && onBOMChange && stage.name !== "Testing" && (
                   <div className="mt-4">
                     <BOMEditor
                       bomRows={bomRows}
@@ -0,0 +1,84 @@
+"use client"
+
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Badge } from "@/components/ui/badge"
+import type { RawMaterial } from "@/lib/types"
+import { getLotExpiryStatus, getUntrackedQuantity, sortLotsForIssue } from "@/lib/material-lots"
+
+interface MaterialLotsDialogProps {
+  isOpen: boolean
+  onOpenChange: (isOpen: boolean) => void
+  material: RawMaterial
+}
+
+export function MaterialLotsDialog({ isOpen, onOpenChange, material }: MaterialLotsDialogProps) {
+  const lots = sortLotsForIssue(material.lots || [])
+  const untracked = getUntrackedQuantity(material)
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[800px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Lots · {material.name}</DialogTitle>
+          <DialogDescription>
+            Listed in the order batches draw them: earliest expiry first, then lots without an expiry by date received.
+            Expired lots are used only when nothing else is left.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Lot / Heat No.</TableHead>
+              <TableHead>Supplier</TableHead>
+              <TableHead>Received</TableHead>
+              <TableHead>Expiry</TableHead>
+              <TableHead className="text-right">Remaining</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {untracked > 0 && (
+              <TableRow>
+                <TableCell colSpan={4} className="text-muted-foreground">
+                  Stock without a lot (received before lots were kept or adjusted by hand), used first
+                </TableCell>
+                <TableCell className="text-right">
+                  {untracked.toLocaleString()} {material.unit}
+                </TableCell>
+              </TableRow>
+            )}
+            {lots.length === 0 && untracked <= 0 ? (
+              <TableRow>
+                <TableCell colSpan={5} className="h-16 text-center text-muted-foreground">
+                  No stock on hand.
+                </TableCell>
+              </TableRow>
+            ) : (
+              lots.map((lot) => {
+                const status = getLotExpiryStatus(lot)
+                return (
+                  <TableRow key={`${lot.lotNumber}-${lot.restockId || lot.receivedAt}`}>
+                    <TableCell className="font-mono text-xs">{lot.lotNumber}</TableCell>
+                    <TableCell>{lot.supplier || "—"}</TableCell>
+                    <TableCell>{new Date(lot.receivedAt).toLocaleDateString()}</TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        {lot.expiresAt ? new Date(lot.expiresAt).toLocaleDateString() : "—"}
+                        {status === "expired" && <Badge variant="destructive">Expired</Badge>}
+                        {status === "expiring" && <Badge className="bg-amber-500 hover:bg-amber-500">Expiring soon</Badge>}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {Number(lot.quantity).toLocaleString()} {material.unit}
+                    </TableCell>
+                  </TableRow>
+                )
+              })
+            )}
+          </TableBody>
+        </Table>
+      </DialogContent>
+    </Dialog>
+  )
+}
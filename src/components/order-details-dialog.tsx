@@ -0,0 +1,129 @@
+"use client"
+
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import type { Order } from "@/lib/types"
+import { formatCurrency, getLineAmounts, getOrderQuantity, getOrderStatus } from "@/lib/orders"
+import { Badge } from "@/components/ui/badge"
+
+interface OrderDetailsDialogProps {
+  isOpen: boolean
+  onOpenChange: (isOpen: boolean) => void
+  order: Order
+}
+
+export function OrderDetailsDialog({ isOpen, onOpenChange, order }: OrderDetailsDialogProps) {
+  const lines = order.lines || []
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[900px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Order {order.orderId}</DialogTitle>
+          <DialogDescription>
+            {lines.length} line{lines.length === 1 ? "" : "s"}, {getOrderQuantity(order)} units
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-2 text-sm">
+          <p><strong>System ID:</strong> <span className="font-mono text-xs">{order.id}</span></p>
+          <p><strong>Order Type:</strong> {order.orderType}</p>
+          <p><strong>Status:</strong> <Badge variant="outline">{getOrderStatus(order)}</Badge></p>
+          {order.name && <p><strong>Customer:</strong> {order.name}</p>}
+          <p><strong>Created At:</strong> {order.createdAt ? new Date(order.createdAt).toLocaleString() : "—"}</p>
+        </div>
+
+        <div className="border rounded-md">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Product</TableHead>
+                <TableHead>SKU</TableHead>
+                <TableHead className="text-right">Quantity</TableHead>
+                <TableHead className="text-right">Unit Price</TableHead>
+                <TableHead className="text-right">GST</TableHead>
+                <TableHead className="text-right">Line Total</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {lines.map((line) => {
+                const amounts = getLineAmounts(line)
+                return (
+                  <TableRow key={line.productId}>
+                    <TableCell>{line.productName}</TableCell>
+                    <TableCell className="font-mono text-xs">{line.sku || "—"}</TableCell>
+                    <TableCell className="text-right">{line.quantity}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(line.unitPrice)}</TableCell>
+                    <TableCell className="text-right">
+                      {formatCurrency(amounts.tax)}
+                      <span className="ml-1 text-xs text-muted-foreground">({line.gstRate}%)</span>
+                    </TableCell>
+                    <TableCell className="text-right">{formatCurrency(amounts.total)}</TableCell>
+                  </TableRow>
+                )
+              })}
+            </TableBody>
+            <TableFooter>
+              <TableRow>
+                <TableCell colSpan={5} className="text-right">Subtotal</TableCell>
+                <TableCell className="text-right">{formatCurrency(order.subtotal)}</TableCell>
+              </TableRow>
+              <TableRow>
+                <TableCell colSpan={5} className="text-right">GST</TableCell>
+                <TableCell className="text-right">{formatCurrency(order.taxTotal)}</TableCell>
+              </TableRow>
+              <TableRow>
+                <TableCell colSpan={5} className="text-right font-semibold">Total</TableCell>
+                <TableCell className="text-right font-semibold">{formatCurrency(order.total)}</TableCell>
+              </TableRow>
+            </TableFooter>
+          </Table>
+        </div>
+
+        {(order.allocations || []).length > 0 && (
+          <div className="space-y-2">
+            <h3 className="text-sm font-semibold">Stock Allocations</h3>
+            <div className="border rounded-md">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Product</TableHead>
+                    <TableHead>Batch</TableHead>
+                    <TableHead className="text-right">Quantity</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {(order.allocations || []).map((allocation) => (
+                    <TableRow key={`${allocation.productId}-${allocation.batchId}`}>
+                      <TableCell>
+                        {lines.find((line) => line.productId === allocation.productId)?.productName || allocation.productId}
+                      </TableCell>
+                      <TableCell className="font-mono text-xs">{allocation.batchId}</TableCell>
+                      <TableCell className="text-right">{allocation.quantity}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+
+        {(order.statusHistory || []).length > 0 && (
+          <div className="space-y-2">
+            <h3 className="text-sm font-semibold">Status History</h3>
+            <ul className="space-y-1 text-sm">
+              {(order.statusHistory || []).map((change, i) => (
+                <li key={i} className="flex justify-between">
+                  <span>{change.from ? `${change.from} → ${change.to}` : change.to}</span>
+                  <span className="text-xs text-muted-foreground">
+                    {new Date(change.timestamp).toLocaleString()} · {change.user}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
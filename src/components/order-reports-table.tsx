@@ -5,6 +5,9 @@ import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { formatNumber } from "@/lib/utils"
+import { ORDER_STATUSES, formatCurrency } from "@/lib/orders"
+import type { OrderStatus } from "@/lib/types"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 
 type OrderReportRow = {
   dateISO: string
@@ -16,6 +19,8 @@ type OrderReportRow = {
   productSystemId?: string
   productPid?: string
   productSku?: string
+  amount?: number // Line total including GST
+  status?: OrderStatus
 }
 
 function toRowDate(r: OrderReportRow) {
@@ -43,6 +48,7 @@ export default function OrderReportsTable({ rows }: { rows: OrderReportRow[] })
   const [from, setFrom] = useState<string>("")
   const [to, setTo] = useState<string>("")
   const [orderQuery, setOrderQuery] = useState<string>("")
+  const [statusFilter, setStatusFilter] = useState<OrderStatus | "all">("all")
 
   const filtered = useMemo(() => {
     return rows
@@ -64,10 +70,11 @@ export default function OrderReportsTable({ rows }: { rows: OrderReportRow[] })
           const q = orderQuery.trim().toLowerCase()
           if (!r.orderId.toLowerCase().includes(q)) return false
         }
+        if (statusFilter !== "all" && r.status !== statusFilter) return false
         return true
       })
       .sort((a, b) => toRowDate(b).getTime() - toRowDate(a).getTime())
-  }, [rows, from, to, orderQuery])
+  }, [rows, from, to, orderQuery, statusFilter])
 
   const dailyTotals = useMemo(() => {
     const map = new Map<string, number>()
@@ -99,7 +106,9 @@ export default function OrderReportsTable({ rows }: { rows: OrderReportRow[] })
       "SKU",
       "Product Name",
       "Quantity",
+      "Amount",
       "Order Type",
+      "Status",
     ]
     const lines = [headers.join(",")]
     for (const r of filtered) {
@@ -113,7 +122,9 @@ export default function OrderReportsTable({ rows }: { rows: OrderReportRow[] })
         sku,
         r.productName.replaceAll(",", " "),
         String(r.quantity ?? 0),
+        String(r.amount ?? 0),
         r.orderType,
+        r.status || "",
       ]
       lines.push(row.join(","))
     }
@@ -134,6 +145,7 @@ export default function OrderReportsTable({ rows }: { rows: OrderReportRow[] })
     setFrom("")
     setTo("")
     setOrderQuery("")
+    setStatusFilter("all")
   }
 
   return (
@@ -162,6 +174,22 @@ export default function OrderReportsTable({ rows }: { rows: OrderReportRow[] })
             onChange={(e) => setOrderQuery(e.target.value)}
           />
         </div>
+        <div className="grid gap-1">
+          <span className="text-sm text-muted-foreground">Status</span>
+          <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as OrderStatus | "all")}>
+            <SelectTrigger className="w-40">
+              <SelectValue placeholder="All statuses" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All</SelectItem>
+              {ORDER_STATUSES.map((status) => (
+                <SelectItem key={status} value={status}>
+                  {status}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
         <div className="flex gap-2">
           <Button variant="secondary" onClick={clearFilters}>
             Clear
@@ -180,13 +208,15 @@ export default function OrderReportsTable({ rows }: { rows: OrderReportRow[] })
               <TableHead>SKU</TableHead>
               <TableHead>Product</TableHead>
               <TableHead className="text-right">Quantity</TableHead>
+              <TableHead className="text-right">Amount</TableHead>
               <TableHead>Order Type</TableHead>
+              <TableHead>Status</TableHead>
             </TableRow>
           </TableHeader>
           <TableBody>
             {filtered.length === 0 ? (
               <TableRow>
-                <TableCell colSpan={7} className="text-center text-muted-foreground">
+                <TableCell colSpan={9} className="text-center text-muted-foreground">
                   No records match your filters.
                 </TableCell>
               </TableRow>
@@ -194,14 +224,16 @@ export default function OrderReportsTable({ rows }: { rows: OrderReportRow[] })
               filtered.map((r) => {
                 const d = toRowDate(r)
                 return (
-                  <TableRow key={`${r.orderId}-${formatYMD(d)}`}>
+                  <TableRow key={`${r.orderId}-${r.productSystemId}-${formatYMD(d)}`}>
                     <TableCell>{formatHuman(d)}</TableCell>
                     <TableCell className="font-mono text-sm">{r.orderId}</TableCell>
                     <TableCell className="font-mono text-xs">{r.productPid || r.productSystemId || "—"}</TableCell>
                     <TableCell className="font-mono text-xs">{r.productSku || "—"}</TableCell>
                     <TableCell>{r.productName}</TableCell>
                     <TableCell className="text-right font-medium">{formatNumber(r.quantity || 0)}</TableCell>
+                    <TableCell className="text-right">{r.amount != null ? formatCurrency(r.amount) : "—"}</TableCell>
                     <TableCell>{r.orderType}</TableCell>
+                    <TableCell>{r.status || "—"}</TableCell>
                   </TableRow>
                 )
               })
@@ -10,7 +10,8 @@ import {
   DialogFooter,
 } from "@/components/ui/dialog";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { type ActivityLog, type FinalStock, type Batch } from "@/lib/types";
+import { type ActivityLog, type FinalStock, type Batch, type StockMovement } from "@/lib/types";
+import { getEntryBreakdown, getStockBreakdown } from "@/lib/stock-availability";
 import { InventoryTracking } from "./inventory-tracking";
 import { Button } from "./ui/button";
 import { EditProductForm } from "./edit-product-form";
@@ -49,6 +50,7 @@ interface ProductDetailsDialogProps {
   onOpenChange: (isOpen: boolean) => void;
   groupedProduct: GroupedProduct;
   activityLog: ActivityLog[];
+  stockMovements?: StockMovement[]; // Ledger entries for this product, shown in the Inventory tab
   onProductUpdate: (product: FinalStock) => void;
   onProductDelete: (id: string) => Promise<void>;
   canEdit?: boolean;
@@ -60,6 +62,7 @@ export function ProductDetailsDialog({
   onOpenChange,
   groupedProduct,
   activityLog,
+  stockMovements = [],
   onProductUpdate,
   onProductDelete,
   canEdit = true,
@@ -171,12 +174,15 @@ export function ProductDetailsDialog({
     return activityLog.filter((log) => relevantIds.has(log.recordId));
   }, [activityLog, groupedProduct.batches, groupedProduct.productTemplate]);
 
-  // Calculate total quantity across all batches
-  const totalQuantity = useMemo(() => {
-    return groupedProduct.batches.reduce((sum, batch) => {
-      return sum + Number(batch.fullEntry.quantity ?? 0);
-    }, 0);
-  }, [groupedProduct.batches]);
+  // On-hand / reserved / available across all batch entries
+  const stockBreakdown = useMemo(() => {
+    return getStockBreakdown(groupedProduct.productTemplate || groupedProduct.firstEntry);
+  }, [groupedProduct.productTemplate, groupedProduct.firstEntry]);
+
+  const entryBreakdowns = useMemo(() => {
+    const entries = (groupedProduct.productTemplate || groupedProduct.firstEntry).batches || [];
+    return new Map(entries.map((entry) => [entry.batchId, getEntryBreakdown(entry)]));
+  }, [groupedProduct.productTemplate, groupedProduct.firstEntry]);
 
   // Reset edit state when dialog closes
   const handleOpenChange = (open: boolean) => {
@@ -262,7 +268,13 @@ export function ProductDetailsDialog({
                     {groupedProduct.batches.length}
                   </p>
                   <p>
-                    <strong>Total Quantity:</strong> {totalQuantity} pcs
+                    <strong>On Hand:</strong> {stockBreakdown.onHand} pcs
+                  </p>
+                  <p>
+                    <strong>Reserved:</strong> {stockBreakdown.reserved} pcs
+                  </p>
+                  <p>
+                    <strong>Available:</strong> {stockBreakdown.available} pcs
                   </p>
                 </div>
               </div>
@@ -328,16 +340,18 @@ export function ProductDetailsDialog({
                     ) : (
                       <div className="space-y-2">
                         {/* Header row */}
-                        <div className="grid grid-cols-3 gap-4 pb-2 border-b font-semibold text-sm">
+                        <div className="grid grid-cols-5 gap-4 pb-2 border-b font-semibold text-sm">
                           <div>Batch ID</div>
-                          <div>Quantity</div>
+                          <div>On Hand</div>
+                          <div>Reserved</div>
+                          <div>Available</div>
                           <div>Date</div>
                         </div>
                         {/* Batch rows */}
                         {groupedProduct.batches.map((batch, index) => (
                           <div
                             key={batch.fullEntry.id}
-                            className="grid grid-cols-3 gap-4 p-3 border rounded-lg hover:bg-muted/50 transition-colors"
+                            className="grid grid-cols-5 gap-4 p-3 border rounded-lg hover:bg-muted/50 transition-colors"
                           >
                             <div>
                               <div className="font-semibold text-sm">
@@ -357,6 +371,20 @@ export function ProductDetailsDialog({
                                 Accepted quantity
                               </p>
                             </div>
+                            <div className="text-sm">
+                              {entryBreakdowns.get(batch.batchId)?.reserved ?? 0} pcs
+                              <p className="text-xs text-muted-foreground mt-1">
+                                Held for open orders
+                              </p>
+                            </div>
+                            <div className="text-sm font-medium">
+                              {entryBreakdowns.get(batch.batchId)?.available ??
+                                Number(batch.fullEntry.quantity ?? 0)}{" "}
+                              pcs
+                              <p className="text-xs font-normal text-muted-foreground mt-1">
+                                Available to promise
+                              </p>
+                            </div>
                             <div>
                               <div className="text-sm">
                                 {batch.fullEntry.createdAt
@@ -391,9 +419,8 @@ export function ProductDetailsDialog({
 
             <TabsContent value="inventory" className="mt-4">
               <InventoryTracking
-                item={groupedProduct.firstEntry}
                 itemType="FinalStock"
-                activityLog={relevantActivityLogs}
+                stockMovements={stockMovements}
                 batches={batches}
               />
             </TabsContent>
@@ -0,0 +1,213 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import type { PurchaseOrder } from "@/lib/types"
+import { formatCurrency } from "@/lib/orders"
+import { getOutstandingQuantity, getPurchaseOrderTotal, isPurchaseOrderOpen } from "@/lib/purchasing"
+
+interface PurchaseOrderDialogProps {
+  isOpen: boolean
+  onOpenChange: (isOpen: boolean) => void
+  purchaseOrder: PurchaseOrder
+  canReceive: boolean
+  onReceive: (
+    purchaseOrder: PurchaseOrder,
+    quantities: Record<string, number>,
+    receivedAt: string,
+    lots: Record<string, ReceivedLot>,
+  ) => Promise<boolean>
+}
+
+// Supplier lot of a received line; a blank lot number is recorded under the restock ID
+export interface ReceivedLot {
+  lotNumber?: string
+  expiryDate?: string
+}
+
+export function PurchaseOrderDialog({ isOpen, onOpenChange, purchaseOrder, canReceive, onReceive }: PurchaseOrderDialogProps) {
+  const lines = purchaseOrder.lines || []
+  const receivable = canReceive && isPurchaseOrderOpen(purchaseOrder)
+  const [quantities, setQuantities] = useState<Record<string, string>>({})
+  const [lots, setLots] = useState<Record<string, ReceivedLot>>({})
+  const [receivedDate, setReceivedDate] = useState(new Date().toISOString().split("T")[0])
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  // Reset the receipt form whenever a different PO is opened or a receipt lands
+  useEffect(() => {
+    setQuantities({})
+    setLots({})
+  }, [purchaseOrder.id, purchaseOrder.receipts?.length])
+
+  const handleReceiveAll = () => {
+    setQuantities(Object.fromEntries(lines.map((line) => [line.materialId, String(getOutstandingQuantity(line))])))
+  }
+
+  const handleSubmit = async () => {
+    const parsed = Object.fromEntries(
+      Object.entries(quantities)
+        .map(([materialId, value]) => [materialId, Number(value)] as const)
+        .filter(([, value]) => Number.isFinite(value) && value > 0),
+    )
+    const receivedLots = Object.fromEntries(
+      Object.keys(parsed).map((materialId) => {
+        const lot = lots[materialId] || {}
+        return [
+          materialId,
+          {
+            ...(lot.lotNumber?.trim() ? { lotNumber: lot.lotNumber.trim() } : {}),
+            ...(lot.expiryDate ? { expiryDate: new Date(lot.expiryDate + "T00:00:00").toISOString() } : {}),
+          },
+        ]
+      }),
+    )
+    setIsSubmitting(true)
+    const ok = await onReceive(purchaseOrder, parsed, new Date(receivedDate + "T00:00:00").toISOString(), receivedLots)
+    setIsSubmitting(false)
+    if (ok) {
+      setQuantities({})
+      setLots({})
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[1100px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Purchase Order {purchaseOrder.poNumber}</DialogTitle>
+          <DialogDescription>
+            {purchaseOrder.supplierName} · {lines.length} line{lines.length === 1 ? "" : "s"}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-2 text-sm">
+          <p><strong>System ID:</strong> <span className="font-mono text-xs">{purchaseOrder.id}</span></p>
+          <p><strong>Status:</strong> <Badge variant="outline">{purchaseOrder.status}</Badge></p>
+          <p><strong>Created At:</strong> {new Date(purchaseOrder.createdAt).toLocaleString()}</p>
+          <p>
+            <strong>Expected:</strong>{" "}
+            {purchaseOrder.expectedDate ? new Date(purchaseOrder.expectedDate).toLocaleDateString() : "—"}
+          </p>
+          {purchaseOrder.notes && <p className="col-span-2"><strong>Notes:</strong> {purchaseOrder.notes}</p>}
+        </div>
+
+        <div className="border rounded-md">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Material</TableHead>
+                <TableHead className="text-right">Ordered</TableHead>
+                <TableHead className="text-right">Received</TableHead>
+                <TableHead className="text-right">Outstanding</TableHead>
+                <TableHead className="text-right">Price / Unit</TableHead>
+                <TableHead className="text-right">Line Total</TableHead>
+                {receivable && <TableHead className="w-32">Receive Now</TableHead>}
+                {receivable && <TableHead className="w-36">Lot / Heat No.</TableHead>}
+                {receivable && <TableHead className="w-40">Expiry</TableHead>}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {lines.map((line) => (
+                <TableRow key={line.materialId}>
+                  <TableCell>{line.materialName}</TableCell>
+                  <TableCell className="text-right">{line.quantityOrdered} {line.unit}</TableCell>
+                  <TableCell className="text-right">{line.quantityReceived}</TableCell>
+                  <TableCell className="text-right">{getOutstandingQuantity(line)}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(line.pricePerUnit)}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(line.quantityOrdered * line.pricePerUnit)}</TableCell>
+                  {receivable && (
+                    <TableCell>
+                      <Input
+                        type="number"
+                        step="0.0001"
+                        min="0"
+                        max={getOutstandingQuantity(line)}
+                        disabled={getOutstandingQuantity(line) === 0}
+                        value={quantities[line.materialId] ?? ""}
+                        onChange={(e) => setQuantities((prev) => ({ ...prev, [line.materialId]: e.target.value }))}
+                      />
+                    </TableCell>
+                  )}
+                  {receivable && (
+                    <TableCell>
+                      <Input
+                        placeholder="Optional"
+                        disabled={getOutstandingQuantity(line) === 0}
+                        value={lots[line.materialId]?.lotNumber ?? ""}
+                        onChange={(e) =>
+                          setLots((prev) => ({ ...prev, [line.materialId]: { ...prev[line.materialId], lotNumber: e.target.value } }))
+                        }
+                      />
+                    </TableCell>
+                  )}
+                  {receivable && (
+                    <TableCell>
+                      <Input
+                        type="date"
+                        disabled={getOutstandingQuantity(line) === 0}
+                        value={lots[line.materialId]?.expiryDate ?? ""}
+                        onChange={(e) =>
+                          setLots((prev) => ({ ...prev, [line.materialId]: { ...prev[line.materialId], expiryDate: e.target.value } }))
+                        }
+                      />
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+            <TableFooter>
+              <TableRow>
+                <TableCell colSpan={5} className="text-right font-semibold">Total</TableCell>
+                <TableCell className="text-right font-semibold">{formatCurrency(getPurchaseOrderTotal(purchaseOrder))}</TableCell>
+                {receivable && <TableCell colSpan={3} />}
+              </TableRow>
+            </TableFooter>
+          </Table>
+        </div>
+
+        {receivable && (
+          <div className="flex items-end justify-end gap-2">
+            <div className="w-44">
+              <p className="text-sm font-medium mb-1">Received On</p>
+              <Input type="date" value={receivedDate} onChange={(e) => setReceivedDate(e.target.value)} />
+            </div>
+            <Button type="button" variant="outline" onClick={handleReceiveAll}>
+              Fill Outstanding
+            </Button>
+            <Button type="button" onClick={handleSubmit} disabled={isSubmitting}>
+              {isSubmitting ? "Receiving..." : "Receive"}
+            </Button>
+          </div>
+        )}
+
+        {(purchaseOrder.receipts || []).length > 0 && (
+          <div className="space-y-2">
+            <h3 className="text-sm font-semibold">Receipts</h3>
+            <ul className="space-y-1 text-sm">
+              {(purchaseOrder.receipts || []).map((receipt, i) => (
+                <li key={i} className="flex justify-between">
+                  <span>
+                    {receipt.lines
+                      .map((r) => {
+                        const line = lines.find((l) => l.materialId === r.materialId)
+                        const lot = r.lotNumber ? ` (lot ${r.lotNumber})` : ""
+                        return `${r.quantity} ${line?.unit || ""} ${line?.materialName || r.materialId}${lot}`
+                      })
+                      .join(", ")}
+                  </span>
+                  <span className="text-xs text-muted-foreground">
+                    {new Date(receipt.receivedAt).toLocaleDateString()} · {receipt.user}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
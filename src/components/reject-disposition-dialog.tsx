@@ -0,0 +1,193 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { PlusCircle, Trash2 } from "lucide-react"
+import type { ProcessingStageName, RejectDisposition, RejectDispositionType } from "@/lib/types"
+import { DISPOSITION_LABELS, SCRAP_REASONS, getDispositionTotal, validateDispositions } from "@/lib/rejects"
+
+interface RejectDispositionDialogProps {
+  isOpen: boolean
+  onOpenChange: (isOpen: boolean) => void
+  title: string
+  rejected: number
+  returnStages: { name: ProcessingStageName; label: string }[]
+  value: RejectDisposition[]
+  onSave: (dispositions: RejectDisposition[]) => void
+}
+
+export function RejectDispositionDialog({
+  isOpen,
+  onOpenChange,
+  title,
+  rejected,
+  returnStages,
+  value,
+  onSave,
+}: RejectDispositionDialogProps) {
+  const [rows, setRows] = useState<RejectDisposition[]>([])
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!isOpen) return
+    setError(null)
+    // Start with everything scrapped so the common case is a single reason pick
+    setRows(value.length > 0 ? value : [{ type: "Scrap", quantity: rejected }])
+  }, [isOpen, value, rejected])
+
+  const updateRow = (index: number, updates: Partial<RejectDisposition>) =>
+    setRows((prev) => prev.map((row, i) => (i === index ? { ...row, ...updates } : row)))
+
+  const handleTypeChange = (index: number, type: RejectDispositionType) =>
+    updateRow(index, {
+      type,
+      reasonCode: type === "Scrap" ? rows[index].reasonCode : undefined,
+      targetStage: type === "Return" ? returnStages[returnStages.length - 1]?.name : undefined,
+    })
+
+  const handleAddRow = () => {
+    const remaining = Math.max(0, rejected - getDispositionTotal(rows))
+    setRows((prev) => [...prev, { type: "Scrap", quantity: remaining }])
+  }
+
+  const handleSave = () => {
+    const message = validateDispositions(rejected, rows, returnStages.map((s) => s.name))
+    if (message) {
+      setError(message)
+      return
+    }
+    onSave(rows)
+    onOpenChange(false)
+  }
+
+  const assigned = getDispositionTotal(rows)
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[820px]">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>
+            Decide what happens to each of the {rejected} rejected units. Rework and returns create a linked batch when
+            the stage is finished.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-[200px]">Disposition</TableHead>
+              <TableHead className="w-[100px]">Quantity</TableHead>
+              <TableHead className="w-[200px]">Reason / Stage</TableHead>
+              <TableHead>Notes</TableHead>
+              <TableHead className="w-[50px]" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map((row, index) => (
+              <TableRow key={index}>
+                <TableCell>
+                  <Select value={row.type} onValueChange={(type) => handleTypeChange(index, type as RejectDispositionType)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(DISPOSITION_LABELS) as RejectDispositionType[])
+                        .filter((type) => type !== "Return" || returnStages.length > 0)
+                        .map((type) => (
+                          <SelectItem key={type} value={type}>
+                            {DISPOSITION_LABELS[type]}
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                </TableCell>
+                <TableCell>
+                  <Input
+                    type="number"
+                    min="0"
+                    step="1"
+                    value={row.quantity}
+                    onChange={(e) => updateRow(index, { quantity: Math.max(0, Number(e.target.value) || 0) })}
+                  />
+                </TableCell>
+                <TableCell>
+                  {row.type === "Scrap" && (
+                    <Select value={row.reasonCode || ""} onValueChange={(reasonCode) => updateRow(index, { reasonCode })}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Reason code" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {SCRAP_REASONS.map((reason) => (
+                          <SelectItem key={reason.code} value={reason.code}>
+                            {reason.code} · {reason.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                  {row.type === "Return" && (
+                    <Select value={row.targetStage || ""} onValueChange={(targetStage) => updateRow(index, { targetStage })}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Return to" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {returnStages.map((stage) => (
+                          <SelectItem key={stage.name} value={stage.name}>
+                            {stage.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                  {row.type === "Rework" && <span className="text-sm text-muted-foreground">Same stage</span>}
+                </TableCell>
+                <TableCell>
+                  <Input
+                    value={row.notes || ""}
+                    placeholder="Optional"
+                    onChange={(e) => updateRow(index, { notes: e.target.value || undefined })}
+                  />
+                </TableCell>
+                <TableCell>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setRows((prev) => prev.filter((_, i) => i !== index))}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <div className="flex items-center justify-between">
+          <Button type="button" variant="outline" size="sm" onClick={handleAddRow} disabled={assigned >= rejected}>
+            <PlusCircle className="mr-2 h-4 w-4" /> Split
+          </Button>
+          <span className={assigned === rejected ? "text-sm text-muted-foreground" : "text-sm font-medium text-destructive"}>
+            Assigned {assigned} of {rejected}
+          </span>
+        </div>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleSave}>
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
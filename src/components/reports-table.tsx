@@ -18,12 +18,7 @@ type ReportRow = {
   status: string
   producedUnits: number
   rawMaterialWastage: Record<string, number> // material name -> wastage amount
-  durations?: {
-    Molding?: number
-    Machining?: number
-    Assembling?: number
-    Testing?: number
-  }
+  durations?: Record<string, number> // Working time per stage label
   batch: Batch // Store full batch for accessing materials
 }
 
@@ -213,7 +208,8 @@ function formatRawMaterialWastage(wastage: Record<string, number>): string {
   return entries.join(" | ")
 }
 
-export default function ReportsTable({ rows }: { rows: ReportRow[] }) {
+// `stageLabels` are the stages given a time column in the CSV export, in order
+export default function ReportsTable({ rows, stageLabels }: { rows: ReportRow[]; stageLabels: string[] }) {
   const [from, setFrom] = useState<string>("")
   const [to, setTo] = useState<string>("")
   const [batchQuery, setBatchQuery] = useState<string>("")
@@ -278,10 +274,7 @@ export default function ReportsTable({ rows }: { rows: ReportRow[] }) {
       "Raw Material Input (per material)",
       "Actual Consumption (per material)",
       "Raw Material Wastage",
-      "Molding Time (HH:MM:SS)",
-      "Machining Time (HH:MM:SS)",
-      "Assembling Time (HH:MM:SS)",
-      "Testing Time (HH:MM:SS)",
+      ...stageLabels.map((label) => `${label.replaceAll(",", " ")} Time (HH:MM:SS)`),
     ]
     const lines = [headers.join(",")]
     for (const r of filtered) {
@@ -304,10 +297,7 @@ export default function ReportsTable({ rows }: { rows: ReportRow[] }) {
         `"${rawInputPerMaterial}"`,
         `"${actualPerMaterial}"`,
         `"${wastageString}"`, // Quote to handle pipe characters in CSV
-        dur.Molding != null ? formatMsToHMS(dur.Molding) : "",
-        dur.Machining != null ? formatMsToHMS(dur.Machining) : "",
-        dur.Assembling != null ? formatMsToHMS(dur.Assembling) : "",
-        dur.Testing != null ? formatMsToHMS(dur.Testing) : "",
+        ...stageLabels.map((label) => (dur[label] != null ? formatMsToHMS(dur[label]) : "")),
       ]
       lines.push(row.join(","))
     }
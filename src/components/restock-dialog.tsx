@@ -29,15 +29,18 @@ const formSchema = z.object({
   quantity: z.coerce.number().min(1, 'Restock quantity must be greater than 0.'),
   companyName: z.string().min(1, 'Company name is required.'),
   restockDate: z.string().min(1, 'Restock date is required.'),
+  lotNumber: z.string().optional(),
+  expiryDate: z.string().optional(),
 });
 
 interface RestockDialogProps {
   isOpen: boolean;
   onOpenChange: (isOpen: boolean) => void;
   material: RawMaterial;
+  trackLots?: boolean; // Ask for the supplier lot number and expiry (raw materials)
   onRestock: (
     material: RawMaterial,
-    data: { quantity: number; companyName: string; restockDate: string },
+    data: { quantity: number; companyName: string; restockDate: string; lotNumber?: string; expiryDate?: string },
   ) => void;
 }
 
@@ -45,6 +48,7 @@ export function RestockDialog({
   isOpen,
   onOpenChange,
   material,
+  trackLots = false,
   onRestock,
 }: RestockDialogProps) {
   const form = useForm<z.infer<typeof formSchema>>({
@@ -53,6 +57,8 @@ export function RestockDialog({
       quantity: 1,
       companyName: '',
       restockDate: new Date().toISOString().slice(0, 10),
+      lotNumber: '',
+      expiryDate: '',
     },
   });
 
@@ -68,13 +74,15 @@ export function RestockDialog({
       quantity: values.quantity,
       companyName: values.companyName,
       restockDate: values.restockDate,
+      ...(trackLots && values.lotNumber?.trim() ? { lotNumber: values.lotNumber.trim() } : {}),
+      ...(trackLots && values.expiryDate ? { expiryDate: values.expiryDate } : {}),
     });
     handleOpenChange(false);
   }
 
   return (
     <Dialog open={isOpen} onOpenChange={handleOpenChange}>
-      <DialogContent className="sm:max-w-[425px]">
+      <DialogContent className="sm:max-w-[425px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Restock {material.name}</DialogTitle>
           <DialogDescription>
@@ -122,6 +130,36 @@ export function RestockDialog({
                 </FormItem>
               )}
             />
+            {trackLots && (
+              <>
+                <FormField
+                  control={form.control}
+                  name="lotNumber"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Lot / Heat Number</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Supplier lot number (optional)" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="expiryDate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Expiry Date</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </>
+            )}
             <DialogFooter>
               <Button type="submit">Add Stock</Button>
             </DialogFooter>
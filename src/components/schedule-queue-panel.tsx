@@ -0,0 +1,111 @@
+"use client"
+
+import Link from "next/link"
+import { format, isSameDay } from "date-fns"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { useScheduleSlots } from "@/hooks/use-schedule-slots"
+import { useBatches } from "@/hooks/use-batches"
+import type { Batch, ProcessingStageName, ScheduleSlot } from "@/lib/types"
+import { getDayQueue } from "@/lib/scheduling"
+
+interface ScheduleQueuePanelProps {
+  stage: ProcessingStageName
+  stageLabel: string
+  batches: Batch[] // Batches waiting at the stage
+}
+
+type QueueStatus = "Done" | "In Progress" | "Ready" | "Not Arrived" | "On Hold"
+
+const STATUS_VARIANTS: Record<QueueStatus, "default" | "secondary" | "outline" | "destructive"> = {
+  Done: "secondary",
+  "In Progress": "default",
+  Ready: "outline",
+  "Not Arrived": "outline",
+  "On Hold": "destructive",
+}
+
+// Shows the date as well when a slot runs into another day
+function formatSlotTime(iso: string, today: Date): string {
+  const time = new Date(iso)
+  return format(time, isSameDay(time, today) ? "HH:mm" : "dd/MM HH:mm")
+}
+
+/**
+ * Today's scheduled queue of a stage, in the order the slots start.
+ */
+export function ScheduleQueuePanel({ stage, stageLabel, batches }: ScheduleQueuePanelProps) {
+  const { scheduleSlots } = useScheduleSlots()
+  const { batches: allBatches } = useBatches()
+  const today = new Date()
+  const queue = getDayQueue(scheduleSlots, stage, today)
+
+  const getStatus = (slot: ScheduleSlot): QueueStatus => {
+    const batch = allBatches.find((b) => b.id === slot.batchId)
+    const data = batch?.processingStages?.[stage]
+    if (!batch || data?.completed) return "Done"
+    if (batch.status === "On Hold") return "On Hold"
+    if (data?.startedAt) return "In Progress"
+    return batches.some((b) => b.id === slot.batchId) ? "Ready" : "Not Arrived"
+  }
+
+  return (
+    <Card className="mb-4">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0 pb-2">
+        <div className="space-y-1.5">
+          <CardTitle className="text-base">Today&apos;s Schedule</CardTitle>
+          <CardDescription>Batches scheduled on {stageLabel} workstations today, in sequence.</CardDescription>
+        </div>
+        <Button asChild variant="outline" size="sm">
+          <Link href="/batches/schedule">Scheduling Board</Link>
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {queue.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nothing scheduled for today.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-[40px]">#</TableHead>
+                <TableHead>Time</TableHead>
+                <TableHead>Workstation</TableHead>
+                <TableHead>Batch</TableHead>
+                <TableHead>Product</TableHead>
+                <TableHead className="text-right">Qty</TableHead>
+                <TableHead>Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {queue.map((slot, index) => {
+                const status = getStatus(slot)
+                const isLate =
+                  (status === "Ready" || status === "Not Arrived") && Date.parse(slot.start) < today.getTime()
+                return (
+                  <TableRow key={slot.id}>
+                    <TableCell className="text-muted-foreground">{index + 1}</TableCell>
+                    <TableCell className="font-mono text-xs">
+                      {formatSlotTime(slot.start, today)}–{formatSlotTime(slot.end, today)}
+                    </TableCell>
+                    <TableCell>{slot.workstationName}</TableCell>
+                    <TableCell className="font-mono text-xs">{slot.displayBatchId}</TableCell>
+                    <TableCell>{slot.productName}</TableCell>
+                    <TableCell className="text-right">{slot.quantity.toLocaleString()}</TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <Badge variant={STATUS_VARIANTS[status]}>{status}</Badge>
+                        {isLate && <span className="text-xs font-medium text-amber-600">Late</span>}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                )
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
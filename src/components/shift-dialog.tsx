@@ -0,0 +1,214 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Trash2, PlusCircle } from "lucide-react"
+import type { Shift, ShiftBreak } from "@/lib/types"
+import { WEEKDAYS, findOverlappingShift } from "@/lib/shifts"
+
+export type ShiftValues = Omit<Shift, "id" | "createdAt">
+
+interface ShiftDialogProps {
+  isOpen: boolean
+  onOpenChange: (isOpen: boolean) => void
+  shift: Shift | null // null when adding a shift
+  existing: Shift[]
+  onSave: (values: ShiftValues) => Promise<boolean>
+}
+
+const emptyValues = (): ShiftValues => ({
+  name: "",
+  start: "06:00",
+  end: "14:00",
+  days: [1, 2, 3, 4, 5],
+  breaks: [],
+})
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/
+
+// Minutes from the start of the shift, wrapping past midnight
+function minutesIntoShift(time: string, shiftStart: string): number {
+  const toMinutes = (hhmm: string) => {
+    const [h, m] = hhmm.split(":").map(Number)
+    return h * 60 + m
+  }
+  return (toMinutes(time) - toMinutes(shiftStart) + 1440) % 1440
+}
+
+export function ShiftDialog({ isOpen, onOpenChange, shift, existing, onSave }: ShiftDialogProps) {
+  const [values, setValues] = useState<ShiftValues>(emptyValues())
+  const [error, setError] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  useEffect(() => {
+    if (!isOpen) return
+    setError(null)
+    setValues(
+      shift
+        ? {
+            name: shift.name,
+            start: shift.start,
+            end: shift.end,
+            days: shift.days || [0, 1, 2, 3, 4, 5, 6],
+            breaks: shift.breaks || [],
+          }
+        : emptyValues(),
+    )
+  }, [isOpen, shift])
+
+  const set = <K extends keyof ShiftValues>(key: K, value: ShiftValues[K]) =>
+    setValues((prev) => ({ ...prev, [key]: value }))
+
+  const days = values.days || []
+  const breaks = values.breaks || []
+
+  const toggleDay = (day: number, checked: boolean) =>
+    set("days", checked ? [...days, day].sort() : days.filter((d) => d !== day))
+
+  const updateBreak = (index: number, updates: Partial<ShiftBreak>) =>
+    set(
+      "breaks",
+      breaks.map((b, i) => (i === index ? { ...b, ...updates } : b)),
+    )
+
+  const validate = (): string | null => {
+    if (!values.name.trim()) return "Name is required."
+    if (!TIME_PATTERN.test(values.start) || !TIME_PATTERN.test(values.end)) return "Enter start and end times as HH:mm."
+    if (values.start === values.end) return "The shift must end at a different time than it starts."
+    if (days.length === 0) return "Select at least one day the shift runs."
+    const length = minutesIntoShift(values.end, values.start)
+    for (const b of breaks) {
+      if (!b.name.trim()) return "Every break needs a name."
+      if (!TIME_PATTERN.test(b.start) || !TIME_PATTERN.test(b.end)) return `Enter the times of ${b.name} as HH:mm.`
+      const breakStart = minutesIntoShift(b.start, values.start)
+      const breakEnd = minutesIntoShift(b.end, values.start)
+      if (breakEnd <= breakStart || breakEnd > length) return `${b.name} must fall within the shift.`
+    }
+    const clash = findOverlappingShift(
+      { id: shift?.id || "new", ...values },
+      existing.filter((s) => s.id !== shift?.id),
+    )
+    if (clash) return `The shift overlaps ${clash.name} (${clash.start}–${clash.end}).`
+    return null
+  }
+
+  const handleSubmit = async () => {
+    const message = validate()
+    if (message) {
+      setError(message)
+      return
+    }
+    setIsSubmitting(true)
+    const ok = await onSave({
+      ...values,
+      name: values.name.trim(),
+      breaks: breaks.map((b) => ({ ...b, name: b.name.trim() })),
+    })
+    setIsSubmitting(false)
+    if (ok) onOpenChange(false)
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>{shift ? `Edit ${shift.name}` : "Add Shift"}</DialogTitle>
+          <DialogDescription>
+            Cycle times, lead times, OEE and scheduling count only the time inside shifts, less their planned breaks.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-3 gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="shift-name">Name</Label>
+            <Input
+              id="shift-name"
+              value={values.name}
+              onChange={(e) => set("name", e.target.value)}
+              placeholder="e.g. Day"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="shift-start">Starts</Label>
+            <Input id="shift-start" type="time" value={values.start} onChange={(e) => set("start", e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="shift-end">Ends</Label>
+            <Input id="shift-end" type="time" value={values.end} onChange={(e) => set("end", e.target.value)} />
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground">A shift ending before it starts runs past midnight.</p>
+
+        <div className="space-y-2">
+          <Label>Days</Label>
+          <div className="flex flex-wrap gap-4">
+            {WEEKDAYS.map((label, day) => (
+              <label key={label} className="flex items-center gap-2 text-sm">
+                <Checkbox checked={days.includes(day)} onCheckedChange={(checked) => toggleDay(day, !!checked)} />
+                {label}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label>Planned Breaks</Label>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => set("breaks", [...breaks, { name: "Break", start: values.start, end: values.start }])}
+            >
+              <PlusCircle className="mr-2 h-4 w-4" /> Add Break
+            </Button>
+          </div>
+          {breaks.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No planned breaks.</p>
+          ) : (
+            breaks.map((b, index) => (
+              <div key={index} className="grid grid-cols-[1fr_auto_auto_auto] items-center gap-2">
+                <Input value={b.name} onChange={(e) => updateBreak(index, { name: e.target.value })} aria-label="Break name" />
+                <Input
+                  type="time"
+                  value={b.start}
+                  onChange={(e) => updateBreak(index, { start: e.target.value })}
+                  aria-label="Break start"
+                />
+                <Input
+                  type="time"
+                  value={b.end}
+                  onChange={(e) => updateBreak(index, { end: e.target.value })}
+                  aria-label="Break end"
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => set("breaks", breaks.filter((_, i) => i !== index))}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleSubmit} disabled={isSubmitting}>
+            {isSubmitting ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
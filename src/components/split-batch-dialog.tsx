@@ -0,0 +1,89 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import type { Batch, ProcessingStageName } from "@/lib/types"
+import { getAvailableUnits, getSplitBatchId, validateSplit } from "@/lib/batch-transfers"
+
+interface SplitBatchDialogProps {
+  isOpen: boolean
+  onOpenChange: (isOpen: boolean) => void
+  batch: Batch
+  stage: ProcessingStageName
+  stageLabel: string
+  onSplit: (quantity: number) => Promise<void>
+}
+
+export function SplitBatchDialog({ isOpen, onOpenChange, batch, stage, stageLabel, onSplit }: SplitBatchDialogProps) {
+  const available = getAvailableUnits(batch, stage)
+  const [quantity, setQuantity] = useState(0)
+  const [error, setError] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    if (!isOpen) return
+    setError(null)
+    setQuantity(Math.floor(available / 2))
+  }, [isOpen, available])
+
+  const handleSplit = async () => {
+    const validation = validateSplit(batch, stage, quantity)
+    if (!validation.isValid) {
+      setError(validation.reason || "Invalid quantity")
+      return
+    }
+    setIsSaving(true)
+    try {
+      await onSplit(quantity)
+      onOpenChange(false)
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to split the batch")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[440px]">
+        <DialogHeader>
+          <DialogTitle>Split Batch · {batch.batchId}</DialogTitle>
+          <DialogDescription>
+            Move some of the {available} units waiting for {stageLabel} into batch {getSplitBatchId(batch)}. It takes
+            its share of the materials for {stageLabel} onward; the rest stay on this batch.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="split-quantity">Units to split off</Label>
+          <Input
+            id="split-quantity"
+            type="number"
+            min="1"
+            max={available - 1}
+            step="1"
+            value={quantity}
+            onChange={(e) => setQuantity(Math.max(0, Math.floor(Number(e.target.value) || 0)))}
+          />
+          <p className="text-sm text-muted-foreground">
+            {batch.batchId} keeps {Math.max(0, available - quantity)} units.
+          </p>
+        </div>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleSplit} disabled={isSaving}>
+            {isSaving ? "Splitting..." : "Split"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,250 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Checkbox } from "@/components/ui/checkbox"
+import { PlusCircle, Trash2 } from "lucide-react"
+import type { DefectCode, ProcessDefinition } from "@/lib/types"
+
+export type StageDefinitionValues = Omit<ProcessDefinition, "id" | "builtIn" | "createdAt">
+
+interface StageDefinitionDialogProps {
+  isOpen: boolean
+  onOpenChange: (isOpen: boolean) => void
+  definition: ProcessDefinition | null // null when adding a stage
+  existing: ProcessDefinition[]
+  onSave: (values: StageDefinitionValues) => Promise<boolean>
+}
+
+const emptyValues = (order: number): StageDefinitionValues => ({
+  name: "",
+  label: "",
+  code: "",
+  order,
+  description: "",
+  producesStoreItem: true,
+  storePrefix: "",
+  hasRejects: true,
+  defectCodes: [],
+})
+
+export function StageDefinitionDialog({ isOpen, onOpenChange, definition, existing, onSave }: StageDefinitionDialogProps) {
+  const [values, setValues] = useState<StageDefinitionValues>(emptyValues(0))
+  const [error, setError] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const isBuiltIn = !!definition?.builtIn
+
+  useEffect(() => {
+    if (!isOpen) return
+    setError(null)
+    setValues(
+      definition
+        ? {
+            name: definition.name,
+            label: definition.label,
+            code: definition.code,
+            order: definition.order,
+            description: definition.description || "",
+            producesStoreItem: definition.producesStoreItem,
+            storePrefix: definition.storePrefix || "",
+            hasRejects: definition.hasRejects,
+            defectCodes: definition.defectCodes || [],
+          }
+        : emptyValues(Math.max(0, ...existing.map((d) => d.order)) + 10),
+    )
+  }, [isOpen, definition, existing])
+
+  const set = <K extends keyof StageDefinitionValues>(key: K, value: StageDefinitionValues[K]) =>
+    setValues((prev) => ({ ...prev, [key]: value }))
+
+  const defectCodes = values.defectCodes || []
+
+  const updateDefect = (index: number, updates: Partial<DefectCode>) =>
+    set("defectCodes", defectCodes.map((d, i) => (i === index ? { ...d, ...updates } : d)))
+
+  const validate = (): string | null => {
+    const name = values.name.trim()
+    const code = values.code.trim().toUpperCase()
+    if (!name) return "Stage name is required."
+    if (!/^[A-Z0-9]{2,4}$/.test(code)) return "Code must be 2-4 letters or digits."
+    if (!Number.isFinite(values.order)) return "Order must be a number."
+    const others = existing.filter((d) => d.id !== definition?.id)
+    if (others.some((d) => d.name.toLowerCase() === name.toLowerCase())) return `A stage named ${name} already exists.`
+    if (others.some((d) => d.code.toUpperCase() === code)) return `Code ${code} is already used by another stage.`
+    const seen = new Set<string>()
+    for (const defect of defectCodes) {
+      const defectCode = defect.code.trim().toUpperCase()
+      if (!/^[A-Z0-9]{2,4}$/.test(defectCode)) return "Defect codes must be 2-4 letters or digits."
+      if (!defect.label.trim()) return `Defect ${defectCode} needs a description.`
+      if (seen.has(defectCode)) return `Defect code ${defectCode} is listed twice.`
+      seen.add(defectCode)
+    }
+    return null
+  }
+
+  const handleSubmit = async () => {
+    const message = validate()
+    if (message) {
+      setError(message)
+      return
+    }
+    setIsSubmitting(true)
+    const ok = await onSave({
+      ...values,
+      name: values.name.trim(),
+      label: values.label.trim() || values.name.trim(),
+      code: values.code.trim().toUpperCase(),
+      description: values.description?.trim() || undefined,
+      storePrefix: values.producesStoreItem ? values.storePrefix?.trim() || undefined : undefined,
+      defectCodes: values.hasRejects
+        ? defectCodes.map((d) => ({ code: d.code.trim().toUpperCase(), label: d.label.trim() }))
+        : [],
+    })
+    setIsSubmitting(false)
+    if (ok) onOpenChange(false)
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[520px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{definition ? `Edit ${definition.label}` : "Add Stage"}</DialogTitle>
+          <DialogDescription>
+            {isBuiltIn
+              ? "Built-in stages can be relabelled and given their own defect codes; their order and Store behaviour are fixed."
+              : "Stages run in ascending order. The name is stored on batches and cannot be changed later."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="stage-name">Name</Label>
+            <Input
+              id="stage-name"
+              value={values.name}
+              disabled={!!definition}
+              onChange={(e) => set("name", e.target.value)}
+              placeholder="e.g. Painting"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="stage-label">Display Label</Label>
+            <Input id="stage-label" value={values.label} onChange={(e) => set("label", e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="stage-code">Batch Code</Label>
+            <Input
+              id="stage-code"
+              value={values.code}
+              maxLength={4}
+              onChange={(e) => set("code", e.target.value.toUpperCase())}
+              placeholder="e.g. PNT"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="stage-order">Order</Label>
+            <Input
+              id="stage-order"
+              type="number"
+              step="1"
+              value={values.order}
+              disabled={isBuiltIn}
+              onChange={(e) => set("order", Number(e.target.value))}
+            />
+          </div>
+          <div className="col-span-2 space-y-1">
+            <Label htmlFor="stage-description">Description</Label>
+            <Textarea
+              id="stage-description"
+              value={values.description || ""}
+              onChange={(e) => set("description", e.target.value)}
+            />
+          </div>
+          <label className="col-span-2 flex items-center gap-2 text-sm">
+            <Checkbox
+              checked={values.producesStoreItem}
+              disabled={isBuiltIn}
+              onCheckedChange={(checked) => set("producesStoreItem", !!checked)}
+            />
+            Produces a Store intermediate when it is not the product&apos;s last stage
+          </label>
+          {values.producesStoreItem && (
+            <div className="col-span-2 space-y-1">
+              <Label htmlFor="stage-prefix">Store Item Prefix</Label>
+              <Input
+                id="stage-prefix"
+                value={values.storePrefix || ""}
+                disabled={isBuiltIn}
+                onChange={(e) => set("storePrefix", e.target.value)}
+                placeholder="e.g. Painted (defaults to the label)"
+              />
+            </div>
+          )}
+          <label className="col-span-2 flex items-center gap-2 text-sm">
+            <Checkbox
+              checked={values.hasRejects}
+              disabled={isBuiltIn}
+              onCheckedChange={(checked) => set("hasRejects", !!checked)}
+            />
+            Records rejected units, each needing a scrap, rework or return disposition
+          </label>
+          {values.hasRejects && (
+            <div className="col-span-2 space-y-2">
+              <Label>Defect Codes</Label>
+              <p className="text-xs text-muted-foreground">
+                Rejected units are classified against these codes. Leave empty to record rejects without a breakdown.
+              </p>
+              {defectCodes.map((defect, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <Input
+                    className="w-24"
+                    value={defect.code}
+                    maxLength={4}
+                    onChange={(e) => updateDefect(index, { code: e.target.value.toUpperCase() })}
+                    placeholder="Code"
+                  />
+                  <Input
+                    value={defect.label}
+                    onChange={(e) => updateDefect(index, { label: e.target.value })}
+                    placeholder="e.g. Short shot"
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => set("defectCodes", defectCodes.filter((_, i) => i !== index))}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => set("defectCodes", [...defectCodes, { code: "", label: "" }])}
+              >
+                <PlusCircle className="mr-2 h-4 w-4" /> Add Defect Code
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={isSubmitting}>
+            {isSubmitting ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
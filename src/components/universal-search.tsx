@@ -116,13 +116,13 @@ export function UniversalSearch({ className }: UniversalSearchProps) {
       if (
         order.orderId.toLowerCase().includes(lowerQuery) ||
         (order.name?.toLowerCase() || "").includes(lowerQuery) ||
-        (order.productName?.toLowerCase() || "").includes(lowerQuery) ||
+        (order.lines || []).some((line) => line.productName?.toLowerCase().includes(lowerQuery)) ||
         order.orderType.toLowerCase().includes(lowerQuery)
       ) {
         results.push({
           id: `order-${order.id}`,
           title: order.orderId,
-          subtitle: `${order.productName} | Type: ${order.orderType}`,
+          subtitle: `${(order.lines || []).map((line) => line.productName).join(", ")} | Type: ${order.orderType}`,
           type: "order",
           href: "/orders",
           icon: ShoppingCart,
@@ -0,0 +1,172 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import type { ProcessDefinition, Workstation } from "@/lib/types"
+import { WORKSTATION_TYPES } from "@/lib/workstations"
+
+export type WorkstationValues = Omit<Workstation, "id" | "createdAt">
+
+interface WorkstationDialogProps {
+  isOpen: boolean
+  onOpenChange: (isOpen: boolean) => void
+  workstation: Workstation | null // null when adding a workstation
+  existing: Workstation[]
+  stages: ProcessDefinition[]
+  onSave: (values: WorkstationValues) => Promise<boolean>
+}
+
+const emptyValues = (): WorkstationValues => ({
+  code: "",
+  name: "",
+  type: "Injection Moulding Machine",
+  stage: "Molding",
+  capacityPerHour: 0,
+  active: true,
+})
+
+export function WorkstationDialog({ isOpen, onOpenChange, workstation, existing, stages, onSave }: WorkstationDialogProps) {
+  const [values, setValues] = useState<WorkstationValues>(emptyValues())
+  const [error, setError] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  useEffect(() => {
+    if (!isOpen) return
+    setError(null)
+    setValues(
+      workstation
+        ? {
+            code: workstation.code,
+            name: workstation.name,
+            type: workstation.type,
+            stage: workstation.stage,
+            capacityPerHour: workstation.capacityPerHour,
+            active: workstation.active,
+          }
+        : emptyValues(),
+    )
+  }, [isOpen, workstation])
+
+  const set = <K extends keyof WorkstationValues>(key: K, value: WorkstationValues[K]) =>
+    setValues((prev) => ({ ...prev, [key]: value }))
+
+  const validate = (): string | null => {
+    const code = values.code.trim().toUpperCase()
+    if (!code) return "Code is required."
+    if (!values.name.trim()) return "Name is required."
+    if (!Number.isFinite(values.capacityPerHour) || values.capacityPerHour <= 0) {
+      return "Capacity must be more than 0 units per hour."
+    }
+    const others = existing.filter((w) => w.id !== workstation?.id)
+    if (others.some((w) => w.code.toUpperCase() === code)) return `Code ${code} is already used by another workstation.`
+    return null
+  }
+
+  const handleSubmit = async () => {
+    const message = validate()
+    if (message) {
+      setError(message)
+      return
+    }
+    setIsSubmitting(true)
+    const ok = await onSave({ ...values, code: values.code.trim().toUpperCase(), name: values.name.trim() })
+    setIsSubmitting(false)
+    if (ok) onOpenChange(false)
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle>{workstation ? `Edit ${workstation.code}` : "Add Workstation"}</DialogTitle>
+          <DialogDescription>
+            Machines, cells and benches are chosen on the stage page when a batch is run, so output and rejects can be
+            reported per machine.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="workstation-code">Code</Label>
+            <Input
+              id="workstation-code"
+              value={values.code}
+              onChange={(e) => set("code", e.target.value.toUpperCase())}
+              placeholder="e.g. IMM-03"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="workstation-name">Name</Label>
+            <Input
+              id="workstation-name"
+              value={values.name}
+              onChange={(e) => set("name", e.target.value)}
+              placeholder="e.g. Engel 150t"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label>Type</Label>
+            <Select value={values.type} onValueChange={(value) => set("type", value as WorkstationValues["type"])}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {WORKSTATION_TYPES.map((type) => (
+                  <SelectItem key={type} value={type}>
+                    {type}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Stage</Label>
+            <Select value={values.stage} onValueChange={(value) => set("stage", value)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {stages.map((stage) => (
+                  <SelectItem key={stage.name} value={stage.name}>
+                    {stage.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="workstation-capacity">Capacity (units / hour)</Label>
+            <Input
+              id="workstation-capacity"
+              type="number"
+              min="0"
+              step="any"
+              value={values.capacityPerHour}
+              onChange={(e) => set("capacityPerHour", Math.max(0, Number(e.target.value) || 0))}
+            />
+          </div>
+          <label className="flex items-center gap-2 self-end pb-2 text-sm">
+            <Checkbox checked={values.active} onCheckedChange={(checked) => set("active", !!checked)} />
+            Active
+          </label>
+        </div>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleSubmit} disabled={isSubmitting}>
+            {isSubmitting ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,40 @@
+"use client"
+
+import { useFirestoreCollection } from "./use-firestore-collection"
+import {
+  addDowntimeEvent,
+  updateDowntimeEvent,
+  deleteDowntimeEvent,
+  COLLECTIONS,
+} from "@/lib/firebase/firestore-operations"
+import type { DowntimeEvent } from "@/lib/types"
+import { orderBy } from "firebase/firestore"
+
+export function useDowntimeEvents() {
+  const {
+    data: downtimeEvents,
+    loading,
+    error,
+  } = useFirestoreCollection<DowntimeEvent>(COLLECTIONS.DOWNTIME_EVENTS, orderBy("startedAt", "desc"))
+
+  const createDowntimeEvent = async (event: Omit<DowntimeEvent, "id" | "createdAt">) => {
+    return await addDowntimeEvent(event)
+  }
+
+  const updateDowntimeEventData = async (id: string, updates: Partial<DowntimeEvent>) => {
+    await updateDowntimeEvent(id, updates)
+  }
+
+  const deleteDowntimeEventData = async (id: string) => {
+    await deleteDowntimeEvent(id)
+  }
+
+  return {
+    downtimeEvents,
+    loading,
+    error,
+    createDowntimeEvent,
+    updateDowntimeEvent: updateDowntimeEventData,
+    deleteDowntimeEvent: deleteDowntimeEventData,
+  }
+}
@@ -4,8 +4,8 @@ import { useEffect, useState } from "react"
 import { onAuthStateChanged } from "firebase/auth"
 import { getFirebaseAuth } from "@/lib/firebase-client"
 import { getEmployeeByUid } from "@/lib/firebase/firestore-operations"
-import { canViewModule, canEditModule } from "@/lib/permissions"
-import type { Employee, Role, AppModule } from "@/lib/types"
+import { canViewModule, canEditModule, canEditProcessingStage } from "@/lib/permissions"
+import type { Employee, Role, AppModule, ProcessingStageName } from "@/lib/types"
 
 export function usePermissions() {
   const [employee, setEmployee] = useState<Employee | null>(null)
@@ -47,6 +47,11 @@ export function usePermissions() {
     return canEditModule(employee.role, module)
   }
 
+  const canEditStage = (stage: ProcessingStageName): boolean => {
+    if (!employee) return false
+    return canEditProcessingStage(employee.role, stage, employee.stages)
+  }
+
   const hasRole = (role: Role): boolean => {
     if (!employee) return false
     return employee.role === role
@@ -62,6 +67,7 @@ export function usePermissions() {
     error,
     canView,
     canEdit,
+    canEditStage,
     hasRole,
     isAdmin,
   }
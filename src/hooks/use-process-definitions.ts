@@ -0,0 +1,40 @@
+"use client"
+
+import { useMemo } from "react"
+import { useFirestoreCollection } from "./use-firestore-collection"
+import {
+  addProcessDefinition,
+  updateProcessDefinition,
+  deleteProcessDefinition,
+  COLLECTIONS,
+} from "@/lib/firebase/firestore-operations"
+import { mergeProcessDefinitions } from "@/lib/stages"
+import type { ProcessDefinition } from "@/lib/types"
+
+export function useProcessDefinitions() {
+  const { data, loading, error } = useFirestoreCollection<ProcessDefinition>(COLLECTIONS.PROCESS_DEFINITIONS)
+
+  // Built-in stages are always present, in order, with configured stages slotted in
+  const processDefinitions = useMemo(() => mergeProcessDefinitions(data), [data])
+
+  const createProcessDefinition = async (definition: Omit<ProcessDefinition, "id">) => {
+    return await addProcessDefinition(definition)
+  }
+
+  const updateProcessDefinitionData = async (id: string, updates: Partial<ProcessDefinition>) => {
+    await updateProcessDefinition(id, updates)
+  }
+
+  const deleteProcessDefinitionData = async (id: string) => {
+    await deleteProcessDefinition(id)
+  }
+
+  return {
+    processDefinitions,
+    loading,
+    error,
+    createProcessDefinition,
+    updateProcessDefinition: updateProcessDefinitionData,
+    deleteProcessDefinition: deleteProcessDefinitionData,
+  }
+}
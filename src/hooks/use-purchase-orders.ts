@@ -0,0 +1,59 @@
+"use client"
+
+import { useFirestoreCollection } from "./use-firestore-collection"
+import {
+  addPurchaseOrder,
+  updatePurchaseOrder,
+  deletePurchaseOrder,
+  COLLECTIONS,
+} from "@/lib/firebase/firestore-operations"
+import {
+  cancelPurchaseOrder,
+  issuePurchaseOrder,
+  receivePurchaseOrder,
+  type ReceivePurchaseOrderInput,
+} from "@/lib/firebase/purchase-operations"
+import type { PurchaseOrder } from "@/lib/types"
+
+export function usePurchaseOrders() {
+  const { data: purchaseOrders, loading, error } = useFirestoreCollection<PurchaseOrder>(COLLECTIONS.PURCHASE_ORDERS)
+
+  const createPurchaseOrder = async (
+    purchaseOrder: Omit<PurchaseOrder, "id" | "poNumber" | "status" | "createdAt">,
+    status?: "Draft" | "Open",
+  ) => {
+    return await addPurchaseOrder(purchaseOrder, status)
+  }
+
+  const updatePurchaseOrderData = async (id: string, updates: Partial<PurchaseOrder>) => {
+    await updatePurchaseOrder(id, updates)
+  }
+
+  const deletePurchaseOrderData = async (id: string) => {
+    await deletePurchaseOrder(id)
+  }
+
+  const receive = async (input: ReceivePurchaseOrderInput) => {
+    await receivePurchaseOrder(input)
+  }
+
+  const issue = async (id: string, user?: string) => {
+    await issuePurchaseOrder(id, user)
+  }
+
+  const cancel = async (id: string, user?: string) => {
+    await cancelPurchaseOrder(id, user)
+  }
+
+  return {
+    purchaseOrders,
+    loading,
+    error,
+    createPurchaseOrder,
+    updatePurchaseOrder: updatePurchaseOrderData,
+    deletePurchaseOrder: deletePurchaseOrderData,
+    receivePurchaseOrder: receive,
+    issuePurchaseOrder: issue,
+    cancelPurchaseOrder: cancel,
+  }
+}
@@ -10,7 +10,7 @@ export function useRawMaterials() {
 
   // Separate regular, moulded, and finished materials
   const regularMaterials = useMemo(() => 
-    rawMaterials.filter(m => m.isMoulded !== true && m.isFinished !== true && m.isAssembled !== true),
+    rawMaterials.filter(m => m.isMoulded !== true && m.isFinished !== true && m.isAssembled !== true && !m.stageOutput),
     [rawMaterials]
   )
 
@@ -29,6 +29,12 @@ export function useRawMaterials() {
     [rawMaterials]
   )
 
+  // Store intermediates of stages configured in Setup
+  const stageMaterials = useMemo(() =>
+    rawMaterials.filter(m => !!m.stageOutput),
+    [rawMaterials]
+  )
+
   const createRawMaterial = async (material: Omit<RawMaterial, "id">) => {
     return await addRawMaterial(material)
   }
@@ -47,6 +53,7 @@ export function useRawMaterials() {
     mouldedMaterials,
     finishedMaterials,
     assembledMaterials,
+    stageMaterials,
     loading,
     error,
     createRawMaterial,
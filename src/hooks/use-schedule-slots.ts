@@ -0,0 +1,23 @@
+"use client"
+
+import { useFirestoreCollection } from "./use-firestore-collection"
+import { COLLECTIONS } from "@/lib/firebase/firestore-operations"
+import { scheduleBatch, unscheduleSlot } from "@/lib/firebase/schedule-operations"
+import type { ScheduleSlot } from "@/lib/types"
+import { orderBy } from "firebase/firestore"
+
+export function useScheduleSlots() {
+  const {
+    data: scheduleSlots,
+    loading,
+    error,
+  } = useFirestoreCollection<ScheduleSlot>(COLLECTIONS.SCHEDULE_SLOTS, orderBy("start"))
+
+  return {
+    scheduleSlots,
+    loading,
+    error,
+    scheduleBatch,
+    unscheduleSlot,
+  }
+}
@@ -0,0 +1,20 @@
+"use client"
+
+import { useFirestoreCollection } from "./use-firestore-collection"
+import { COLLECTIONS } from "@/lib/firebase/firestore-operations"
+import type { ScrapRecord } from "@/lib/types"
+import { orderBy } from "firebase/firestore"
+
+export function useScrapRecords() {
+  const {
+    data: scrapRecords,
+    loading,
+    error,
+  } = useFirestoreCollection<ScrapRecord>(COLLECTIONS.SCRAP_RECORDS, orderBy("createdAt", "desc"))
+
+  return {
+    scrapRecords,
+    loading,
+    error,
+  }
+}
@@ -0,0 +1,62 @@
+"use client"
+
+import { useMemo } from "react"
+import { useFirestoreCollection } from "./use-firestore-collection"
+import {
+  addShift,
+  updateShift,
+  deleteShift,
+  addHoliday,
+  deleteHoliday,
+  COLLECTIONS,
+} from "@/lib/firebase/firestore-operations"
+import type { Holiday, Shift, ShiftCalendar } from "@/lib/types"
+import { DEFAULT_SHIFTS } from "@/lib/shifts"
+import { orderBy } from "firebase/firestore"
+
+/**
+ * Shifts and holidays configured in Setup. `calendar` falls back to the
+ * default round-the-clock shifts until any shift is configured.
+ */
+export function useShiftCalendar() {
+  const { data: shifts, loading: shiftsLoading, error } = useFirestoreCollection<Shift>(COLLECTIONS.SHIFTS, orderBy("start"))
+  const { data: holidays, loading: holidaysLoading } = useFirestoreCollection<Holiday>(COLLECTIONS.HOLIDAYS, orderBy("date"))
+
+  const calendar = useMemo<ShiftCalendar>(
+    () => ({ shifts: shifts.length > 0 ? shifts : DEFAULT_SHIFTS, holidays }),
+    [shifts, holidays],
+  )
+
+  const createShift = async (shift: Omit<Shift, "id">) => {
+    return await addShift(shift)
+  }
+
+  const updateShiftData = async (id: string, updates: Partial<Shift>) => {
+    await updateShift(id, updates)
+  }
+
+  const deleteShiftData = async (id: string) => {
+    await deleteShift(id)
+  }
+
+  const createHoliday = async (holiday: Omit<Holiday, "id">) => {
+    return await addHoliday(holiday)
+  }
+
+  const deleteHolidayData = async (id: string) => {
+    await deleteHoliday(id)
+  }
+
+  return {
+    shifts,
+    holidays,
+    calendar,
+    loading: shiftsLoading || holidaysLoading,
+    error,
+    createShift,
+    updateShift: updateShiftData,
+    deleteShift: deleteShiftData,
+    createHoliday,
+    deleteHoliday: deleteHolidayData,
+  }
+}
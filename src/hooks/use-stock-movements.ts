@@ -0,0 +1,25 @@
+"use client"
+
+import { useFirestoreCollection } from "./use-firestore-collection"
+import { addStockMovement, COLLECTIONS } from "@/lib/firebase/firestore-operations"
+import type { StockMovement } from "@/lib/types"
+import { orderBy } from "firebase/firestore"
+
+export function useStockMovements() {
+  const {
+    data: stockMovements,
+    loading,
+    error,
+  } = useFirestoreCollection<StockMovement>(COLLECTIONS.STOCK_MOVEMENTS, orderBy("timestamp", "desc"))
+
+  const createStockMovement = async (movement: Omit<StockMovement, "id">) => {
+    return await addStockMovement(movement)
+  }
+
+  return {
+    stockMovements,
+    loading,
+    error,
+    createStockMovement,
+  }
+}
@@ -0,0 +1,30 @@
+"use client"
+
+import { useFirestoreCollection } from "./use-firestore-collection"
+import { addSupplier, updateSupplier, deleteSupplier, COLLECTIONS } from "@/lib/firebase/firestore-operations"
+import type { Supplier } from "@/lib/types"
+
+export function useSuppliers() {
+  const { data: suppliers, loading, error } = useFirestoreCollection<Supplier>(COLLECTIONS.SUPPLIERS)
+
+  const createSupplier = async (supplier: Omit<Supplier, "id">) => {
+    return await addSupplier(supplier)
+  }
+
+  const updateSupplierData = async (id: string, updates: Partial<Supplier>) => {
+    await updateSupplier(id, updates)
+  }
+
+  const deleteSupplierData = async (id: string) => {
+    await deleteSupplier(id)
+  }
+
+  return {
+    suppliers,
+    loading,
+    error,
+    createSupplier,
+    updateSupplier: updateSupplierData,
+    deleteSupplier: deleteSupplierData,
+  }
+}
@@ -0,0 +1,30 @@
+"use client"
+
+import { useFirestoreCollection } from "./use-firestore-collection"
+import { addWorkstation, updateWorkstation, deleteWorkstation, COLLECTIONS } from "@/lib/firebase/firestore-operations"
+import type { Workstation } from "@/lib/types"
+
+export function useWorkstations() {
+  const { data: workstations, loading, error } = useFirestoreCollection<Workstation>(COLLECTIONS.WORKSTATIONS)
+
+  const createWorkstation = async (workstation: Omit<Workstation, "id">) => {
+    return await addWorkstation(workstation)
+  }
+
+  const updateWorkstationData = async (id: string, updates: Partial<Workstation>) => {
+    await updateWorkstation(id, updates)
+  }
+
+  const deleteWorkstationData = async (id: string) => {
+    await deleteWorkstation(id)
+  }
+
+  return {
+    workstations,
+    loading,
+    error,
+    createWorkstation,
+    updateWorkstation: updateWorkstationData,
+    deleteWorkstation: deleteWorkstationData,
+  }
+}
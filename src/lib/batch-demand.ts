@@ -0,0 +1,108 @@
+import type { Batch, BatchStatus, FinalStock, RawMaterial } from "./types"
+import { getStockBreakdown } from "./stock-availability"
+
+// Batches whose remaining stages will still draw materials from stock
+export const DEMAND_BATCH_STATUSES: BatchStatus[] = ["Planned", "In Progress"]
+
+/**
+ * Material quantities still to be consumed by one batch. Rows with a recorded
+ * allocation use it; older batches fall back to the rows of every stage that
+ * has not been completed yet.
+ */
+export function getBatchOutstandingMaterials(batch: Batch): Map<string, number> {
+  const demand = new Map<string, number>()
+  for (const material of batch.materials || []) {
+    const outstanding =
+      material.allocated !== undefined
+        ? Number(material.allocated || 0)
+        : batch.processingStages?.[material.stage]?.completed
+          ? 0
+          : Number(material.quantity || 0)
+    if (outstanding <= 0) continue
+    demand.set(material.id, (demand.get(material.id) || 0) + outstanding)
+  }
+  return demand
+}
+
+/**
+ * Outstanding material demand across all Planned / In Progress batches, per material ID.
+ */
+export function getOpenBatchDemand(batches: Batch[]): Map<string, number> {
+  const demand = new Map<string, number>()
+  for (const batch of batches) {
+    if (!DEMAND_BATCH_STATUSES.includes(batch.status)) continue
+    for (const [materialId, quantity] of getBatchOutstandingMaterials(batch)) {
+      demand.set(materialId, (demand.get(materialId) || 0) + quantity)
+    }
+  }
+  return demand
+}
+
+export interface MaterialAvailability {
+  materialId: string
+  name: string
+  unit: string
+  required: number // Needed by the batch being created
+  onHand: number // Raw/Store quantity, or unreserved Final Stock
+  committed: number // Claimed by other open batches
+  available: number // onHand - committed
+  shortage: number // required - available, when positive
+}
+
+export interface AvailabilityCheck {
+  rows: MaterialAvailability[]
+  hasShortage: boolean
+  maxBuildable: number // Largest quantityToBuild every material can cover
+}
+
+/**
+ * Pre-flight check for a new batch: required vs available per material,
+ * where available excludes what other Planned / In Progress batches still need.
+ * Final Stock inputs only count units not reserved for orders.
+ */
+export function checkMaterialAvailability(input: {
+  materials: { materialId: string; quantity: number }[]
+  quantityToBuild: number
+  rawMaterials: RawMaterial[]
+  finalStock: FinalStock[]
+  committed: Map<string, number>
+}): AvailabilityCheck {
+  const required = new Map<string, number>()
+  for (const material of input.materials) {
+    if (!material.materialId) continue
+    required.set(material.materialId, (required.get(material.materialId) || 0) + Number(material.quantity || 0))
+  }
+
+  const rows: MaterialAvailability[] = []
+  for (const [materialId, quantity] of required) {
+    const raw = input.rawMaterials.find((m) => m.id === materialId)
+    const final = raw ? undefined : input.finalStock.find((p) => p.id === materialId)
+    const onHand = raw ? Number(raw.quantity || 0) : final ? getStockBreakdown(final).available : 0
+    const committed = input.committed.get(materialId) || 0
+    const available = Math.max(0, onHand - committed)
+    rows.push({
+      materialId,
+      name: raw?.name || final?.name || materialId,
+      unit: raw?.unit || "pcs",
+      required: quantity,
+      onHand,
+      committed,
+      available,
+      shortage: Math.max(0, quantity - available),
+    })
+  }
+
+  const qtyToBuild = Number(input.quantityToBuild) || 0
+  let maxBuildable = qtyToBuild
+  for (const row of rows) {
+    if (row.required <= 0 || qtyToBuild <= 0) continue
+    const perPiece = row.required / qtyToBuild
+    maxBuildable = Math.min(maxBuildable, Math.floor(row.available / perPiece))
+  }
+
+  return {
+    rows,
+    hasShortage: rows.some((row) => row.shortage > 0),
+    maxBuildable: Math.max(0, maxBuildable),
+  }
+}
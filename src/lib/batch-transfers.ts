@@ -0,0 +1,278 @@
+import type { Batch, BatchMaterial, BatchOrigin, BatchTransfer, ProcessingStageName } from "./types"
+import { createProcessingStages } from "./stages"
+
+/**
+ * Splitting and merging batches between stages.
+ *
+ * A batch can be split or merged at its next stage once the previous stage is
+ * completed and nothing has been recorded at the next one yet. The batches
+ * created start at that stage and run through the rest of the source's stages;
+ * the source keeps its stage history and records the units it passed on in
+ * `transfers`. Materials of the remaining stages (and their allocations) move
+ * with the units in proportion to `quantityToBuild`, so the total committed
+ * against inventory does not change.
+ */
+
+/**
+ * Stage at which the batch's units can be split or merged, or null once work
+ * at the next stage has started (or the batch is finished).
+ */
+export function getTransferStage(batch: Batch): ProcessingStageName | null {
+  if (batch.status === "Completed" || batch.status === "Merged" || batch.status === "On Hold") return null
+  const stages = batch.selectedProcesses || []
+  const index = stages.findIndex((stage) => !batch.processingStages?.[stage]?.completed)
+  if (index < 0) return null
+  const data = batch.processingStages?.[stages[index]]
+  const recorded =
+    Number(data?.accepted || 0) > 0 ||
+    Number(data?.rejected || 0) > 0 ||
+    Object.values(data?.materialConsumptions || {}).some((q) => Number(q) > 0) ||
+    !!data?.inspection
+  return recorded ? null : stages[index]
+}
+
+export function getTransferredUnits(batch: Batch, stage: ProcessingStageName): number {
+  return (batch.transfers || [])
+    .filter((t) => t.stage === stage)
+    .reduce((sum, t) => sum + Number(t.quantity || 0), 0)
+}
+
+/**
+ * Units the batch still holds for `stage`: its quantity to build at its first
+ * stage (already reduced by splits), otherwise what the previous stage accepted
+ * less the units split off since.
+ */
+export function getAvailableUnits(batch: Batch, stage: ProcessingStageName): number {
+  const index = batch.selectedProcesses.indexOf(stage)
+  if (index < 0) return 0
+  if (index === 0) return Number(batch.quantityToBuild || 0)
+  const previous = batch.selectedProcesses[index - 1]
+  const accepted = Number(batch.processingStages?.[previous]?.accepted || 0)
+  return Math.max(0, accepted - getTransferredUnits(batch, stage))
+}
+
+function getRemainingStages(batch: Batch, stage: ProcessingStageName): ProcessingStageName[] {
+  const index = batch.selectedProcesses.indexOf(stage)
+  return index < 0 ? [] : batch.selectedProcesses.slice(index)
+}
+
+export function validateSplit(
+  batch: Batch,
+  stage: ProcessingStageName,
+  quantity: number,
+): { isValid: boolean; reason?: string } {
+  if (getTransferStage(batch) !== stage) {
+    return { isValid: false, reason: `Batch ${batch.batchId} can no longer be split at ${stage}` }
+  }
+  const available = getAvailableUnits(batch, stage)
+  if (!Number.isInteger(quantity) || quantity <= 0 || quantity >= available) {
+    return { isValid: false, reason: `Split between 1 and ${available - 1} of the ${available} units` }
+  }
+  return { isValid: true }
+}
+
+export function validateMerge(batches: Batch[], stage: ProcessingStageName): { isValid: boolean; reason?: string } {
+  if (batches.length < 2) {
+    return { isValid: false, reason: "Select at least two batches to merge" }
+  }
+  const [first] = batches
+  const path = getRemainingStages(first, stage).join(",")
+  for (const batch of batches) {
+    if (getTransferStage(batch) !== stage) {
+      return { isValid: false, reason: `Batch ${batch.batchId} can no longer be merged at ${stage}` }
+    }
+    if (batch.productId !== first.productId) {
+      return { isValid: false, reason: "Only batches of the same product can be merged" }
+    }
+    // Merged batches are closed at the stage before, so they need one
+    if (batch.selectedProcesses.indexOf(stage) === 0) {
+      return { isValid: false, reason: `Batch ${batch.batchId} has not completed a stage yet` }
+    }
+    if (getRemainingStages(batch, stage).join(",") !== path) {
+      return { isValid: false, reason: `Batch ${batch.batchId} goes through different stages after ${stage}` }
+    }
+    if (getAvailableUnits(batch, stage) <= 0) {
+      return { isValid: false, reason: `Batch ${batch.batchId} has no units left for ${stage}` }
+    }
+  }
+  return { isValid: true }
+}
+
+/**
+ * Share of the remaining stages' material rows that goes with `units` of the
+ * batch; `rest` is what the batch keeps.
+ */
+function takeMaterials(
+  batch: Batch,
+  stages: ProcessingStageName[],
+  units: number,
+): { taken: BatchMaterial[]; rest: BatchMaterial[] } {
+  const qtyToBuild = Math.max(1, Number(batch.quantityToBuild) || 1)
+  const share = Math.min(1, units / qtyToBuild)
+  const taken: BatchMaterial[] = []
+  const rest: BatchMaterial[] = []
+  for (const m of batch.materials || []) {
+    if (!stages.includes(m.stage)) {
+      rest.push(m)
+      continue
+    }
+    const quantity = Number(m.quantity || 0) * share
+    const allocated = Number(m.allocated || 0) * share
+    taken.push({ ...m, quantity, ...(m.allocated !== undefined ? { allocated } : {}) })
+    rest.push({
+      ...m,
+      quantity: Number(m.quantity || 0) - quantity,
+      ...(m.allocated !== undefined ? { allocated: Number(m.allocated || 0) - allocated } : {}),
+    })
+  }
+  return { taken, rest }
+}
+
+function sumMaterials(materials: BatchMaterial[]): number {
+  return materials.reduce((sum, m) => sum + Number(m.quantity || 0), 0)
+}
+
+/**
+ * Sum rows of the same material and stage.
+ */
+function combineMaterials(materials: BatchMaterial[]): BatchMaterial[] {
+  const combined = new Map<string, BatchMaterial>()
+  for (const m of materials) {
+    const key = `${m.stage}|${m.id}`
+    const existing = combined.get(key)
+    if (!existing) {
+      combined.set(key, { ...m })
+      continue
+    }
+    existing.quantity = Number(existing.quantity || 0) + Number(m.quantity || 0)
+    if (existing.allocated !== undefined || m.allocated !== undefined) {
+      existing.allocated = Number(existing.allocated || 0) + Number(m.allocated || 0)
+    }
+  }
+  return [...combined.values()]
+}
+
+function buildChild(
+  source: Batch,
+  stages: ProcessingStageName[],
+  quantity: number,
+  materials: BatchMaterial[],
+  origin: BatchOrigin,
+  status: Batch["status"],
+  startedAt?: string,
+): Omit<Batch, "id" | "batchId"> {
+  const processingStages = createProcessingStages(stages)
+  if (startedAt) processingStages[stages[0]] = { ...processingStages[stages[0]], startedAt }
+  return {
+    productId: source.productId,
+    productName: source.productName,
+    quantityToBuild: quantity,
+    totalMaterialQuantity: sumMaterials(materials),
+    materials,
+    createdAt: origin.createdAt,
+    status,
+    processingStages,
+    selectedProcesses: stages,
+    origin,
+  }
+}
+
+/**
+ * Human-readable ID of the next batch split off `batch`: its own ID with a
+ * running suffix, e.g. BATCH-MLD-014.2.
+ */
+export function getSplitBatchId(batch: Batch): string {
+  const splits = (batch.transfers || []).filter((t) => t.type === "split").length
+  return `${batch.batchId}.${splits + 1}`
+}
+
+/**
+ * Human-readable ID of a merged batch: the ID of the oldest batch merged with an -M suffix.
+ */
+export function getMergedBatchId(batches: Batch[]): string {
+  const [oldest] = [...batches].sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+  return `${oldest.batchId}-M`
+}
+
+export interface SplitPlan {
+  child: Omit<Batch, "id" | "batchId">
+  parentUpdates: Pick<Batch, "quantityToBuild" | "totalMaterialQuantity" | "materials">
+}
+
+/**
+ * Move `quantity` units of `parent` into a new batch starting at `stage`.
+ */
+export function buildSplit(
+  parent: Batch,
+  stage: ProcessingStageName,
+  quantity: number,
+  now: string = new Date().toISOString(),
+): SplitPlan {
+  const stages = getRemainingStages(parent, stage)
+  const { taken, rest } = takeMaterials(parent, stages, quantity)
+  const origin: BatchOrigin = {
+    type: "split",
+    stage,
+    parents: [{ batchId: parent.id, displayBatchId: parent.batchId, quantity }],
+    createdAt: now,
+  }
+  return {
+    child: buildChild(parent, stages, quantity, taken, origin, parent.status, parent.processingStages?.[stage]?.startedAt),
+    parentUpdates: {
+      quantityToBuild: Number(parent.quantityToBuild || 0) - quantity,
+      totalMaterialQuantity: sumMaterials(rest),
+      materials: rest,
+    },
+  }
+}
+
+export interface MergePlan {
+  merged: Omit<Batch, "id" | "batchId">
+  // Per parent: the units passed on and the rows it keeps. Rows of the remaining
+  // stages left over (for units rejected earlier) still hold allocations to release.
+  parents: { batch: Batch; quantity: number; materials: BatchMaterial[] }[]
+}
+
+/**
+ * Combine the available units of `parents` into one batch starting at `stage`.
+ * The parents are closed at the stage before it.
+ */
+export function buildMerge(
+  parents: Batch[],
+  stage: ProcessingStageName,
+  now: string = new Date().toISOString(),
+): MergePlan {
+  const sorted = [...parents].sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+  const stages = getRemainingStages(sorted[0], stage)
+  const plans = sorted.map((batch) => {
+    const quantity = getAvailableUnits(batch, stage)
+    return { batch, quantity, ...takeMaterials(batch, stages, quantity) }
+  })
+  const materials = combineMaterials(plans.flatMap((p) => p.taken))
+  const quantity = plans.reduce((sum, p) => sum + p.quantity, 0)
+  const origin: BatchOrigin = {
+    type: "merge",
+    stage,
+    parents: plans.map((p) => ({ batchId: p.batch.id, displayBatchId: p.batch.batchId, quantity: p.quantity })),
+    createdAt: now,
+  }
+  const startedAt = plans
+    .map((p) => p.batch.processingStages?.[stage]?.startedAt)
+    .filter((d): d is string => !!d)
+    .sort()[0]
+  const status = plans.some((p) => p.batch.status === "In Progress") ? "In Progress" : "Planned"
+  return {
+    merged: buildChild(sorted[0], stages, quantity, materials, origin, status, startedAt),
+    parents: plans.map((p) => ({ batch: p.batch, quantity: p.quantity, materials: p.rest })),
+  }
+}
+
+export function createTransfer(
+  type: BatchTransfer["type"],
+  stage: ProcessingStageName,
+  quantity: number,
+  target: { id: string; batchId: string },
+  now: string,
+): BatchTransfer {
+  return { type, stage, quantity, batchId: target.id, displayBatchId: target.batchId, createdAt: now }
+}
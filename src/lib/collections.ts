@@ -0,0 +1,54 @@
+/**
+ * Firestore collection names and the prefixes of the readable IDs their
+ * documents get (batch_001, log_042, ...). Free of Firebase imports so the
+ * admin scripts in scripts/ use the same names as the app.
+ */
+
+export const COLLECTIONS = {
+  BATCHES: "batches",
+  RAW_MATERIALS: "rawMaterials",
+  FINAL_STOCK: "finalStock",
+  ACTIVITY_LOG: "activityLog",
+  EMPLOYEES: "employees",
+  UNITS: "unitsOfMeasure",
+  PRODUCT_GROUPS: "productGroups",
+  RESTOCKS: "restocks",
+  ORDERS: "orders",
+  STOCK_MOVEMENTS: "stockMovements",
+  SUPPLIERS: "suppliers",
+  PURCHASE_ORDERS: "purchaseOrders",
+  PROCESS_DEFINITIONS: "processDefinitions",
+  SCRAP_RECORDS: "scrapRecords",
+  WORKSTATIONS: "workstations",
+  DOWNTIME_EVENTS: "downtimeEvents",
+  SHIFTS: "shifts",
+  HOLIDAYS: "holidays",
+  SCHEDULE_SLOTS: "scheduleSlots",
+  SCHEDULE_INDEX: "scheduleIndex",
+} as const
+
+// Employees are keyed by their auth UID and schedule index entries by the
+// workstation or batch they list, so neither has readable IDs
+export const READABLE_ID_PREFIXES = {
+  BATCHES: "batch",
+  RAW_MATERIALS: "material",
+  FINAL_STOCK: "product",
+  ACTIVITY_LOG: "log",
+  UNITS: "unit",
+  PRODUCT_GROUPS: "group",
+  RESTOCKS: "restock",
+  ORDERS: "order",
+  STOCK_MOVEMENTS: "movement",
+  SUPPLIERS: "supplier",
+  PURCHASE_ORDERS: "po",
+  PROCESS_DEFINITIONS: "stage",
+  SCRAP_RECORDS: "scrap",
+  WORKSTATIONS: "workstation",
+  DOWNTIME_EVENTS: "downtime",
+  SHIFTS: "shift",
+  HOLIDAYS: "holiday",
+  SCHEDULE_SLOTS: "slot",
+} as const satisfies Partial<Record<keyof typeof COLLECTIONS, string>>
+
+// Purchase order numbers, e.g. PO-001
+export const PO_NUMBER_PREFIX = "PO-"
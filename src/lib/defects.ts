@@ -0,0 +1,142 @@
+import type { Batch, DefectCode, ProcessDefinition, ProcessingStageName } from "./types"
+import { getStageDefinition, getStageLabel } from "./stages"
+
+/**
+ * Defect classification of rejected units.
+ *
+ * Each stage carries a defect catalogue (ProcessDefinition.defectCodes). When a
+ * stage has one, the processor records rejected units per code in
+ * `ProcessingStage.defects`; the quality report aggregates those records.
+ */
+
+export function getDefectCodes(definitions: ProcessDefinition[], stage: ProcessingStageName): DefectCode[] {
+  return getStageDefinition(definitions, stage)?.defectCodes || []
+}
+
+export function getDefectLabel(definitions: ProcessDefinition[], stage: ProcessingStageName, code: string): string {
+  return getDefectCodes(definitions, stage).find((d) => d.code === code)?.label || code
+}
+
+export function getDefectTotal(defects: Record<string, number> | undefined): number {
+  return Object.values(defects || {}).reduce((sum, qty) => sum + Number(qty || 0), 0)
+}
+
+/**
+ * Problem with the defect breakdown entered for `rejected` units, or null when it
+ * is complete. Stages without a catalogue need no breakdown.
+ */
+export function validateDefects(
+  rejected: number,
+  defects: Record<string, number> | undefined,
+  catalogue: DefectCode[],
+): string | null {
+  if (catalogue.length === 0) return null
+  const total = getDefectTotal(defects)
+  if (rejected <= 0) {
+    return total > 0 ? "Defects were entered but no units were rejected." : null
+  }
+  const unknown = Object.keys(defects || {}).find((code) => !catalogue.some((d) => d.code === code))
+  if (unknown) return `Defect code ${unknown} is not in the stage catalogue.`
+  if (total !== rejected) return `Defects cover ${total} of ${rejected} rejected units.`
+  return null
+}
+
+export interface DefectEntry {
+  batchId: string // Batch.batchId
+  productId: string
+  productName: string
+  stage: ProcessingStageName
+  code: string
+  label: string
+  quantity: number
+  date: string // When the stage finished (or started, while it is still open)
+  week: string // Monday of that week, YYYY-MM-DD
+}
+
+/**
+ * Monday of the week containing `date`, as YYYY-MM-DD in local time.
+ */
+export function getWeekStart(date: Date): string {
+  const d = new Date(date)
+  d.setHours(0, 0, 0, 0)
+  d.setDate(d.getDate() - ((d.getDay() + 6) % 7))
+  const m = String(d.getMonth() + 1).padStart(2, "0")
+  const day = String(d.getDate()).padStart(2, "0")
+  return `${d.getFullYear()}-${m}-${day}`
+}
+
+/**
+ * One entry per batch, stage and defect code with a recorded quantity.
+ */
+export function collectDefectEntries(batches: Batch[], definitions: ProcessDefinition[]): DefectEntry[] {
+  const entries: DefectEntry[] = []
+  for (const batch of batches) {
+    for (const [stage, data] of Object.entries(batch.processingStages || {})) {
+      if (!data?.defects) continue
+      const date = data.finishedAt || data.startedAt || batch.createdAt
+      for (const [code, qty] of Object.entries(data.defects)) {
+        const quantity = Number(qty || 0)
+        if (quantity <= 0) continue
+        entries.push({
+          batchId: batch.batchId || batch.id,
+          productId: batch.productId,
+          productName: batch.productName,
+          stage,
+          code,
+          label: getDefectLabel(definitions, stage, code),
+          quantity,
+          date,
+          week: getWeekStart(new Date(date)),
+        })
+      }
+    }
+  }
+  return entries
+}
+
+export interface ParetoRow {
+  key: string // stage:code
+  stage: ProcessingStageName
+  code: string
+  label: string
+  quantity: number
+  share: number // Percentage of all defects
+  cumulative: number // Cumulative percentage, largest first
+}
+
+export function getDefectKey(entry: Pick<DefectEntry, "stage" | "code">): string {
+  return `${entry.stage}:${entry.code}`
+}
+
+/**
+ * Defects ranked by quantity with their cumulative share. Codes are kept apart per
+ * stage, as two stages may use the same code for different defects.
+ */
+export function buildDefectPareto(entries: DefectEntry[], definitions: ProcessDefinition[]): ParetoRow[] {
+  const rows = new Map<string, ParetoRow>()
+  for (const entry of entries) {
+    const key = getDefectKey(entry)
+    const row = rows.get(key) || {
+      key,
+      stage: entry.stage,
+      code: entry.code,
+      label: `${entry.label} (${getStageLabel(definitions, entry.stage)})`,
+      quantity: 0,
+      share: 0,
+      cumulative: 0,
+    }
+    row.quantity += entry.quantity
+    rows.set(key, row)
+  }
+  const sorted = Array.from(rows.values()).sort((a, b) => b.quantity - a.quantity)
+  const total = sorted.reduce((sum, row) => sum + row.quantity, 0)
+  let running = 0
+  return sorted.map((row) => {
+    running += row.quantity
+    return {
+      ...row,
+      share: total > 0 ? (row.quantity / total) * 100 : 0,
+      cumulative: total > 0 ? (running / total) * 100 : 0,
+    }
+  })
+}
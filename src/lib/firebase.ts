@@ -5,59 +5,59 @@ import {
   getDocs,
   getDoc,
   addDoc,
-  setDoc,
   updateDoc,
-  deleteDoc,
   query,
   where,
   onSnapshot,
   orderBy,
+  runTransaction,
   type Unsubscribe,
 } from "firebase/firestore";
-import type { Batch, ProcessingStageName, BatchStatus } from "./types";
-import { generateReadableId } from "./id";
+import type { Batch, ProcessingStageName, BatchStatus, ProcessDefinition, InspectionRecord, StageAssignment } from "./types";
+import { generateReadableId, getCounterId, maxSequence, reserveSequence } from "./id";
+import { COLLECTIONS, READABLE_ID_PREFIXES } from "./collections";
+import { BUILT_IN_STAGES, REWORK_BATCH_CODE_PREFIXES, getBatchCodePrefix, getStageDefinition } from "./stages";
+import {
+  allocateMaterials,
+  readRawMaterials,
+  releaseMaterials,
+  writeCommittedDeltas,
+} from "./firebase/batch-allocation";
 
 // Collection reference
-const BATCHES_COLLECTION = "batches";
-
-function getStageCode(stage: ProcessingStageName): string {
-  switch (stage) {
-    case "Molding":
-      return "MLD";
-    case "Machining":
-      return "MCH";
-    case "Assembling":
-      return "ASM";
-    case "Testing":
-      return "TST";
-    default:
-      return "GEN";
-  }
-}
-
-async function generateBatchCode(stage: ProcessingStageName, isFailedTesting?: boolean): Promise<string> {
-  const batchesRef = collection(db, BATCHES_COLLECTION);
-  
-  // Use FT- prefix for auto-created assembly batches from testing rejects
-  const prefix = isFailedTesting ? "FT-" : `BATCH-${getStageCode(stage)}-`;
+const BATCHES_COLLECTION = COLLECTIONS.BATCHES;
 
-  // Find all batches that already have a batchCode with this prefix
-  const snapshot = await getDocs(batchesRef);
+// Code configured for the stage in Setup, falling back to the built-in codes
+async function resolveStageCode(stage: ProcessingStageName): Promise<string | undefined> {
+  const q = query(collection(db, COLLECTIONS.PROCESS_DEFINITIONS), where("name", "==", stage));
+  const snapshot = await getDocs(q);
+  const configured = snapshot.docs
+    .map((docSnap) => (docSnap.data() as ProcessDefinition).code)
+    .find((code) => !!code && code.trim() !== "");
+  return configured || getStageDefinition(BUILT_IN_STAGES, stage)?.code;
+}
 
-  let maxSeq = 0;
-  snapshot.forEach((docSnap) => {
-    const data: any = docSnap.data();
-    const code: string | undefined = data.batchCode;
-    if (code && code.startsWith(prefix)) {
-      const tail = code.substring(prefix.length);
-      const num = parseInt(tail, 10);
-      if (!Number.isNaN(num) && num > maxSeq) {
-        maxSeq = num;
-      }
-    }
-  });
+async function generateBatchCode(
+  stage: ProcessingStageName,
+  kind: "standard" | "failedTesting" | "rework" = "standard",
+): Promise<string> {
+  const prefix =
+    kind === "standard" ? getBatchCodePrefix(await resolveStageCode(stage)) : REWORK_BATCH_CODE_PREFIXES[kind];
+
+  // One counter per code prefix; seeded from existing batchCodes on first use
+  const next = await reserveSequence(
+    getCounterId(BATCHES_COLLECTION, prefix.replace(/-$/, "")),
+    1,
+    async () => {
+      const snapshot = await getDocs(collection(db, BATCHES_COLLECTION));
+      return maxSequence(
+        snapshot.docs.map((docSnap) => docSnap.data().batchCode as string | undefined),
+        prefix,
+      );
+    },
+    { collection: BATCHES_COLLECTION, prefix },
+  );
 
-  const next = maxSeq + 1;
   const seq = String(next).padStart(3, "0");
   return `${prefix}${seq}`;
 }
@@ -257,9 +257,12 @@ export async function createBatch(batch: Omit<Batch, "id" | "batchId">): Promise
   let batchCode: string | undefined;
   if (primaryStage) {
     try {
-      // Use FT- prefix for auto-created assembly batches from testing rejects
+      // FT- prefix for auto-created assembly batches from testing rejects, RW- for other rework
       const isFailedTesting = batch.autoCreatedFromTestingRejected === true && primaryStage === "Assembling";
-      batchCode = await generateBatchCode(primaryStage, isFailedTesting);
+      batchCode = await generateBatchCode(
+        primaryStage,
+        isFailedTesting ? "failedTesting" : batch.reworkOf ? "rework" : "standard",
+      );
     } catch (e) {
       // Fallback: do not block creation if code generation fails
       batchCode = undefined;
@@ -305,7 +308,7 @@ export async function createBatch(batch: Omit<Batch, "id" | "batchId">): Promise
     );
   }
 
-  const id = await generateReadableId(BATCHES_COLLECTION, "batch");
+  const id = await generateReadableId(BATCHES_COLLECTION, READABLE_ID_PREFIXES.BATCHES);
   const docRef = doc(db, BATCHES_COLLECTION, id);
   
   // Generate immutable batchId - single source of truth
@@ -313,12 +316,23 @@ export async function createBatch(batch: Omit<Batch, "id" | "batchId">): Promise
   const immutableBatchId = batchCode || id;
   
   const { id: _ignored, ...batchData } = batch as any;
-  await setDoc(docRef, {
-    ...batchData,
-    id,
-    batchId: immutableBatchId, // Set once at creation, never modified
-    batchCode, // Keep for backward compatibility
-    createdAt: batch.createdAt || new Date().toISOString(),
+
+  // Create the batch and commit its materials against inventory in one transaction
+  await runTransaction(db, async (transaction) => {
+    const raw = await readRawMaterials(
+      transaction,
+      (batch.materials || []).map((m) => m.id),
+    );
+    const { materials, deltas } = allocateMaterials(batch, raw);
+    writeCommittedDeltas(transaction, raw, deltas);
+    transaction.set(docRef, {
+      ...batchData,
+      materials,
+      id,
+      batchId: immutableBatchId, // Set once at creation, never modified
+      batchCode, // Keep for backward compatibility
+      createdAt: batch.createdAt || new Date().toISOString(),
+    });
   });
   return id;
 }
@@ -361,7 +375,9 @@ export async function updateBatchStage(
     startedAt?: string
     finishedAt?: string
     materialConsumptions?: Record<string, number>
-  },
+    defects?: Record<string, number>
+    inspection?: InspectionRecord
+  } & StageAssignment,
 ): Promise<void> {
   console.log("[v0] updateBatchStage called with ID:", id, "stage:", stage);
 
@@ -525,7 +541,19 @@ export async function deleteBatch(id: string): Promise<void> {
   }
 
   console.log("[v0] Deleting document:", batchRef.id);
-  await deleteDoc(batchRef);
+  // Release any committed materials together with the delete
+  await runTransaction(db, async (transaction) => {
+    const snap = await transaction.get(batchRef);
+    if (!snap.exists()) return;
+    const batch = snap.data() as Batch;
+    const raw = await readRawMaterials(
+      transaction,
+      (batch.materials || []).map((m) => m.id),
+    );
+    const { deltas } = releaseMaterials(batch.materials || []);
+    writeCommittedDeltas(transaction, raw, deltas);
+    transaction.delete(batchRef);
+  });
 }
 
 /**
@@ -0,0 +1,167 @@
+import {
+  doc,
+  runTransaction,
+  type DocumentData,
+  type DocumentReference,
+  type Transaction,
+} from "firebase/firestore";
+import { db } from "./config";
+import { COLLECTIONS, READABLE_ID_PREFIXES } from "@/lib/collections";
+import { generateReadableId } from "@/lib/id";
+import type { ActivityLog, Batch, BatchMaterial, BatchStatus, RawMaterial } from "@/lib/types";
+
+/**
+ * Batch material allocation.
+ *
+ * A Planned / In Progress batch commits the materials of its incomplete stages
+ * against Raw Materials and Store items: each `BatchMaterial.allocated` holds
+ * the claimed quantity and `RawMaterial.committed` holds the total across
+ * batches. Both are always changed in the same transaction.
+ *
+ * Allocations are released when a stage completes (whatever was actually
+ * consumed), when the batch is put On Hold or completed, and when it is deleted.
+ * Final Stock inputs are not allocated here.
+ */
+
+export type RawMaterialDocs = Map<string, { ref: DocumentReference; data: RawMaterial }>;
+
+// Statuses under which a batch holds its allocations
+const ALLOCATING_STATUSES: BatchStatus[] = ["Planned", "In Progress"];
+
+/**
+ * Read the Raw Materials / Store documents for the given IDs inside a transaction.
+ * IDs that are not raw materials (e.g. Final Stock inputs) are skipped.
+ */
+export async function readRawMaterials(
+  transaction: Transaction,
+  ids: Iterable<string>,
+): Promise<RawMaterialDocs> {
+  const docs: RawMaterialDocs = new Map();
+  for (const id of new Set(ids)) {
+    if (!id) continue;
+    const ref = doc(db, COLLECTIONS.RAW_MATERIALS, id);
+    const snap = await transaction.get(ref);
+    if (snap.exists()) {
+      docs.set(id, { ref, data: { ...(snap.data() as RawMaterial), id: snap.id } });
+    }
+  }
+  return docs;
+}
+
+/**
+ * Allocate every raw material row of the batch's incomplete stages.
+ * Returns the updated rows and the change in `committed` per material.
+ */
+export function allocateMaterials(
+  batch: Pick<Batch, "materials" | "processingStages">,
+  raw: RawMaterialDocs,
+): { materials: BatchMaterial[]; deltas: Map<string, number> } {
+  const deltas = new Map<string, number>();
+  const materials = (batch.materials || []).map((m) => {
+    const current = Number(m.allocated || 0);
+    const target =
+      raw.has(m.id) && !batch.processingStages?.[m.stage]?.completed ? Number(m.quantity || 0) : current;
+    if (target !== current) {
+      deltas.set(m.id, (deltas.get(m.id) || 0) + target - current);
+    }
+    return raw.has(m.id) ? { ...m, allocated: target } : m;
+  });
+  return { materials, deltas };
+}
+
+/**
+ * Release the allocation of every row matching `filter` (default: all rows).
+ */
+export function releaseMaterials(
+  materials: BatchMaterial[],
+  filter: (material: BatchMaterial) => boolean = () => true,
+): { materials: BatchMaterial[]; deltas: Map<string, number> } {
+  const deltas = new Map<string, number>();
+  const released = materials.map((m) => {
+    const allocated = Number(m.allocated || 0);
+    if (allocated <= 0 || !filter(m)) return m;
+    deltas.set(m.id, (deltas.get(m.id) || 0) - allocated);
+    return { ...m, allocated: 0 };
+  });
+  return { materials: released, deltas };
+}
+
+/**
+ * Apply `committed` changes to the material documents read earlier in the transaction.
+ * `extra` lets callers merge other field updates (e.g. quantity) into the same write.
+ */
+export function writeCommittedDeltas(
+  transaction: Transaction,
+  raw: RawMaterialDocs,
+  deltas: Map<string, number>,
+  extra: Record<string, DocumentData> = {},
+): void {
+  const ids = new Set([...deltas.keys(), ...Object.keys(extra)]);
+  for (const id of ids) {
+    const material = raw.get(id);
+    if (!material) continue;
+    const update: DocumentData = { ...(extra[id] || {}) };
+    const delta = deltas.get(id) || 0;
+    if (delta !== 0) {
+      const committed = Math.max(0, Number(material.data.committed || 0) + delta);
+      material.data.committed = committed;
+      update.committed = committed;
+    }
+    if (Object.keys(update).length > 0) {
+      transaction.update(material.ref, update);
+    }
+  }
+}
+
+/**
+ * Change a batch's status, releasing its allocations when it stops holding
+ * stock (On Hold / Completed) and re-allocating when it resumes.
+ */
+export async function changeBatchStatus(
+  batchId: string,
+  status: BatchStatus,
+  user: string = "System",
+): Promise<void> {
+  const batchRef = doc(db, COLLECTIONS.BATCHES, batchId);
+  const logId = await generateReadableId(COLLECTIONS.ACTIVITY_LOG, READABLE_ID_PREFIXES.ACTIVITY_LOG);
+
+  await runTransaction(db, async (transaction) => {
+    const snap = await transaction.get(batchRef);
+    if (!snap.exists()) {
+      throw new Error(`Batch ${batchId} not found`);
+    }
+    const batch = { id: snap.id, ...snap.data() } as Batch;
+    if (batch.status === status) return;
+    if (batch.status === "Merged") {
+      throw new Error(`Batch ${batch.batchId || batch.id} was merged into another batch and is closed.`);
+    }
+
+    const raw = await readRawMaterials(
+      transaction,
+      (batch.materials || []).map((m) => m.id),
+    );
+
+    const holds = ALLOCATING_STATUSES.includes(status);
+    const { materials, deltas } = holds
+      ? allocateMaterials(batch, raw)
+      : releaseMaterials(batch.materials || []);
+
+    writeCommittedDeltas(transaction, raw, deltas);
+    transaction.update(batchRef, { status, materials });
+
+    const changes = [...deltas.entries()]
+      .filter(([, delta]) => delta !== 0)
+      .map(([id, delta]) => `${raw.get(id)?.data.name || id} ${delta > 0 ? "+" : ""}${delta}`);
+    const log: Omit<ActivityLog, "id"> = {
+      recordId: batch.id,
+      recordType: "Batch",
+      action: "Status Changed",
+      details:
+        `Status changed from "${batch.status}" to "${status}".` +
+        (changes.length > 0 ? ` Committed stock: ${changes.join(", ")}.` : ""),
+      timestamp: new Date().toISOString(),
+      user,
+    };
+    transaction.set(doc(db, COLLECTIONS.ACTIVITY_LOG, logId), log);
+  });
+}
@@ -10,6 +10,7 @@ import {
   getDoc,
   arrayUnion,
   setDoc,
+  writeBatch,
 } from "firebase/firestore";
 import { db } from "./config";
 import type {
@@ -21,25 +22,29 @@ import type {
   UnitOfMeasure,
   ProductGroup,
   RestockRecord,
+  StockMovement,
+  Supplier,
+  PurchaseOrder,
+  ProcessDefinition,
+  Workstation,
+  DowntimeEvent,
+  Shift,
+  Holiday,
 } from "@/lib/types";
-import { generateReadableId } from "@/lib/id";
-
-// Collection names
-export const COLLECTIONS = {
-  BATCHES: "batches",
-  RAW_MATERIALS: "rawMaterials",
-  FINAL_STOCK: "finalStock",
-  ACTIVITY_LOG: "activityLog",
-  EMPLOYEES: "employees",
-  UNITS: "unitsOfMeasure",
-  PRODUCT_GROUPS: "productGroups",
-  RESTOCKS: "restocks",
-  ORDERS: "orders",
-} as const;
+import {
+  generateReadableId,
+  generateReadableIds,
+  getCounterId,
+  maxSequence,
+  reserveSequence,
+} from "@/lib/id";
+import { COLLECTIONS, PO_NUMBER_PREFIX, READABLE_ID_PREFIXES } from "@/lib/collections";
+
+export { COLLECTIONS };
 
 // Batch operations
 export async function addBatch(batch: Omit<Batch, "id">) {
-  const id = await generateReadableId(COLLECTIONS.BATCHES, "batch");
+  const id = await generateReadableId(COLLECTIONS.BATCHES, READABLE_ID_PREFIXES.BATCHES);
   const batchRef = doc(db, COLLECTIONS.BATCHES, id);
   await setDoc(batchRef, {
     ...batch,
@@ -60,7 +65,7 @@ export async function deleteBatch(id: string) {
 
 // Raw Material operations
 export async function addRawMaterial(material: Omit<RawMaterial, "id">) {
-  const id = await generateReadableId(COLLECTIONS.RAW_MATERIALS, "material");
+  const id = await generateReadableId(COLLECTIONS.RAW_MATERIALS, READABLE_ID_PREFIXES.RAW_MATERIALS);
   const materialRef = doc(db, COLLECTIONS.RAW_MATERIALS, id);
   await setDoc(materialRef, material);
   return id;
@@ -91,7 +96,7 @@ export async function deleteRawMaterial(id: string) {
   const snapshot = await getDoc(materialRef);
   if (snapshot.exists()) {
     const data = snapshot.data() as RawMaterial;
-    if (data.isMoulded || data.isFinished || data.isAssembled) {
+    if (data.isMoulded || data.isFinished || data.isAssembled || data.stageOutput) {
       throw new Error("Deletion of Store items is disabled. These records must remain permanent.");
     }
   }
@@ -139,7 +144,7 @@ export async function addFinalStock(product: Omit<FinalStock, "id">) {
   // Ensure id field is never saved to Firestore (only document ID matters)
   const { id: _ignored, ...productData } = product as any;
 
-  const newId = await generateReadableId(COLLECTIONS.FINAL_STOCK, "product");
+  const newId = await generateReadableId(COLLECTIONS.FINAL_STOCK, READABLE_ID_PREFIXES.FINAL_STOCK);
   const stockRef = doc(db, COLLECTIONS.FINAL_STOCK, newId);
   await setDoc(stockRef, productData);
   console.log(
@@ -159,7 +164,7 @@ export async function updateFinalStock(
   
   // Remove undefined fields as Firestore doesn't allow them
   const cleanedUpdates = Object.fromEntries(
-    Object.entries(updates).filter(([_, value]) => value !== undefined)
+    Object.entries(updates).filter(([, value]) => value !== undefined)
   );
   
   await updateDoc(stockRef, cleanedUpdates);
@@ -289,7 +294,7 @@ export async function addBatchToProduct(
 
 // Activity Log operations
 export async function addActivityLog(log: Omit<ActivityLog, "id">) {
-  const id = await generateReadableId(COLLECTIONS.ACTIVITY_LOG, "log");
+  const id = await generateReadableId(COLLECTIONS.ACTIVITY_LOG, READABLE_ID_PREFIXES.ACTIVITY_LOG);
   const logRef = doc(db, COLLECTIONS.ACTIVITY_LOG, id);
   await setDoc(logRef, {
     ...log,
@@ -350,7 +355,7 @@ export async function getEmployeeByUid(uid: string): Promise<Employee | null> {
 
 // Unit of Measure operations
 export async function addUnit(unit: Omit<UnitOfMeasure, "id">) {
-  const id = await generateReadableId(COLLECTIONS.UNITS, "unit");
+  const id = await generateReadableId(COLLECTIONS.UNITS, READABLE_ID_PREFIXES.UNITS);
   const unitRef = doc(db, COLLECTIONS.UNITS, id);
   await setDoc(unitRef, unit);
   return id;
@@ -373,10 +378,10 @@ export async function addProductGroup(group: Omit<ProductGroup, "id">) {
 		Object.entries({
 			...group,
 			createdAt: group.createdAt || new Date().toISOString(),
-		}).filter(([_, value]) => value !== undefined),
+		}).filter(([, value]) => value !== undefined),
 	) as Omit<ProductGroup, "id">;
 
-	const id = await generateReadableId(COLLECTIONS.PRODUCT_GROUPS, "group");
+	const id = await generateReadableId(COLLECTIONS.PRODUCT_GROUPS, READABLE_ID_PREFIXES.PRODUCT_GROUPS);
 	const groupRef = doc(db, COLLECTIONS.PRODUCT_GROUPS, id);
 	await setDoc(groupRef, cleanedGroup);
 	return id;
@@ -390,7 +395,7 @@ export async function updateProductGroup(
 
 	// Remove undefined fields from updates
 	const cleanedUpdates = Object.fromEntries(
-		Object.entries(updates).filter(([_, value]) => value !== undefined),
+		Object.entries(updates).filter(([, value]) => value !== undefined),
 	);
 
 	await updateDoc(groupRef, cleanedUpdates);
@@ -403,7 +408,7 @@ export async function deleteProductGroup(id: string) {
 
 // Restock records operations
 export async function addRestockRecord(record: Omit<RestockRecord, "id">) {
-	const id = await generateReadableId(COLLECTIONS.RESTOCKS, "restock");
+	const id = await generateReadableId(COLLECTIONS.RESTOCKS, READABLE_ID_PREFIXES.RESTOCKS);
 	const restockRef = doc(db, COLLECTIONS.RESTOCKS, id);
 	await setDoc(restockRef, {
 		...record,
@@ -412,6 +417,239 @@ export async function addRestockRecord(record: Omit<RestockRecord, "id">) {
 	return id;
 }
 
+// Stock movement ledger operations
+export async function addStockMovements(movements: Omit<StockMovement, "id">[]) {
+	if (movements.length === 0) return [];
+
+	const ids = await generateReadableIds(COLLECTIONS.STOCK_MOVEMENTS, READABLE_ID_PREFIXES.STOCK_MOVEMENTS, movements.length);
+	const batch = writeBatch(db);
+	movements.forEach((movement, i) => {
+		// Optional references (batch/order/restock) are omitted rather than stored as undefined
+		const cleanedMovement = Object.fromEntries(
+			Object.entries({
+				...movement,
+				timestamp: movement.timestamp || new Date().toISOString(),
+			}).filter(([, value]) => value !== undefined),
+		);
+		batch.set(doc(db, COLLECTIONS.STOCK_MOVEMENTS, ids[i]), cleanedMovement);
+	});
+	await batch.commit();
+	return ids;
+}
+
+export async function addStockMovement(movement: Omit<StockMovement, "id">) {
+	const [id] = await addStockMovements([movement]);
+	return id;
+}
+
+// Supplier operations
+export async function addSupplier(supplier: Omit<Supplier, "id">) {
+	const cleanedSupplier = Object.fromEntries(
+		Object.entries({
+			...supplier,
+			createdAt: supplier.createdAt || new Date().toISOString(),
+		}).filter(([, value]) => value !== undefined),
+	) as Omit<Supplier, "id">;
+
+	const id = await generateReadableId(COLLECTIONS.SUPPLIERS, READABLE_ID_PREFIXES.SUPPLIERS);
+	const supplierRef = doc(db, COLLECTIONS.SUPPLIERS, id);
+	await setDoc(supplierRef, cleanedSupplier);
+	return id;
+}
+
+export async function updateSupplier(id: string, updates: Partial<Supplier>) {
+	const supplierRef = doc(db, COLLECTIONS.SUPPLIERS, id);
+	const cleanedUpdates = Object.fromEntries(
+		Object.entries(updates).filter(([, value]) => value !== undefined),
+	);
+	await updateDoc(supplierRef, cleanedUpdates);
+}
+
+export async function deleteSupplier(id: string) {
+	const supplierRef = doc(db, COLLECTIONS.SUPPLIERS, id);
+	await deleteDoc(supplierRef);
+}
+
+// Purchase order operations
+async function generatePoNumber(): Promise<string> {
+	const prefix = PO_NUMBER_PREFIX;
+	const next = await reserveSequence(
+		getCounterId(COLLECTIONS.PURCHASE_ORDERS, "PO"),
+		1,
+		async () => {
+			const snapshot = await getDocs(collection(db, COLLECTIONS.PURCHASE_ORDERS));
+			return maxSequence(
+				snapshot.docs.map((docSnap) => docSnap.data().poNumber as string | undefined),
+				prefix,
+			);
+		},
+		{ collection: COLLECTIONS.PURCHASE_ORDERS, prefix },
+	);
+	return `${prefix}${String(next).padStart(3, "0")}`;
+}
+
+export async function addPurchaseOrder(
+	purchaseOrder: Omit<PurchaseOrder, "id" | "poNumber" | "status" | "createdAt">,
+	status: "Draft" | "Open" = "Open",
+) {
+	const [id, poNumber] = await Promise.all([
+		generateReadableId(COLLECTIONS.PURCHASE_ORDERS, READABLE_ID_PREFIXES.PURCHASE_ORDERS),
+		generatePoNumber(),
+	]);
+	const cleanedPurchaseOrder = Object.fromEntries(
+		Object.entries({
+			...purchaseOrder,
+			poNumber,
+			status,
+			receipts: [],
+			createdAt: new Date().toISOString(),
+		}).filter(([, value]) => value !== undefined),
+	);
+	await setDoc(doc(db, COLLECTIONS.PURCHASE_ORDERS, id), cleanedPurchaseOrder);
+	return { id, poNumber };
+}
+
+export async function updatePurchaseOrder(id: string, updates: Partial<PurchaseOrder>) {
+	const purchaseOrderRef = doc(db, COLLECTIONS.PURCHASE_ORDERS, id);
+	const cleanedUpdates = Object.fromEntries(
+		Object.entries(updates).filter(([, value]) => value !== undefined),
+	);
+	await updateDoc(purchaseOrderRef, cleanedUpdates);
+}
+
+export async function deletePurchaseOrder(id: string) {
+	const purchaseOrderRef = doc(db, COLLECTIONS.PURCHASE_ORDERS, id);
+	await deleteDoc(purchaseOrderRef);
+}
+
+// Manufacturing stage definitions
+export async function addProcessDefinition(definition: Omit<ProcessDefinition, "id">) {
+	const cleanedDefinition = Object.fromEntries(
+		Object.entries({
+			...definition,
+			createdAt: definition.createdAt || new Date().toISOString(),
+		}).filter(([, value]) => value !== undefined),
+	) as Omit<ProcessDefinition, "id">;
+
+	const id = await generateReadableId(COLLECTIONS.PROCESS_DEFINITIONS, READABLE_ID_PREFIXES.PROCESS_DEFINITIONS);
+	const definitionRef = doc(db, COLLECTIONS.PROCESS_DEFINITIONS, id);
+	await setDoc(definitionRef, cleanedDefinition);
+	return id;
+}
+
+export async function updateProcessDefinition(id: string, updates: Partial<ProcessDefinition>) {
+	const definitionRef = doc(db, COLLECTIONS.PROCESS_DEFINITIONS, id);
+	const cleanedUpdates = Object.fromEntries(
+		Object.entries(updates).filter(([key, value]) => value !== undefined && key !== "id"),
+	);
+	// Merge: built-in stages only get a document once their label or code is overridden
+	await setDoc(definitionRef, cleanedUpdates, { merge: true });
+}
+
+export async function deleteProcessDefinition(id: string) {
+	const definitionRef = doc(db, COLLECTIONS.PROCESS_DEFINITIONS, id);
+	await deleteDoc(definitionRef);
+}
+
+// Workstation operations
+export async function addWorkstation(workstation: Omit<Workstation, "id">) {
+	const cleanedWorkstation = Object.fromEntries(
+		Object.entries({
+			...workstation,
+			createdAt: workstation.createdAt || new Date().toISOString(),
+		}).filter(([, value]) => value !== undefined),
+	) as Omit<Workstation, "id">;
+
+	const id = await generateReadableId(COLLECTIONS.WORKSTATIONS, READABLE_ID_PREFIXES.WORKSTATIONS);
+	const workstationRef = doc(db, COLLECTIONS.WORKSTATIONS, id);
+	await setDoc(workstationRef, cleanedWorkstation);
+	return id;
+}
+
+export async function updateWorkstation(id: string, updates: Partial<Workstation>) {
+	const workstationRef = doc(db, COLLECTIONS.WORKSTATIONS, id);
+	const cleanedUpdates = Object.fromEntries(
+		Object.entries(updates).filter(([key, value]) => value !== undefined && key !== "id"),
+	);
+	await updateDoc(workstationRef, cleanedUpdates);
+}
+
+export async function deleteWorkstation(id: string) {
+	const workstationRef = doc(db, COLLECTIONS.WORKSTATIONS, id);
+	await deleteDoc(workstationRef);
+}
+
+// Downtime operations
+export async function addDowntimeEvent(event: Omit<DowntimeEvent, "id" | "createdAt">) {
+	const cleanedEvent = Object.fromEntries(
+		Object.entries({
+			...event,
+			createdAt: new Date().toISOString(),
+		}).filter(([, value]) => value !== undefined && value !== ""),
+	) as Omit<DowntimeEvent, "id">;
+
+	const id = await generateReadableId(COLLECTIONS.DOWNTIME_EVENTS, READABLE_ID_PREFIXES.DOWNTIME_EVENTS);
+	const eventRef = doc(db, COLLECTIONS.DOWNTIME_EVENTS, id);
+	await setDoc(eventRef, cleanedEvent);
+	return id;
+}
+
+export async function updateDowntimeEvent(id: string, updates: Partial<DowntimeEvent>) {
+	const eventRef = doc(db, COLLECTIONS.DOWNTIME_EVENTS, id);
+	const cleanedUpdates = Object.fromEntries(
+		Object.entries(updates).filter(([key, value]) => value !== undefined && key !== "id"),
+	);
+	await updateDoc(eventRef, cleanedUpdates);
+}
+
+export async function deleteDowntimeEvent(id: string) {
+	const eventRef = doc(db, COLLECTIONS.DOWNTIME_EVENTS, id);
+	await deleteDoc(eventRef);
+}
+
+// Shift calendar operations
+export async function addShift(shift: Omit<Shift, "id">) {
+	const cleanedShift = Object.fromEntries(
+		Object.entries({
+			...shift,
+			createdAt: shift.createdAt || new Date().toISOString(),
+		}).filter(([, value]) => value !== undefined),
+	) as Omit<Shift, "id">;
+
+	const id = await generateReadableId(COLLECTIONS.SHIFTS, READABLE_ID_PREFIXES.SHIFTS);
+	const shiftRef = doc(db, COLLECTIONS.SHIFTS, id);
+	await setDoc(shiftRef, cleanedShift);
+	return id;
+}
+
+export async function updateShift(id: string, updates: Partial<Shift>) {
+	const shiftRef = doc(db, COLLECTIONS.SHIFTS, id);
+	const cleanedUpdates = Object.fromEntries(
+		Object.entries(updates).filter(([key, value]) => value !== undefined && key !== "id"),
+	);
+	await updateDoc(shiftRef, cleanedUpdates);
+}
+
+export async function deleteShift(id: string) {
+	const shiftRef = doc(db, COLLECTIONS.SHIFTS, id);
+	await deleteDoc(shiftRef);
+}
+
+export async function addHoliday(holiday: Omit<Holiday, "id">) {
+	const id = await generateReadableId(COLLECTIONS.HOLIDAYS, READABLE_ID_PREFIXES.HOLIDAYS);
+	const holidayRef = doc(db, COLLECTIONS.HOLIDAYS, id);
+	await setDoc(holidayRef, {
+		...holiday,
+		createdAt: holiday.createdAt || new Date().toISOString(),
+	});
+	return id;
+}
+
+export async function deleteHoliday(id: string) {
+	const holidayRef = doc(db, COLLECTIONS.HOLIDAYS, id);
+	await deleteDoc(holidayRef);
+}
+
 // Batch operations for multiple updates
 export async function batchUpdateRawMaterials(
   updates: Array<{ id: string; updates: Partial<RawMaterial> }>,
@@ -426,7 +664,7 @@ export async function batchUpdateRawMaterials(
 import type { Order } from "@/lib/types";
 
 export async function addOrder(order: Omit<Order, "id">) {
-  const id = await generateReadableId(COLLECTIONS.ORDERS, "order");
+  const id = await generateReadableId(COLLECTIONS.ORDERS, READABLE_ID_PREFIXES.ORDERS);
   const orderRef = doc(db, COLLECTIONS.ORDERS, id);
   await setDoc(orderRef, order);
   return id;
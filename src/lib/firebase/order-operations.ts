@@ -0,0 +1,242 @@
+import { doc, getDoc, runTransaction, type DocumentReference } from "firebase/firestore";
+import { db } from "./config";
+import { COLLECTIONS, READABLE_ID_PREFIXES } from "@/lib/collections";
+import { generateReadableIds } from "@/lib/id";
+import { canTransitionOrder, getOrderStatus } from "@/lib/orders";
+import { getUnreservedQuantity, isSameBatchEntry } from "@/lib/stock-availability";
+import type {
+  ActivityLog,
+  BatchEntry,
+  FinalStock,
+  Order,
+  OrderAllocation,
+  OrderStatus,
+  StockMovement,
+} from "@/lib/types";
+
+export interface TransitionOrderInput {
+  orderId: string; // Firestore document ID of the order
+  to: OrderStatus;
+  user?: string;
+}
+
+function sumEntries(entries: BatchEntry[] | undefined): number {
+  return (entries || []).reduce((sum, e) => sum + Number(e.quantity || 0), 0);
+}
+
+// Apply `update` to the one batch entry an allocation was taken from
+function updateAllocatedEntry(
+  entries: BatchEntry[],
+  allocation: OrderAllocation,
+  update: (entry: BatchEntry) => BatchEntry,
+): BatchEntry[] {
+  const index = entries.findIndex((e) => isSameBatchEntry(e, allocation));
+  return index < 0 ? entries : entries.map((e, i) => (i === index ? update(e) : e));
+}
+
+function byCreatedAt(a: BatchEntry, b: BatchEntry): number {
+  return new Date(a.createdAt || 0).getTime() - new Date(b.createdAt || 0).getTime();
+}
+
+/**
+ * Move an order to a new status as a single Firestore transaction.
+ *
+ * Stock effects by transition:
+ * - Confirmed: reserves units FIFO on `FinalStock.batches[].reserved` and records the allocations
+ * - Dispatched: deducts the allocated units from those batch entries and releases the reservation
+ * - Cancelled: releases the reservation, or returns dispatched units to the original batch entries
+ *
+ * Every transition appends to `statusHistory` and writes an activity log entry;
+ * stock changes also write `stockMovements` ledger entries.
+ */
+export async function transitionOrderStatus(input: TransitionOrderInput): Promise<void> {
+  const user = input.user || "System";
+  const orderRef = doc(db, COLLECTIONS.ORDERS, input.orderId);
+
+  // Reserve IDs up-front: one log per transition, at most one ledger entry per line
+  const orderSnapshot = await getDoc(orderRef);
+  if (!orderSnapshot.exists()) {
+    throw new Error(`Order ${input.orderId} not found`);
+  }
+  const lineCount = ((orderSnapshot.data() as Order).lines || []).length;
+  const movesStock = input.to === "Dispatched" || input.to === "Cancelled";
+  const [logId] = await generateReadableIds(COLLECTIONS.ACTIVITY_LOG, READABLE_ID_PREFIXES.ACTIVITY_LOG, 1);
+  const movementIds = movesStock
+    ? await generateReadableIds(COLLECTIONS.STOCK_MOVEMENTS, READABLE_ID_PREFIXES.STOCK_MOVEMENTS, lineCount)
+    : [];
+
+  await runTransaction(db, async (transaction) => {
+    // ---- Reads ----
+    const freshSnap = await transaction.get(orderRef);
+    if (!freshSnap.exists()) {
+      throw new Error(`Order ${input.orderId} not found`);
+    }
+    const order = { id: freshSnap.id, ...freshSnap.data() } as Order;
+    const from = getOrderStatus(order);
+
+    if (!canTransitionOrder(from, input.to)) {
+      throw new Error(`Order ${order.orderId} cannot move from ${from} to ${input.to}.`);
+    }
+
+    const products = new Map<string, { ref: DocumentReference; data: FinalStock }>();
+    for (const line of order.lines || []) {
+      if (products.has(line.productId)) continue;
+      const productRef = doc(db, COLLECTIONS.FINAL_STOCK, line.productId);
+      const snap = await transaction.get(productRef);
+      if (!snap.exists()) {
+        throw new Error(`Product ${line.productName} (${line.productId}) no longer exists in Final Stock.`);
+      }
+      products.set(line.productId, {
+        ref: productRef,
+        data: { ...(snap.data() as FinalStock), id: snap.id },
+      });
+    }
+
+    // ---- Writes ----
+    const now = new Date().toISOString();
+    const ledger: Omit<StockMovement, "id">[] = [];
+    let allocations = order.allocations || [];
+    const touched = new Set<string>();
+
+    const entriesOf = (productId: string) => products.get(productId)!.data.batches || [];
+    const setEntries = (productId: string, entries: BatchEntry[]) => {
+      products.get(productId)!.data.batches = entries;
+      touched.add(productId);
+    };
+
+    if (input.to === "Confirmed") {
+      allocations = [];
+      for (const line of order.lines || []) {
+        const product = products.get(line.productId)!.data;
+        const entries = entriesOf(line.productId).map((e) => ({ ...e }));
+        const available = entries.reduce((sum, e) => sum + getUnreservedQuantity(e), 0);
+        if (line.quantity > available) {
+          throw new Error(`Insufficient stock for ${product.name}: available ${available}, requested ${line.quantity}.`);
+        }
+        let remaining = Number(line.quantity);
+        for (const entry of [...entries].sort(byCreatedAt)) {
+          if (remaining <= 0) break;
+          const take = Math.min(getUnreservedQuantity(entry), remaining);
+          if (take <= 0) continue;
+          entry.reserved = Number(entry.reserved || 0) + take;
+          remaining -= take;
+          allocations.push({
+            productId: line.productId,
+            batchId: entry.batchId,
+            sourceBatchId: entry.sourceBatchId,
+            sku: entry.sku,
+            createdAt: entry.createdAt,
+            quantity: take,
+          });
+        }
+        setEntries(line.productId, entries);
+      }
+    }
+
+    const releaseReservation = (allocation: OrderAllocation) => {
+      const entries = updateAllocatedEntry(entriesOf(allocation.productId), allocation, (e) => ({
+        ...e,
+        reserved: Math.max(0, Number(e.reserved || 0) - allocation.quantity),
+      }));
+      setEntries(allocation.productId, entries);
+    };
+
+    if (input.to === "Dispatched") {
+      for (const allocation of allocations) {
+        const product = products.get(allocation.productId)!.data;
+        const entry = entriesOf(allocation.productId).find((e) => isSameBatchEntry(e, allocation));
+        if (!entry || Number(entry.quantity || 0) < allocation.quantity) {
+          throw new Error(
+            `Reserved stock for ${product.name} in batch ${allocation.batchId} is no longer available.`,
+          );
+        }
+        releaseReservation(allocation);
+        setEntries(
+          allocation.productId,
+          updateAllocatedEntry(entriesOf(allocation.productId), allocation, (e) => ({
+            ...e,
+            quantity: Number(e.quantity || 0) - allocation.quantity,
+          })),
+        );
+      }
+    }
+
+    if (input.to === "Cancelled" && (from === "Confirmed" || from === "Picked")) {
+      allocations.forEach(releaseReservation);
+    }
+
+    if (input.to === "Cancelled" && from === "Dispatched") {
+      // Return units to the batch entries they were taken from, recreating removed entries
+      for (const allocation of allocations) {
+        const entries = entriesOf(allocation.productId);
+        const exists = entries.some((e) => isSameBatchEntry(e, allocation));
+        setEntries(
+          allocation.productId,
+          exists
+            ? updateAllocatedEntry(entries, allocation, (e) => ({
+                ...e,
+                quantity: Number(e.quantity || 0) + allocation.quantity,
+              }))
+            : [
+                ...entries,
+                {
+                  batchId: allocation.batchId,
+                  sourceBatchId: allocation.sourceBatchId,
+                  sku: allocation.sku,
+                  createdAt: allocation.createdAt,
+                  quantity: allocation.quantity,
+                },
+              ],
+        );
+      }
+    }
+
+    if (movesStock && (input.to === "Dispatched" || from === "Dispatched")) {
+      const sign = input.to === "Dispatched" ? -1 : 1;
+      for (const line of order.lines || []) {
+        const quantity = allocations
+          .filter((a) => a.productId === line.productId)
+          .reduce((sum, a) => sum + a.quantity, 0);
+        if (quantity <= 0) continue;
+        ledger.push({
+          itemId: line.productId,
+          itemKind: "FinalStock",
+          itemName: line.productName,
+          quantity: sign * quantity,
+          unit: "pcs",
+          reason: input.to === "Dispatched" ? "order_fulfilment" : "order_cancellation",
+          orderId: order.orderId,
+          balanceAfter: sumEntries(entriesOf(line.productId)),
+          user,
+          timestamp: now,
+        });
+      }
+    }
+
+    for (const productId of touched) {
+      const product = products.get(productId)!;
+      transaction.update(product.ref, { batches: product.data.batches || [] });
+    }
+
+    transaction.update(orderRef, {
+      status: input.to,
+      allocations,
+      statusHistory: [...(order.statusHistory || []), { from, to: input.to, timestamp: now, user }],
+    });
+
+    const log: Omit<ActivityLog, "id"> = {
+      recordId: order.id,
+      recordType: "Order",
+      action: "Status Changed",
+      details: `Order ${order.orderId} moved from ${from} to ${input.to}.`,
+      timestamp: now,
+      user,
+    };
+    transaction.set(doc(db, COLLECTIONS.ACTIVITY_LOG, logId), log);
+
+    ledger.forEach((movement, i) => {
+      const data = Object.fromEntries(Object.entries(movement).filter(([, v]) => v !== undefined));
+      transaction.set(doc(db, COLLECTIONS.STOCK_MOVEMENTS, movementIds[i]), data);
+    });
+  });
+}
@@ -0,0 +1,228 @@
+import { doc, getDoc, runTransaction, type DocumentReference } from "firebase/firestore";
+import { db } from "./config";
+import { COLLECTIONS, READABLE_ID_PREFIXES } from "@/lib/collections";
+import { generateReadableIds } from "@/lib/id";
+import { getOutstandingQuantity, getReceiptStatus, isPurchaseOrderOpen } from "@/lib/purchasing";
+import { createLot } from "@/lib/material-lots";
+import type {
+  ActivityLog,
+  PurchaseOrder,
+  PurchaseOrderStatus,
+  RawMaterial,
+  RestockRecord,
+  StockMovement,
+} from "@/lib/types";
+
+export interface ReceivePurchaseOrderInput {
+  purchaseOrderId: string; // Firestore document ID of the purchase order
+  quantities: Record<string, number>; // Quantity received now, per materialId
+  lots?: Record<string, { lotNumber?: string; expiryDate?: string }>; // Supplier lot details, per materialId
+  receivedAt?: string; // ISO string, defaults to now
+  user?: string;
+}
+
+/**
+ * Receive all or part of a purchase order as a single Firestore transaction.
+ *
+ * For each line with a positive quantity:
+ * - increments `RawMaterial.quantity` and adds the received supplier lot
+ * - writes a `RestockRecord` (linked to the supplier and PO), an activity log
+ *   entry and a `stockMovements` ledger entry
+ *
+ * The PO's received quantities, status and receipt history are updated in the
+ * same transaction, so a receipt is either fully booked or not at all.
+ */
+export async function receivePurchaseOrder(input: ReceivePurchaseOrderInput): Promise<void> {
+  const user = input.user || "System";
+  const purchaseOrderRef = doc(db, COLLECTIONS.PURCHASE_ORDERS, input.purchaseOrderId);
+
+  const materialIds = Object.entries(input.quantities)
+    .filter(([, quantity]) => Number(quantity) > 0)
+    .map(([materialId]) => materialId);
+  if (materialIds.length === 0) {
+    throw new Error("Enter a received quantity for at least one line.");
+  }
+
+  // Reserve IDs up-front: one restock, log and ledger entry per received line
+  const snapshot = await getDoc(purchaseOrderRef);
+  if (!snapshot.exists()) {
+    throw new Error(`Purchase order ${input.purchaseOrderId} not found`);
+  }
+  const [restockIds, logIds, movementIds] = await Promise.all([
+    generateReadableIds(COLLECTIONS.RESTOCKS, READABLE_ID_PREFIXES.RESTOCKS, materialIds.length),
+    generateReadableIds(COLLECTIONS.ACTIVITY_LOG, READABLE_ID_PREFIXES.ACTIVITY_LOG, materialIds.length),
+    generateReadableIds(COLLECTIONS.STOCK_MOVEMENTS, READABLE_ID_PREFIXES.STOCK_MOVEMENTS, materialIds.length),
+  ]);
+
+  await runTransaction(db, async (transaction) => {
+    // ---- Reads ----
+    const freshSnap = await transaction.get(purchaseOrderRef);
+    if (!freshSnap.exists()) {
+      throw new Error(`Purchase order ${input.purchaseOrderId} not found`);
+    }
+    const purchaseOrder = { id: freshSnap.id, ...freshSnap.data() } as PurchaseOrder;
+
+    if (!isPurchaseOrderOpen(purchaseOrder)) {
+      throw new Error(`Purchase order ${purchaseOrder.poNumber} is ${purchaseOrder.status} and cannot be received.`);
+    }
+
+    const materials = new Map<string, { ref: DocumentReference; data: RawMaterial }>();
+    for (const materialId of materialIds) {
+      const line = purchaseOrder.lines.find((l) => l.materialId === materialId);
+      if (!line) {
+        throw new Error(`Material ${materialId} is not on purchase order ${purchaseOrder.poNumber}.`);
+      }
+      const quantity = Number(input.quantities[materialId]);
+      const outstanding = getOutstandingQuantity(line);
+      if (quantity > outstanding) {
+        throw new Error(
+          `Cannot receive ${quantity} ${line.unit} of ${line.materialName}: only ${outstanding} outstanding.`,
+        );
+      }
+      const materialRef = doc(db, COLLECTIONS.RAW_MATERIALS, materialId);
+      const snap = await transaction.get(materialRef);
+      if (!snap.exists()) {
+        throw new Error(`Raw material ${line.materialName} (${materialId}) no longer exists.`);
+      }
+      materials.set(materialId, { ref: materialRef, data: { ...(snap.data() as RawMaterial), id: snap.id } });
+    }
+
+    // ---- Writes ----
+    const now = new Date().toISOString();
+    const receivedAt = input.receivedAt || now;
+
+    materialIds.forEach((materialId, i) => {
+      const line = purchaseOrder.lines.find((l) => l.materialId === materialId)!;
+      const material = materials.get(materialId)!;
+      const quantity = Number(input.quantities[materialId]);
+      const previousStock = Number(material.data.quantity || 0);
+      const updatedStock = previousStock + quantity;
+      const lotInput = input.lots?.[materialId];
+      const lot = createLot({
+        lotNumber: lotInput?.lotNumber,
+        quantity,
+        receivedAt,
+        expiryDate: lotInput?.expiryDate,
+        supplier: purchaseOrder.supplierName,
+        restockId: restockIds[i],
+      });
+
+      transaction.update(material.ref, { quantity: updatedStock, lots: [...(material.data.lots || []), lot] });
+
+      const restock: Omit<RestockRecord, "id"> = {
+        productId: materialId,
+        productName: material.data.name,
+        quantityAdded: quantity,
+        companyName: purchaseOrder.supplierName,
+        restockDate: receivedAt,
+        previousStock,
+        updatedStock,
+        createdAt: now,
+        supplierId: purchaseOrder.supplierId,
+        purchaseOrderId: purchaseOrder.id,
+        lotNumber: lot.lotNumber,
+        ...(lot.expiresAt ? { expiryDate: lot.expiresAt } : {}),
+      };
+      transaction.set(doc(db, COLLECTIONS.RESTOCKS, restockIds[i]), restock);
+
+      const log: Omit<ActivityLog, "id"> = {
+        recordId: materialId,
+        recordType: "RawMaterial",
+        action: "Restocked",
+        details: `Received ${quantity} ${line.unit} (lot ${lot.lotNumber}) from ${purchaseOrder.supplierName} against ${purchaseOrder.poNumber}. Old quantity: ${previousStock}, New quantity: ${updatedStock}.`,
+        timestamp: now,
+        user,
+      };
+      transaction.set(doc(db, COLLECTIONS.ACTIVITY_LOG, logIds[i]), log);
+
+      const movement: Omit<StockMovement, "id"> = {
+        itemId: materialId,
+        itemKind: "RawMaterial",
+        itemName: material.data.name,
+        quantity,
+        unit: material.data.unit || line.unit,
+        reason: "restock",
+        restockId: restockIds[i],
+        balanceAfter: updatedStock,
+        user,
+        timestamp: now,
+      };
+      transaction.set(doc(db, COLLECTIONS.STOCK_MOVEMENTS, movementIds[i]), movement);
+    });
+
+    const lines = purchaseOrder.lines.map((line) => ({
+      ...line,
+      quantityReceived: Number(line.quantityReceived || 0) + Number(input.quantities[line.materialId] || 0),
+    }));
+
+    transaction.update(purchaseOrderRef, {
+      lines,
+      status: getReceiptStatus(lines),
+      receipts: [
+        ...(purchaseOrder.receipts || []),
+        {
+          receivedAt,
+          lines: materialIds.map((materialId, i) => ({
+            materialId,
+            quantity: Number(input.quantities[materialId]),
+            lotNumber: input.lots?.[materialId]?.lotNumber?.trim() || restockIds[i],
+          })),
+          restockIds,
+          user,
+        },
+      ],
+    });
+  });
+}
+
+/**
+ * Move a purchase order to `status` as a single Firestore transaction, checking
+ * its stored status rather than the one the page last showed, and write an
+ * activity log entry.
+ */
+async function setPurchaseOrderStatus(
+  purchaseOrderId: string,
+  status: PurchaseOrderStatus,
+  canMove: (purchaseOrder: PurchaseOrder) => boolean,
+  user: string,
+): Promise<void> {
+  const purchaseOrderRef = doc(db, COLLECTIONS.PURCHASE_ORDERS, purchaseOrderId);
+  const [logId] = await generateReadableIds(COLLECTIONS.ACTIVITY_LOG, READABLE_ID_PREFIXES.ACTIVITY_LOG, 1);
+
+  await runTransaction(db, async (transaction) => {
+    const snap = await transaction.get(purchaseOrderRef);
+    if (!snap.exists()) {
+      throw new Error(`Purchase order ${purchaseOrderId} not found`);
+    }
+    const purchaseOrder = { id: snap.id, ...snap.data() } as PurchaseOrder;
+    if (!canMove(purchaseOrder)) {
+      throw new Error(`Purchase order ${purchaseOrder.poNumber} is ${purchaseOrder.status} and cannot move to ${status}.`);
+    }
+
+    transaction.update(purchaseOrderRef, { status });
+    const log: Omit<ActivityLog, "id"> = {
+      recordId: purchaseOrder.id,
+      recordType: "PurchaseOrder",
+      action: "Status Changed",
+      details: `Purchase order ${purchaseOrder.poNumber} moved from ${purchaseOrder.status} to ${status}.`,
+      timestamp: new Date().toISOString(),
+      user,
+    };
+    transaction.set(doc(db, COLLECTIONS.ACTIVITY_LOG, logId), log);
+  });
+}
+
+/**
+ * Issue a Draft purchase order to its supplier.
+ */
+export async function issuePurchaseOrder(purchaseOrderId: string, user: string = "System"): Promise<void> {
+  await setPurchaseOrderStatus(purchaseOrderId, "Open", (po) => po.status === "Draft", user);
+}
+
+/**
+ * Cancel the outstanding balance of an open purchase order. Anything already
+ * received stays in stock.
+ */
+export async function cancelPurchaseOrder(purchaseOrderId: string, user: string = "System"): Promise<void> {
+  await setPurchaseOrderStatus(purchaseOrderId, "Cancelled", isPurchaseOrderOpen, user);
+}
@@ -0,0 +1,145 @@
+import { arrayRemove, arrayUnion, doc, runTransaction, type DocumentReference, type Transaction } from "firebase/firestore";
+import { db } from "./config";
+import { COLLECTIONS, READABLE_ID_PREFIXES } from "@/lib/collections";
+import { generateReadableId } from "@/lib/id";
+import { checkSlot, getScheduleQuantity } from "@/lib/scheduling";
+import type { TimeRange } from "@/lib/shifts";
+import { getWorkstationLabel } from "@/lib/workstations";
+import type { Batch, ProcessingStageName, ScheduleSlot, ShiftCalendar, Workstation } from "@/lib/types";
+
+/**
+ * Client transactions cannot query, so the slots of each workstation and of
+ * each batch are listed in a `scheduleIndex` document. A booking reads the
+ * lists it is checked against and updates them in the same transaction, so
+ * two planners booking the same workstation at once cannot both succeed.
+ */
+interface ScheduleIndexEntry {
+  slotIds: string[];
+}
+
+const workstationIndexRef = (workstationId: string) =>
+  doc(db, COLLECTIONS.SCHEDULE_INDEX, `workstation_${workstationId}`);
+
+const batchIndexRef = (batchId: string) => doc(db, COLLECTIONS.SCHEDULE_INDEX, `batch_${batchId}`);
+
+async function readSlotIds(transaction: Transaction, ref: DocumentReference): Promise<string[]> {
+  const snap = await transaction.get(ref);
+  return snap.exists() ? (snap.data() as ScheduleIndexEntry).slotIds || [] : [];
+}
+
+export interface ScheduleBatchInput {
+  batchId: string; // Firestore document ID of the batch
+  stage: ProcessingStageName;
+  workstationId: string;
+  start: number; // Epoch ms where the batch was dropped, moved to the next working moment
+  calendar: ShiftCalendar;
+  slot?: ScheduleSlot; // Slot being moved, as the board showed it
+  user?: string;
+}
+
+/**
+ * Book a batch on a workstation, or move one of its slots, as a single
+ * Firestore transaction. The slot is checked against the workstation's and the
+ * batch's slots as stored, not as the board last showed them; a slot moved or
+ * removed since is not overwritten. Returns where the batch will run.
+ */
+export async function scheduleBatch(input: ScheduleBatchInput): Promise<TimeRange> {
+  const { stage, calendar } = input;
+  const slotId =
+    input.slot?.id || (await generateReadableId(COLLECTIONS.SCHEDULE_SLOTS, READABLE_ID_PREFIXES.SCHEDULE_SLOTS));
+  const slotRef = doc(db, COLLECTIONS.SCHEDULE_SLOTS, slotId);
+  const batchRef = doc(db, COLLECTIONS.BATCHES, input.batchId);
+  const workstationRef = doc(db, COLLECTIONS.WORKSTATIONS, input.workstationId);
+
+  return runTransaction(db, async (transaction) => {
+    // ---- Reads ----
+    const batchSnap = await transaction.get(batchRef);
+    if (!batchSnap.exists()) {
+      throw new Error(`Batch ${input.batchId} not found`);
+    }
+    const batch = { id: batchSnap.id, ...batchSnap.data() } as Batch;
+
+    const workstationSnap = await transaction.get(workstationRef);
+    if (!workstationSnap.exists()) {
+      throw new Error(`Workstation ${input.workstationId} not found`);
+    }
+    const workstation = { id: workstationSnap.id, ...workstationSnap.data() } as Workstation;
+
+    let current: ScheduleSlot | undefined;
+    if (input.slot) {
+      const slotSnap = await transaction.get(slotRef);
+      if (!slotSnap.exists()) {
+        throw new Error(`${input.slot.displayBatchId} was taken off the board by someone else.`);
+      }
+      current = { id: slotSnap.id, ...slotSnap.data() } as ScheduleSlot;
+      if (
+        current.workstationId !== input.slot.workstationId ||
+        current.start !== input.slot.start ||
+        current.end !== input.slot.end
+      ) {
+        throw new Error(`${input.slot.displayBatchId} was moved by someone else. Check the board and try again.`);
+      }
+    }
+
+    const slotIds = new Set([
+      ...(await readSlotIds(transaction, workstationIndexRef(workstation.id))),
+      ...(await readSlotIds(transaction, batchIndexRef(batch.id))),
+    ]);
+    const slots: ScheduleSlot[] = [];
+    for (const id of slotIds) {
+      const snap = await transaction.get(doc(db, COLLECTIONS.SCHEDULE_SLOTS, id));
+      if (snap.exists()) slots.push({ id: snap.id, ...snap.data() } as ScheduleSlot);
+    }
+
+    const check = checkSlot({ batch, stage, workstation, start: input.start, slots, calendar, slotId });
+    if (!check.isValid || !check.slot) {
+      throw new Error(check.reason);
+    }
+
+    // ---- Writes ----
+    const values = {
+      workstationId: workstation.id,
+      workstationName: getWorkstationLabel(workstation),
+      quantity: getScheduleQuantity(batch, stage),
+      start: new Date(check.slot.start).toISOString(),
+      end: new Date(check.slot.end).toISOString(),
+    };
+    if (current) {
+      transaction.update(slotRef, values);
+      if (current.workstationId !== workstation.id) {
+        transaction.set(workstationIndexRef(current.workstationId), { slotIds: arrayRemove(slotId) }, { merge: true });
+      }
+    } else {
+      const slot: Omit<ScheduleSlot, "id"> = {
+        batchId: batch.id,
+        displayBatchId: batch.batchId,
+        productName: batch.productName,
+        stage,
+        ...values,
+        user: input.user || "System",
+        createdAt: new Date().toISOString(),
+      };
+      transaction.set(slotRef, slot);
+    }
+    transaction.set(workstationIndexRef(workstation.id), { slotIds: arrayUnion(slotId) }, { merge: true });
+    transaction.set(batchIndexRef(batch.id), { slotIds: arrayUnion(slotId) }, { merge: true });
+
+    return check.slot;
+  });
+}
+
+/**
+ * Take a slot off the board and out of the schedule index.
+ */
+export async function unscheduleSlot(slotId: string): Promise<void> {
+  const slotRef = doc(db, COLLECTIONS.SCHEDULE_SLOTS, slotId);
+  await runTransaction(db, async (transaction) => {
+    const snap = await transaction.get(slotRef);
+    if (!snap.exists()) return;
+    const slot = snap.data() as ScheduleSlot;
+
+    transaction.delete(slotRef);
+    transaction.set(workstationIndexRef(slot.workstationId), { slotIds: arrayRemove(slotId) }, { merge: true });
+    transaction.set(batchIndexRef(slot.batchId), { slotIds: arrayRemove(slotId) }, { merge: true });
+  });
+}
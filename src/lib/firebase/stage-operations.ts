@@ -0,0 +1,735 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  runTransaction,
+  where,
+  type DocumentData,
+  type DocumentReference,
+} from "firebase/firestore";
+import { db } from "./config";
+import { COLLECTIONS, READABLE_ID_PREFIXES } from "@/lib/collections";
+import { generateReadableIds } from "@/lib/id";
+import { getBatchId } from "@/lib/utils";
+import type {
+  ActivityLog,
+  Batch,
+  BatchEntry,
+  FinalStock,
+  LotConsumption,
+  ProcessDefinition,
+  ProcessingStageName,
+  RawMaterial,
+  RejectDisposition,
+  ScrapRecord,
+  StageAssignment,
+  StageCycle,
+  StockMovement,
+} from "@/lib/types";
+import { getMaterialStockKind } from "@/lib/stock-movements";
+import { getUnreservedQuantity } from "@/lib/stock-availability";
+import { isBuiltInStage } from "@/lib/stages";
+import { getDispositionTotal, getScrapReasonLabel } from "@/lib/rejects";
+import { drawFromLots } from "@/lib/material-lots";
+import { sumCycles } from "@/lib/stage-cycles";
+import {
+  readRawMaterials,
+  releaseMaterials,
+  writeCommittedDeltas,
+  type RawMaterialDocs,
+} from "./batch-allocation";
+
+/**
+ * Where the accepted units of a stage are credited.
+ * Store targets are intermediate items kept in the rawMaterials collection;
+ * "stage" is the Store item of a stage configured in Setup.
+ */
+export type StageOutputTarget = "moulded" | "machined" | "assembled" | "stage" | "final";
+
+type StoreFlag = "isMoulded" | "isFinished" | "isAssembled";
+
+interface StoreOutputConfig {
+  namePrefix: string;
+  skuPrefix: string;
+  label: string;
+  marker: Partial<RawMaterial>; // Fields that identify (and are set on) the Store item
+}
+
+const STORE_OUTPUTS: Record<
+  Exclude<StageOutputTarget, "final" | "stage">,
+  { namePrefix: string; flag: StoreFlag; skuPrefix: string; label: string }
+> = {
+  moulded: { namePrefix: "Moulded", flag: "isMoulded", skuPrefix: "MOULD", label: "moulded" },
+  machined: { namePrefix: "Machined", flag: "isFinished", skuPrefix: "FINISH", label: "machined" },
+  assembled: { namePrefix: "Assembled", flag: "isAssembled", skuPrefix: "ASSEMB", label: "assembled" },
+};
+
+function getStoreOutputConfig(
+  target: Exclude<StageOutputTarget, "final">,
+  definition?: ProcessDefinition,
+): StoreOutputConfig {
+  if (target !== "stage") {
+    const { flag, ...config } = STORE_OUTPUTS[target];
+    return { ...config, marker: { [flag]: true } };
+  }
+  if (!definition) {
+    throw new Error("[completeBatchStage] A stage definition is required to credit a configured stage's Store item.");
+  }
+  return {
+    namePrefix: definition.storePrefix || definition.label,
+    skuPrefix: definition.code,
+    label: definition.label.toLowerCase(),
+    marker: { stageOutput: definition.name },
+  };
+}
+
+/**
+ * Decide which inventory items receive the accepted units of a stage,
+ * given the product's effective manufacturing stages. `definition` is only
+ * consulted for stages configured in Setup.
+ */
+export function resolveStageOutputs(
+  stage: ProcessingStageName,
+  effectiveStages: ProcessingStageName[],
+  definition?: ProcessDefinition,
+): StageOutputTarget[] {
+  const isSingleStageProduct = effectiveStages.length === 1 && effectiveStages[0] === stage;
+  if (isSingleStageProduct) {
+    // Single-stage products go directly to Final Stock, skipping Store intermediates
+    return ["final"];
+  }
+
+  const isLastStage = effectiveStages[effectiveStages.length - 1] === stage;
+  if (!isBuiltInStage(stage)) {
+    if (isLastStage) return ["final"];
+    return definition?.producesStoreItem ? ["stage"] : [];
+  }
+  const isMachiningOnly = effectiveStages.length === 1 && effectiveStages[0] === "Machining";
+  const isMoldingAndMachiningOnly =
+    effectiveStages.length === 2 &&
+    effectiveStages.includes("Molding") &&
+    effectiveStages.includes("Machining");
+
+  const outputs: StageOutputTarget[] = [];
+  if (stage === "Molding") outputs.push("moulded");
+  if (stage === "Assembling") outputs.push("assembled");
+  if (stage === "Machining") {
+    // Molding + Machining products reach Final Stock when Machining completes
+    if (isMoldingAndMachiningOnly) outputs.push("final");
+    outputs.push("machined");
+  }
+  if (isLastStage && stage === "Testing" && !isMachiningOnly && !isMoldingAndMachiningOnly) {
+    outputs.push("final");
+  }
+  return outputs;
+}
+
+export interface CompleteStageInput {
+  batchId: string; // Firestore document ID of the batch
+  stage: ProcessingStageName;
+  accepted: number;
+  rejected?: number;
+  actualConsumption?: number;
+  // Actual consumption entered per material ID; zero/missing falls back to BOM × consumedUnits
+  materialConsumptions: Record<string, number>;
+  // Units used to derive default consumption (accepted, or accepted + rejected at Testing)
+  consumedUnits: number;
+  // When false the stage is closed without moving any stock (nothing was produced)
+  moveStock: boolean;
+  effectiveStages: ProcessingStageName[];
+  // Definition of a stage configured in Setup; decides whether it outputs to Store
+  stageDefinition?: ProcessDefinition;
+  // Firestore document ID of the FinalStock product credited when the stage outputs to Final Stock
+  finalStockProductId?: string;
+  // Must account for every rejected unit; Scrap entries get a scrap record in the same transaction
+  dispositions?: RejectDisposition[];
+  scrapUnitCost?: number; // Material cost per scrapped unit
+  defects?: Record<string, number>; // Rejected units per defect code
+  assignment?: StageAssignment; // Workstation and operator that ran the stage
+  // Last cycle of the stage; with cycles recorded, accepted and rejected must be their totals
+  cycle?: StageCycle;
+  user?: string;
+}
+
+export interface StageMovement {
+  itemId: string;
+  itemName: string;
+  kind: "raw" | "final";
+  quantity: number; // negative for consumption, positive for output
+  unit: string;
+  target?: StageOutputTarget;
+  created?: boolean;
+}
+
+export interface CompleteStageResult {
+  consumed: StageMovement[];
+  produced: StageMovement[];
+  status: Batch["status"];
+}
+
+function stripUndefined<T extends object>(value: T): T {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as T;
+}
+
+async function resolveBatchRef(id: string): Promise<DocumentReference> {
+  const batchRef = doc(db, COLLECTIONS.BATCHES, id);
+  const snapshot = await getDoc(batchRef);
+  if (snapshot.exists()) return batchRef;
+
+  // Legacy batches may only be addressable through their stored `id` field
+  const q = query(collection(db, COLLECTIONS.BATCHES), where("id", "==", id));
+  const querySnapshot = await getDocs(q);
+  if (querySnapshot.empty) {
+    throw new Error(`Batch ${id} not found`);
+  }
+  return querySnapshot.docs[0].ref;
+}
+
+async function findStoreItemId(name: string, marker: Partial<RawMaterial>): Promise<string | null> {
+  const q = query(collection(db, COLLECTIONS.RAW_MATERIALS), where("name", "==", name));
+  const snapshot = await getDocs(q);
+  const match = snapshot.docs.find((d) => {
+    const data = d.data() as RawMaterial;
+    return Object.entries(marker).every(([key, value]) => data[key as keyof RawMaterial] === value);
+  });
+  return match ? match.id : null;
+}
+
+/**
+ * Fixed document ID of the Store item a stage outputs for a product. Two first
+ * completions for the same product then create the same document inside their
+ * transactions (one retries and updates it) instead of one item each.
+ */
+function getStoreOutputId(config: StoreOutputConfig, productId: string): string {
+  return `${config.skuPrefix}_${productId}`.replace(/\//g, "_");
+}
+
+// Units reserved for confirmed orders are never consumed by production
+function deductFifo(entries: BatchEntry[], amount: number): BatchEntry[] {
+  let remaining = amount;
+  const sorted = [...entries]
+    .map((e) => ({ ...e }))
+    .sort((a, b) => new Date(a.createdAt || 0).getTime() - new Date(b.createdAt || 0).getTime());
+  for (const entry of sorted) {
+    if (remaining <= 0) break;
+    const q = Math.max(0, Number(entry.quantity || 0));
+    const deduct = Math.min(getUnreservedQuantity(entry), remaining);
+    entry.quantity = q - deduct;
+    remaining -= deduct;
+  }
+  return sorted.filter((e) => Number(e.quantity || 0) > 0);
+}
+
+function sumEntries(entries: BatchEntry[] | undefined): number {
+  return (entries || []).reduce((sum, e) => sum + Number(e.quantity || 0), 0);
+}
+
+/**
+ * Complete a stage for a batch as a single Firestore transaction.
+ *
+ * In one commit this:
+ * - records accepted/rejected/consumption on `processingStages[stage]`, appends the
+ *   last production cycle and closes the stage
+ * - advances the batch status and starts the next stage
+ * - decrements consumed Raw Materials / Final Stock batch entries, drawing raw materials
+ *   from their supplier lots and recording the lots used on the stage
+ * - releases the materials the batch had committed for this stage
+ * - credits the Store intermediate or Final Stock product for accepted units
+ * - writes the matching activity log and `stockMovements` ledger entries
+ *
+ * Either everything is applied or nothing is, so a dropped connection can no longer
+ * leave stock deducted while the batch stays at the same stage.
+ */
+export async function completeBatchStage(input: CompleteStageInput): Promise<CompleteStageResult> {
+  const { stage, accepted } = input;
+  const user = input.user || "System";
+  const outputs = input.moveStock && accepted > 0 ? resolveStageOutputs(stage, input.effectiveStages, input.stageDefinition) : [];
+
+  // Queries are not allowed inside client transactions, so resolve every document
+  // reference up-front; the transaction re-reads them and is retried on conflict.
+  const batchRef = await resolveBatchRef(input.batchId);
+
+  const batchSnapshot = await getDoc(batchRef);
+  const batchData = batchSnapshot.data() as Batch | undefined;
+  const productName = batchData?.productName || "";
+  const productId = batchData?.productId || productName;
+
+  const storeRefs: Partial<Record<StageOutputTarget, { ref: DocumentReference }>> = {};
+  for (const target of outputs) {
+    if (target === "final") continue;
+    const config = getStoreOutputConfig(target, input.stageDefinition);
+    // Items created before output IDs were fixed are still found by name; whether the
+    // item exists is decided by the transaction's own read
+    const existingId = await findStoreItemId(`${config.namePrefix} ${productName}`, config.marker);
+    const id = existingId || getStoreOutputId(config, productId);
+    storeRefs[target] = { ref: doc(db, COLLECTIONS.RAW_MATERIALS, id) };
+  }
+
+  if (outputs.includes("final") && !input.finalStockProductId) {
+    throw new Error(`[completeBatchStage] No Final Stock product resolved for batch ${input.batchId}.`);
+  }
+
+  const stageMaterialIds = (batchData?.materials || [])
+    .filter((m) => m.stage === stage)
+    .map((m) => m.id);
+  // One log and one ledger entry per consumed material and per output,
+  // reserved before the transaction starts
+  const movementCount = (input.moveStock ? stageMaterialIds.length : 0) + outputs.length;
+  const logIds = await generateReadableIds(COLLECTIONS.ACTIVITY_LOG, READABLE_ID_PREFIXES.ACTIVITY_LOG, movementCount);
+  const movementIds = await generateReadableIds(COLLECTIONS.STOCK_MOVEMENTS, READABLE_ID_PREFIXES.STOCK_MOVEMENTS, movementCount);
+
+  const rejected = Number(input.rejected || 0);
+  if (rejected > 0 && getDispositionTotal(input.dispositions) !== rejected) {
+    throw new Error(
+      `All ${rejected} rejected units need a disposition (scrap, rework or return) before ${stage} can be completed.`,
+    );
+  }
+  const scrapCount = (input.dispositions || []).filter((d) => d.type === "Scrap").length;
+  const scrapIds = await generateReadableIds(COLLECTIONS.SCRAP_RECORDS, READABLE_ID_PREFIXES.SCRAP_RECORDS, scrapCount);
+  const scrapLogIds = await generateReadableIds(COLLECTIONS.ACTIVITY_LOG, READABLE_ID_PREFIXES.ACTIVITY_LOG, scrapCount);
+
+  return await runTransaction(db, async (transaction) => {
+    // ---- Reads (all reads must happen before any write) ----
+    const freshBatchSnap = await transaction.get(batchRef);
+    if (!freshBatchSnap.exists()) {
+      throw new Error(`Batch ${input.batchId} not found`);
+    }
+    const batch = { id: freshBatchSnap.id, ...freshBatchSnap.data() } as Batch;
+    const displayBatchId = getBatchId(batch);
+
+    if (batch.processingStages?.[stage]?.completed) {
+      throw new Error(`The ${stage} stage of batch ${displayBatchId} has already been completed.`);
+    }
+    const cycles = [...(batch.processingStages?.[stage]?.cycles || []), ...(input.cycle ? [input.cycle] : [])];
+    if (cycles.length > 0) {
+      const totals = sumCycles(cycles);
+      if (totals.accepted !== accepted || totals.rejected !== Number(input.rejected || 0)) {
+        throw new Error(
+          `Another cycle was recorded on batch ${displayBatchId} at ${stage} meanwhile. Review the totals and try again.`,
+        );
+      }
+    }
+
+    const stageMaterials = input.moveStock ? batch.materials.filter((m) => m.stage === stage) : [];
+    // Log and ledger IDs were reserved for the materials read before the transaction
+    if (stageMaterials.length > 0 && stageMaterials.length !== stageMaterialIds.length) {
+      throw new Error(`The ${stage} materials of batch ${displayBatchId} changed meanwhile. Review them and try again.`);
+    }
+    const inventory = new Map<
+      string,
+      { kind: "raw"; ref: DocumentReference; data: RawMaterial } | { kind: "final"; ref: DocumentReference; data: FinalStock }
+    >();
+    for (const mat of stageMaterials) {
+      if (inventory.has(mat.id)) continue;
+      const rawRef = doc(db, COLLECTIONS.RAW_MATERIALS, mat.id);
+      const rawSnap = await transaction.get(rawRef);
+      if (rawSnap.exists()) {
+        inventory.set(mat.id, { kind: "raw", ref: rawRef, data: { ...(rawSnap.data() as RawMaterial), id: rawSnap.id } });
+        continue;
+      }
+      const finalRef = doc(db, COLLECTIONS.FINAL_STOCK, mat.id);
+      const finalSnap = await transaction.get(finalRef);
+      if (finalSnap.exists()) {
+        inventory.set(mat.id, { kind: "final", ref: finalRef, data: { ...(finalSnap.data() as FinalStock), id: finalSnap.id } });
+      }
+    }
+
+    // Allocations of this stage are released on completion, whatever was actually consumed;
+    // completing the last stage releases anything still held by the batch
+    const currentStageIndex = batch.selectedProcesses.indexOf(stage);
+    const isLastStage = currentStageIndex === batch.selectedProcesses.length - 1;
+    const release = releaseMaterials(batch.materials || [], (m) => isLastStage || m.stage === stage);
+    const allocatedRaw: RawMaterialDocs = new Map();
+    for (const [id, inv] of inventory) {
+      if (inv.kind === "raw") allocatedRaw.set(id, { ref: inv.ref, data: inv.data });
+    }
+    const missingIds = [...release.deltas.keys()].filter((id) => !allocatedRaw.has(id));
+    for (const [id, entry] of await readRawMaterials(transaction, missingIds)) {
+      allocatedRaw.set(id, entry);
+    }
+
+    const storeSnaps: Partial<Record<StageOutputTarget, RawMaterial | null>> = {};
+    for (const target of outputs) {
+      const entry = storeRefs[target];
+      if (!entry) continue;
+      const snap = await transaction.get(entry.ref);
+      storeSnaps[target] = snap.exists() ? (snap.data() as RawMaterial) : null;
+    }
+
+    let finalProductRef: DocumentReference | null = null;
+    let finalProduct: FinalStock | null = null;
+    if (outputs.includes("final") && input.finalStockProductId) {
+      finalProductRef = doc(db, COLLECTIONS.FINAL_STOCK, input.finalStockProductId);
+      const snap = await transaction.get(finalProductRef);
+      if (!snap.exists()) {
+        throw new Error(`Cannot add batch to product ${input.finalStockProductId}: document does not exist`);
+      }
+      finalProduct = snap.data() as FinalStock;
+    }
+
+    // ---- Writes ----
+    const now = new Date().toISOString();
+    const logs: Omit<ActivityLog, "id">[] = [];
+    const ledger: Omit<StockMovement, "id">[] = [];
+    const consumed: StageMovement[] = [];
+    const produced: StageMovement[] = [];
+    const qtyToBuild = Number(batch.quantityToBuild) || 0;
+    const rawUpdates: Record<string, Record<string, unknown>> = {};
+    const lotConsumptions: Record<string, LotConsumption[]> = {};
+
+    for (const mat of stageMaterials) {
+      const inv = inventory.get(mat.id);
+      if (!inv) continue;
+
+      // Default to consumedUnits × (BOM qty per piece), approximated from the pre-expanded batch quantity
+      const perPiece = qtyToBuild > 0 ? Number(mat.quantity || 0) / qtyToBuild : 0;
+      const explicit = Number(input.materialConsumptions[mat.id] || 0);
+      const amount = explicit > 0 ? explicit : Math.max(0, Number(input.consumedUnits || 0) * perPiece);
+
+      if (inv.kind === "raw") {
+        const oldQuantity = Number(inv.data.quantity || 0);
+        // Units committed to other batches stay put; this batch's own commitment is released below
+        const committedElsewhere = Math.max(
+          0,
+          Number(inv.data.committed || 0) + (release.deltas.get(inv.data.id) || 0),
+        );
+        const available = Math.max(0, oldQuantity - committedElsewhere);
+        if (amount > available) {
+          throw new Error(
+            `${stage} of batch ${displayBatchId} needs ${amount} ${inv.data.unit || "pcs"} of ${inv.data.name}, but only ${available} are on hand and not committed to other batches.`,
+          );
+        }
+        const newQuantity = oldQuantity - amount;
+        rawUpdates[inv.data.id] = { quantity: newQuantity };
+        // Materials received in supplier lots are issued FEFO/FIFO and the lots drawn recorded on the stage
+        if (Array.isArray(inv.data.lots) && inv.data.lots.length > 0) {
+          const issue = drawFromLots(inv.data, amount, new Date(now));
+          inv.data.lots = issue.lots;
+          rawUpdates[inv.data.id].lots = issue.lots;
+          if (issue.drawn.length > 0) lotConsumptions[inv.data.id] = issue.drawn;
+        }
+        inv.data.quantity = newQuantity;
+        consumed.push({ itemId: inv.data.id, itemName: inv.data.name, kind: "raw", quantity: -amount, unit: inv.data.unit || "pcs" });
+        ledger.push({
+          itemId: inv.data.id,
+          itemKind: getMaterialStockKind(inv.data),
+          itemName: inv.data.name,
+          quantity: -amount,
+          unit: inv.data.unit || "pcs",
+          reason: "batch_consumption",
+          batchId: displayBatchId,
+          stage,
+          balanceAfter: newQuantity,
+          user,
+          timestamp: now,
+        });
+        logs.push({
+          recordId: inv.data.id,
+          recordType: "RawMaterial",
+          action: "Stock Adjustment (Batch)",
+          details: `Batch ${displayBatchId} (${stage}) consumed ${amount} ${inv.data.unit || "pcs"}. Old qty: ${oldQuantity}, New qty: ${newQuantity}.`,
+          timestamp: now,
+          user,
+        });
+      } else {
+        const hasBatches = Array.isArray(inv.data.batches) && inv.data.batches.length > 0;
+        const oldQuantity = hasBatches ? sumEntries(inv.data.batches) : Number(inv.data.quantity || 0);
+        let newQuantity: number;
+        if (hasBatches) {
+          const unreserved = (inv.data.batches || []).reduce((sum, e) => sum + getUnreservedQuantity(e), 0);
+          if (amount > unreserved) {
+            throw new Error(
+              `${stage} of batch ${displayBatchId} needs ${amount} pcs of ${inv.data.name}, but only ${unreserved} are not reserved for orders.`,
+            );
+          }
+          const updatedBatches = deductFifo(inv.data.batches || [], amount);
+          inv.data.batches = updatedBatches;
+          newQuantity = sumEntries(updatedBatches);
+          transaction.update(inv.ref, { batches: updatedBatches });
+        } else {
+          newQuantity = Math.max(0, oldQuantity - amount);
+          inv.data.quantity = newQuantity;
+          transaction.update(inv.ref, { quantity: newQuantity });
+        }
+        consumed.push({ itemId: inv.data.id, itemName: inv.data.name, kind: "final", quantity: -amount, unit: "pcs" });
+        ledger.push({
+          itemId: inv.data.id,
+          itemKind: "FinalStock",
+          itemName: inv.data.name,
+          quantity: -amount,
+          unit: "pcs",
+          reason: "batch_consumption",
+          batchId: displayBatchId,
+          stage,
+          balanceAfter: newQuantity,
+          user,
+          timestamp: now,
+        });
+        logs.push({
+          recordId: inv.data.id,
+          recordType: "FinalStock",
+          action: "Stock Adjustment (Batch)",
+          details: `Batch ${displayBatchId} (${stage}) consumed ${amount} pcs${hasBatches ? " from batches" : ""}. Old qty: ${oldQuantity}, New qty: ${newQuantity}.`,
+          timestamp: now,
+          user,
+        });
+      }
+    }
+
+    // Consumption and the released commitment go out as one write per material
+    writeCommittedDeltas(transaction, allocatedRaw, release.deltas, rawUpdates);
+
+    for (const target of outputs) {
+      if (target === "final") {
+        if (!finalProductRef || !finalProduct) continue;
+        const entry: BatchEntry = {
+          batchId: displayBatchId,
+          sourceBatchId: displayBatchId,
+          quantity: accepted,
+          sku: `BATCH-${displayBatchId}`,
+          createdAt: now,
+        };
+        const updatedBatches = [...(finalProduct.batches || []), entry];
+        transaction.update(finalProductRef, { batches: updatedBatches });
+        produced.push({
+          itemId: finalProductRef.id,
+          itemName: finalProduct.name,
+          kind: "final",
+          quantity: accepted,
+          unit: "pcs",
+          target,
+        });
+        ledger.push({
+          itemId: finalProductRef.id,
+          itemKind: "FinalStock",
+          itemName: finalProduct.name,
+          quantity: accepted,
+          unit: "pcs",
+          reason: "batch_output",
+          batchId: displayBatchId,
+          stage,
+          balanceAfter: sumEntries(updatedBatches),
+          user,
+          timestamp: now,
+        });
+        logs.push({
+          recordId: finalProductRef.id,
+          recordType: "FinalStock",
+          action: "Stock Adjustment (Batch)",
+          details: `${accepted} items from batch ${displayBatchId} added to Final Stock. Old qty: ${sumEntries(finalProduct.batches)}, New qty: ${sumEntries(updatedBatches)}.`,
+          timestamp: now,
+          user,
+        });
+        continue;
+      }
+
+      const config = getStoreOutputConfig(target, input.stageDefinition);
+      const entry = storeRefs[target]!;
+      const existing = storeSnaps[target];
+      const materialName = `${config.namePrefix} ${batch.productName}`;
+      const balanceAfter = (existing ? Number(existing.quantity) || 0 : 0) + accepted;
+      if (existing) {
+        const oldQuantity = Number(existing.quantity) || 0;
+        const newQuantity = balanceAfter;
+        transaction.update(entry.ref, { quantity: newQuantity });
+        logs.push({
+          recordId: entry.ref.id,
+          recordType: "RawMaterial",
+          action: "Stock Adjustment (Batch)",
+          details: `${accepted} ${config.label} items from batch ${displayBatchId} added to Store. Old qty: ${oldQuantity}, New qty: ${newQuantity}.`,
+          timestamp: now,
+          user,
+        });
+      } else {
+        const newMaterial: Omit<RawMaterial, "id"> = {
+          name: materialName,
+          sku: `${config.skuPrefix}-${Date.now()}`,
+          quantity: accepted,
+          unit: "pcs",
+          threshold: 10,
+          ...config.marker,
+          sourceBatchId: displayBatchId,
+          createdAt: now,
+        };
+        transaction.set(entry.ref, newMaterial);
+        logs.push({
+          recordId: entry.ref.id,
+          recordType: "RawMaterial",
+          action: "Created",
+          details: `${accepted} ${config.label} items from batch ${displayBatchId} added to Store.`,
+          timestamp: now,
+          user,
+        });
+      }
+      produced.push({
+        itemId: entry.ref.id,
+        itemName: materialName,
+        kind: "raw",
+        quantity: accepted,
+        unit: "pcs",
+        target,
+        created: !existing,
+      });
+      ledger.push({
+        itemId: entry.ref.id,
+        itemKind: "StoreItem",
+        itemName: materialName,
+        quantity: accepted,
+        unit: "pcs",
+        reason: "batch_output",
+        batchId: displayBatchId,
+        stage,
+        balanceAfter,
+        user,
+        timestamp: now,
+      });
+    }
+
+    // Stage record, completion and progression
+    const updates: DocumentData = {
+      [`processingStages.${stage}.accepted`]: accepted,
+      [`processingStages.${stage}.completed`]: true,
+      [`processingStages.${stage}.finishedAt`]: now,
+    };
+    if (input.rejected !== undefined) updates[`processingStages.${stage}.rejected`] = input.rejected;
+    if (input.actualConsumption !== undefined) {
+      updates[`processingStages.${stage}.actualConsumption`] = input.actualConsumption;
+    }
+    if (Object.keys(input.materialConsumptions).length > 0) {
+      updates[`processingStages.${stage}.materialConsumptions`] = input.materialConsumptions;
+    }
+    if (input.defects && Object.keys(input.defects).length > 0) {
+      updates[`processingStages.${stage}.defects`] = input.defects;
+    }
+    if (Object.keys(lotConsumptions).length > 0) {
+      updates[`processingStages.${stage}.lotConsumptions`] = lotConsumptions;
+    }
+    for (const [key, value] of Object.entries(stripUndefined(input.assignment || {}))) {
+      updates[`processingStages.${stage}.${key}`] = value;
+    }
+    if (input.cycle) {
+      updates[`processingStages.${stage}.cycles`] = cycles;
+    }
+
+    // Scrapped units are written off with a record carrying their material cost;
+    // rework batches are linked to their disposition once created (see linkReworkBatch)
+    if (input.dispositions && input.dispositions.length > 0) {
+      const unitCost = Number(input.scrapUnitCost || 0);
+      let scrapIndex = 0;
+      const dispositions = input.dispositions.map((disposition) => {
+        if (disposition.type !== "Scrap") return stripUndefined(disposition);
+        const scrapId = scrapIds[scrapIndex];
+        const record: Omit<ScrapRecord, "id"> = stripUndefined({
+          batchId: displayBatchId,
+          productId: batch.productId,
+          productName: batch.productName,
+          stage,
+          quantity: disposition.quantity,
+          reasonCode: disposition.reasonCode || "OTH",
+          notes: disposition.notes,
+          unitCost,
+          totalCost: unitCost * disposition.quantity,
+          user,
+          createdAt: now,
+        });
+        transaction.set(doc(db, COLLECTIONS.SCRAP_RECORDS, scrapId), record);
+        const log: Omit<ActivityLog, "id"> = {
+          recordId: batch.id,
+          recordType: "Batch",
+          action: "Updated",
+          details: `${disposition.quantity} units of batch ${displayBatchId} scrapped at ${stage} (${getScrapReasonLabel(record.reasonCode)}).`,
+          timestamp: now,
+          user,
+        };
+        transaction.set(doc(db, COLLECTIONS.ACTIVITY_LOG, scrapLogIds[scrapIndex]), log);
+        scrapIndex++;
+        return stripUndefined({ ...disposition, scrapRecordId: scrapId });
+      });
+      updates[`processingStages.${stage}.dispositions`] = dispositions;
+    }
+
+    const status: Batch["status"] = isLastStage ? "Completed" : "In Progress";
+    updates.status = status;
+    if (release.deltas.size > 0) {
+      updates.materials = release.materials;
+    }
+    if (!isLastStage) {
+      const nextStage = batch.selectedProcesses[currentStageIndex + 1];
+      // Testing is started manually after Assembling, never automatically
+      if (!(stage === "Assembling" && nextStage === "Testing")) {
+        updates[`processingStages.${nextStage}.startedAt`] = now;
+      }
+    }
+    transaction.update(batchRef, updates);
+
+    logs.forEach((log, i) => {
+      transaction.set(doc(db, COLLECTIONS.ACTIVITY_LOG, logIds[i]), log);
+    });
+    ledger.forEach((movement, i) => {
+      transaction.set(doc(db, COLLECTIONS.STOCK_MOVEMENTS, movementIds[i]), movement);
+    });
+
+    return { consumed, produced, status };
+  });
+}
+
+/**
+ * Append a production cycle to an open stage and update the stage totals from
+ * all of its cycles. No stock moves until the stage is completed.
+ */
+export async function recordStageCycle(
+  batchId: string,
+  stage: ProcessingStageName,
+  cycle: StageCycle,
+): Promise<void> {
+  const batchRef = await resolveBatchRef(batchId);
+  await runTransaction(db, async (transaction) => {
+    const snapshot = await transaction.get(batchRef);
+    if (!snapshot.exists()) {
+      throw new Error(`Batch ${batchId} not found`);
+    }
+    const batch = { id: snapshot.id, ...snapshot.data() } as Batch;
+    const data = batch.processingStages?.[stage];
+    if (data?.completed) {
+      throw new Error(`The ${stage} stage of batch ${getBatchId(batch)} has already been completed.`);
+    }
+    const cycles = [...(data?.cycles || []), cycle];
+    const totals = sumCycles(cycles);
+    const updates: DocumentData = {
+      [`processingStages.${stage}.cycles`]: cycles,
+      [`processingStages.${stage}.accepted`]: totals.accepted,
+      [`processingStages.${stage}.rejected`]: totals.rejected,
+      [`processingStages.${stage}.materialConsumptions`]: totals.materialConsumptions,
+    };
+    if (!data?.startedAt) updates[`processingStages.${stage}.startedAt`] = cycle.startedAt;
+    for (const key of ["workstationId", "workstationName", "operatorId", "operatorName"] as const) {
+      if (cycle[key]) updates[`processingStages.${stage}.${key}`] = cycle[key];
+    }
+    transaction.update(batchRef, updates);
+  });
+}
+
+/**
+ * Record the rework batch created for one disposition of a completed stage.
+ */
+export async function linkReworkBatch(
+  batchId: string,
+  stage: ProcessingStageName,
+  dispositionIndex: number,
+  reworkBatchId: string,
+): Promise<void> {
+  const batchRef = await resolveBatchRef(batchId);
+  await runTransaction(db, async (transaction) => {
+    const snapshot = await transaction.get(batchRef);
+    if (!snapshot.exists()) {
+      throw new Error(`Batch ${batchId} not found`);
+    }
+    const batch = snapshot.data() as Batch;
+    const dispositions = [...(batch.processingStages?.[stage]?.dispositions || [])];
+    if (!dispositions[dispositionIndex]) return;
+    dispositions[dispositionIndex] = { ...dispositions[dispositionIndex], reworkBatchId };
+    transaction.update(batchRef, { [`processingStages.${stage}.dispositions`]: dispositions });
+  });
+}
@@ -0,0 +1,334 @@
+import { doc, runTransaction, writeBatch } from "firebase/firestore";
+import { db } from "./config";
+import { COLLECTIONS, READABLE_ID_PREFIXES } from "@/lib/collections";
+import { generateReadableId, generateReadableIds } from "@/lib/id";
+import { createLot, trimLots } from "@/lib/material-lots";
+import type {
+  ActivityLog,
+  FinalStock,
+  RawMaterial,
+  RestockRecord,
+  StockItemKind,
+  StockMovement,
+} from "@/lib/types";
+
+/**
+ * Manual stock changes made from the Raw Materials, Store and Final Stock
+ * pages. Each one writes the item, its activity log entry and its
+ * `stockMovements` ledger entry together, with the quantity read in the same
+ * transaction, so the ledger balance always matches the stock it records.
+ */
+
+// Raw materials are the Raw Materials module's items; Store items are stage outputs
+type MaterialKind = Extract<StockItemKind, "RawMaterial" | "StoreItem">;
+
+export interface CreateMaterialInput {
+  material: Omit<RawMaterial, "id">;
+  user?: string;
+}
+
+/**
+ * Create a raw material with its opening stock on the ledger. Returns its document ID.
+ */
+export async function createMaterial(input: CreateMaterialInput): Promise<string> {
+  const user = input.user || "System";
+  const { material } = input;
+  const quantity = Number(material.quantity || 0);
+  const [materialId, [logId], [movementId]] = await Promise.all([
+    generateReadableId(COLLECTIONS.RAW_MATERIALS, READABLE_ID_PREFIXES.RAW_MATERIALS),
+    generateReadableIds(COLLECTIONS.ACTIVITY_LOG, READABLE_ID_PREFIXES.ACTIVITY_LOG, 1),
+    generateReadableIds(COLLECTIONS.STOCK_MOVEMENTS, READABLE_ID_PREFIXES.STOCK_MOVEMENTS, quantity > 0 ? 1 : 0),
+  ]);
+  const now = new Date().toISOString();
+
+  const batch = writeBatch(db);
+  batch.set(doc(db, COLLECTIONS.RAW_MATERIALS, materialId), material);
+
+  const log: Omit<ActivityLog, "id"> = {
+    recordId: materialId,
+    recordType: "RawMaterial",
+    action: "Created",
+    details: `Material "${material.name}" was created.`,
+    timestamp: now,
+    user,
+  };
+  batch.set(doc(db, COLLECTIONS.ACTIVITY_LOG, logId), log);
+
+  if (quantity > 0) {
+    const movement: Omit<StockMovement, "id"> = {
+      itemId: materialId,
+      itemKind: "RawMaterial",
+      itemName: material.name,
+      quantity,
+      unit: material.unit,
+      reason: "manual_adjustment",
+      balanceAfter: quantity,
+      user,
+      timestamp: now,
+    };
+    batch.set(doc(db, COLLECTIONS.STOCK_MOVEMENTS, movementId), movement);
+  }
+
+  await batch.commit();
+  return materialId;
+}
+
+export interface UpdateMaterialInput {
+  materialId: string;
+  itemKind: MaterialKind;
+  // Fields edited; `quantity` only when it was changed, as the new quantity on hand
+  updates: Partial<RawMaterial>;
+  user?: string;
+}
+
+/**
+ * Save an edit of a raw material or Store item. A changed quantity is booked on
+ * the ledger as the difference to the stored quantity, and taken out of the
+ * lots when set below them. `committed` is owned by batch allocation and lots
+ * by receipts, so neither is written from an edit.
+ */
+export async function updateMaterial(input: UpdateMaterialInput): Promise<void> {
+  const user = input.user || "System";
+  const materialRef = doc(db, COLLECTIONS.RAW_MATERIALS, input.materialId);
+  const updates = Object.fromEntries(
+    Object.entries(input.updates).filter(
+      ([key, value]) => key !== "id" && key !== "committed" && key !== "lots" && value !== undefined,
+    ),
+  ) as Partial<RawMaterial>;
+  const [[logId], [movementId]] = await Promise.all([
+    generateReadableIds(COLLECTIONS.ACTIVITY_LOG, READABLE_ID_PREFIXES.ACTIVITY_LOG, 1),
+    generateReadableIds(COLLECTIONS.STOCK_MOVEMENTS, READABLE_ID_PREFIXES.STOCK_MOVEMENTS, 1),
+  ]);
+
+  await runTransaction(db, async (transaction) => {
+    // ---- Reads ----
+    const snap = await transaction.get(materialRef);
+    if (!snap.exists()) {
+      throw new Error(`Material ${input.materialId} not found`);
+    }
+    const material = { ...(snap.data() as RawMaterial), id: snap.id };
+
+    // ---- Writes ----
+    const now = new Date().toISOString();
+    const changes = (Object.keys(updates) as (keyof RawMaterial)[])
+      .filter((key) => material[key] !== updates[key])
+      .map((key) => `${key} changed from "${material[key]}" to "${updates[key]}"`);
+    const name = updates.name || material.name;
+
+    const fields: Partial<RawMaterial> = { ...updates };
+    const quantityDelta =
+      updates.quantity !== undefined ? Number(updates.quantity) - Number(material.quantity || 0) : 0;
+    if (quantityDelta !== 0 && material.lots && material.lots.length > 0) {
+      fields.lots = trimLots(material, Number(updates.quantity));
+    }
+    transaction.update(materialRef, fields);
+
+    const log: Omit<ActivityLog, "id"> = {
+      recordId: material.id,
+      recordType: "RawMaterial",
+      action: "Updated",
+      details: `Material "${name}" was updated.${changes.length > 0 ? ` ${changes.join(", ")}.` : ""}`,
+      timestamp: now,
+      user,
+    };
+    transaction.set(doc(db, COLLECTIONS.ACTIVITY_LOG, logId), log);
+
+    if (quantityDelta !== 0) {
+      const movement: Omit<StockMovement, "id"> = {
+        itemId: material.id,
+        itemKind: input.itemKind,
+        itemName: name,
+        quantity: quantityDelta,
+        unit: updates.unit || material.unit,
+        reason: "manual_adjustment",
+        balanceAfter: Number(updates.quantity),
+        user,
+        timestamp: now,
+      };
+      transaction.set(doc(db, COLLECTIONS.STOCK_MOVEMENTS, movementId), movement);
+    }
+  });
+}
+
+export interface RestockMaterialInput {
+  materialId: string;
+  itemKind: MaterialKind;
+  quantity: number;
+  companyName: string;
+  restockDate: string; // ISO string
+  lotNumber?: string; // Supplier lot or heat number; raw materials only
+  expiryDate?: string; // ISO date; raw materials only
+  user?: string;
+}
+
+/**
+ * Restock a raw material or Store item by hand. Raw material receipts are held
+ * as a lot of their own, as purchase order receipts are.
+ */
+export async function restockMaterial(input: RestockMaterialInput): Promise<void> {
+  const user = input.user || "System";
+  const quantity = Number(input.quantity) || 0;
+  if (quantity <= 0) {
+    throw new Error("Enter a quantity to restock.");
+  }
+  const materialRef = doc(db, COLLECTIONS.RAW_MATERIALS, input.materialId);
+  const [[restockId], [logId], [movementId]] = await Promise.all([
+    generateReadableIds(COLLECTIONS.RESTOCKS, READABLE_ID_PREFIXES.RESTOCKS, 1),
+    generateReadableIds(COLLECTIONS.ACTIVITY_LOG, READABLE_ID_PREFIXES.ACTIVITY_LOG, 1),
+    generateReadableIds(COLLECTIONS.STOCK_MOVEMENTS, READABLE_ID_PREFIXES.STOCK_MOVEMENTS, 1),
+  ]);
+
+  await runTransaction(db, async (transaction) => {
+    // ---- Reads ----
+    const snap = await transaction.get(materialRef);
+    if (!snap.exists()) {
+      throw new Error(`Material ${input.materialId} not found`);
+    }
+    const material = { ...(snap.data() as RawMaterial), id: snap.id };
+
+    // ---- Writes ----
+    const now = new Date().toISOString();
+    const previousStock = Number(material.quantity || 0);
+    const updatedStock = previousStock + quantity;
+    const lot =
+      input.itemKind === "RawMaterial"
+        ? createLot({
+            lotNumber: input.lotNumber,
+            quantity,
+            receivedAt: input.restockDate,
+            expiryDate: input.expiryDate,
+            supplier: input.companyName,
+            restockId,
+          })
+        : undefined;
+
+    transaction.update(materialRef, {
+      quantity: updatedStock,
+      ...(lot ? { lots: [...(material.lots || []), lot] } : {}),
+    });
+
+    const restock: Omit<RestockRecord, "id"> = {
+      productId: material.id,
+      productName: material.name,
+      quantityAdded: quantity,
+      companyName: input.companyName,
+      restockDate: input.restockDate,
+      previousStock,
+      updatedStock,
+      createdAt: now,
+      ...(input.lotNumber ? { lotNumber: input.lotNumber } : {}),
+      ...(input.expiryDate ? { expiryDate: input.expiryDate } : {}),
+    };
+    transaction.set(doc(db, COLLECTIONS.RESTOCKS, restockId), restock);
+
+    const log: Omit<ActivityLog, "id"> = {
+      recordId: material.id,
+      recordType: "RawMaterial",
+      action: "Stock Adjustment (Manual)",
+      details: `Restocked ${quantity} ${material.unit}${lot ? ` (lot ${lot.lotNumber})` : ""} from ${input.companyName}. Old quantity: ${previousStock}, New quantity: ${updatedStock}.`,
+      timestamp: now,
+      user,
+    };
+    transaction.set(doc(db, COLLECTIONS.ACTIVITY_LOG, logId), log);
+
+    const movement: Omit<StockMovement, "id"> = {
+      itemId: material.id,
+      itemKind: input.itemKind,
+      itemName: material.name,
+      quantity,
+      unit: material.unit,
+      reason: "restock",
+      restockId,
+      balanceAfter: updatedStock,
+      user,
+      timestamp: now,
+    };
+    transaction.set(doc(db, COLLECTIONS.STOCK_MOVEMENTS, movementId), movement);
+  });
+}
+
+export interface RestockProductInput {
+  productId: string; // FinalStock document ID
+  batchId: string; // Batch ID the stock is booked under
+  sku: string;
+  quantity: number;
+  companyName: string;
+  restockDate: string; // ISO string
+  user?: string;
+}
+
+/**
+ * Add bought-in Final Stock to a product as a batch entry of its own.
+ */
+export async function restockProduct(input: RestockProductInput): Promise<void> {
+  const user = input.user || "System";
+  const quantity = Number(input.quantity) || 0;
+  if (quantity <= 0) {
+    throw new Error("Enter a quantity to restock.");
+  }
+  const productRef = doc(db, COLLECTIONS.FINAL_STOCK, input.productId);
+  const [[restockId], [logId], [movementId]] = await Promise.all([
+    generateReadableIds(COLLECTIONS.RESTOCKS, READABLE_ID_PREFIXES.RESTOCKS, 1),
+    generateReadableIds(COLLECTIONS.ACTIVITY_LOG, READABLE_ID_PREFIXES.ACTIVITY_LOG, 1),
+    generateReadableIds(COLLECTIONS.STOCK_MOVEMENTS, READABLE_ID_PREFIXES.STOCK_MOVEMENTS, 1),
+  ]);
+
+  await runTransaction(db, async (transaction) => {
+    // ---- Reads ----
+    const snap = await transaction.get(productRef);
+    if (!snap.exists()) {
+      throw new Error(`Cannot add batch to product ${input.productId}: document does not exist`);
+    }
+    const product = { ...(snap.data() as FinalStock), id: snap.id };
+
+    // ---- Writes ----
+    const now = new Date().toISOString();
+    const batches = product.batches || [];
+    const previousStock = batches.reduce((sum, b) => sum + Number(b.quantity ?? 0), 0);
+    const updatedStock = previousStock + quantity;
+
+    transaction.update(productRef, {
+      batches: [
+        ...batches,
+        { batchId: input.batchId, sourceBatchId: input.batchId, quantity, sku: input.sku, createdAt: now },
+      ],
+    });
+
+    const restock: Omit<RestockRecord, "id"> = {
+      productId: product.id,
+      productName: product.name,
+      quantityAdded: quantity,
+      companyName: input.companyName,
+      restockDate: input.restockDate,
+      previousStock,
+      updatedStock,
+      createdAt: now,
+    };
+    transaction.set(doc(db, COLLECTIONS.RESTOCKS, restockId), restock);
+
+    const log: Omit<ActivityLog, "id"> = {
+      recordId: product.id,
+      recordType: "FinalStock",
+      action: "Restocked",
+      details: `Added ${quantity} units via batch ${input.batchId} from ${input.companyName} (prev: ${previousStock}, new: ${updatedStock}).`,
+      timestamp: now,
+      user,
+    };
+    transaction.set(doc(db, COLLECTIONS.ACTIVITY_LOG, logId), log);
+
+    const movement: Omit<StockMovement, "id"> = {
+      itemId: product.id,
+      itemKind: "FinalStock",
+      itemName: product.name,
+      quantity,
+      unit: "pcs",
+      reason: "restock",
+      batchId: input.batchId,
+      restockId,
+      balanceAfter: updatedStock,
+      user,
+      timestamp: now,
+    };
+    transaction.set(doc(db, COLLECTIONS.STOCK_MOVEMENTS, movementId), movement);
+  });
+}
@@ -0,0 +1,173 @@
+import { doc, runTransaction } from "firebase/firestore";
+import { db } from "./config";
+import { COLLECTIONS, READABLE_ID_PREFIXES } from "@/lib/collections";
+import { generateReadableIds } from "@/lib/id";
+import type { ActivityLog, Batch, ProcessingStageName } from "@/lib/types";
+import {
+  buildMerge,
+  buildSplit,
+  createTransfer,
+  getMergedBatchId,
+  getSplitBatchId,
+  validateMerge,
+  validateSplit,
+} from "@/lib/batch-transfers";
+import { readRawMaterials, releaseMaterials, writeCommittedDeltas } from "./batch-allocation";
+
+/**
+ * Split `quantity` units of a batch into a new batch before `stage` is worked.
+ * The new batch takes its share of the remaining stages' materials and
+ * allocations, so committed stock is unchanged. Returns the new batch's document ID.
+ */
+export async function splitBatch(
+  batchId: string,
+  stage: ProcessingStageName,
+  quantity: number,
+  user: string = "System",
+): Promise<string> {
+  const batchRef = doc(db, COLLECTIONS.BATCHES, batchId);
+  const [childId] = await generateReadableIds(COLLECTIONS.BATCHES, READABLE_ID_PREFIXES.BATCHES, 1);
+  const logIds = await generateReadableIds(COLLECTIONS.ACTIVITY_LOG, READABLE_ID_PREFIXES.ACTIVITY_LOG, 2);
+
+  await runTransaction(db, async (transaction) => {
+    const snap = await transaction.get(batchRef);
+    if (!snap.exists()) {
+      throw new Error(`Batch ${batchId} not found`);
+    }
+    const parent = { id: snap.id, ...snap.data() } as Batch;
+    const validation = validateSplit(parent, stage, quantity);
+    if (!validation.isValid) {
+      throw new Error(validation.reason);
+    }
+
+    const now = new Date().toISOString();
+    const childBatchId = getSplitBatchId(parent);
+    const { child, parentUpdates } = buildSplit(parent, stage, quantity, now);
+
+    transaction.set(doc(db, COLLECTIONS.BATCHES, childId), {
+      ...child,
+      id: childId,
+      batchId: childBatchId,
+    });
+    transaction.update(batchRef, {
+      ...parentUpdates,
+      transfers: [
+        ...(parent.transfers || []),
+        createTransfer("split", stage, quantity, { id: childId, batchId: childBatchId }, now),
+      ],
+    });
+
+    const logs: Omit<ActivityLog, "id">[] = [
+      {
+        recordId: parent.id,
+        recordType: "Batch",
+        action: "Updated",
+        details: `Split ${quantity} units into batch ${childBatchId} before ${stage}; ${parentUpdates.quantityToBuild} left to build.`,
+        timestamp: now,
+        user,
+      },
+      {
+        recordId: childId,
+        recordType: "Batch",
+        action: "Created",
+        details: `Split from batch ${parent.batchId} with ${quantity} units, starting at ${stage}.`,
+        timestamp: now,
+        user,
+      },
+    ];
+    logs.forEach((log, i) => {
+      transaction.set(doc(db, COLLECTIONS.ACTIVITY_LOG, logIds[i]), log);
+    });
+  });
+  return childId;
+}
+
+/**
+ * Merge the units several batches hold for `stage` into one new batch.
+ * The merged batches end at the stage before it and are completed; materials
+ * of their remaining stages move to the new batch, and any allocation left over
+ * for units rejected earlier is released. Returns the new batch's document ID.
+ */
+export async function mergeBatches(
+  batchIds: string[],
+  stage: ProcessingStageName,
+  user: string = "System",
+): Promise<string> {
+  const batchRefs = batchIds.map((id) => doc(db, COLLECTIONS.BATCHES, id));
+  const [mergedId] = await generateReadableIds(COLLECTIONS.BATCHES, READABLE_ID_PREFIXES.BATCHES, 1);
+  const logIds = await generateReadableIds(COLLECTIONS.ACTIVITY_LOG, READABLE_ID_PREFIXES.ACTIVITY_LOG, batchIds.length + 1);
+
+  await runTransaction(db, async (transaction) => {
+    // ---- Reads ----
+    const parents: Batch[] = [];
+    for (const ref of batchRefs) {
+      const snap = await transaction.get(ref);
+      if (!snap.exists()) {
+        throw new Error(`Batch ${ref.id} not found`);
+      }
+      parents.push({ id: snap.id, ...snap.data() } as Batch);
+    }
+    const validation = validateMerge(parents, stage);
+    if (!validation.isValid) {
+      throw new Error(validation.reason);
+    }
+    const raw = await readRawMaterials(
+      transaction,
+      parents.flatMap((b) => (b.materials || []).map((m) => m.id)),
+    );
+
+    // ---- Writes ----
+    const now = new Date().toISOString();
+    const mergedBatchId = getMergedBatchId(parents);
+    const plan = buildMerge(parents, stage, now);
+    transaction.set(doc(db, COLLECTIONS.BATCHES, mergedId), {
+      ...plan.merged,
+      id: mergedId,
+      batchId: mergedBatchId,
+    });
+
+    const logs: Omit<ActivityLog, "id">[] = [];
+    const deltas = new Map<string, number>();
+    for (const { batch, quantity, materials } of plan.parents) {
+      const index = batch.selectedProcesses.indexOf(stage);
+      const remaining = batch.selectedProcesses.slice(index);
+      const release = releaseMaterials(materials, (m) => remaining.includes(m.stage));
+      for (const [id, delta] of release.deltas) {
+        deltas.set(id, (deltas.get(id) || 0) + delta);
+      }
+      const kept = release.materials.filter((m) => !remaining.includes(m.stage));
+      transaction.update(doc(db, COLLECTIONS.BATCHES, batch.id), {
+        selectedProcesses: batch.selectedProcesses.slice(0, index),
+        status: "Merged",
+        materials: kept,
+        totalMaterialQuantity: kept.reduce((sum, m) => sum + Number(m.quantity || 0), 0),
+        transfers: [
+          ...(batch.transfers || []),
+          createTransfer("merge", stage, quantity, { id: mergedId, batchId: mergedBatchId }, now),
+        ],
+      });
+      logs.push({
+        recordId: batch.id,
+        recordType: "Batch",
+        action: "Status Changed",
+        details: `Merged ${quantity} units into batch ${mergedBatchId} before ${stage}. Status changed from "${batch.status}" to "Merged".`,
+        timestamp: now,
+        user,
+      });
+    }
+    writeCommittedDeltas(transaction, raw, deltas);
+
+    logs.push({
+      recordId: mergedId,
+      recordType: "Batch",
+      action: "Created",
+      details: `Merged from batches ${plan.parents.map((p) => `${p.batch.batchId} (${p.quantity})`).join(", ")} with ${plan.merged.quantityToBuild} units, starting at ${stage}.`,
+      timestamp: now,
+      user,
+    });
+    logs.forEach((log, i) => {
+      transaction.set(doc(db, COLLECTIONS.ACTIVITY_LOG, logIds[i]), log);
+    });
+  });
+  return mergedId;
+}
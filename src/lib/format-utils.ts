@@ -69,4 +69,13 @@ export function formatNumber(value: unknown): string {
   }
   
   return String(value || '-')
-}
\ No newline at end of file
+}
+
+/**
+ * Formats a value as a CSV cell; commas are replaced so the cell needs no quoting
+ * @param value - The value to format
+ * @returns CSV-safe string
+ */
+export function csvCell(value: string | number | undefined): string {
+  return String(value ?? '').replaceAll(',', ' ')
+}
@@ -0,0 +1,404 @@
+import type {
+  Batch,
+  BatchEntry,
+  FinalStock,
+  Order,
+  ProcessingStageName,
+  RestockRecord,
+  StockItemKind,
+  StockMovement,
+} from "./types"
+
+/**
+ * Batch genealogy: supplier receipts → production batches → Final Stock batch
+ * entries → orders.
+ *
+ * Recorded links are used as they are: order allocations name the Final Stock
+ * entries they took, entries name the batch that produced them, rework
+ * batches name the batch that rejected their units, split and merged batches
+ * name the batches their units came from, and stages name the
+ * supplier lots they drew. Store items (and raw material stock from before
+ * lots were kept) are held as one quantity per item, so which receipt or
+ * earlier batch the rest of a consumption drew from is attributed by replaying
+ * the stock movement ledger first-in, first-out. Those links are flagged as
+ * attributed.
+ */
+
+export type TraceNodeKind = "lot" | "batch" | "stock" | "order"
+
+export interface TraceNode {
+  id: string // e.g. batch:BATCH-MLD-014, lot:restock-001, stock:<productId>:<entry>, order:<Order.id>
+  kind: TraceNodeKind
+  label: string
+  detail?: string
+  date?: string
+}
+
+export interface TraceEdge {
+  from: string
+  to: string
+  quantity: number
+  unit: string
+  item: string // What moved along the link, e.g. the raw material or Store item name
+  stage?: ProcessingStageName // Stage that consumed or produced it
+  attributed: boolean // Inferred from the ledger (FIFO) rather than recorded
+}
+
+// Units of an item still on hand at the end of the ledger, by the node they came from
+export interface HeldUnits {
+  itemId: string
+  itemName: string
+  itemKind: StockItemKind
+  unit: string
+  source: string
+  quantity: number
+}
+
+export interface Genealogy {
+  nodes: Map<string, TraceNode>
+  edges: TraceEdge[]
+  onHand: HeldUnits[]
+}
+
+export interface TraceStep {
+  node: TraceNode
+  edge?: TraceEdge // Link to the previous step; missing on the starting node
+  depth: number
+  repeated: boolean // Already expanded elsewhere in the trace
+}
+
+export type TraceDirection = "forward" | "backward"
+
+export const TRACE_NODE_LABELS: Record<TraceNodeKind, string> = {
+  lot: "Material Lot",
+  batch: "Batch",
+  stock: "Final Stock",
+  order: "Order",
+}
+
+export const getBatchNodeId = (batchId: string) => `batch:${batchId}`
+export const getLotNodeId = (restockId: string) => `lot:${restockId}`
+// Final Stock entries can share a batch ID, so they are keyed by creation time as well
+export const getStockNodeId = (productId: string, entryBatchId: string, createdAt: string) =>
+  `stock:${productId}:${entryBatchId}:${createdAt}`
+export const getOrderNodeId = (orderId: string) => `order:${orderId}`
+
+interface QueuedUnits {
+  source: string | null // Node the units came from; null when unknown (opening stock, adjustments)
+  quantity: number
+}
+
+// Orders that never held stock do not contain anything
+const TRACED_ORDER_STATUSES = new Set(["Confirmed", "Picked", "Dispatched", "Delivered"])
+
+export function buildGenealogy(input: {
+  batches: Batch[]
+  stockMovements: StockMovement[]
+  restocks: RestockRecord[]
+  orders: Order[]
+  finalStock: FinalStock[]
+}): Genealogy {
+  const nodes = new Map<string, TraceNode>()
+  const edges = new Map<string, TraceEdge>()
+  const restocks = new Map(input.restocks.map((r) => [r.id, r]))
+  const products = new Map(input.finalStock.map((p) => [p.id, p]))
+
+  const addNode = (node: TraceNode) => {
+    if (!nodes.has(node.id)) nodes.set(node.id, node)
+    return node.id
+  }
+  const addEdge = (edge: TraceEdge) => {
+    if (edge.quantity <= 0 || edge.from === edge.to) return
+    const key = [edge.from, edge.to, edge.item, edge.stage || ""].join("|")
+    const existing = edges.get(key)
+    if (existing) existing.quantity += edge.quantity
+    else edges.set(key, { ...edge })
+  }
+
+  const batchNode = (batchId: string) => {
+    const batch = input.batches.find((b) => b.batchId === batchId)
+    return addNode({
+      id: getBatchNodeId(batchId),
+      kind: "batch",
+      label: batchId,
+      detail: batch ? `${batch.productName} · ${batch.quantityToBuild} units · ${batch.status}` : undefined,
+      date: batch?.createdAt,
+    })
+  }
+  const lotNode = (restockId: string, itemName: string) => {
+    const restock = restocks.get(restockId)
+    return addNode({
+      id: getLotNodeId(restockId),
+      kind: "lot",
+      label: `${itemName} · ${restock?.lotNumber ? `lot ${restock.lotNumber}` : restockId}`,
+      detail: restock ? `${restock.quantityAdded} received from ${restock.companyName || "unknown supplier"}` : undefined,
+      date: restock?.restockDate,
+    })
+  }
+  const stockNode = (productId: string, entryBatchId: string, createdAt: string, productName?: string) =>
+    addNode({
+      id: getStockNodeId(productId, entryBatchId, createdAt),
+      kind: "stock",
+      label: `${products.get(productId)?.name || productName || productId} · ${entryBatchId}`,
+      detail: "Final Stock batch entry",
+      date: createdAt,
+    })
+  // Ledger rows name the entry by batch ID only; they belong to the entry of that batch ID
+  // created closest to them, or to an entry since removed, created with the row
+  const entryCreatedAt = (productId: string, entryBatchId: string, timestamp: string) => {
+    const time = Date.parse(timestamp)
+    const distance = (e: BatchEntry) => Math.abs(Date.parse(e.createdAt) - time)
+    const entries = (products.get(productId)?.batches || []).filter((e) => e.batchId === entryBatchId)
+    if (entries.length === 0) return timestamp
+    return entries.reduce((best, e) => (distance(e) < distance(best) ? e : best)).createdAt
+  }
+
+  for (const batch of input.batches) {
+    batchNode(batch.batchId)
+    if (batch.reworkOf) {
+      addEdge({
+        from: batchNode(batch.reworkOf.displayBatchId),
+        to: getBatchNodeId(batch.batchId),
+        quantity: Number(batch.quantityToBuild || 0),
+        unit: "pcs",
+        item: `Rejected ${batch.productName}`,
+        stage: batch.reworkOf.stage,
+        attributed: false,
+      })
+    }
+    for (const parent of batch.origin?.parents || []) {
+      addEdge({
+        from: batchNode(parent.displayBatchId),
+        to: getBatchNodeId(batch.batchId),
+        quantity: Number(parent.quantity || 0),
+        unit: "pcs",
+        item: `${batch.origin?.type === "merge" ? "Merged" : "Split"} ${batch.productName}`,
+        stage: batch.origin?.stage,
+        attributed: false,
+      })
+    }
+  }
+
+  const ordersByOrderId = new Map<string, Order>()
+  for (const order of input.orders) {
+    ordersByOrderId.set(order.orderId, order)
+    if (!TRACED_ORDER_STATUSES.has(order.status || "")) continue
+    const to = addNode({
+      id: getOrderNodeId(order.id),
+      kind: "order",
+      label: order.orderId,
+      detail: [order.name, order.status].filter(Boolean).join(" · ") || undefined,
+      date: order.createdAt,
+    })
+    for (const allocation of order.allocations || []) {
+      const line = order.lines.find((l) => l.productId === allocation.productId)
+      addEdge({
+        from: stockNode(allocation.productId, allocation.batchId, allocation.createdAt, line?.productName),
+        to,
+        quantity: Number(allocation.quantity || 0),
+        unit: "pcs",
+        item: line?.productName || products.get(allocation.productId)?.name || allocation.productId,
+        attributed: false,
+      })
+    }
+  }
+
+  // Replay the ledger oldest first, keeping the units on hand per item in arrival order
+  const queues = new Map<string, QueuedUnits[]>()
+  const items = new Map<string, Pick<StockMovement, "itemName" | "itemKind" | "unit">>()
+  const queueOf = (itemId: string) => {
+    if (!queues.has(itemId)) queues.set(itemId, [])
+    return queues.get(itemId)!
+  }
+  const take = (itemId: string, quantity: number, matches: (source: string | null) => boolean = () => true) => {
+    const taken: QueuedUnits[] = []
+    let remaining = quantity
+    for (const units of queueOf(itemId)) {
+      if (remaining <= 0) break
+      if (units.quantity <= 0 || !matches(units.source)) continue
+      const amount = Math.min(units.quantity, remaining)
+      units.quantity -= amount
+      remaining -= amount
+      taken.push({ source: units.source, quantity: amount })
+    }
+    queues.set(itemId, queueOf(itemId).filter((u) => u.quantity > 0))
+    // More units left than the ledger knows of: stock from before it was kept
+    if (remaining > 0) taken.push({ source: null, quantity: remaining })
+    return taken
+  }
+
+  const movements = [...input.stockMovements].sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+  for (const movement of movements) {
+    const quantity = Math.abs(Number(movement.quantity || 0))
+    if (quantity <= 0) continue
+    const isFinal = movement.itemKind === "FinalStock"
+    items.set(movement.itemId, { itemName: movement.itemName, itemKind: movement.itemKind, unit: movement.unit })
+
+    if (movement.reason === "restock" || (movement.reason === "batch_output" && movement.batchId)) {
+      let source: string | null = null
+      if (movement.reason === "batch_output") {
+        const batch = batchNode(movement.batchId!)
+        source = isFinal
+          ? stockNode(
+              movement.itemId,
+              movement.batchId!,
+              entryCreatedAt(movement.itemId, movement.batchId!, movement.timestamp),
+              movement.itemName,
+            )
+          : batch
+        if (source !== batch) {
+          addEdge({ from: batch, to: source, quantity, unit: movement.unit, item: movement.itemName, stage: movement.stage, attributed: false })
+        }
+      } else if (movement.restockId) {
+        const lot = lotNode(movement.restockId, movement.itemName)
+        // Final Stock restocks arrive as batch entries of their own
+        source =
+          isFinal && movement.batchId
+            ? stockNode(
+                movement.itemId,
+                movement.batchId,
+                entryCreatedAt(movement.itemId, movement.batchId, movement.timestamp),
+                movement.itemName,
+              )
+            : lot
+        if (source !== lot) {
+          addEdge({ from: lot, to: source, quantity, unit: movement.unit, item: movement.itemName, attributed: false })
+        }
+      }
+      queueOf(movement.itemId).push({ source, quantity })
+      continue
+    }
+
+    if (movement.reason === "batch_consumption" && movement.batchId) {
+      const to = batchNode(movement.batchId)
+      const batch = input.batches.find((b) => b.batchId === movement.batchId)
+      const recorded = (movement.stage && batch?.processingStages?.[movement.stage]?.lotConsumptions?.[movement.itemId]) || []
+      let unrecorded = quantity
+      for (const lot of recorded) {
+        if (!lot.restockId) continue
+        const from = lotNode(lot.restockId, movement.itemName)
+        const amount = Math.min(Number(lot.quantity || 0), unrecorded)
+        take(movement.itemId, amount, (s) => s === from)
+        unrecorded -= amount
+        addEdge({
+          from,
+          to,
+          quantity: amount,
+          unit: movement.unit,
+          item: movement.itemName,
+          stage: movement.stage,
+          attributed: false,
+        })
+      }
+      for (const units of unrecorded > 0 ? take(movement.itemId, unrecorded) : []) {
+        if (!units.source) continue
+        addEdge({
+          from: units.source,
+          to,
+          quantity: units.quantity,
+          unit: movement.unit,
+          item: movement.itemName,
+          stage: movement.stage,
+          attributed: true,
+        })
+      }
+      continue
+    }
+
+    // Dispatched orders take the entries they were allocated; cancelled dispatches put them back
+    const order = movement.orderId ? ordersByOrderId.get(movement.orderId) : undefined
+    const allocated = (order?.allocations || []).filter((a) => a.productId === movement.itemId)
+    if (movement.reason === "order_fulfilment" && allocated.length > 0) {
+      for (const allocation of allocated) {
+        const source = getStockNodeId(allocation.productId, allocation.batchId, allocation.createdAt)
+        take(movement.itemId, Number(allocation.quantity || 0), (s) => s === source)
+      }
+      continue
+    }
+    if (movement.reason === "order_cancellation" && allocated.length > 0) {
+      for (const allocation of allocated) {
+        queueOf(movement.itemId).push({
+          source: getStockNodeId(allocation.productId, allocation.batchId, allocation.createdAt),
+          quantity: Number(allocation.quantity || 0),
+        })
+      }
+      continue
+    }
+
+    if (Number(movement.quantity) > 0) queueOf(movement.itemId).push({ source: null, quantity })
+    else take(movement.itemId, quantity)
+  }
+
+  // Entries from before the ledger was kept still name the batch that produced them
+  for (const product of input.finalStock) {
+    for (const entry of product.batches || []) {
+      const to = stockNode(product.id, entry.batchId, entry.createdAt, product.name)
+      if (!entry.sourceBatchId || !input.batches.some((b) => b.batchId === entry.sourceBatchId)) continue
+      if (Array.from(edges.values()).some((e) => e.to === to)) continue
+      addEdge({
+        from: batchNode(entry.sourceBatchId),
+        to,
+        quantity: Number(entry.quantity || 0),
+        unit: "pcs",
+        item: product.name,
+        attributed: false,
+      })
+    }
+  }
+
+  const onHand: HeldUnits[] = []
+  for (const [itemId, queue] of queues) {
+    const item = items.get(itemId)!
+    for (const units of queue) {
+      if (units.source && units.quantity > 0) onHand.push({ itemId, ...item, source: units.source, quantity: units.quantity })
+    }
+  }
+
+  return { nodes, edges: Array.from(edges.values()), onHand }
+}
+
+/**
+ * Everything downstream (forward: where it went) or upstream (backward: what it
+ * was made from) of a node, depth first. Nodes reached twice are listed again
+ * but not expanded.
+ */
+export function traceGenealogy(genealogy: Genealogy, nodeId: string, direction: TraceDirection): TraceStep[] {
+  const start = genealogy.nodes.get(nodeId)
+  if (!start) return []
+  const next = new Map<string, TraceEdge[]>()
+  for (const edge of genealogy.edges) {
+    const key = direction === "forward" ? edge.from : edge.to
+    next.set(key, [...(next.get(key) || []), edge])
+  }
+
+  const steps: TraceStep[] = []
+  const expanded = new Set<string>()
+  const visit = (node: TraceNode, depth: number, edge?: TraceEdge) => {
+    const repeated = expanded.has(node.id)
+    steps.push({ node, edge, depth, repeated })
+    if (repeated) return
+    expanded.add(node.id)
+    const links = [...(next.get(node.id) || [])].sort((a, b) => {
+      const nodeA = genealogy.nodes.get(direction === "forward" ? a.to : a.from)
+      const nodeB = genealogy.nodes.get(direction === "forward" ? b.to : b.from)
+      return (nodeA?.date || "").localeCompare(nodeB?.date || "")
+    })
+    for (const link of links) {
+      const target = genealogy.nodes.get(direction === "forward" ? link.to : link.from)
+      if (target) visit(target, depth + 1, link)
+    }
+  }
+  visit(start, 0)
+  return steps
+}
+
+/**
+ * Nodes whose label or detail contains the query, most recent first.
+ */
+export function findTraceNodes(genealogy: Genealogy, query: string, kind?: TraceNodeKind): TraceNode[] {
+  const needle = query.trim().toLowerCase()
+  return Array.from(genealogy.nodes.values())
+    .filter((n) => !kind || n.kind === kind)
+    .filter((n) => !needle || `${n.label} ${n.detail || ""}`.toLowerCase().includes(needle))
+    .sort((a, b) => (b.date || "").localeCompare(a.date || ""))
+}
@@ -1,11 +1,75 @@
-import { collection, getDocs } from "firebase/firestore";
+import { collection, doc, getDoc, getDocs, runTransaction, type DocumentData } from "firebase/firestore";
 import { db } from "./firebase/config";
 
+/**
+ * Collection holding one counter document per (collection, prefix) pair.
+ * Each counter stores the last sequence number handed out.
+ */
+export const COUNTERS_COLLECTION = "counters";
+
+/**
+ * Counter document ID for a sequence, e.g. "batches_batch" or "batches_BATCH-MLD".
+ */
+export function getCounterId(collectionName: string, prefix: string): string {
+  return `${collectionName}_${prefix}`;
+}
+
+/**
+ * Atomically reserve `count` consecutive sequence numbers from a counter
+ * document and return the first one.
+ * - The counter is read and incremented inside a transaction, so concurrent
+ *   callers always receive disjoint ranges
+ * - When the counter does not exist yet, `seed` is called once to find the
+ *   highest sequence already in use, so existing data is never reissued
+ * - Numbers reserved by a caller that later fails are not reused (gaps are fine)
+ */
+export async function reserveSequence(
+  counterId: string,
+  count: number,
+  seed: () => Promise<number>,
+  meta: DocumentData = {},
+): Promise<number> {
+  const counterRef = doc(db, COUNTERS_COLLECTION, counterId);
+
+  // Client transactions cannot run queries, so seed from a scan up front.
+  // If another client creates the counter first, the transaction sees it.
+  const existing = await getDoc(counterRef);
+  const seedValue = existing.exists() ? 0 : await seed();
+
+  return runTransaction(db, async (transaction) => {
+    const snap = await transaction.get(counterRef);
+    const current = snap.exists() ? Number(snap.data().value ?? 0) : seedValue;
+    transaction.set(counterRef, {
+      ...meta,
+      value: current + count,
+      updatedAt: new Date().toISOString(),
+    });
+    return current + 1;
+  });
+}
+
+/**
+ * Highest numeric suffix among values starting with `prefix`.
+ * Used to seed counters from data created before counters existed.
+ */
+export function maxSequence(values: Iterable<string | undefined>, prefix: string): number {
+  let maxSeq = 0;
+  for (const value of values) {
+    if (value && value.startsWith(prefix)) {
+      const num = parseInt(value.substring(prefix.length), 10);
+      if (!Number.isNaN(num) && num > maxSeq) {
+        maxSeq = num;
+      }
+    }
+  }
+  return maxSeq;
+}
+
 /**
  * Generate a short, human-readable, sequential ID for a Firestore collection.
  * Example: prefix "batch" -> batch_001, batch_002, ...
  * - Ensures consistency and readability
- * - Scans existing doc IDs with the same prefix to find the next sequence
+ * - Reserves the sequence from a counter document, safe under concurrent use
  * - Pads sequence to `pad` digits (default 3)
  */
 export async function generateReadableId(
@@ -13,24 +77,39 @@ export async function generateReadableId(
   prefix: string,
   pad: number = 3,
 ): Promise<string> {
-  const colRef = collection(db, collectionName);
-  const snapshot = await getDocs(colRef);
+  const [id] = await generateReadableIds(collectionName, prefix, 1, pad);
+  return id;
+}
+
+/**
+ * Generate `count` consecutive readable IDs in one reservation.
+ * Used when several documents of the same collection are written together
+ * (e.g. multiple activity log entries inside one transaction).
+ */
+export async function generateReadableIds(
+  collectionName: string,
+  prefix: string,
+  count: number,
+  pad: number = 3,
+): Promise<string[]> {
+  if (count <= 0) return [];
 
-  let maxSeq = 0;
   const prefixWithUnderscore = `${prefix}_`;
+  const first = await reserveSequence(
+    getCounterId(collectionName, prefix),
+    count,
+    async () => {
+      const snapshot = await getDocs(collection(db, collectionName));
+      return maxSequence(
+        snapshot.docs.map((docSnap) => docSnap.id),
+        prefixWithUnderscore,
+      );
+    },
+    { collection: collectionName, prefix },
+  );
 
-  snapshot.forEach((docSnap) => {
-    const id = docSnap.id;
-    if (id.startsWith(prefixWithUnderscore)) {
-      const tail = id.substring(prefixWithUnderscore.length);
-      const num = parseInt(tail, 10);
-      if (!Number.isNaN(num) && num > maxSeq) {
-        maxSeq = num;
-      }
-    }
+  return Array.from({ length: count }, (_, i) => {
+    const seq = String(first + i).padStart(pad, "0");
+    return `${prefixWithUnderscore}${seq}`;
   });
-
-  const next = maxSeq + 1;
-  const seq = String(next).padStart(pad, "0");
-  return `${prefixWithUnderscore}${seq}`;
 }
@@ -0,0 +1,100 @@
+import type { InspectionCharacteristic, InspectionPlan, InspectionRecord, InspectionSample } from "./types"
+
+/**
+ * Quality inspection at Testing.
+ *
+ * A product's inspection plan lists the characteristics measured on each sample
+ * (nominal value with lower/upper tolerance, keyed to callouts on the
+ * measurement sketch). The Testing entry form records one value per
+ * characteristic per sample; a sample passes when every value is within limits.
+ */
+
+export function getToleranceLimits(characteristic: InspectionCharacteristic): { min: number; max: number } {
+  const nominal = Number(characteristic.nominal || 0)
+  return {
+    min: nominal - Math.abs(Number(characteristic.lowerTolerance || 0)),
+    max: nominal + Math.abs(Number(characteristic.upperTolerance || 0)),
+  }
+}
+
+export function isWithinTolerance(characteristic: InspectionCharacteristic, value: number): boolean {
+  const { min, max } = getToleranceLimits(characteristic)
+  return Number.isFinite(value) && value >= min && value <= max
+}
+
+/**
+ * "10 +0.1/-0.05 mm" style description of a characteristic's specification.
+ */
+export function formatSpecification(characteristic: InspectionCharacteristic): string {
+  const lower = Math.abs(Number(characteristic.lowerTolerance || 0))
+  const upper = Math.abs(Number(characteristic.upperTolerance || 0))
+  const tolerance = lower === upper ? `±${upper}` : `+${upper}/-${lower}`
+  return `${characteristic.nominal} ${tolerance} ${characteristic.unit}`.trim()
+}
+
+/**
+ * Samples to measure for a batch: the plan's sample size, capped at the batch quantity.
+ */
+export function getInspectionSampleCount(plan: InspectionPlan, batchQuantity: number): number {
+  const size = Math.max(1, Math.floor(Number(plan.sampleSize) || 1))
+  const quantity = Math.floor(Number(batchQuantity) || 0)
+  return quantity > 0 ? Math.min(size, quantity) : size
+}
+
+export function hasInspectionPlan(plan: InspectionPlan | undefined): plan is InspectionPlan {
+  return !!plan && plan.characteristics.length > 0
+}
+
+/**
+ * Problem with an inspection plan, or null when it can be saved.
+ */
+export function validateInspectionPlan(plan: InspectionPlan): string | null {
+  if (!(Number(plan.sampleSize) >= 1)) return "Sample size must be at least 1."
+  const names = new Set<string>()
+  for (const c of plan.characteristics) {
+    const name = c.name.trim()
+    if (!name) return "Every characteristic needs a name."
+    if (names.has(name.toLowerCase())) return `Characteristic ${name} is listed twice.`
+    names.add(name.toLowerCase())
+    if (!Number.isFinite(Number(c.nominal))) return `${name} needs a nominal value.`
+    if (!Number.isFinite(Number(c.lowerTolerance)) || !Number.isFinite(Number(c.upperTolerance))) {
+      return `${name} needs lower and upper tolerances.`
+    }
+  }
+  return null
+}
+
+export function evaluateSample(
+  characteristics: InspectionCharacteristic[],
+  values: Record<string, number>,
+): InspectionSample {
+  return {
+    values,
+    passed: characteristics.every((c) => isWithinTolerance(c, values[c.id])),
+  }
+}
+
+/**
+ * Inspection record for measured samples. Every value must be entered; returns an
+ * error message instead when one is missing.
+ */
+export function buildInspectionRecord(
+  characteristics: InspectionCharacteristic[],
+  measurements: Record<string, number>[],
+  inspector?: string,
+): InspectionRecord | string {
+  for (let i = 0; i < measurements.length; i++) {
+    const missing = characteristics.find((c) => !Number.isFinite(measurements[i][c.id]))
+    if (missing) return `Sample ${i + 1} is missing a value for ${missing.name}.`
+  }
+  const samples = measurements.map((values) => evaluateSample(characteristics, values))
+  const failedSamples = samples.filter((s) => !s.passed).length
+  return {
+    characteristics,
+    samples,
+    passed: failedSamples === 0,
+    failedSamples,
+    inspectedAt: new Date().toISOString(),
+    ...(inspector ? { inspector } : {}),
+  }
+}
@@ -0,0 +1,126 @@
+import type { LotConsumption, MaterialLot, RawMaterial } from "./types"
+
+/**
+ * Supplier lots of raw materials.
+ *
+ * Each receipt adds a lot (lot or heat number, received date, expiry and
+ * supplier) and `RawMaterial.quantity` stays the total on hand. Stock from
+ * before lots were kept, or added by manual adjustment, is untracked and is
+ * issued first since it is the oldest. Lots are then issued first-expired,
+ * first-out; lots without an expiry follow, first-in, first-out. Expired lots
+ * are only issued when nothing else is left.
+ */
+
+export const EXPIRY_WARNING_DAYS = 30
+
+export type LotExpiryStatus = "expired" | "expiring" | "ok"
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export function getLotExpiryStatus(lot: MaterialLot, now: Date = new Date()): LotExpiryStatus {
+  if (!lot.expiresAt) return "ok"
+  const remaining = new Date(lot.expiresAt).getTime() - now.getTime()
+  if (remaining < 0) return "expired"
+  return remaining <= EXPIRY_WARNING_DAYS * DAY_MS ? "expiring" : "ok"
+}
+
+export function getLotTotal(lots: MaterialLot[] | undefined): number {
+  return (lots || []).reduce((sum, lot) => sum + Number(lot.quantity || 0), 0)
+}
+
+/**
+ * On-hand quantity not held in any lot.
+ */
+export function getUntrackedQuantity(material: RawMaterial): number {
+  return Math.max(0, Number(material.quantity || 0) - getLotTotal(material.lots))
+}
+
+/**
+ * Lots in the order they are issued.
+ */
+export function sortLotsForIssue(lots: MaterialLot[], now: Date = new Date()): MaterialLot[] {
+  const rank = (lot: MaterialLot) => {
+    if (getLotExpiryStatus(lot, now) === "expired") return 2
+    return lot.expiresAt ? 0 : 1
+  }
+  return [...lots].sort(
+    (a, b) =>
+      rank(a) - rank(b) ||
+      (a.expiresAt || "").localeCompare(b.expiresAt || "") ||
+      a.receivedAt.localeCompare(b.receivedAt),
+  )
+}
+
+/**
+ * Issue `amount` of a material: untracked stock first, then lots in issue order.
+ * Returns the lots left and what was drawn from each.
+ */
+export function drawFromLots(
+  material: RawMaterial,
+  amount: number,
+  now: Date = new Date(),
+): { lots: MaterialLot[]; drawn: LotConsumption[] } {
+  let remaining = Math.max(0, amount - getUntrackedQuantity(material))
+  const drawn: LotConsumption[] = []
+  const lots = sortLotsForIssue(material.lots || [], now).map((lot) => {
+    if (remaining <= 0) return lot
+    const quantity = Math.min(Number(lot.quantity || 0), remaining)
+    if (quantity <= 0) return lot
+    remaining -= quantity
+    drawn.push({ lotNumber: lot.lotNumber, quantity, ...(lot.restockId ? { restockId: lot.restockId } : {}) })
+    return { ...lot, quantity: Number(lot.quantity || 0) - quantity }
+  })
+  return { lots: lots.filter((lot) => lot.quantity > 0), drawn }
+}
+
+/**
+ * Lots left after the material's quantity is set by hand: a reduction below the
+ * lot total is taken out of the lots in issue order.
+ */
+export function trimLots(material: RawMaterial, quantity: number, now: Date = new Date()): MaterialLot[] {
+  const excess = getLotTotal(material.lots) - Math.max(0, quantity)
+  if (excess <= 0) return material.lots || []
+  return drawFromLots({ ...material, quantity: getLotTotal(material.lots) }, excess, now).lots
+}
+
+/**
+ * A new lot from a receipt. Receipts without a supplier lot number are kept
+ * under their restock ID.
+ */
+export function createLot(input: {
+  lotNumber?: string
+  quantity: number
+  receivedAt: string
+  expiryDate?: string
+  supplier?: string
+  restockId: string
+}): MaterialLot {
+  return {
+    lotNumber: input.lotNumber?.trim() || input.restockId,
+    quantity: input.quantity,
+    receivedAt: input.receivedAt,
+    restockId: input.restockId,
+    ...(input.expiryDate ? { expiresAt: input.expiryDate } : {}),
+    ...(input.supplier ? { supplier: input.supplier } : {}),
+  }
+}
+
+export interface ExpiringLot {
+  material: RawMaterial
+  lot: MaterialLot
+  status: Exclude<LotExpiryStatus, "ok">
+}
+
+/**
+ * Lots in stock that have expired or expire within EXPIRY_WARNING_DAYS, soonest first.
+ */
+export function getExpiringLots(materials: RawMaterial[], now: Date = new Date()): ExpiringLot[] {
+  const result: ExpiringLot[] = []
+  for (const material of materials) {
+    for (const lot of material.lots || []) {
+      const status = getLotExpiryStatus(lot, now)
+      if (status !== "ok" && Number(lot.quantity) > 0) result.push({ material, lot, status })
+    }
+  }
+  return result.sort((a, b) => (a.lot.expiresAt || "").localeCompare(b.lot.expiresAt || ""))
+}
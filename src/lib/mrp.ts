@@ -0,0 +1,274 @@
+import type { BOMRow, FinalStock, ProcessDefinition, ProcessingStageName, RawMaterial, StockItemKind } from "./types"
+import { getStockBreakdown } from "./stock-availability"
+import { getMaterialStockKind } from "./stock-movements"
+import { BUILT_IN_STAGES, getStageDefinition, getStageStoreItemName, sortStages } from "./stages"
+
+type StoreFlag = "isMoulded" | "isFinished" | "isAssembled"
+
+// Store intermediates credited by each stage (see resolveStageOutputs in stage-operations)
+const STAGE_STORE_OUTPUT: Partial<
+  Record<ProcessingStageName, { flag: StoreFlag; namePrefix: string; link: keyof FinalStock }>
+> = {
+  Molding: { flag: "isMoulded", namePrefix: "Moulded", link: "mouldedMaterialId" },
+  Machining: { flag: "isFinished", namePrefix: "Machined", link: "machinedMaterialId" },
+  Assembling: { flag: "isAssembled", namePrefix: "Assembled", link: "assembledMaterialId" },
+}
+
+export interface MrpRequirement {
+  itemId: string
+  itemName: string
+  kind: StockItemKind
+  unit: string
+  level: number // Shallowest BOM level the item appears at (0 = requested product)
+  gross: number // Total required across all levels
+  netted: number // Covered from free stock
+  shortage: number // gross - netted; bought (raw) or built (store / final)
+}
+
+export interface MrpPlannedRun {
+  productId: string // FinalStock.id
+  productName: string
+  stage: ProcessingStageName
+  quantity: number // Units that must pass through this stage
+  level: number
+}
+
+export interface MrpResult {
+  requirements: MrpRequirement[]
+  plannedRuns: MrpPlannedRun[] // Stage runs to schedule, deepest level first
+  purchaseShortages: MrpRequirement[] // Raw materials that must be bought
+  warnings: string[]
+}
+
+export interface MrpInput {
+  productId: string // FinalStock.id of the requested product
+  quantity: number
+  rawMaterials: RawMaterial[]
+  finalStock: FinalStock[]
+  // Quantities already claimed elsewhere (e.g. open batch demand), per item ID
+  committed?: Map<string, number>
+  // When false the full quantity is built even if Final Stock could cover part of it
+  netRequestedProduct?: boolean
+  // Stage order and Store outputs; defaults to the built-in stages
+  processDefinitions?: ProcessDefinition[]
+}
+
+/**
+ * Find the Store item a product's stage outputs to: explicit link first,
+ * then the "Moulded X" / "Machined X" / "Assembled X" naming convention.
+ * Stages configured in Setup match on `stageOutput` and their Store prefix.
+ */
+export function getStageStoreItem(
+  product: FinalStock,
+  stage: ProcessingStageName,
+  rawMaterials: RawMaterial[],
+  definitions: ProcessDefinition[] = BUILT_IN_STAGES,
+): RawMaterial | undefined {
+  const output = STAGE_STORE_OUTPUT[stage]
+  if (!output) {
+    const definition = getStageDefinition(definitions, stage)
+    if (!definition?.producesStoreItem) return undefined
+    const name = getStageStoreItemName(definition, product.name)
+    return rawMaterials.find((m) => m.stageOutput === stage && m.name === name)
+  }
+  const linkedId = product[output.link] as string | undefined
+  return (
+    rawMaterials.find((m) => m.id === linkedId) ||
+    rawMaterials.find((m) => m[output.flag] === true && m.name === `${output.namePrefix} ${product.name}`)
+  )
+}
+
+/**
+ * Product and stage that produce a Store intermediate, if known.
+ */
+export function getStoreItemProducer(
+  material: RawMaterial,
+  finalStock: FinalStock[],
+  definitions: ProcessDefinition[] = BUILT_IN_STAGES,
+): { product: FinalStock; stage: ProcessingStageName } | undefined {
+  if (material.stageOutput) {
+    const definition = getStageDefinition(definitions, material.stageOutput)
+    const product = definition && finalStock.find((p) => material.name === getStageStoreItemName(definition, p.name))
+    return product ? { product, stage: material.stageOutput } : undefined
+  }
+  for (const stage of Object.keys(STAGE_STORE_OUTPUT) as ProcessingStageName[]) {
+    const output = STAGE_STORE_OUTPUT[stage]
+    if (!output || material[output.flag] !== true) continue
+    const product =
+      finalStock.find((p) => p[output.link] === material.id) ||
+      finalStock.find((p) => material.name === `${output.namePrefix} ${p.name}`)
+    if (product) return { product, stage }
+  }
+  return undefined
+}
+
+/**
+ * Multi-level MRP explosion for building `quantity` units of a product.
+ *
+ * Demand for a product is netted against its free Final Stock; the remainder
+ * is planned as stage runs. Working back from the last stage, units already
+ * sitting in Store as the previous stage's output reduce how many units the
+ * earlier stages must run. Each stage run then explodes its BOM rows:
+ * - regular raw materials are netted against stock; the rest is a purchase shortage
+ * - Store intermediates are netted, and any shortage plans runs of the producing product
+ * - Final Stock inputs (`source: "final"`) recurse into that product's own BOM
+ *
+ * Free stock is consumed as the explosion proceeds, so a component shared by
+ * several levels is only netted once.
+ */
+export function explodeBom(input: MrpInput): MrpResult {
+  const rawById = new Map(input.rawMaterials.map((m) => [m.id, m]))
+  const finalById = new Map(input.finalStock.map((p) => [p.id, p]))
+  const committed = input.committed || new Map<string, number>()
+  const definitions = input.processDefinitions || BUILT_IN_STAGES
+
+  const free = new Map<string, number>()
+  const freeOf = (itemId: string): number => {
+    if (!free.has(itemId)) {
+      const raw = rawById.get(itemId)
+      const final = finalById.get(itemId)
+      const onHand = raw ? Number(raw.quantity || 0) : final ? getStockBreakdown(final).available : 0
+      free.set(itemId, Math.max(0, onHand - (committed.get(itemId) || 0)))
+    }
+    return free.get(itemId)!
+  }
+
+  const requirements = new Map<string, MrpRequirement>()
+  const runs = new Map<string, MrpPlannedRun>()
+  const warnings: string[] = []
+
+  // Net `quantity` of an item against free stock and record it; returns the uncovered part
+  const take = (
+    itemId: string,
+    itemName: string,
+    kind: StockItemKind,
+    unit: string,
+    quantity: number,
+    level: number,
+    net: boolean = true,
+  ): number => {
+    const netted = net ? Math.min(freeOf(itemId), quantity) : 0
+    free.set(itemId, freeOf(itemId) - netted)
+    const existing = requirements.get(itemId)
+    if (existing) {
+      existing.gross += quantity
+      existing.netted += netted
+      existing.shortage += quantity - netted
+      existing.level = Math.min(existing.level, level)
+    } else {
+      requirements.set(itemId, { itemId, itemName, kind, unit, level, gross: quantity, netted, shortage: quantity - netted })
+    }
+    return quantity - netted
+  }
+
+  const addRun = (product: FinalStock, stage: ProcessingStageName, quantity: number, level: number) => {
+    const key = `${product.id}:${stage}`
+    const existing = runs.get(key)
+    if (existing) {
+      existing.quantity += quantity
+      existing.level = Math.max(existing.level, level)
+    } else {
+      runs.set(key, { productId: product.id, productName: product.name, stage, quantity, level })
+    }
+  }
+
+  const explodeRow = (row: BOMRow, quantity: number, level: number, path: string[]) => {
+    const required = Number(row.qty_per_piece || 0) * quantity
+    if (required <= 0) return
+
+    if (row.source === "final") {
+      const product = finalById.get(row.raw_material_id)
+      if (!product) {
+        warnings.push(`BOM input ${row.raw_material_id} was not found in Final Stock.`)
+        return
+      }
+      demandProduct(product, required, level, path, true)
+      return
+    }
+
+    const material = rawById.get(row.raw_material_id)
+    if (!material) {
+      warnings.push(`BOM material ${row.raw_material_id} was not found in Raw Materials or Store.`)
+      return
+    }
+    const kind = getMaterialStockKind(material)
+    const shortage = take(material.id, material.name, kind, material.unit || row.unit, required, level)
+    if (shortage <= 0 || kind === "RawMaterial") return
+
+    const producer = getStoreItemProducer(material, input.finalStock, definitions)
+    if (!producer) {
+      warnings.push(`No product is linked to Store item ${material.name}; ${shortage} ${material.unit} cannot be planned.`)
+      return
+    }
+    const stages = sortStages(producer.product.manufacturingStages || [], definitions)
+    buildProduct(producer.product, stages.slice(0, stages.indexOf(producer.stage) + 1), shortage, level + 1, path)
+  }
+
+  // Plan stage runs for `quantity` units coming out of the last of `stages`
+  const buildProduct = (
+    product: FinalStock,
+    stages: ProcessingStageName[],
+    quantity: number,
+    level: number,
+    path: string[],
+  ) => {
+    if (path.includes(product.id)) {
+      warnings.push(`Circular BOM: ${[...path, product.id].join(" → ")}.`)
+      return
+    }
+    if (stages.length === 0) {
+      warnings.push(`${product.name} has no manufacturing stages; ${quantity} units cannot be planned.`)
+      return
+    }
+
+    const bom = product.bom_per_piece || []
+    const runQuantity: Partial<Record<ProcessingStageName, number>> = {}
+    let needed = quantity
+    for (let i = stages.length - 1; i >= 0; i--) {
+      runQuantity[stages[i]] = needed
+      if (i === 0 || needed <= 0) continue
+
+      // Earlier output already in Store covers part of this stage's input,
+      // unless the BOM lists that Store item explicitly (it is netted there instead)
+      const previousOutput = getStageStoreItem(product, stages[i - 1], input.rawMaterials, definitions)
+      const listedInBom = bom.some((row) => row.stage === stages[i] && row.raw_material_id === previousOutput?.id)
+      if (previousOutput && !listedInBom) {
+        needed = take(previousOutput.id, previousOutput.name, "StoreItem", previousOutput.unit, needed, level)
+      }
+    }
+
+    for (const stage of stages) {
+      const stageQuantity = runQuantity[stage] || 0
+      if (stageQuantity <= 0) continue
+      addRun(product, stage, stageQuantity, level)
+      for (const row of bom.filter((r) => r.stage === stage)) {
+        explodeRow(row, stageQuantity, level + 1, [...path, product.id])
+      }
+    }
+  }
+
+  const demandProduct = (product: FinalStock, quantity: number, level: number, path: string[], net: boolean) => {
+    const shortage = take(product.id, product.name, "FinalStock", "pcs", quantity, level, net)
+    if (shortage > 0) {
+      buildProduct(product, sortStages(product.manufacturingStages || [], definitions), shortage, level, path)
+    }
+  }
+
+  const requested = finalById.get(input.productId)
+  if (!requested) {
+    return { requirements: [], plannedRuns: [], purchaseShortages: [], warnings: [`Product ${input.productId} not found.`] }
+  }
+  demandProduct(requested, input.quantity, 0, [], input.netRequestedProduct !== false)
+
+  const requirementList = [...requirements.values()].sort((a, b) => a.level - b.level || a.itemName.localeCompare(b.itemName))
+  return {
+    requirements: requirementList,
+    plannedRuns: [...runs.values()].sort(
+      (a, b) =>
+        b.level - a.level ||
+        (getStageDefinition(definitions, a.stage)?.order ?? 0) - (getStageDefinition(definitions, b.stage)?.order ?? 0),
+    ),
+    purchaseShortages: requirementList.filter((r) => r.kind === "RawMaterial" && r.shortage > 0),
+    warnings,
+  }
+}
@@ -0,0 +1,201 @@
+import type { Batch, DowntimeEvent, DowntimeReason, ProcessingStageName, Shift, ShiftCalendar, Workstation } from "./types"
+import { DEFAULT_CALENDAR, getShiftWindows, getWorkingOverlap, workingTimeBetween, type ShiftWindow } from "./shifts"
+import { getWorkstationLabel } from "./workstations"
+import { getStageRuns } from "./stage-cycles"
+
+/**
+ * Overall equipment effectiveness per workstation and shift.
+ *
+ * A workstation's planned time is the working time (breaks excluded) of every
+ * shift in which it ran or was down. Within it:
+ * - Availability = run time / planned time, run time being planned time less downtime
+ * - Performance = units made / (run time × rated capacity per hour), capped at 100%
+ * - Quality = accepted / (accepted + rejected)
+ * OEE is their product. The units of a cycle (or, for stages without cycles,
+ * the stage) are spread over the shifts it ran in by the working time it ran
+ * in each, which assumes an even output rate, so per-shift figures are
+ * approximate. Runs without a start time count in the shift they ended in.
+ * Downtime is split across the shifts it overlaps, and only its working time counts.
+ */
+
+export const DOWNTIME_REASONS: DowntimeReason[] = [
+  "Breakdown",
+  "Changeover",
+  "Material Shortage",
+  "No Operator",
+  "Other",
+]
+
+export interface OeeRow {
+  key: string
+  workstationId: string
+  label: string
+  stage: ProcessingStageName
+  shift?: Shift // Missing on per-workstation totals
+  capacityPerHour: number
+  shifts: number // Shift windows worked
+  plannedMs: number
+  downtimeMs: number
+  accepted: number
+  rejected: number
+}
+
+export interface OeeFactors {
+  availability: number
+  performance: number
+  quality: number
+  oee: number
+}
+
+export function getOeeFactors(row: OeeRow): OeeFactors {
+  const runMs = Math.max(0, row.plannedMs - row.downtimeMs)
+  const total = row.accepted + row.rejected
+  const availability = row.plannedMs > 0 ? runMs / row.plannedMs : 0
+  // Above 100% means the rated capacity is set too low or output was booked outside
+  // the run; it is left as is so the report can flag it
+  const performance = runMs > 0 && row.capacityPerHour > 0 ? total / ((runMs / 3_600_000) * row.capacityPerHour) : 0
+  const quality = total > 0 ? row.accepted / total : 0
+  return { availability, performance, quality, oee: availability * performance * quality }
+}
+
+function getEventEnd(event: DowntimeEvent, now: number): number {
+  return event.endedAt ? new Date(event.endedAt).getTime() : now
+}
+
+/**
+ * OEE between two dates (YYYY-MM-DD, inclusive), per workstation and shift
+ * and per workstation over all shifts.
+ */
+export function computeOee(input: {
+  batches: Batch[]
+  workstations: Workstation[]
+  downtimeEvents: DowntimeEvent[]
+  from: string
+  to: string
+  calendar?: ShiftCalendar
+  now?: number
+}): { byShift: OeeRow[]; byWorkstation: OeeRow[] } {
+  const now = input.now ?? Date.now()
+  const start = new Date(input.from + "T00:00:00").getTime()
+  const end = Math.min(new Date(input.to + "T23:59:59.999").getTime() + 1, now)
+  const calendar = input.calendar || DEFAULT_CALENDAR
+  const windows = getShiftWindows(start, end, calendar)
+  const findWindow = (time: number) => windows.find((w) => time >= w.start && time < w.end)
+
+  // Per workstation and shift window
+  const cells = new Map<string, { workstationId: string; window: ShiftWindow; downtimeMs: number; accepted: number; rejected: number }>()
+  const cell = (workstationId: string, window: ShiftWindow) => {
+    const key = `${workstationId}|${window.day}|${window.shift.id}`
+    let entry = cells.get(key)
+    if (!entry) {
+      entry = { workstationId, window, downtimeMs: 0, accepted: 0, rejected: 0 }
+      cells.set(key, entry)
+    }
+    return entry
+  }
+
+  for (const batch of input.batches) {
+    for (const data of Object.values(batch.processingStages || {})) {
+      for (const run of getStageRuns(data)) {
+        if (!run.workstationId) continue
+        const finished = new Date(run.endedAt).getTime()
+        const started = run.startedAt ? new Date(run.startedAt).getTime() : finished
+        const runMs = workingTimeBetween(run.startedAt, run.endedAt, calendar, now)
+        // Share of the run's output made in each shift inside the period
+        let shares: Array<[ShiftWindow, number]> = []
+        if (runMs > 0) {
+          shares = windows
+            .map((w): [ShiftWindow, number] => [
+              w,
+              getWorkingOverlap(w, Math.max(started, start), Math.min(finished, end)) / runMs,
+            ])
+            .filter(([, share]) => share > 0)
+        } else {
+          const window = finished >= start && finished < end ? findWindow(finished) : undefined
+          if (window) shares = [[window, 1]]
+        }
+        for (const [window, share] of shares) {
+          const entry = cell(run.workstationId, window)
+          entry.accepted += Number(run.accepted || 0) * share
+          entry.rejected += Number(run.rejected || 0) * share
+        }
+      }
+    }
+  }
+
+  for (const event of input.downtimeEvents) {
+    const eventStart = new Date(event.startedAt).getTime()
+    const eventEnd = getEventEnd(event, now)
+    for (const window of windows) {
+      const overlap = getWorkingOverlap(window, Math.max(eventStart, start), Math.min(eventEnd, end))
+      if (overlap > 0) cell(event.workstationId, window).downtimeMs += overlap
+    }
+  }
+
+  const workstations = new Map(input.workstations.map((w) => [w.id, w]))
+  const byShift = new Map<string, OeeRow>()
+  const byWorkstation = new Map<string, OeeRow>()
+  const add = (rows: Map<string, OeeRow>, key: string, seed: Omit<OeeRow, "key" | "shifts" | "plannedMs" | "downtimeMs" | "accepted" | "rejected">, entry: { window: ShiftWindow; downtimeMs: number; accepted: number; rejected: number }) => {
+    const row = rows.get(key) || { ...seed, key, shifts: 0, plannedMs: 0, downtimeMs: 0, accepted: 0, rejected: 0 }
+    // Only the working part of the shift inside the period (and not in the future) is planned
+    const plannedMs = getWorkingOverlap(entry.window, start, end)
+    row.shifts += 1
+    row.plannedMs += plannedMs
+    row.downtimeMs += Math.min(entry.downtimeMs, plannedMs)
+    row.accepted += entry.accepted
+    row.rejected += entry.rejected
+    rows.set(key, row)
+  }
+
+  for (const entry of cells.values()) {
+    const workstation = workstations.get(entry.workstationId)
+    if (!workstation) continue
+    const seed = {
+      workstationId: workstation.id,
+      label: getWorkstationLabel(workstation),
+      stage: workstation.stage,
+      capacityPerHour: Number(workstation.capacityPerHour || 0),
+    }
+    add(byShift, `${workstation.id}|${entry.window.shift.id}`, { ...seed, shift: entry.window.shift }, entry)
+    add(byWorkstation, workstation.id, seed, entry)
+  }
+
+  const sortRows = (rows: Map<string, OeeRow>) =>
+    [...rows.values()].sort(
+      (a, b) => a.label.localeCompare(b.label) || (a.shift?.start || "").localeCompare(b.shift?.start || ""),
+    )
+  return { byShift: sortRows(byShift), byWorkstation: sortRows(byWorkstation) }
+}
+
+export interface DowntimeSummary {
+  reason: DowntimeReason
+  events: number
+  downtimeMs: number
+}
+
+/**
+ * Working time lost between two dates (YYYY-MM-DD, inclusive) by reason, longest first.
+ */
+export function summarizeDowntime(
+  events: DowntimeEvent[],
+  from: string,
+  to: string,
+  calendar: ShiftCalendar = DEFAULT_CALENDAR,
+  now: number = Date.now(),
+): DowntimeSummary[] {
+  const start = new Date(from + "T00:00:00").getTime()
+  const end = Math.min(new Date(to + "T23:59:59.999").getTime() + 1, now)
+  const windows = getShiftWindows(start, end, calendar)
+  const totals = new Map<DowntimeReason, DowntimeSummary>()
+  for (const event of events) {
+    const eventStart = Math.max(new Date(event.startedAt).getTime(), start)
+    const eventEnd = Math.min(getEventEnd(event, now), end)
+    if (eventEnd <= eventStart) continue
+    const overlap = windows.reduce((sum, w) => sum + getWorkingOverlap(w, eventStart, eventEnd), 0)
+    const row = totals.get(event.reason) || { reason: event.reason, events: 0, downtimeMs: 0 }
+    row.events += 1
+    row.downtimeMs += overlap
+    totals.set(event.reason, row)
+  }
+  return [...totals.values()].sort((a, b) => b.downtimeMs - a.downtimeMs)
+}
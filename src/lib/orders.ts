@@ -0,0 +1,87 @@
+import type { FinalStock, Order, OrderLine, OrderStatus } from "./types"
+
+/**
+ * Helpers for multi-line orders.
+ */
+
+const round2 = (value: number) => Math.round(value * 100) / 100
+
+/**
+ * Snapshot price and GST from Final Stock onto a new order line.
+ */
+export function buildOrderLine(product: FinalStock, quantity: number): OrderLine {
+  return {
+    productId: product.id,
+    productName: product.name,
+    sku: product.sku,
+    quantity,
+    unitPrice: Number(product.price ?? 0),
+    gstRate: Number(product.gstRate ?? 0),
+  }
+}
+
+export function getLineAmounts(line: OrderLine) {
+  const subtotal = round2(Number(line.quantity || 0) * Number(line.unitPrice || 0))
+  const tax = round2((subtotal * Number(line.gstRate || 0)) / 100)
+  return { subtotal, tax, total: round2(subtotal + tax) }
+}
+
+export function computeOrderTotals(lines: OrderLine[]): Pick<Order, "subtotal" | "taxTotal" | "total"> {
+  const totals = lines.reduce(
+    (acc, line) => {
+      const amounts = getLineAmounts(line)
+      acc.subtotal += amounts.subtotal
+      acc.taxTotal += amounts.tax
+      return acc
+    },
+    { subtotal: 0, taxTotal: 0 },
+  )
+  return {
+    subtotal: round2(totals.subtotal),
+    taxTotal: round2(totals.taxTotal),
+    total: round2(totals.subtotal + totals.taxTotal),
+  }
+}
+
+export function getOrderQuantity(order: Pick<Order, "lines">): number {
+  return (order.lines || []).reduce((sum, line) => sum + Number(line.quantity || 0), 0)
+}
+
+export function formatCurrency(amount: number): string {
+  return `₹${Number(amount || 0).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+}
+
+/**
+ * Allowed order status transitions. Cancellation is possible until delivery;
+ * Delivered and Cancelled are terminal.
+ */
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  Draft: ["Confirmed", "Cancelled"],
+  Confirmed: ["Picked", "Cancelled"],
+  Picked: ["Dispatched", "Cancelled"],
+  Dispatched: ["Delivered", "Cancelled"],
+  Delivered: [],
+  Cancelled: [],
+}
+
+export const ORDER_STATUSES = Object.keys(ORDER_STATUS_TRANSITIONS) as OrderStatus[]
+
+/**
+ * Orders created before the lifecycle existed deducted stock on creation,
+ * so they are treated as delivered.
+ */
+export function getOrderStatus(order: Pick<Order, "status">): OrderStatus {
+  return order.status ?? "Delivered"
+}
+
+export function canTransitionOrder(from: OrderStatus, to: OrderStatus): boolean {
+  return ORDER_STATUS_TRANSITIONS[from].includes(to)
+}
+
+/**
+ * Confirmed, picked and dispatched orders hold reserved or in-transit stock
+ * and must be cancelled before they can be deleted.
+ */
+export function orderHoldsStock(status: OrderStatus): boolean {
+  return status === "Confirmed" || status === "Picked" || status === "Dispatched"
+}
@@ -1,4 +1,5 @@
 import type { Role, AppModule, ProcessingStageName } from "./types";
+import { getStageModule } from "./stages";
 
 export interface RolePermissions {
   canEdit: AppModule[];
@@ -6,10 +7,10 @@ export interface RolePermissions {
 
 export const ROLE_PERMISSIONS: Record<Role, RolePermissions> = {
   admin: {
-    canEdit: ["Raw Materials", "Store", "Batches", "Final Stock", "Orders", "Reports", "Setup", "Moulding", "Machining", "Assembling", "Testing"]
+    canEdit: ["Raw Materials", "Store", "Batches", "Final Stock", "Orders", "Reports", "Purchasing", "Setup", "Moulding", "Machining", "Assembling", "Testing"]
   },
   storeManager: {
-    canEdit: ["Raw Materials", "Store", "Batches", "Final Stock", "Orders", "Reports", "Moulding", "Machining", "Assembling", "Testing"]
+    canEdit: ["Raw Materials", "Store", "Batches", "Final Stock", "Orders", "Reports", "Purchasing", "Moulding", "Machining", "Assembling", "Testing"]
   },
   mouldingManager: {
     canEdit: ["Moulding"]
@@ -22,6 +23,10 @@ export const ROLE_PERMISSIONS: Record<Role, RolePermissions> = {
   },
   testingManager: {
     canEdit: ["Testing"]
+  },
+  // Edits only the stages assigned on the employee record (Employee.stages)
+  stageManager: {
+    canEdit: []
   }
 };
 
@@ -31,7 +36,8 @@ export const ROLE_LABELS: Record<Role, string> = {
   mouldingManager: "Moulding Manager",
   machiningManager: "Machining Manager",
   assemblingManager: "Assembling Manager",
-  testingManager: "Testing Manager"
+  testingManager: "Testing Manager",
+  stageManager: "Stage Manager"
 };
 
 /**
@@ -50,25 +56,25 @@ export function canEditModule(role: Role, module: AppModule): boolean {
 }
 
 /**
- * Map ProcessingStageName to corresponding AppModule for permission checks
+ * Map ProcessingStageName to corresponding AppModule for permission checks.
+ * Stages configured in Setup map to "Batches".
  */
 export function mapProcessingStageToModule(stage: ProcessingStageName): AppModule {
-  switch (stage) {
-    case "Molding":
-      return "Moulding";
-    case "Machining":
-      return "Machining";
-    case "Assembling":
-      return "Assembling";
-    case "Testing":
-      return "Testing";
-  }
+  return getStageModule(stage);
 }
 
 /**
- * Check if a role has permission to edit a specific processing stage
+ * Check if a role has permission to edit a specific processing stage.
+ * Stage Managers may edit exactly the stages assigned to them.
  */
-export function canEditProcessingStage(role: Role, stage: ProcessingStageName): boolean {
+export function canEditProcessingStage(
+  role: Role,
+  stage: ProcessingStageName,
+  assignedStages: ProcessingStageName[] = [],
+): boolean {
+  if (role === "stageManager") {
+    return assignedStages.includes(stage);
+  }
   const appModule = mapProcessingStageToModule(stage);
   return canEditModule(role, appModule);
 }
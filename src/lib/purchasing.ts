@@ -0,0 +1,77 @@
+import type { PurchaseOrder, PurchaseOrderLine, PurchaseOrderStatus, Supplier } from "@/lib/types"
+
+export const PURCHASE_ORDER_STATUSES: PurchaseOrderStatus[] = ["Draft", "Open", "Partially Received", "Received", "Cancelled"]
+
+const round2 = (value: number) => Math.round(value * 100) / 100
+
+/**
+ * Quantity of a PO line still expected from the supplier.
+ */
+export function getOutstandingQuantity(line: PurchaseOrderLine): number {
+  return Math.max(0, Number(line.quantityOrdered || 0) - Number(line.quantityReceived || 0))
+}
+
+/**
+ * Status implied by the received quantities on each line.
+ */
+export function getReceiptStatus(lines: PurchaseOrderLine[]): PurchaseOrderStatus {
+  const received = lines.reduce((sum, line) => sum + Number(line.quantityReceived || 0), 0)
+  if (received <= 0) return "Open"
+  return lines.every((line) => getOutstandingQuantity(line) === 0) ? "Received" : "Partially Received"
+}
+
+/**
+ * Open POs are those still awaiting at least part of their delivery.
+ */
+export function isPurchaseOrderOpen(purchaseOrder: PurchaseOrder): boolean {
+  return purchaseOrder.status === "Open" || purchaseOrder.status === "Partially Received"
+}
+
+/**
+ * Quantity per material still expected from Draft and open POs.
+ * Drafts are counted so the reorder planner doesn't suggest the same purchase twice.
+ */
+export function getOnOrderQuantities(purchaseOrders: PurchaseOrder[]): Map<string, number> {
+  const onOrder = new Map<string, number>()
+  for (const purchaseOrder of purchaseOrders) {
+    if (purchaseOrder.status !== "Draft" && !isPurchaseOrderOpen(purchaseOrder)) continue
+    for (const line of purchaseOrder.lines || []) {
+      onOrder.set(line.materialId, (onOrder.get(line.materialId) || 0) + getOutstandingQuantity(line))
+    }
+  }
+  return onOrder
+}
+
+export function getPurchaseOrderTotal(purchaseOrder: Pick<PurchaseOrder, "lines">): number {
+  return round2(
+    (purchaseOrder.lines || []).reduce(
+      (sum, line) => sum + Number(line.quantityOrdered || 0) * Number(line.pricePerUnit || 0),
+      0,
+    ),
+  )
+}
+
+export function getOutstandingValue(purchaseOrder: PurchaseOrder): number {
+  return round2(
+    (purchaseOrder.lines || []).reduce(
+      (sum, line) => sum + getOutstandingQuantity(line) * Number(line.pricePerUnit || 0),
+      0,
+    ),
+  )
+}
+
+/**
+ * Agreed price for a material from a supplier, or undefined when they don't supply it.
+ */
+export function getSupplierPrice(supplier: Supplier | undefined, materialId: string): number | undefined {
+  return supplier?.materials?.find((m) => m.materialId === materialId)?.pricePerUnit
+}
+
+/**
+ * Expected delivery date (yyyy-mm-dd) for a PO raised today against a supplier.
+ */
+export function getExpectedDate(supplier: Supplier | undefined, from: Date = new Date()): string {
+  const date = new Date(from)
+  date.setDate(date.getDate() + Number(supplier?.leadTimeDays || 0))
+  return date.toISOString().split("T")[0]
+}
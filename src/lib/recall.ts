@@ -0,0 +1,138 @@
+import type { Batch, FinalStock, Order, ProcessingStageName, StockItemKind } from "./types"
+import {
+  getBatchNodeId,
+  getOrderNodeId,
+  getStockNodeId,
+  traceGenealogy,
+  type Genealogy,
+  type TraceNode,
+} from "./genealogy"
+
+/**
+ * Recall simulation: starting from suspect material lots or batches, everything
+ * downstream in the genealogy (see genealogy.ts) that would have to be found —
+ * batches made from them, stock of them still on hand and orders they went into.
+ */
+
+export interface RecallBatch {
+  batch: Batch
+  currentStage?: ProcessingStageName // First stage not yet completed
+}
+
+export interface RecallStock {
+  itemId: string
+  itemName: string
+  itemKind: StockItemKind
+  source: string // Batch or lot it came from
+  quantity: number
+  reserved: number // Held for confirmed orders (Final Stock entries)
+  unit: string
+  attributed: boolean // Store / raw stock attributed FIFO rather than recorded
+}
+
+export interface RecallOrder {
+  order: Order
+  quantity: number // Affected units in the order
+  shipped: boolean
+}
+
+export interface RecallResult {
+  sources: TraceNode[]
+  batches: RecallBatch[]
+  onHand: RecallStock[]
+  orders: RecallOrder[]
+}
+
+const SHIPPED_STATUSES = new Set(["Dispatched", "Delivered"])
+
+/**
+ * Batches that worked on a stage between two dates: finished then, or started
+ * then and not yet finished.
+ */
+export function getStageWindowBatches(batches: Batch[], stage: ProcessingStageName, from: string, to: string): Batch[] {
+  const start = from ? new Date(from + "T00:00:00").getTime() : -Infinity
+  const end = to ? new Date(to + "T23:59:59.999").getTime() : Infinity
+  return batches.filter((b) => {
+    const data = b.processingStages?.[stage]
+    if (!data) return false
+    const when = data.finishedAt || data.startedAt
+    if (!when) return false
+    const time = new Date(when).getTime()
+    return time >= start && time <= end
+  })
+}
+
+export function simulateRecall(
+  genealogy: Genealogy,
+  sourceIds: string[],
+  data: { batches: Batch[]; finalStock: FinalStock[]; orders: Order[] },
+): RecallResult {
+  const affected = new Set<string>()
+  for (const id of sourceIds) {
+    for (const step of traceGenealogy(genealogy, id, "forward")) affected.add(step.node.id)
+  }
+
+  const batches = data.batches
+    .filter((b) => affected.has(getBatchNodeId(b.batchId)))
+    .map((batch) => ({
+      batch,
+      currentStage: batch.selectedProcesses.find((stage) => !batch.processingStages?.[stage]?.completed),
+    }))
+    .sort((a, b) => a.batch.createdAt.localeCompare(b.batch.createdAt))
+
+  // Final Stock entries are recorded per batch; Store items and raw materials come from the ledger replay
+  const onHand: RecallStock[] = []
+  for (const product of data.finalStock) {
+    for (const entry of product.batches || []) {
+      if (!affected.has(getStockNodeId(product.id, entry.batchId, entry.createdAt)) || Number(entry.quantity || 0) <= 0) continue
+      onHand.push({
+        itemId: product.id,
+        itemName: product.name,
+        itemKind: "FinalStock",
+        source: entry.sourceBatchId || entry.batchId,
+        quantity: Number(entry.quantity || 0),
+        reserved: Number(entry.reserved || 0),
+        unit: "pcs",
+        attributed: false,
+      })
+    }
+  }
+  const held = new Map<string, RecallStock>()
+  for (const units of genealogy.onHand) {
+    if (units.itemKind === "FinalStock" || !affected.has(units.source)) continue
+    const key = `${units.itemId}|${units.source}`
+    const existing = held.get(key)
+    if (existing) existing.quantity += units.quantity
+    else {
+      held.set(key, {
+        itemId: units.itemId,
+        itemName: units.itemName,
+        itemKind: units.itemKind,
+        source: genealogy.nodes.get(units.source)?.label || units.source,
+        quantity: units.quantity,
+        reserved: 0,
+        unit: units.unit,
+        attributed: true,
+      })
+    }
+  }
+  onHand.push(...held.values())
+
+  const orders: RecallOrder[] = []
+  for (const order of data.orders) {
+    const nodeId = getOrderNodeId(order.id)
+    if (!affected.has(nodeId)) continue
+    const quantity = genealogy.edges
+      .filter((e) => e.to === nodeId && affected.has(e.from))
+      .reduce((sum, e) => sum + e.quantity, 0)
+    orders.push({ order, quantity, shipped: SHIPPED_STATUSES.has(order.status || "") })
+  }
+  orders.sort((a, b) => a.order.createdAt.localeCompare(b.order.createdAt))
+
+  return {
+    sources: sourceIds.map((id) => genealogy.nodes.get(id)).filter((n): n is TraceNode => !!n),
+    batches,
+    onHand,
+    orders,
+  }
+}
@@ -0,0 +1,188 @@
+import type {
+  Batch,
+  BatchMaterial,
+  ProcessingStageName,
+  RejectDisposition,
+  RejectDispositionType,
+  Supplier,
+} from "./types"
+import { getSupplierPrice } from "./purchasing"
+import { getPreferredSupplier } from "./reorder-planning"
+import { createProcessingStages } from "./stages"
+
+/**
+ * Disposition of rejected units.
+ *
+ * Every unit a stage rejects must be accounted for before the stage completes:
+ * - Scrap: written off with a reason code; a scrap record carries its material cost
+ * - Rework: a linked batch re-runs the same stage (and the ones after it)
+ * - Return: a linked batch restarts from an earlier stage
+ */
+
+export const SCRAP_REASONS: { code: string; label: string }[] = [
+  { code: "DIM", label: "Out of tolerance" },
+  { code: "SUR", label: "Surface defect" },
+  { code: "MAT", label: "Material defect" },
+  { code: "ASM", label: "Assembly error" },
+  { code: "FNC", label: "Failed functional test" },
+  { code: "DMG", label: "Handling damage" },
+  { code: "OTH", label: "Other" },
+]
+
+export const DISPOSITION_LABELS: Record<RejectDispositionType, string> = {
+  Scrap: "Scrap",
+  Rework: "Rework at this stage",
+  Return: "Return to earlier stage",
+}
+
+export function getScrapReasonLabel(code: string): string {
+  return SCRAP_REASONS.find((r) => r.code === code)?.label || code
+}
+
+export function getDispositionTotal(dispositions: RejectDisposition[] | undefined): number {
+  return (dispositions || []).reduce((sum, d) => sum + Number(d.quantity || 0), 0)
+}
+
+/**
+ * Indexes of the Rework / Return dispositions of a completed stage that have
+ * no linked batch yet, e.g. because creating it failed after the stage was saved.
+ */
+export function getPendingReworkIndexes(batch: Batch, stage: ProcessingStageName): number[] {
+  const data = batch.processingStages?.[stage]
+  if (!data?.completed) return []
+  return (data.dispositions || []).flatMap((d, index) => (d.type !== "Scrap" && !d.reworkBatchId ? [index] : []))
+}
+
+/**
+ * Rework batch already created for a disposition, which only needs linking.
+ */
+export function findReworkBatch(
+  batches: Batch[],
+  sourceId: string,
+  stage: ProcessingStageName,
+  dispositionIndex: number,
+): Batch | undefined {
+  return batches.find(
+    (b) =>
+      b.reworkOf?.batchId === sourceId &&
+      b.reworkOf.stage === stage &&
+      b.reworkOf.dispositionIndex === dispositionIndex,
+  )
+}
+
+/**
+ * Stages before `stage` that rejected units can be returned to.
+ */
+export function getReturnStages(stages: ProcessingStageName[], stage: ProcessingStageName): ProcessingStageName[] {
+  const index = stages.indexOf(stage)
+  return index > 0 ? stages.slice(0, index) : []
+}
+
+/**
+ * Problem with the dispositions entered for `rejected` units, or null when they are complete.
+ */
+export function validateDispositions(
+  rejected: number,
+  dispositions: RejectDisposition[] | undefined,
+  returnStages: ProcessingStageName[],
+): string | null {
+  const list = dispositions || []
+  if (rejected <= 0) {
+    return list.length > 0 ? "Dispositions were entered but no units were rejected." : null
+  }
+  for (const d of list) {
+    if (!(Number(d.quantity) > 0)) return "Every disposition needs a quantity above zero."
+    if (d.type === "Scrap" && !d.reasonCode) return "Scrapped units need a reason code."
+    if (d.type === "Return" && (!d.targetStage || !returnStages.includes(d.targetStage))) {
+      return "Returned units need an earlier stage to return to."
+    }
+  }
+  const total = getDispositionTotal(list)
+  if (total !== rejected) {
+    return `Dispositions cover ${total} of ${rejected} rejected units.`
+  }
+  return null
+}
+
+/**
+ * Material cost of one unit up to and including `stage`, priced at each
+ * material's preferred supplier. Materials without a supplier price count as zero.
+ */
+export function getScrapUnitCost(
+  batch: Pick<Batch, "materials" | "quantityToBuild">,
+  stage: ProcessingStageName,
+  stages: ProcessingStageName[],
+  suppliers: Supplier[],
+): number {
+  const index = stages.indexOf(stage)
+  const costedStages = index >= 0 ? stages.slice(0, index + 1) : [stage]
+  const qtyToBuild = Math.max(1, Number(batch.quantityToBuild) || 1)
+  return (batch.materials || [])
+    .filter((m) => costedStages.includes(m.stage))
+    .reduce((sum, m) => {
+      const price = getSupplierPrice(getPreferredSupplier(suppliers, m.id), m.id) || 0
+      return sum + (Number(m.quantity || 0) / qtyToBuild) * price
+    }, 0)
+}
+
+/**
+ * Batch that takes rejected units back through production.
+ *
+ * It starts at the disposition's target stage (the rejecting stage itself for
+ * Rework) and runs up to the last stage of the source batch. Materials are the
+ * source batch's rows for those stages scaled to the rejected quantity; the
+ * rejecting stage's own rows are left out for Rework, as the units are reworked
+ * rather than rebuilt. `materials` defaults to the source batch's rows.
+ */
+export function buildReworkBatch(
+  source: Batch,
+  stage: ProcessingStageName,
+  disposition: RejectDisposition,
+  stages: ProcessingStageName[],
+  materials: BatchMaterial[] = source.materials || [],
+  dispositionIndex?: number,
+): Omit<Batch, "id" | "batchId"> {
+  const quantity = Number(disposition.quantity || 0)
+  const targetStage = disposition.type === "Return" && disposition.targetStage ? disposition.targetStage : stage
+  const lastStage = source.selectedProcesses?.[source.selectedProcesses.length - 1] || stage
+  const start = stages.indexOf(targetStage)
+  const end = stages.indexOf(lastStage)
+  const path = start >= 0 && end >= start ? stages.slice(start, end + 1) : [targetStage]
+
+  const qtyToBuild = Math.max(1, Number(source.quantityToBuild) || 1)
+  const reworkMaterials: BatchMaterial[] = materials
+    .filter((m) => path.includes(m.stage) && !(disposition.type === "Rework" && m.stage === stage))
+    .map((m) => ({
+      id: m.id,
+      name: m.name,
+      quantity: (Number(m.quantity || 0) / qtyToBuild) * quantity,
+      unit: m.unit,
+      stage: m.stage,
+    }))
+
+  // Testing rejects sent back to Assembling keep the existing failed-assembly (FT-) flow
+  const isFailedTesting = stage === "Testing" && targetStage === "Assembling"
+  const processingStages = createProcessingStages(path)
+  if (isFailedTesting) {
+    processingStages.Assembling = { ...processingStages.Assembling, accepted: quantity }
+  }
+
+  return {
+    productId: source.productId,
+    productName: source.productName,
+    quantityToBuild: quantity,
+    totalMaterialQuantity: reworkMaterials.reduce((sum, m) => sum + m.quantity, 0),
+    materials: reworkMaterials,
+    createdAt: new Date().toISOString(),
+    status: "Planned",
+    processingStages,
+    selectedProcesses: path,
+    ...(isFailedTesting ? { autoCreatedFromTestingRejected: true } : {}),
+    reworkOf: {
+      batchId: source.id,
+      displayBatchId: source.batchId || source.id,
+      stage,
+      ...(dispositionIndex !== undefined ? { dispositionIndex } : {}),
+    },
+  }
+}
@@ -0,0 +1,112 @@
+import type { Batch, PurchaseOrder, RawMaterial, StockMovement, Supplier } from "./types"
+import { getOpenBatchDemand } from "./batch-demand"
+import { getOnOrderQuantities } from "./purchasing"
+
+// Window used to estimate how fast each material is consumed
+export const CONSUMPTION_WINDOW_DAYS = 30
+
+export interface ReorderSuggestion {
+  material: RawMaterial
+  onHand: number
+  batchDemand: number // Outstanding need of Planned / In Progress batches
+  onOrder: number // Still expected from Draft and open POs
+  dailyUsage: number // Average batch consumption per day over the window
+  leadTimeDays: number
+  leadTimeDemand: number // Expected usage while waiting for delivery
+  projected: number // onHand + onOrder - batchDemand
+  suggestedQuantity: number
+  supplier?: Supplier
+  pricePerUnit?: number
+}
+
+/**
+ * Average daily batch consumption per material over the last `windowDays`,
+ * read from the stock movement ledger.
+ */
+export function getDailyUsage(
+  movements: StockMovement[],
+  windowDays: number = CONSUMPTION_WINDOW_DAYS,
+  now: Date = new Date(),
+): Map<string, number> {
+  const since = now.getTime() - windowDays * 24 * 60 * 60 * 1000
+  const usage = new Map<string, number>()
+  for (const movement of movements) {
+    if (movement.reason !== "batch_consumption") continue
+    if (new Date(movement.timestamp).getTime() < since) continue
+    usage.set(movement.itemId, (usage.get(movement.itemId) || 0) + Math.abs(Number(movement.quantity || 0)))
+  }
+  for (const [itemId, total] of usage) {
+    usage.set(itemId, total / windowDays)
+  }
+  return usage
+}
+
+/**
+ * Preferred supplier for a material: the shortest lead time, then the lowest price.
+ */
+export function getPreferredSupplier(suppliers: Supplier[], materialId: string): Supplier | undefined {
+  return suppliers
+    .filter((s) => (s.materials || []).some((m) => m.materialId === materialId))
+    .sort((a, b) => {
+      const byLeadTime = Number(a.leadTimeDays || 0) - Number(b.leadTimeDays || 0)
+      if (byLeadTime !== 0) return byLeadTime
+      const priceOf = (s: Supplier) => s.materials.find((m) => m.materialId === materialId)!.pricePerUnit
+      return priceOf(a) - priceOf(b)
+    })[0]
+}
+
+/**
+ * Suggested purchases for raw materials.
+ *
+ * A material needs reordering when the stock left after open batch demand,
+ * less what will be used during the supplier's lead time, falls below its
+ * threshold. The suggested quantity brings it back up to the threshold:
+ *
+ *   suggested = threshold + batchDemand + leadTimeDemand - onHand - onOrder
+ *
+ * Only materials with a positive suggestion are returned, most urgent first.
+ */
+export function planReorders(input: {
+  materials: RawMaterial[]
+  batches: Batch[]
+  suppliers: Supplier[]
+  purchaseOrders: PurchaseOrder[]
+  movements: StockMovement[]
+  now?: Date
+}): ReorderSuggestion[] {
+  const demand = getOpenBatchDemand(input.batches)
+  const onOrder = getOnOrderQuantities(input.purchaseOrders)
+  const usage = getDailyUsage(input.movements, CONSUMPTION_WINDOW_DAYS, input.now)
+
+  const suggestions: ReorderSuggestion[] = []
+  for (const material of input.materials) {
+    const supplier = getPreferredSupplier(input.suppliers, material.id)
+    const onHand = Number(material.quantity || 0)
+    const batchDemand = demand.get(material.id) || 0
+    const ordered = onOrder.get(material.id) || 0
+    const dailyUsage = usage.get(material.id) || 0
+    const leadTimeDays = Number(supplier?.leadTimeDays || 0)
+    const leadTimeDemand = dailyUsage * leadTimeDays
+    const threshold = Number(material.threshold || 0)
+
+    const suggestedQuantity = Math.ceil(threshold + batchDemand + leadTimeDemand - onHand - ordered)
+    if (suggestedQuantity <= 0) continue
+
+    suggestions.push({
+      material,
+      onHand,
+      batchDemand,
+      onOrder: ordered,
+      dailyUsage,
+      leadTimeDays,
+      leadTimeDemand,
+      projected: onHand + ordered - batchDemand,
+      suggestedQuantity,
+      supplier,
+      pricePerUnit: supplier?.materials.find((m) => m.materialId === material.id)?.pricePerUnit,
+    })
+  }
+
+  // Materials already short of batch demand come first
+  return suggestions.sort((a, b) => a.projected - b.projected)
+}
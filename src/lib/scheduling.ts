@@ -0,0 +1,189 @@
+import type { Batch, ProcessingStageName, ScheduleSlot, ShiftCalendar, Workstation } from "./types"
+import { DEFAULT_CALENDAR, getShiftWindows, getWorkingOverlap, type ShiftWindow, type TimeRange } from "./shifts"
+
+/**
+ * Finite-capacity scheduling: batches are booked on a stage's workstations
+ * one after another. A slot lasts the batch quantity at the workstation's
+ * rated capacity, counted in working time, so a slot that runs into a break,
+ * a weekend or a holiday ends correspondingly later.
+ */
+
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+
+// Working time is looked for a week at a time, up to a year ahead
+const SEARCH_STEP_MS = 7 * DAY_MS
+const SEARCH_LIMIT_MS = 366 * DAY_MS
+
+export interface SlotCheck {
+  isValid: boolean
+  reason?: string
+  slot?: TimeRange // Where the batch would run, when valid
+}
+
+export interface WorkstationLoad {
+  availableMs: number // Working time in the period
+  bookedMs: number // Working time of it taken by slots
+}
+
+// A shift window less its breaks, in time order
+function getWorkingRanges(window: ShiftWindow): TimeRange[] {
+  const ranges: TimeRange[] = []
+  let cursor = window.start
+  for (const b of [...window.breaks].sort((a, b) => a.start - b.start)) {
+    if (b.start > cursor) ranges.push({ start: cursor, end: Math.min(b.start, window.end) })
+    cursor = Math.max(cursor, b.end)
+  }
+  if (cursor < window.end) ranges.push({ start: cursor, end: window.end })
+  return ranges
+}
+
+/**
+ * The moment `ms` of working time after `start`. With `ms` 0 it is the first
+ * working moment at or after `start`. Null when the calendar has no working
+ * time within a year, e.g. every shift was deleted.
+ */
+export function addWorkingTime(start: number, ms: number, calendar: ShiftCalendar = DEFAULT_CALENDAR): number | null {
+  let remaining = Math.max(0, ms)
+  for (let from = start; from < start + SEARCH_LIMIT_MS; from += SEARCH_STEP_MS) {
+    const to = from + SEARCH_STEP_MS
+    for (const window of getShiftWindows(from, to, calendar)) {
+      for (const range of getWorkingRanges(window)) {
+        // Windows spanning the edge of a step are returned for both steps
+        const rangeStart = Math.max(range.start, from)
+        const rangeEnd = Math.min(range.end, to)
+        if (rangeEnd <= rangeStart) continue
+        if (remaining <= rangeEnd - rangeStart) return rangeStart + remaining
+        remaining -= rangeEnd - rangeStart
+      }
+    }
+  }
+  return null
+}
+
+/**
+ * Working time a quantity takes at the workstation's rated capacity, or null
+ * when the workstation has none.
+ */
+export function getRunTime(quantity: number, workstation: Workstation): number | null {
+  if (!(workstation.capacityPerHour > 0)) return null
+  return (Math.max(0, quantity) / workstation.capacityPerHour) * HOUR_MS
+}
+
+/**
+ * Units a batch is scheduled for at a stage: what the previous stage accepted
+ * once it is complete, otherwise the quantity to build.
+ */
+export function getScheduleQuantity(batch: Batch, stage: ProcessingStageName): number {
+  const stages = batch.selectedProcesses || []
+  const previous = stages[stages.indexOf(stage) - 1]
+  const data = previous ? batch.processingStages?.[previous] : undefined
+  return Number(data?.completed ? data.accepted || 0 : batch.quantityToBuild || 0)
+}
+
+/**
+ * Open batches still to run `stage` that have no slot for it yet.
+ * Planned batches come first, then the oldest.
+ */
+export function getUnscheduledBatches(batches: Batch[], stage: ProcessingStageName, slots: ScheduleSlot[]): Batch[] {
+  const scheduled = new Set(slots.filter((s) => s.stage === stage).map((s) => s.batchId))
+  return batches
+    .filter(
+      (b) =>
+        (b.status === "Planned" || b.status === "In Progress") &&
+        b.selectedProcesses?.includes(stage) &&
+        !b.processingStages?.[stage]?.completed &&
+        !scheduled.has(b.id),
+    )
+    .sort((a, b) => {
+      if ((a.status === "Planned") !== (b.status === "Planned")) return a.status === "Planned" ? -1 : 1
+      return new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+    })
+}
+
+/**
+ * Check booking `batch` at `stage` on `workstation` from `start`, moved to the
+ * next working moment. The slot must not overlap another slot on the
+ * workstation and must keep the batch's stages in order. `slotId` is the slot
+ * being moved, if any.
+ */
+export function checkSlot(input: {
+  batch: Batch
+  stage: ProcessingStageName
+  workstation: Workstation
+  start: number
+  slots: ScheduleSlot[]
+  calendar?: ShiftCalendar
+  slotId?: string
+}): SlotCheck {
+  const { batch, stage, workstation, calendar = DEFAULT_CALENDAR } = input
+  if (workstation.stage !== stage) return { isValid: false, reason: `${workstation.code} does not run ${stage}.` }
+  if (!workstation.active) return { isValid: false, reason: `${workstation.code} is inactive.` }
+
+  const runTime = getRunTime(getScheduleQuantity(batch, stage), workstation)
+  if (runTime === null) {
+    return { isValid: false, reason: `Set a rated capacity for ${workstation.code} in Setup to schedule on it.` }
+  }
+  const start = addWorkingTime(input.start, 0, calendar)
+  const end = start === null ? null : addWorkingTime(start, runTime, calendar)
+  if (start === null || end === null) {
+    return { isValid: false, reason: "The shift calendar has no working time to run the batch in." }
+  }
+
+  const others = input.slots.filter((s) => s.id !== input.slotId)
+  if (others.some((s) => s.batchId === batch.id && s.stage === stage)) {
+    return { isValid: false, reason: `${batch.batchId} is already scheduled for ${stage}.` }
+  }
+  const clash = others.find(
+    (s) => s.workstationId === workstation.id && Date.parse(s.start) < end && Date.parse(s.end) > start,
+  )
+  if (clash) return { isValid: false, reason: `${workstation.code} is booked for ${clash.displayBatchId} at that time.` }
+
+  const stages = batch.selectedProcesses || []
+  const stageIndex = stages.indexOf(stage)
+  for (const s of others.filter((s) => s.batchId === batch.id)) {
+    const index = stages.indexOf(s.stage)
+    if (index < stageIndex && Date.parse(s.end) > start) {
+      return { isValid: false, reason: `${batch.batchId} is still scheduled for ${s.stage} until then.` }
+    }
+    if (index > stageIndex && Date.parse(s.start) < end) {
+      return { isValid: false, reason: `${batch.batchId} is scheduled for ${s.stage} before this would finish.` }
+    }
+  }
+  return { isValid: true, slot: { start, end } }
+}
+
+/**
+ * Working time of a workstation in [from, to) and how much of it its slots take.
+ */
+export function getWorkstationLoad(
+  workstationId: string,
+  slots: ScheduleSlot[],
+  from: number,
+  to: number,
+  calendar: ShiftCalendar = DEFAULT_CALENDAR,
+): WorkstationLoad {
+  const own = slots.filter((s) => s.workstationId === workstationId)
+  let availableMs = 0
+  let bookedMs = 0
+  for (const window of getShiftWindows(from, to, calendar)) {
+    availableMs += getWorkingOverlap(window, from, to)
+    for (const slot of own) {
+      const start = Math.max(Date.parse(slot.start), from)
+      const end = Math.min(Date.parse(slot.end), to)
+      if (end > start) bookedMs += getWorkingOverlap(window, start, end)
+    }
+  }
+  return { availableMs, bookedMs }
+}
+
+/**
+ * Slots of a stage that run on `day` (local time), in the order they start.
+ */
+export function getDayQueue(slots: ScheduleSlot[], stage: ProcessingStageName, day: Date = new Date()): ScheduleSlot[] {
+  const from = new Date(day.getFullYear(), day.getMonth(), day.getDate()).getTime()
+  const to = new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1).getTime()
+  return slots
+    .filter((s) => s.stage === stage && Date.parse(s.start) < to && Date.parse(s.end) > from)
+    .sort((a, b) => Date.parse(a.start) - Date.parse(b.start) || a.workstationName.localeCompare(b.workstationName))
+}
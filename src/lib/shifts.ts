@@ -0,0 +1,158 @@
+import type { Shift, ShiftCalendar } from "./types"
+
+/**
+ * The working calendar: shifts per weekday with planned breaks, and holidays.
+ *
+ * Working time is the time inside shift windows less their breaks. Cycle
+ * times, lead times, OEE and scheduling are all measured in working time, so a
+ * batch left over a weekend does not appear to have run for 60 hours.
+ */
+
+// Used until shifts are configured in Setup: three shifts around the clock, every day
+export const DEFAULT_SHIFTS: Shift[] = [
+  { id: "A", name: "Day", start: "06:00", end: "14:00" },
+  { id: "B", name: "Evening", start: "14:00", end: "22:00" },
+  { id: "C", name: "Night", start: "22:00", end: "06:00" },
+]
+
+export const DEFAULT_CALENDAR: ShiftCalendar = { shifts: DEFAULT_SHIFTS, holidays: [] }
+
+export const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"]
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface TimeRange {
+  start: number // Epoch ms
+  end: number
+}
+
+export interface ShiftWindow extends TimeRange {
+  shift: Shift
+  day: string // YYYY-MM-DD the shift starts on
+  breaks: TimeRange[]
+}
+
+function toYMD(d: Date): string {
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`
+}
+
+function atTime(day: Date, hhmm: string): number {
+  const [h, m] = hhmm.split(":").map((part) => Number(part) || 0)
+  return new Date(day.getFullYear(), day.getMonth(), day.getDate(), h, m).getTime()
+}
+
+// A time of day inside a window, moved to the next day when it falls before the window starts
+function atTimeWithin(day: Date, hhmm: string, windowStart: number): number {
+  const time = atTime(day, hhmm)
+  return time < windowStart ? time + DAY_MS : time
+}
+
+function overlap(a: TimeRange, start: number, end: number): number {
+  return Math.max(0, Math.min(a.end, end) - Math.max(a.start, start))
+}
+
+export function runsOnDay(shift: Shift, weekday: number): boolean {
+  return !shift.days || shift.days.includes(weekday)
+}
+
+/**
+ * Every shift window that overlaps [start, end), in time order. Shifts are
+ * skipped on weekdays they do not run and on holidays (by the day they start).
+ */
+export function getShiftWindows(start: number, end: number, calendar: ShiftCalendar = DEFAULT_CALENDAR): ShiftWindow[] {
+  const holidays = new Set(calendar.holidays.map((h) => h.date))
+  const windows: ShiftWindow[] = []
+  // Start a day early to catch shifts that began the evening before
+  const first = new Date(start - DAY_MS)
+  const day = new Date(first.getFullYear(), first.getMonth(), first.getDate())
+  while (day.getTime() < end) {
+    const ymd = toYMD(day)
+    for (const shift of holidays.has(ymd) ? [] : calendar.shifts) {
+      if (!runsOnDay(shift, day.getDay())) continue
+      const windowStart = atTime(day, shift.start)
+      let windowEnd = atTime(day, shift.end)
+      if (windowEnd <= windowStart) windowEnd += DAY_MS
+      if (windowEnd > start && windowStart < end) {
+        const breaks = (shift.breaks || [])
+          .map((b) => {
+            const breakStart = atTimeWithin(day, b.start, windowStart)
+            let breakEnd = atTimeWithin(day, b.end, windowStart)
+            if (breakEnd <= breakStart) breakEnd += DAY_MS
+            return { start: breakStart, end: Math.min(breakEnd, windowEnd) }
+          })
+          .filter((b) => b.start < windowEnd && b.end > b.start)
+        windows.push({ shift, day: ymd, start: windowStart, end: windowEnd, breaks })
+      }
+    }
+    day.setDate(day.getDate() + 1)
+  }
+  return windows.sort((a, b) => a.start - b.start)
+}
+
+/**
+ * Working time of a shift window inside [start, end), breaks excluded.
+ */
+export function getWorkingOverlap(window: ShiftWindow, start: number, end: number): number {
+  const gross = overlap(window, start, end)
+  if (gross <= 0) return 0
+  const breaks = window.breaks.reduce((sum, b) => sum + overlap(b, start, end), 0)
+  return Math.max(0, gross - breaks)
+}
+
+/**
+ * Working time between two moments, the working-time counterpart of `durationBetween`.
+ * A missing end means now.
+ */
+export function workingTimeBetween(
+  startIso?: string,
+  endIso?: string,
+  calendar: ShiftCalendar = DEFAULT_CALENDAR,
+  nowMs: number = Date.now(),
+): number {
+  if (!startIso) return 0
+  const start = Date.parse(startIso)
+  const end = endIso ? Date.parse(endIso) : nowMs
+  if (Number.isNaN(start) || Number.isNaN(end) || end <= start) return 0
+  return getShiftWindows(start, end, calendar).reduce((sum, w) => sum + getWorkingOverlap(w, start, end), 0)
+}
+
+/**
+ * Working time of one shift, breaks excluded.
+ */
+export function getShiftWorkingMs(shift: Shift): number {
+  const start = atTime(new Date(2024, 0, 1), shift.start)
+  const window = getShiftWindows(start, start + 1, { shifts: [{ ...shift, days: undefined }], holidays: [] }).find(
+    (w) => w.start === start,
+  )
+  return window ? getWorkingOverlap(window, window.start, window.end) : 0
+}
+
+/**
+ * The shift window a moment falls in, or null outside every shift.
+ */
+export function getShiftAt(time: number, calendar: ShiftCalendar = DEFAULT_CALENDAR): ShiftWindow | null {
+  return getShiftWindows(time, time + 1, calendar).find((w) => time >= w.start && time < w.end) || null
+}
+
+export function getShiftLabel(shift: Shift): string {
+  return `${shift.name} (${shift.start}–${shift.end})`
+}
+
+export function getShiftDaysLabel(shift: Shift): string {
+  if (!shift.days || shift.days.length === 7) return "Every day"
+  return [...shift.days].sort().map((d) => WEEKDAYS[d]).join(", ")
+}
+
+/**
+ * Another shift whose working hours overlap `shift` on any weekday, or null.
+ * Overlapping shifts would count the same working time twice.
+ */
+export function findOverlappingShift(shift: Shift, others: Shift[]): Shift | null {
+  // Any full week will do; start a day early to include the night before
+  const start = new Date(2024, 0, 1).getTime()
+  const end = start + 8 * DAY_MS
+  const own = getShiftWindows(start, end, { shifts: [shift], holidays: [] })
+  const windows = getShiftWindows(start, end, { shifts: others, holidays: [] })
+  const clash = windows.find((w) => own.some((o) => overlap(o, w.start, w.end) > 0))
+  return clash ? clash.shift : null
+}
@@ -0,0 +1,243 @@
+import type { Batch, InspectionCharacteristic } from "./types"
+import { getToleranceLimits, isWithinTolerance } from "./inspection"
+
+/**
+ * Statistical process control for inspection measurements.
+ *
+ * Each batch's inspection is one rational subgroup per characteristic. Control
+ * limits come from the subgroups passed in (the history being charted):
+ * - X-bar / R: subgroup means and ranges, limits from R-bar with the usual
+ *   A2 / D3 / D4 constants; single-sample subgroups fall back to moving ranges
+ * - p: fraction of samples out of tolerance per subgroup, limits per subgroup size
+ * Western Electric rules are checked on the X-bar and p points.
+ */
+
+// Control chart constants by subgroup size (n = 2..10)
+const CONSTANTS: Record<number, { a2: number; d2: number; d3: number; d4: number }> = {
+  2: { a2: 1.88, d2: 1.128, d3: 0, d4: 3.267 },
+  3: { a2: 1.023, d2: 1.693, d3: 0, d4: 2.574 },
+  4: { a2: 0.729, d2: 2.059, d3: 0, d4: 2.282 },
+  5: { a2: 0.577, d2: 2.326, d3: 0, d4: 2.114 },
+  6: { a2: 0.483, d2: 2.534, d3: 0, d4: 2.004 },
+  7: { a2: 0.419, d2: 2.704, d3: 0.076, d4: 1.924 },
+  8: { a2: 0.373, d2: 2.847, d3: 0.136, d4: 1.864 },
+  9: { a2: 0.337, d2: 2.97, d3: 0.184, d4: 1.816 },
+  10: { a2: 0.308, d2: 3.078, d3: 0.223, d4: 1.777 },
+}
+
+const getConstants = (n: number) => CONSTANTS[Math.min(10, Math.max(2, Math.round(n)))]
+
+export interface SpcSubgroup {
+  batchId: string // Batch.batchId
+  date: string // When it was inspected
+  values: number[] // Measured values of the characteristic
+  failed: number // Samples out of tolerance for the characteristic
+}
+
+export interface ControlPoint {
+  label: string
+  value: number
+  ucl: number
+  lcl: number
+  violations: number[] // Western Electric rules broken at this point (1-4)
+}
+
+export interface ControlChart {
+  center: number
+  ucl: number // Limits for the typical subgroup size; points carry their own
+  lcl: number
+  points: ControlPoint[]
+}
+
+export interface CapabilitySummary {
+  subgroups: number
+  samples: number
+  mean: number
+  sigmaWithin: number // R-bar / d2 (or MR-bar / d2 for single samples)
+  sigmaOverall: number // Sample standard deviation of all values
+  cp: number | null
+  cpk: number | null
+  pp: number | null
+  ppk: number | null
+}
+
+export const WESTERN_ELECTRIC_RULES: Record<number, string> = {
+  1: "One point beyond 3σ",
+  2: "2 of 3 consecutive points beyond 2σ on the same side",
+  3: "4 of 5 consecutive points beyond 1σ on the same side",
+  4: "8 consecutive points on the same side of the center line",
+}
+
+const mean = (values: number[]) => (values.length > 0 ? values.reduce((s, v) => s + v, 0) / values.length : 0)
+
+const stdDev = (values: number[]) => {
+  if (values.length < 2) return 0
+  const m = mean(values)
+  return Math.sqrt(values.reduce((s, v) => s + (v - m) ** 2, 0) / (values.length - 1))
+}
+
+const typicalSize = (subgroups: SpcSubgroup[]) => Math.round(mean(subgroups.map((s) => s.values.length)))
+
+/**
+ * Subgroups for one characteristic of one product, oldest first.
+ */
+export function collectSubgroups(batches: Batch[], productId: string, characteristicId: string): SpcSubgroup[] {
+  return batches
+    .filter((b) => b.productId === productId)
+    .flatMap((b) => {
+      const inspection = b.processingStages?.Testing?.inspection
+      const characteristic = inspection?.characteristics.find((c) => c.id === characteristicId)
+      if (!inspection || !characteristic) return []
+      const values = inspection.samples
+        .map((s) => Number(s.values[characteristicId]))
+        .filter((v) => Number.isFinite(v))
+      if (values.length === 0) return []
+      return [
+        {
+          batchId: b.batchId || b.id,
+          date: inspection.inspectedAt,
+          values,
+          failed: values.filter((v) => !isWithinTolerance(characteristic, v)).length,
+        },
+      ]
+    })
+    .sort((a, b) => a.date.localeCompare(b.date))
+}
+
+/**
+ * Western Electric rules broken at each point, given the center line and sigma
+ * of the plotted statistic at that point.
+ */
+export function findRuleViolations(values: number[], center: number, sigmas: number[]): number[][] {
+  const zone = (i: number) => (sigmas[i] > 0 ? (values[i] - center) / sigmas[i] : 0)
+  return values.map((_, i) => {
+    const broken: number[] = []
+    if (Math.abs(zone(i)) > 3) broken.push(1)
+    for (const side of [1, -1]) {
+      const beyond = (from: number, to: number, limit: number) => {
+        let count = 0
+        for (let j = Math.max(0, from); j <= to; j++) if (side * zone(j) > limit) count++
+        return count
+      }
+      if (i >= 2 && side * zone(i) > 2 && beyond(i - 2, i, 2) >= 2 && !broken.includes(2)) broken.push(2)
+      if (i >= 4 && side * zone(i) > 1 && beyond(i - 4, i, 1) >= 4 && !broken.includes(3)) broken.push(3)
+      if (i >= 7 && beyond(i - 7, i, 0) === 8 && !broken.includes(4)) broken.push(4)
+    }
+    return broken
+  })
+}
+
+/**
+ * X-bar and R charts. With single-sample subgroups the R chart plots moving ranges.
+ */
+export function buildXbarRCharts(subgroups: SpcSubgroup[]): { xbar: ControlChart; range: ControlChart } | null {
+  if (subgroups.length < 2) return null
+  const n = typicalSize(subgroups)
+  const means = subgroups.map((s) => mean(s.values))
+  const ranges =
+    n >= 2
+      ? subgroups.map((s) => Math.max(...s.values) - Math.min(...s.values))
+      : means.map((m, i) => (i === 0 ? 0 : Math.abs(m - means[i - 1])))
+  const rBar = n >= 2 ? mean(ranges) : mean(ranges.slice(1))
+  const { a2, d2, d3, d4 } = getConstants(n)
+  const center = mean(means)
+  // Single samples: individuals chart, X ± 3 · MR-bar / d2 (n = 2)
+  const spread = n >= 2 ? a2 * rBar : (3 * rBar) / d2
+  const xbarSigmas = means.map(() => spread / 3)
+  const xbarViolations = findRuleViolations(means, center, xbarSigmas)
+
+  const rUcl = d4 * rBar
+  const rLcl = d3 * rBar
+  return {
+    xbar: {
+      center,
+      ucl: center + spread,
+      lcl: center - spread,
+      points: means.map((value, i) => ({
+        label: subgroups[i].batchId,
+        value,
+        ucl: center + spread,
+        lcl: center - spread,
+        violations: xbarViolations[i],
+      })),
+    },
+    range: {
+      center: rBar,
+      ucl: rUcl,
+      lcl: rLcl,
+      points: ranges.map((value, i) => ({
+        label: subgroups[i].batchId,
+        value,
+        ucl: rUcl,
+        lcl: rLcl,
+        violations: value > rUcl || value < rLcl ? [1] : [],
+      })),
+    },
+  }
+}
+
+/**
+ * p-chart of the fraction of samples out of tolerance, with limits per subgroup size.
+ */
+export function buildPChart(subgroups: SpcSubgroup[]): ControlChart | null {
+  if (subgroups.length < 2) return null
+  const total = subgroups.reduce((s, g) => s + g.values.length, 0)
+  const pBar = total > 0 ? subgroups.reduce((s, g) => s + g.failed, 0) / total : 0
+  const sigmaFor = (n: number) => (n > 0 ? Math.sqrt((pBar * (1 - pBar)) / n) : 0)
+  const values = subgroups.map((g) => (g.values.length > 0 ? g.failed / g.values.length : 0))
+  const sigmas = subgroups.map((g) => sigmaFor(g.values.length))
+  const violations = findRuleViolations(values, pBar, sigmas)
+  const typicalSigma = sigmaFor(typicalSize(subgroups))
+  return {
+    center: pBar,
+    ucl: Math.min(1, pBar + 3 * typicalSigma),
+    lcl: Math.max(0, pBar - 3 * typicalSigma),
+    points: values.map((value, i) => ({
+      label: subgroups[i].batchId,
+      value,
+      ucl: Math.min(1, pBar + 3 * sigmas[i]),
+      lcl: Math.max(0, pBar - 3 * sigmas[i]),
+      violations: violations[i],
+    })),
+  }
+}
+
+/**
+ * Cp / Cpk from within-subgroup variation and Pp / Ppk from overall variation,
+ * against the characteristic's tolerance limits.
+ */
+export function getCapability(
+  subgroups: SpcSubgroup[],
+  characteristic: InspectionCharacteristic,
+): CapabilitySummary | null {
+  const all = subgroups.flatMap((s) => s.values)
+  if (all.length < 2) return null
+  const n = typicalSize(subgroups)
+  const means = subgroups.map((s) => mean(s.values))
+  const rBar =
+    n >= 2
+      ? mean(subgroups.map((s) => Math.max(...s.values) - Math.min(...s.values)))
+      : mean(means.slice(1).map((m, i) => Math.abs(m - means[i])))
+  const sigmaWithin = rBar / getConstants(n).d2
+  const sigmaOverall = stdDev(all)
+  const average = mean(all)
+  const { min, max } = getToleranceLimits(characteristic)
+
+  const index = (sigma: number) => ({
+    spread: sigma > 0 ? (max - min) / (6 * sigma) : null,
+    centred: sigma > 0 ? Math.min(max - average, average - min) / (3 * sigma) : null,
+  })
+  const within = index(sigmaWithin)
+  const overall = index(sigmaOverall)
+  return {
+    subgroups: subgroups.length,
+    samples: all.length,
+    mean: average,
+    sigmaWithin,
+    sigmaOverall,
+    cp: within.spread,
+    cpk: within.centred,
+    pp: overall.spread,
+    ppk: overall.centred,
+  }
+}
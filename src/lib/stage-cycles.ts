@@ -0,0 +1,107 @@
+import type { ProcessingStage, ShiftCalendar, StageAssignment, StageCycle } from "./types"
+import { DEFAULT_CALENDAR, getShiftAt } from "./shifts"
+
+/**
+ * Production cycles of a stage. A cycle is appended when it ends and never
+ * edited; the stage's accepted, rejected and material consumption are the
+ * totals of its cycles.
+ */
+
+export interface CycleTotals {
+  accepted: number
+  rejected: number
+  materialConsumptions: Record<string, number>
+}
+
+/**
+ * Output recorded against a workstation and operator over a span of time.
+ */
+export interface StageRun extends StageAssignment {
+  accepted: number
+  rejected: number
+  startedAt?: string
+  endedAt: string
+}
+
+export function getStageCycles(data?: Partial<ProcessingStage> | null): StageCycle[] {
+  return [...(data?.cycles || [])].sort((a, b) => new Date(a.endedAt).getTime() - new Date(b.endedAt).getTime())
+}
+
+export function sumCycles(cycles: StageCycle[]): CycleTotals {
+  const totals: CycleTotals = { accepted: 0, rejected: 0, materialConsumptions: {} }
+  for (const cycle of cycles) {
+    totals.accepted += Number(cycle.accepted || 0)
+    totals.rejected += Number(cycle.rejected || 0)
+    for (const [materialId, quantity] of Object.entries(cycle.materialConsumptions || {})) {
+      totals.materialConsumptions[materialId] = (totals.materialConsumptions[materialId] || 0) + Number(quantity || 0)
+    }
+  }
+  return totals
+}
+
+/**
+ * A cycle starts where the previous one ended, or when the stage started.
+ */
+export function getNextCycleStart(data?: Partial<ProcessingStage> | null, now: Date = new Date()): string {
+  const cycles = getStageCycles(data)
+  return cycles[cycles.length - 1]?.endedAt || data?.startedAt || now.toISOString()
+}
+
+function createCycleId(): string {
+  return Date.now().toString(36) + Math.random().toString(36).slice(2, 6)
+}
+
+/**
+ * A cycle ending at `endedAt`, tagged with the shift it ended in.
+ * Missing values are left out so the entry can be written to Firestore as is.
+ */
+export function createCycle(
+  input: StageAssignment & {
+    accepted: number
+    rejected: number
+    materialConsumptions?: Record<string, number>
+    startedAt: string
+    endedAt: string
+    user?: string
+  },
+  calendar: ShiftCalendar = DEFAULT_CALENDAR,
+): StageCycle {
+  const shift = getShiftAt(new Date(input.endedAt).getTime(), calendar)?.shift
+  const consumptions = Object.fromEntries(
+    Object.entries(input.materialConsumptions || {}).filter(([, quantity]) => Number(quantity) > 0),
+  )
+  return {
+    id: createCycleId(),
+    ...(shift ? { shiftId: shift.id, shiftName: shift.name } : {}),
+    ...(input.workstationId ? { workstationId: input.workstationId, workstationName: input.workstationName } : {}),
+    ...(input.operatorId ? { operatorId: input.operatorId, operatorName: input.operatorName } : {}),
+    accepted: input.accepted,
+    rejected: input.rejected,
+    ...(Object.keys(consumptions).length > 0 ? { materialConsumptions: consumptions } : {}),
+    startedAt: input.startedAt,
+    endedAt: input.endedAt,
+    ...(input.user ? { user: input.user } : {}),
+  }
+}
+
+/**
+ * The output a stage recorded: one run per cycle, or the whole stage for
+ * stages completed before cycles were recorded.
+ */
+export function getStageRuns(data?: Partial<ProcessingStage> | null): StageRun[] {
+  if (!data) return []
+  if (data.cycles && data.cycles.length > 0) return getStageCycles(data)
+  if (!data.completed || !data.finishedAt) return []
+  return [
+    {
+      workstationId: data.workstationId,
+      workstationName: data.workstationName,
+      operatorId: data.operatorId,
+      operatorName: data.operatorName,
+      accepted: Number(data.accepted || 0),
+      rejected: Number(data.rejected || 0),
+      startedAt: data.startedAt,
+      endedAt: data.finishedAt,
+    },
+  ]
+}
@@ -0,0 +1,205 @@
+import type { AppModule, BuiltInStageName, ProcessDefinition, ProcessingStage, ProcessingStageName } from "./types"
+
+/**
+ * Manufacturing stage definitions.
+ *
+ * The four built-in stages keep their dedicated pages, Store flags
+ * (`isMoulded` / `isFinished` / `isAssembled`) and business rules. Stages added
+ * in Setup are stored in the `processDefinitions` collection and handled
+ * generically: one shared stage page, Store intermediates tagged with
+ * `RawMaterial.stageOutput`, and editing through the Stage Manager role.
+ */
+
+export const BUILT_IN_STAGES: ProcessDefinition[] = [
+  {
+    id: "molding",
+    name: "Molding",
+    label: "Moulding",
+    code: "MLD",
+    order: 10,
+    description: "Shape raw materials into desired form",
+    producesStoreItem: true,
+    storePrefix: "Moulded",
+    hasRejects: true,
+    defectCodes: [
+      { code: "SHS", label: "Short shot" },
+      { code: "FLS", label: "Flash" },
+      { code: "SNK", label: "Sink marks" },
+      { code: "WRP", label: "Warpage" },
+      { code: "BRN", label: "Burn marks" },
+    ],
+    builtIn: true,
+  },
+  {
+    id: "machining",
+    name: "Machining",
+    label: "Machining",
+    code: "MCH",
+    order: 20,
+    description: "Precision cutting and finishing operations",
+    producesStoreItem: true,
+    storePrefix: "Machined",
+    hasRejects: true,
+    defectCodes: [
+      { code: "DIM", label: "Dimension out of tolerance" },
+      { code: "BUR", label: "Burrs" },
+      { code: "SRF", label: "Poor surface finish" },
+      { code: "THR", label: "Damaged thread" },
+    ],
+    builtIn: true,
+  },
+  {
+    id: "assembling",
+    name: "Assembling",
+    label: "Assembling",
+    code: "ASM",
+    order: 30,
+    description: "Combine components into final assembly",
+    producesStoreItem: true,
+    storePrefix: "Assembled",
+    hasRejects: true,
+    defectCodes: [
+      { code: "MIS", label: "Missing part" },
+      { code: "WRG", label: "Wrong part" },
+      { code: "FIT", label: "Loose or tight fit" },
+      { code: "DMG", label: "Handling damage" },
+    ],
+    builtIn: true,
+  },
+  {
+    id: "testing",
+    name: "Testing",
+    label: "Testing",
+    code: "TST",
+    order: 40,
+    description: "Quality control and validation testing",
+    producesStoreItem: false,
+    hasRejects: true,
+    defectCodes: [
+      { code: "FNC", label: "Functional failure" },
+      { code: "LEK", label: "Leak" },
+      { code: "ELC", label: "Electrical failure" },
+      { code: "COS", label: "Cosmetic defect" },
+    ],
+    builtIn: true,
+  },
+]
+
+const BUILT_IN_ROUTES: Record<BuiltInStageName, string> = {
+  Molding: "/batches/molding",
+  Machining: "/batches/machining",
+  Assembling: "/batches/assembling",
+  Testing: "/batches/testing",
+}
+
+const BUILT_IN_MODULES: Record<BuiltInStageName, AppModule> = {
+  Molding: "Moulding",
+  Machining: "Machining",
+  Assembling: "Assembling",
+  Testing: "Testing",
+}
+
+export function isBuiltInStage(stage: ProcessingStageName): stage is BuiltInStageName {
+  return BUILT_IN_STAGES.some((s) => s.name === stage)
+}
+
+/**
+ * Built-in stages overlaid with any stored overrides (label, code, description, defect codes),
+ * followed by the configured stages, sorted by `order`.
+ * Built-in names, order and Store behaviour cannot be changed.
+ */
+export function mergeProcessDefinitions(stored: ProcessDefinition[]): ProcessDefinition[] {
+  const builtIn = BUILT_IN_STAGES.map((def) => {
+    const override = stored.find((s) => s.name === def.name)
+    if (!override) return def
+    return {
+      ...def,
+      label: override.label || def.label,
+      code: override.code || def.code,
+      description: override.description ?? def.description,
+      defectCodes: override.defectCodes ?? def.defectCodes,
+    }
+  })
+  const custom = stored.filter((s) => !isBuiltInStage(s.name)).map((s) => ({ ...s, builtIn: false }))
+  return [...builtIn, ...custom].sort((a, b) => a.order - b.order)
+}
+
+export function getStageDefinition(
+  definitions: ProcessDefinition[],
+  stage: ProcessingStageName,
+): ProcessDefinition | undefined {
+  return definitions.find((d) => d.name === stage)
+}
+
+export function getStageLabel(definitions: ProcessDefinition[], stage: ProcessingStageName): string {
+  return getStageDefinition(definitions, stage)?.label || stage
+}
+
+/**
+ * Sort stage names by their configured order; unknown stages go last.
+ */
+export function sortStages(stages: ProcessingStageName[], definitions: ProcessDefinition[]): ProcessingStageName[] {
+  const orderOf = (stage: ProcessingStageName) => getStageDefinition(definitions, stage)?.order ?? Number.MAX_SAFE_INTEGER
+  return [...stages].sort((a, b) => orderOf(a) - orderOf(b))
+}
+
+export function getStageHref(definition: ProcessDefinition): string {
+  return isBuiltInStage(definition.name) ? BUILT_IN_ROUTES[definition.name] : `/batches/stages/${definition.id}`
+}
+
+// Batch codes of stages without a code, e.g. BATCH-GEN-001
+const GENERIC_STAGE_CODE = "GEN"
+
+// Rework batches are numbered apart from their stage: FT- for assembly batches
+// auto-created from testing rejects, RW- for other rework
+export const REWORK_BATCH_CODE_PREFIXES = { failedTesting: "FT-", rework: "RW-" } as const
+
+/**
+ * Prefix of a stage's batch codes, e.g. BATCH-MLD- for the code MLD.
+ */
+export function getBatchCodePrefix(stageCode?: string): string {
+  return `BATCH-${stageCode?.trim().toUpperCase() || GENERIC_STAGE_CODE}-`
+}
+
+/**
+ * Every batch code prefix: one per built-in and configured stage, the generic
+ * one and the rework prefixes.
+ */
+export function getBatchCodePrefixes(definitions: ProcessDefinition[]): string[] {
+  const stagePrefixes = [...BUILT_IN_STAGES, ...definitions].map((d) => getBatchCodePrefix(d.code))
+  return [...new Set([...stagePrefixes, getBatchCodePrefix(), ...Object.values(REWORK_BATCH_CODE_PREFIXES)])]
+}
+
+/**
+ * Module checked for edit permission. Configured stages fall under Batches;
+ * Stage Managers are granted them individually (see canEditProcessingStage).
+ */
+export function getStageModule(stage: ProcessingStageName): AppModule {
+  return isBuiltInStage(stage) ? BUILT_IN_MODULES[stage] : "Batches"
+}
+
+/**
+ * Name of the Store item a configured stage produces for a product.
+ */
+export function getStageStoreItemName(definition: ProcessDefinition, productName: string): string {
+  return `${definition.storePrefix || definition.label} ${productName}`
+}
+
+const emptyStage = (): ProcessingStage => ({ accepted: 0, rejected: 0, actualConsumption: 0, completed: false })
+
+/**
+ * Empty `processingStages` record: the built-in stages are always present
+ * (older screens index them directly), configured stages only when selected.
+ */
+export function createProcessingStages(selected: ProcessingStageName[] = []): Record<ProcessingStageName, ProcessingStage> {
+  const stages: Record<ProcessingStageName, ProcessingStage> = {
+    Molding: emptyStage(),
+    Machining: emptyStage(),
+    Assembling: emptyStage(),
+    Testing: emptyStage(),
+  }
+  for (const stage of selected) {
+    if (!stages[stage]) stages[stage] = emptyStage()
+  }
+  return stages
+}
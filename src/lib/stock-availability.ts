@@ -0,0 +1,65 @@
+import type { BatchEntry, FinalStock, RawMaterial } from "./types"
+
+/**
+ * On-hand, reserved and available-to-promise quantities for Final Stock.
+ * Reservations live on `FinalStock.batches[].reserved` and are set when an
+ * order is confirmed; they are released on dispatch or cancellation.
+ */
+export interface StockBreakdown {
+  onHand: number
+  reserved: number
+  available: number
+}
+
+/**
+ * Units of a batch entry not yet reserved by confirmed orders.
+ */
+export function getUnreservedQuantity(entry: Pick<BatchEntry, "quantity" | "reserved">): number {
+  return Math.max(0, Number(entry.quantity || 0) - Number(entry.reserved || 0))
+}
+
+/**
+ * Whether a batch entry is the one an allocation or ledger row refers to. Entry batch IDs
+ * can repeat (restocks take a typed-in batch ID), so entries are told apart by creation time.
+ */
+export function isSameBatchEntry(
+  entry: Pick<BatchEntry, "batchId" | "createdAt">,
+  ref: Pick<BatchEntry, "batchId" | "createdAt">,
+): boolean {
+  return entry.batchId === ref.batchId && entry.createdAt === ref.createdAt
+}
+
+export function getEntryBreakdown(entry: Pick<BatchEntry, "quantity" | "reserved">): StockBreakdown {
+  const onHand = Number(entry.quantity || 0)
+  const reserved = Math.min(onHand, Number(entry.reserved || 0))
+  return { onHand, reserved, available: getUnreservedQuantity(entry) }
+}
+
+export function getStockBreakdown(product: Pick<FinalStock, "batches">): StockBreakdown {
+  return (product.batches || []).reduce<StockBreakdown>(
+    (acc, entry) => {
+      const breakdown = getEntryBreakdown(entry)
+      acc.onHand += breakdown.onHand
+      acc.reserved += breakdown.reserved
+      acc.available += breakdown.available
+      return acc
+    },
+    { onHand: 0, reserved: 0, available: 0 },
+  )
+}
+
+/**
+ * On-hand, committed and free quantities for Raw Materials and Store items.
+ * `RawMaterial.committed` is maintained by batch allocation (see batch-allocation).
+ */
+export interface MaterialBreakdown {
+  onHand: number
+  committed: number
+  free: number
+}
+
+export function getMaterialBreakdown(material: Pick<RawMaterial, "quantity" | "committed">): MaterialBreakdown {
+  const onHand = Number(material.quantity || 0)
+  const committed = Math.max(0, Number(material.committed || 0))
+  return { onHand, committed, free: Math.max(0, onHand - committed) }
+}
@@ -0,0 +1,37 @@
+import type { RawMaterial, StockItemKind, StockMovementReason } from "./types"
+
+/**
+ * Helpers for the `stockMovements` ledger.
+ */
+
+export const STOCK_MOVEMENT_REASON_LABELS: Record<StockMovementReason, string> = {
+  restock: "Restock",
+  batch_consumption: "Batch Consumption",
+  batch_output: "Batch Output",
+  order_fulfilment: "Order Fulfilment",
+  order_cancellation: "Order Cancellation",
+  manual_adjustment: "Manual Adjustment",
+}
+
+/**
+ * Raw materials and Store intermediates share the rawMaterials collection;
+ * the Store flags tell them apart.
+ */
+export function getMaterialStockKind(
+  material: Pick<RawMaterial, "isMoulded" | "isFinished" | "isAssembled" | "stageOutput">,
+): StockItemKind {
+  return material.isMoulded || material.isFinished || material.isAssembled || material.stageOutput
+    ? "StoreItem"
+    : "RawMaterial"
+}
+
+/**
+ * Best available reference for a movement: batch, then order, then restock.
+ */
+export function getStockMovementReference(movement: {
+  batchId?: string
+  orderId?: string
+  restockId?: string
+}): string {
+  return movement.batchId || movement.orderId || movement.restockId || ""
+}
@@ -8,10 +8,28 @@ export interface RawMaterial {
   isMoulded?: boolean;
   isFinished?: boolean;
   isAssembled?: boolean;
+  stageOutput?: ProcessingStageName; // Store intermediate produced by a configured (non built-in) stage
   sourceBatchId?: string;
+  committed?: number; // Claimed by open batches (sum of their BatchMaterial.allocated)
+  lots?: MaterialLot[]; // Stock per supplier lot; `quantity` may exceed their total (stock from before lots were kept)
   createdAt?: string;
 }
 
+export interface MaterialLot {
+  lotNumber: string; // Supplier lot or heat number
+  quantity: number; // Still in stock
+  receivedAt: string;
+  expiresAt?: string; // ISO date
+  supplier?: string;
+  restockId?: string; // RestockRecord that received the lot
+}
+
+export interface LotConsumption {
+  lotNumber: string;
+  quantity: number;
+  restockId?: string;
+}
+
 export interface BOMRow {
   raw_material_id: string;
   stage: ProcessingStageName;
@@ -28,6 +46,7 @@ export interface BatchEntry {
   quantity: number;
   sku: string;
   createdAt: string;
+  reserved?: number; // Units held for confirmed orders, not yet dispatched
 }
 
 export interface FinalStock {
@@ -52,23 +71,46 @@ export interface FinalStock {
   quantity?: number; // Accepted quantity from the last completed stage
   threshold?: number; // Low stock threshold for finished products
   measurementSketch?: string; // URL of the product's measurement sketch image
+  inspectionPlan?: InspectionPlan; // Characteristics measured at Testing
   createdAt?: string; // Date when batch was accepted into Final Stock
 }
 
-export type BatchStatus = "Completed" | "In Progress" | "On Hold" | "Planned";
+// Merged: the batch's units were merged into another batch, which finishes them
+export type BatchStatus = "Completed" | "Merged" | "In Progress" | "On Hold" | "Planned";
 
+/**
+ * A manufacturing stage as configured in Setup. The four built-in stages always
+ * exist; their label and code can be overridden by a stored definition.
+ */
 export interface ProcessDefinition {
-  name: ProcessingStageName;
+  id: string;
+  name: ProcessingStageName; // Key stored on batches, BOM rows and products; never changes
   label: string;
+  code: string; // Batch code segment, e.g. MLD in BATCH-MLD-001
   order: number;
+  description?: string;
+  producesStoreItem: boolean; // Accepted units go to Store as "<storePrefix> <product>" unless it is the last stage
+  storePrefix?: string; // Defaults to the label
+  hasRejects: boolean; // Stage records rejected units
+  defectCodes?: DefectCode[]; // Catalogue rejected units are classified against
+  builtIn?: boolean;
+  createdAt?: string;
 }
 
-export type ProcessingStageName =
+export interface DefectCode {
+  code: string; // e.g. SHS
+  label: string; // e.g. Short shot
+}
+
+export type BuiltInStageName =
   | "Molding"
   | "Machining"
   | "Assembling"
   | "Testing";
 
+// Built-in names keep their literal types; configured stages use their own names
+export type ProcessingStageName = BuiltInStageName | (string & {});
+
 export interface ProcessingStage {
   accepted: number;
   rejected: number;
@@ -77,6 +119,212 @@ export interface ProcessingStage {
   startedAt?: string;
   finishedAt?: string;
   materialConsumptions?: Record<string, number>; // Material consumption per material ID
+  dispositions?: RejectDisposition[]; // What happened to the rejected units; totals `rejected` once the stage completes
+  defects?: Record<string, number>; // Rejected units per defect code
+  inspection?: InspectionRecord; // Measured results against the product's inspection plan
+  lotConsumptions?: Record<string, LotConsumption[]>; // Supplier lots drawn per material ID
+  workstationId?: string; // Machine or cell that ran the stage
+  workstationName?: string;
+  operatorId?: string; // Employee.uid of the operator
+  operatorName?: string;
+  cycles?: StageCycle[]; // Append-only; accepted, rejected and consumption are their totals
+}
+
+export type StageAssignment = Pick<ProcessingStage, "workstationId" | "workstationName" | "operatorId" | "operatorName">;
+
+/**
+ * One production cycle of a stage, recorded when it ends and never edited.
+ */
+export interface StageCycle extends StageAssignment {
+  id: string;
+  shiftId?: string; // Shift the cycle ended in
+  shiftName?: string;
+  accepted: number;
+  rejected: number;
+  materialConsumptions?: Record<string, number>; // Consumption per material ID in this cycle
+  startedAt: string;
+  endedAt: string;
+  user?: string;
+}
+
+export type WorkstationType =
+  | "Injection Moulding Machine"
+  | "CNC Machine"
+  | "Assembly Cell"
+  | "Test Bench"
+  | "Other";
+
+/**
+ * A machine, cell or bench that runs one stage, as configured in Setup.
+ */
+export interface Workstation {
+  id: string;
+  code: string; // Short tag shown on the shop floor, e.g. IMM-03
+  name: string;
+  type: WorkstationType;
+  stage: ProcessingStageName;
+  capacityPerHour: number; // Units per hour at standard cycle time
+  active: boolean; // Inactive workstations are kept for history but cannot be selected
+  createdAt?: string;
+}
+
+export interface ShiftBreak {
+  name: string;
+  start: string; // HH:mm local time, within the shift
+  end: string;
+}
+
+/**
+ * A shift of the working calendar, as configured in Setup.
+ */
+export interface Shift {
+  id: string;
+  name: string;
+  start: string; // HH:mm local time
+  end: string; // HH:mm; earlier than start for shifts that run past midnight
+  days?: number[]; // Weekdays the shift starts on, 0 = Sunday; every day when missing
+  breaks?: ShiftBreak[]; // Planned breaks, not counted as working time
+  createdAt?: string;
+}
+
+/**
+ * A day without any shifts, e.g. a public holiday or plant shutdown.
+ */
+export interface Holiday {
+  id: string;
+  date: string; // YYYY-MM-DD
+  name: string;
+  createdAt?: string;
+}
+
+export interface ShiftCalendar {
+  shifts: Shift[];
+  holidays: Holiday[];
+}
+
+export type DowntimeReason = "Breakdown" | "Changeover" | "Material Shortage" | "No Operator" | "Other";
+
+/**
+ * A period a workstation could not run. Open while `endedAt` is unset.
+ */
+export interface DowntimeEvent {
+  id: string;
+  workstationId: string;
+  workstationName: string;
+  stage: ProcessingStageName;
+  batchId?: string; // Firestore document ID of the batch on the machine, if any
+  displayBatchId?: string;
+  reason: DowntimeReason;
+  startedAt: string;
+  endedAt?: string;
+  notes?: string;
+  user: string;
+  createdAt: string;
+}
+
+/**
+ * A batch booked on a workstation for one stage. Its length is the batch
+ * quantity at the workstation's rated capacity, counted in working time.
+ */
+export interface ScheduleSlot {
+  id: string;
+  batchId: string; // Firestore document ID of the batch
+  displayBatchId: string; // Its Batch.batchId
+  productName: string;
+  stage: ProcessingStageName;
+  workstationId: string;
+  workstationName: string;
+  quantity: number;
+  start: string;
+  end: string;
+  user: string;
+  createdAt: string;
+}
+
+export interface InspectionCharacteristic {
+  id: string; // Stable key for measured values
+  name: string; // e.g. Outer diameter
+  sketchRef?: string; // Callout on the measurement sketch, e.g. A or 3
+  nominal: number;
+  lowerTolerance: number; // Allowed deviation below nominal (positive number)
+  upperTolerance: number; // Allowed deviation above nominal (positive number)
+  unit: string;
+}
+
+export interface InspectionPlan {
+  characteristics: InspectionCharacteristic[];
+  sampleSize: number; // Units measured per batch (capped at the batch quantity)
+  updatedAt?: string;
+}
+
+export interface InspectionSample {
+  values: Record<string, number>; // Measured value per characteristic ID
+  passed: boolean;
+}
+
+export interface InspectionRecord {
+  characteristics: InspectionCharacteristic[]; // Plan as it was when inspected
+  samples: InspectionSample[];
+  passed: boolean; // Every sample within tolerance
+  failedSamples: number;
+  inspectedAt: string;
+  inspector?: string;
+}
+
+export type RejectDispositionType = "Scrap" | "Rework" | "Return";
+
+export interface RejectDisposition {
+  type: RejectDispositionType; // Scrap; Rework at the same stage; Return to an earlier stage
+  quantity: number;
+  reasonCode?: string; // Required for Scrap (see SCRAP_REASONS)
+  targetStage?: ProcessingStageName; // Stage the rework batch starts at
+  reworkBatchId?: string; // Firestore document ID of the linked rework batch
+  materialIds?: string[]; // Testing returns to Assembling: assembly materials the rework batch needs again
+  scrapRecordId?: string;
+  notes?: string;
+}
+
+export interface ReworkSource {
+  batchId: string; // Firestore document ID of the batch that rejected the units
+  displayBatchId: string; // Its Batch.batchId
+  stage: ProcessingStageName; // Stage that rejected them
+  dispositionIndex?: number; // Disposition of that stage the batch was created for
+}
+
+export type BatchTransferType = "split" | "merge";
+
+/**
+ * Units moved out of a batch into another one before `stage` was worked.
+ */
+export interface BatchTransfer {
+  type: BatchTransferType;
+  stage: ProcessingStageName;
+  quantity: number;
+  batchId: string; // Firestore document ID of the batch that received the units
+  displayBatchId: string; // Its Batch.batchId
+  createdAt: string;
+}
+
+export interface BatchOrigin {
+  type: BatchTransferType;
+  stage: ProcessingStageName; // First stage of the new batch
+  parents: { batchId: string; displayBatchId: string; quantity: number }[];
+  createdAt: string;
+}
+
+export interface ScrapRecord {
+  id: string; // Firestore document ID
+  batchId: string; // Batch.batchId
+  productId: string;
+  productName: string;
+  stage: ProcessingStageName;
+  quantity: number;
+  reasonCode: string;
+  notes?: string;
+  unitCost: number; // Material cost per unit up to and including the stage
+  totalCost: number;
+  user: string;
+  createdAt: string;
 }
 
 export interface BatchMaterial {
@@ -85,6 +333,7 @@ export interface BatchMaterial {
   quantity: number;
   unit: string;
   stage: ProcessingStageName;
+  allocated?: number; // Still committed in Raw Materials / Store; released when the stage completes or the batch stops
 }
 
 export interface Batch {
@@ -101,6 +350,9 @@ export interface Batch {
   processingStages: Record<ProcessingStageName, ProcessingStage>;
   selectedProcesses: ProcessingStageName[];
   autoCreatedFromTestingRejected?: boolean;
+  reworkOf?: ReworkSource; // Set on batches created from a Rework / Return disposition
+  origin?: BatchOrigin; // Set on batches created by splitting or merging other batches
+  transfers?: BatchTransfer[]; // Units split or merged out of this batch
 }
 
 export interface UnitOfMeasure {
@@ -122,6 +374,7 @@ export type AppModule =
   | "Final Stock"
   | "Orders"
   | "Reports"
+  | "Purchasing"
   | "Setup"
   | "Moulding"
   | "Machining"
@@ -134,13 +387,15 @@ export type Role =
   | "mouldingManager"
   | "machiningManager"
   | "assemblingManager"
-  | "testingManager";
+  | "testingManager"
+  | "stageManager";
 
 export interface Employee {
   uid: string;
   name: string;
   email: string;
   role: Role;
+  stages?: ProcessingStageName[]; // Stages a stageManager may edit
   createdAt: string; // Will be stored as ISO string in Firestore, but represents a Timestamp
 }
 
@@ -150,12 +405,13 @@ export type LogAction =
   | "Deleted"
   | "Restocked"
   | "Stock Adjustment (Batch)"
-  | "Stock Adjustment (Manual)";
+  | "Stock Adjustment (Manual)"
+  | "Status Changed";
 
 export interface ActivityLog {
   id: string;
   recordId: string;
-  recordType: "RawMaterial" | "Batch" | "FinalStock";
+  recordType: "RawMaterial" | "Batch" | "FinalStock" | "Order" | "PurchaseOrder";
   timestamp: string;
   action: LogAction;
   details: string;
@@ -181,15 +437,133 @@ export interface RestockRecord {
   previousStock: number;
   updatedStock: number;
   createdAt: string; // ISO string when record was created
+  supplierId?: string; // Set when the restock came from a purchase order receipt
+  purchaseOrderId?: string;
+  lotNumber?: string; // Supplier lot or heat number of the received stock
+  expiryDate?: string; // ISO date
 }
 
-export interface Order {
+export interface SupplierMaterial {
+  materialId: string; // RawMaterial.id
+  pricePerUnit: number;
+}
+
+export interface Supplier {
   id: string; // Firestore document ID
-  orderId: string; // Manual order identifier
-  name?: string; // Customer or requester name (optional)
+  name: string;
+  contactName?: string;
+  email?: string;
+  phone?: string;
+  address?: string;
+  leadTimeDays: number; // Typical days from PO to delivery
+  materials: SupplierMaterial[]; // Raw materials this supplier provides
+  createdAt?: string;
+}
+
+// Draft POs (e.g. from the reorder planner) are not yet sent and cannot be received
+export type PurchaseOrderStatus = "Draft" | "Open" | "Partially Received" | "Received" | "Cancelled";
+
+export interface PurchaseOrderLine {
+  materialId: string; // RawMaterial.id
+  materialName: string;
+  unit: string;
+  quantityOrdered: number;
+  quantityReceived: number;
+  pricePerUnit: number;
+}
+
+export interface PurchaseOrderReceipt {
+  receivedAt: string; // ISO string
+  lines: { materialId: string; quantity: number; lotNumber?: string }[];
+  restockIds: string[]; // RestockRecord.id created for this receipt
+  user: string;
+}
+
+export interface PurchaseOrder {
+  id: string; // Firestore document ID
+  poNumber: string; // Human-readable, e.g. PO-001
+  supplierId: string;
+  supplierName: string; // Denormalized for convenience
+  status: PurchaseOrderStatus;
+  lines: PurchaseOrderLine[];
+  expectedDate?: string; // ISO date, defaults to today + supplier lead time
+  notes?: string;
+  receipts?: PurchaseOrderReceipt[];
+  createdAt: string;
+}
+
+export interface OrderLine {
   productId: string; // Reference to FinalStock.id
   productName: string; // Denormalized for convenience
+  sku?: string;
+  quantity: number;
+  unitPrice: number; // FinalStock.price at the time of ordering
+  gstRate: number; // FinalStock.gstRate (%) at the time of ordering
+}
+
+export type OrderStatus =
+  | "Draft"
+  | "Confirmed"
+  | "Picked"
+  | "Dispatched"
+  | "Delivered"
+  | "Cancelled";
+
+// Units of one order line held against (or taken from) one FinalStock batch entry
+export interface OrderAllocation {
+  productId: string; // FinalStock.id
+  batchId: string; // BatchEntry.batchId
+  sourceBatchId: string;
+  sku: string;
+  createdAt: string; // BatchEntry.createdAt, used to restore the entry on cancellation
   quantity: number;
+}
+
+export interface OrderStatusChange {
+  from?: OrderStatus;
+  to: OrderStatus;
+  timestamp: string;
+  user: string;
+}
+
+export interface Order {
+  id: string; // Firestore document ID
+  orderId: string; // Manual order identifier
+  name?: string; // Customer or requester name (optional)
   orderType: string; // Selected from Setup
+  status?: OrderStatus; // Missing on orders created before the lifecycle existed (stock already deducted)
+  allocations?: OrderAllocation[]; // Set on confirmation
+  statusHistory?: OrderStatusChange[];
+  lines: OrderLine[];
+  subtotal: number; // Sum of quantity * unitPrice
+  taxTotal: number; // Sum of GST across lines
+  total: number; // subtotal + taxTotal
   createdAt: string;
 }
+
+export type StockItemKind = "RawMaterial" | "StoreItem" | "FinalStock";
+
+export type StockMovementReason =
+  | "restock"
+  | "batch_consumption"
+  | "batch_output"
+  | "order_fulfilment"
+  | "order_cancellation"
+  | "manual_adjustment";
+
+export interface StockMovement {
+  id: string; // Firestore document ID
+  itemId: string; // RawMaterial.id (raw or Store item) or FinalStock.id
+  itemKind: StockItemKind;
+  itemName: string; // Denormalized for reporting
+  quantity: number; // Signed: positive = inward, negative = outward
+  unit: string;
+  reason: StockMovementReason;
+  batchId?: string; // Human-readable batch ID (Batch.batchId) for batch movements
+  stage?: ProcessingStageName;
+  orderId?: string; // Order.orderId for order fulfilment
+  restockId?: string; // RestockRecord.id for restocks
+  balanceAfter?: number; // Item quantity after this movement, when known
+  user: string;
+  timestamp: string; // ISO string
+}
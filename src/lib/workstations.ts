@@ -0,0 +1,124 @@
+import type { Batch, ProcessingStageName, ShiftCalendar, Workstation, WorkstationType } from "./types"
+import { workingTimeBetween } from "./shifts"
+import { getStageRuns } from "./stage-cycles"
+
+/**
+ * Workstations (machines, cells, benches) and the output recorded against them.
+ *
+ * Each production cycle (or completed stage, before cycles were recorded)
+ * carries the workstation and operator that ran it, so output, rejects and
+ * run time can be totalled per machine and per operator.
+ * Names are copied onto the stage so history still reads correctly after a
+ * workstation is renamed or deleted.
+ */
+
+export const WORKSTATION_TYPES: WorkstationType[] = [
+  "Injection Moulding Machine",
+  "CNC Machine",
+  "Assembly Cell",
+  "Test Bench",
+  "Other",
+]
+
+/**
+ * Active workstations of a stage, by code.
+ */
+export function getStageWorkstations(workstations: Workstation[], stage: ProcessingStageName): Workstation[] {
+  return workstations
+    .filter((w) => w.stage === stage && w.active)
+    .sort((a, b) => a.code.localeCompare(b.code))
+}
+
+export function getWorkstationLabel(workstation: Pick<Workstation, "code" | "name">): string {
+  return workstation.code ? `${workstation.code} · ${workstation.name}` : workstation.name
+}
+
+export interface OutputRow {
+  key: string // Workstation or operator ID; "" for stages run without one
+  label: string
+  stage?: ProcessingStageName // Set on workstation rows
+  capacityPerHour?: number
+  runs: number // Batch stages completed
+  accepted: number
+  rejected: number
+  runMs: number // Working time from the start to the end of each run
+}
+
+export function getRejectRate(row: Pick<OutputRow, "accepted" | "rejected">): number {
+  const total = row.accepted + row.rejected
+  return total > 0 ? row.rejected / total : 0
+}
+
+/**
+ * Accepted units per hour of run time; 0 when no run time was recorded.
+ */
+export function getOutputPerHour(row: Pick<OutputRow, "accepted" | "runMs">): number {
+  return row.runMs > 0 ? row.accepted / (row.runMs / 3_600_000) : 0
+}
+
+/**
+ * Completed stages finished between two dates (YYYY-MM-DD, either may be empty),
+ * totalled per workstation and per operator.
+ */
+export function summarizeStageOutput(
+  batches: Batch[],
+  workstations: Workstation[],
+  options: { from?: string; to?: string; stage?: ProcessingStageName; calendar?: ShiftCalendar } = {},
+): { byWorkstation: OutputRow[]; byOperator: OutputRow[] } {
+  const start = options.from ? new Date(options.from + "T00:00:00").getTime() : -Infinity
+  const end = options.to ? new Date(options.to + "T23:59:59.999").getTime() : Infinity
+  const configured = new Map(workstations.map((w) => [w.id, w]))
+  const byWorkstation = new Map<string, OutputRow>()
+  const byOperator = new Map<string, OutputRow>()
+
+  const add = (rows: Map<string, OutputRow>, seed: Omit<OutputRow, "runs" | "accepted" | "rejected" | "runMs">, data: {
+    accepted: number
+    rejected: number
+    runMs: number
+  }) => {
+    const row = rows.get(seed.key) || { ...seed, runs: 0, accepted: 0, rejected: 0, runMs: 0 }
+    row.runs += 1
+    row.accepted += data.accepted
+    row.rejected += data.rejected
+    row.runMs += data.runMs
+    rows.set(seed.key, row)
+  }
+
+  for (const batch of batches) {
+    for (const [stage, data] of Object.entries(batch.processingStages || {})) {
+      if (options.stage && stage !== options.stage) continue
+      for (const run of getStageRuns(data)) {
+        const finished = new Date(run.endedAt).getTime()
+        if (finished < start || finished > end) continue
+        const totals = {
+          accepted: Number(run.accepted || 0),
+          rejected: Number(run.rejected || 0),
+          runMs: workingTimeBetween(run.startedAt, run.endedAt, options.calendar),
+        }
+        if (totals.accepted + totals.rejected <= 0) continue
+
+        const workstation = run.workstationId ? configured.get(run.workstationId) : undefined
+        add(
+          byWorkstation,
+          {
+            key: `${stage}|${run.workstationId || ""}`,
+            label: workstation
+              ? getWorkstationLabel(workstation)
+              : run.workstationName || "No workstation recorded",
+            stage,
+            ...(workstation ? { capacityPerHour: Number(workstation.capacityPerHour || 0) } : {}),
+          },
+          totals,
+        )
+        add(
+          byOperator,
+          { key: run.operatorId || "", label: run.operatorName || "No operator recorded" },
+          totals,
+        )
+      }
+    }
+  }
+
+  const sort = (rows: Map<string, OutputRow>) => [...rows.values()].sort((a, b) => b.accepted - a.accepted)
+  return { byWorkstation: sort(byWorkstation), byOperator: sort(byOperator) }
+}